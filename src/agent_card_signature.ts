@@ -0,0 +1,242 @@
+import { AgentCard, AgentCardSignature } from './types.js';
+
+/**
+ * JWS algorithms supported for Agent Card signatures.
+ */
+export type AgentCardSignatureAlgorithm =
+  | 'ES256'
+  | 'ES384'
+  | 'ES512'
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'PS256'
+  | 'PS384'
+  | 'PS512'
+  | 'EdDSA'
+  | 'Ed25519';
+
+/**
+ * A JSON Web Key (RFC 7517) with the members used to select it.
+ */
+export type AgentCardJsonWebKey = JsonWebKey & { kid?: string; use?: string };
+
+/**
+ * A JSON Web Key Set (RFC 7517) of keys trusted to sign Agent Cards.
+ */
+export interface AgentCardJsonWebKeySet {
+  keys: AgentCardJsonWebKey[];
+}
+
+/**
+ * The protected header of an Agent Card signature.
+ */
+export interface AgentCardSignatureHeader {
+  alg: AgentCardSignatureAlgorithm;
+  typ?: string;
+  kid?: string;
+  jku?: string;
+  [k: string]: unknown;
+}
+
+interface AlgorithmParams {
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  signParams: RsaPssParams | EcdsaParams | Algorithm;
+}
+
+const ED25519: AlgorithmParams = {
+  importParams: { name: 'Ed25519' },
+  signParams: { name: 'Ed25519' },
+};
+
+const ALGORITHMS: Record<AgentCardSignatureAlgorithm, AlgorithmParams> = {
+  ES256: ecdsa('P-256', 'SHA-256'),
+  ES384: ecdsa('P-384', 'SHA-384'),
+  ES512: ecdsa('P-521', 'SHA-512'),
+  RS256: rsa('RSASSA-PKCS1-v1_5', 'SHA-256'),
+  RS384: rsa('RSASSA-PKCS1-v1_5', 'SHA-384'),
+  RS512: rsa('RSASSA-PKCS1-v1_5', 'SHA-512'),
+  PS256: rsa('RSA-PSS', 'SHA-256', 32),
+  PS384: rsa('RSA-PSS', 'SHA-384', 48),
+  PS512: rsa('RSA-PSS', 'SHA-512', 64),
+  // `EdDSA` (RFC 8037) and its fully-specified form `Ed25519` (RFC 9864), used by Web Crypto.
+  EdDSA: ED25519,
+  Ed25519: ED25519,
+};
+
+/**
+ * Serializes an Agent Card for signing, using the JSON Canonicalization Scheme (RFC 8785).
+ * The `signatures` member is excluded, so that signatures can be added to a signed card.
+ */
+export function canonicalizeAgentCard(card: AgentCard): string {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { signatures, ...unsigned } = card;
+  return canonicalizeJson(unsigned);
+}
+
+/**
+ * Verifies the signatures of an Agent Card against a set of trusted keys.
+ * Signatures using unsupported algorithms or unknown keys are ignored.
+ *
+ * @returns Whether at least one signature is valid.
+ */
+export async function verifyAgentCardSignatures(
+  card: AgentCard,
+  jwks: AgentCardJsonWebKeySet
+): Promise<boolean> {
+  const payload = base64UrlEncode(new TextEncoder().encode(canonicalizeAgentCard(card)));
+  for (const signature of card.signatures ?? []) {
+    if (await verifySignature(signature, payload, jwks)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function verifySignature(
+  signature: AgentCardSignature,
+  payload: string,
+  jwks: AgentCardJsonWebKeySet
+): Promise<boolean> {
+  let header: AgentCardSignatureHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64UrlDecode(signature.protected)));
+  } catch {
+    return false;
+  }
+  const unprotectedKid = signature.header?.kid;
+  return verifyJwsSignature(
+    {
+      ...header,
+      kid: header?.kid ?? (typeof unprotectedKid === 'string' ? unprotectedKid : undefined),
+    },
+    `${signature.protected}.${payload}`,
+    signature.signature,
+    jwks
+  );
+}
+
+/**
+ * Verifies the signature of a JWS signing input with the keys of a set matching the
+ * algorithm and key ID of its header.
+ * @internal
+ */
+export async function verifyJwsSignature(
+  header: AgentCardSignatureHeader,
+  signingInput: string,
+  signature: string,
+  jwks: AgentCardJsonWebKeySet
+): Promise<boolean> {
+  if (!isAgentCardSignatureAlgorithm(header?.alg)) {
+    return false;
+  }
+  const algorithm = ALGORITHMS[header.alg];
+  const kid = header.kid;
+  const candidates = jwks.keys.filter(
+    (key) =>
+      (kid === undefined || key.kid === kid) &&
+      (key.alg === undefined ||
+        (isAgentCardSignatureAlgorithm(key.alg) && ALGORITHMS[key.alg] === algorithm)) &&
+      (key.use === undefined || key.use === 'sig')
+  );
+
+  const input = new TextEncoder().encode(signingInput);
+  for (const jwk of candidates) {
+    try {
+      const key = await importAgentCardKey(jwk, header.alg, 'verify');
+      if (
+        await crypto.subtle.verify(algorithm.signParams, key, base64UrlDecode(signature), input)
+      ) {
+        return true;
+      }
+    } catch {
+      // The key does not match the algorithm; try the next one.
+    }
+  }
+  return false;
+}
+
+/**
+ * Imports a JSON Web Key for signing or verifying Agent Cards with the given algorithm.
+ * @internal
+ */
+export async function importAgentCardKey(
+  jwk: JsonWebKey,
+  alg: AgentCardSignatureAlgorithm,
+  usage: 'sign' | 'verify'
+): Promise<CryptoKey> {
+  // Web Crypto rejects keys whose `alg` or `key_ops` do not match exactly.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { alg: _alg, key_ops, ...keyData } = jwk;
+  return crypto.subtle.importKey('jwk', keyData, ALGORITHMS[alg].importParams, false, [usage]);
+}
+
+/**
+ * Signs `<protected>.<payload>` with the given algorithm.
+ * @internal
+ */
+export async function signAgentCardInput(
+  key: CryptoKey,
+  alg: AgentCardSignatureAlgorithm,
+  signingInput: string
+): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign(
+    ALGORITHMS[alg].signParams,
+    key,
+    new TextEncoder().encode(signingInput)
+  );
+  return new Uint8Array(signature);
+}
+
+function isAgentCardSignatureAlgorithm(alg: unknown): alg is AgentCardSignatureAlgorithm {
+  return typeof alg === 'string' && Object.prototype.hasOwnProperty.call(ALGORITHMS, alg);
+}
+
+/** @internal */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** @internal */
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize non-finite numbers.');
+    }
+    // JSON.stringify serializes numbers and strings as required by RFC 8785.
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalizeJson(item)).join(',')}]`;
+  }
+  const members = Object.entries(value)
+    .filter(([, member]) => member !== undefined)
+    // Keys are sorted by UTF-16 code units, which is the default string order.
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, member]) => `${JSON.stringify(key)}:${canonicalizeJson(member)}`);
+  return `{${members.join(',')}}`;
+}
+
+function ecdsa(namedCurve: string, hash: string): AlgorithmParams {
+  return {
+    importParams: { name: 'ECDSA', namedCurve },
+    signParams: { name: 'ECDSA', hash },
+  };
+}
+
+function rsa(name: string, hash: string, saltLength?: number): AlgorithmParams {
+  return {
+    importParams: { name, hash },
+    signParams: saltLength === undefined ? { name } : { name, saltLength },
+  };
+}
@@ -0,0 +1,62 @@
+import { AgentCard } from '../types.js';
+
+/**
+ * An agent card cached by a {@link CachingAgentCardResolver}, with its HTTP validators.
+ */
+export interface AgentCardCacheEntry {
+  agentCard: AgentCard;
+  /** The `ETag` of the response, sent back in `If-None-Match`. */
+  etag?: string;
+  /** The `Last-Modified` date of the response, sent back in `If-Modified-Since`. */
+  lastModified?: string;
+  /** Until when the card can be used without revalidation, in milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+/**
+ * Storage for agent cards cached by a {@link CachingAgentCardResolver}, keyed by agent card URL.
+ */
+export interface AgentCardCache {
+  get(key: string): Promise<AgentCardCacheEntry | undefined>;
+  set(key: string, entry: AgentCardCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface InMemoryAgentCardCacheOptions {
+  /**
+   * Maximum number of cached agent cards. The least recently used cards are evicted first.
+   * Defaults to 1000.
+   */
+  maxEntries?: number;
+}
+
+export class InMemoryAgentCardCache implements AgentCardCache {
+  private readonly entries: Map<string, AgentCardCacheEntry> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(options?: InMemoryAgentCardCacheOptions) {
+    this.maxEntries = options?.maxEntries ?? 1000;
+  }
+
+  async get(key: string): Promise<AgentCardCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: AgentCardCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -1,9 +1,27 @@
+import { AgentCardJsonWebKeySet, verifyAgentCardSignatures } from '../agent_card_signature.js';
 import { AGENT_CARD_PATH } from '../constants.js';
+import { AgentCardCache, AgentCardCacheEntry, InMemoryAgentCardCache } from './agent-card-cache.js';
 import { AgentCard } from '../types.js';
 
 export interface AgentCardResolverOptions {
   path?: string;
   fetchImpl?: typeof fetch;
+  /**
+   * Keys trusted to sign agent cards, or a function loading them (e.g. from a JWKS URL).
+   * When set, cards without a valid signature from one of these keys are rejected
+   * with an {@link AgentCardSignatureError}.
+   */
+  trustedKeys?: AgentCardJsonWebKeySet | (() => Promise<AgentCardJsonWebKeySet>);
+}
+
+/**
+ * Thrown when an agent card is not signed by a trusted key, or was modified after signing.
+ */
+export class AgentCardSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentCardSignatureError';
+  }
 }
 
 export interface AgentCardResolver {
@@ -24,15 +42,43 @@ export class DefaultAgentCardResolver implements AgentCardResolver {
    * 3) .well-known/agent-card.json
    */
   async resolve(baseUrl: string, path?: string): Promise<AgentCard> {
-    const agentCardUrl = new URL(path ?? this.options?.path ?? AGENT_CARD_PATH, baseUrl);
+    const agentCardUrl = this.agentCardUrl(baseUrl, path);
     const response = await this.fetchImpl(agentCardUrl);
+    return this.readAgentCard(response, agentCardUrl);
+  }
+
+  protected agentCardUrl(baseUrl: string, path?: string): URL {
+    return new URL(path ?? this.options?.path ?? AGENT_CARD_PATH, baseUrl);
+  }
+
+  /**
+   * Parses the agent card from a response, verifying its signatures if trusted keys are configured.
+   */
+  protected async readAgentCard(response: Response, agentCardUrl: URL): Promise<AgentCard> {
     if (!response.ok) {
       throw new Error(`Failed to fetch Agent Card from ${agentCardUrl}: ${response.status}`);
     }
-    return await response.json();
+    const agentCard: AgentCard = await response.json();
+    if (this.options?.trustedKeys) {
+      await this.verifySignatures(agentCard, agentCardUrl);
+    }
+    return agentCard;
+  }
+
+  protected async verifySignatures(agentCard: AgentCard, agentCardUrl: URL): Promise<void> {
+    if (!agentCard.signatures?.length) {
+      throw new AgentCardSignatureError(`Agent Card from ${agentCardUrl} is not signed.`);
+    }
+    const trustedKeys = this.options!.trustedKeys!;
+    const jwks = typeof trustedKeys === 'function' ? await trustedKeys() : trustedKeys;
+    if (!(await verifyAgentCardSignatures(agentCard, jwks))) {
+      throw new AgentCardSignatureError(
+        `Agent Card from ${agentCardUrl} has no valid signature from a trusted key.`
+      );
+    }
   }
 
-  private fetchImpl(...args: Parameters<typeof fetch>): ReturnType<typeof fetch> {
+  protected fetchImpl(...args: Parameters<typeof fetch>): ReturnType<typeof fetch> {
     if (this.options?.fetchImpl) {
       return this.options.fetchImpl(...args);
     }
@@ -40,6 +86,141 @@ export class DefaultAgentCardResolver implements AgentCardResolver {
   }
 }
 
+export interface CachingAgentCardResolverOptions extends AgentCardResolverOptions {
+  /**
+   * Where agent cards are cached. Defaults to an {@link InMemoryAgentCardCache}.
+   * Share a cache between resolvers, or use a distributed one, to reuse cards across clients.
+   */
+  cache?: AgentCardCache;
+}
+
+/**
+ * An {@link AgentCardResolver} caching agent cards according to their HTTP caching headers.
+ *
+ * Cards are reused without a request while fresh (`Cache-Control: max-age`, or `Expires`),
+ * and revalidated with `If-None-Match`/`If-Modified-Since` afterwards, so that unchanged cards
+ * are not downloaded again. `Cache-Control: no-store` responses are not cached.
+ *
+ * Since the cache may be shared, cached cards are verified against the `trustedKeys` of the
+ * resolver each time they are returned, and callers receive copies of them.
+ *
+ * @example
+ * ```ts
+ * const factory = new ClientFactory(
+ *   ClientFactoryOptions.createFrom(ClientFactoryOptions.default, {
+ *     cardResolver: new CachingAgentCardResolver(),
+ *   })
+ * );
+ * ```
+ */
+export class CachingAgentCardResolver extends DefaultAgentCardResolver {
+  private readonly cache: AgentCardCache;
+
+  constructor(options?: CachingAgentCardResolverOptions) {
+    super(options);
+    this.cache = options?.cache ?? new InMemoryAgentCardCache();
+  }
+
+  async resolve(baseUrl: string, path?: string): Promise<AgentCard> {
+    const agentCardUrl = this.agentCardUrl(baseUrl, path);
+    const key = agentCardUrl.href;
+    const cached = await this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return this.readCachedAgentCard(cached, agentCardUrl);
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+    const response = await this.fetchImpl(agentCardUrl, { headers });
+
+    if (response.status === 304 && cached) {
+      const revalidated = cacheEntry(cached.agentCard, response, cached);
+      if (revalidated) {
+        await this.cache.set(key, revalidated);
+      } else {
+        await this.cache.delete(key);
+      }
+      return this.readCachedAgentCard(cached, agentCardUrl);
+    }
+
+    const agentCard = await this.readAgentCard(response, agentCardUrl);
+    const entry = cacheEntry(copyAgentCard(agentCard), response);
+    if (entry) {
+      await this.cache.set(key, entry);
+    } else if (cached) {
+      await this.cache.delete(key);
+    }
+    return agentCard;
+  }
+
+  private async readCachedAgentCard(
+    entry: AgentCardCacheEntry,
+    agentCardUrl: URL
+  ): Promise<AgentCard> {
+    const agentCard = copyAgentCard(entry.agentCard);
+    if (this.options?.trustedKeys) {
+      await this.verifySignatures(agentCard, agentCardUrl);
+    }
+    return agentCard;
+  }
+}
+
+function copyAgentCard(agentCard: AgentCard): AgentCard {
+  return JSON.parse(JSON.stringify(agentCard));
+}
+
+/**
+ * Builds the cache entry of an agent card response, or returns undefined if it must not be stored.
+ */
+function cacheEntry(
+  agentCard: AgentCard,
+  response: Response,
+  previous?: AgentCardCacheEntry
+): AgentCardCacheEntry | undefined {
+  const directives = parseCacheControl(response.headers.get('Cache-Control'));
+  if (directives.has('no-store')) {
+    return undefined;
+  }
+  const etag = response.headers.get('ETag') ?? previous?.etag;
+  const lastModified = response.headers.get('Last-Modified') ?? previous?.lastModified;
+
+  const now = Date.now();
+  let expiresAt = now;
+  if (!directives.has('no-cache')) {
+    const maxAge = Number(directives.get('max-age'));
+    const expires = Date.parse(response.headers.get('Expires') ?? '');
+    if (Number.isFinite(maxAge)) {
+      const age = Number(response.headers.get('Age')) || 0;
+      expiresAt = now + Math.max(0, maxAge - age) * 1000;
+    } else if (!Number.isNaN(expires)) {
+      const date = Date.parse(response.headers.get('Date') ?? '');
+      expiresAt = now + Math.max(0, expires - (Number.isNaN(date) ? now : date));
+    }
+  }
+
+  // Without freshness or validators, the card would have to be downloaded again anyway.
+  if (expiresAt <= now && !etag && !lastModified) {
+    return undefined;
+  }
+  return { agentCard, etag, lastModified, expiresAt };
+}
+
+function parseCacheControl(header: string | null): Map<string, string | undefined> {
+  const directives = new Map<string, string | undefined>();
+  for (const directive of header?.split(',') ?? []) {
+    const [name, value] = directive.split('=', 2);
+    if (name.trim()) {
+      directives.set(name.trim().toLowerCase(), value?.trim().replace(/^"|"$/g, ''));
+    }
+  }
+  return directives;
+}
+
 export const AgentCardResolver = {
   default: new DefaultAgentCardResolver(),
 };
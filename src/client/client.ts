@@ -3,7 +3,6 @@ import {
   JSONRPCResponse,
   MessageSendParams,
   SendMessageResponse,
-  TaskQueryParams,
   GetTaskResponse,
   TaskIdParams,
   CancelTaskResponse,
@@ -22,6 +21,7 @@ import {
   JSONRPCErrorResponse,
 } from '../types.js'; // Assuming schema.ts is in the same directory or appropriately pathed
 import { AGENT_CARD_PATH } from '../constants.js';
+import { GetTaskParams } from '../task_state_transitions.js';
 import { JsonRpcTransport } from './transports/json_rpc_transport.js';
 import { RequestOptions } from './multitransport-client.js';
 
@@ -247,11 +247,11 @@ export class A2AClient {
 
   /**
    * Retrieves a task by its ID.
-   * @param params Parameters containing the taskId and optional historyLength.
+   * @param params Parameters containing the taskId, and optional historyLength and stateTransitionHistoryLength.
    * @returns A Promise resolving to GetTaskResponse, which contains the Task object or an error.
    */
-  public async getTask(params: TaskQueryParams): Promise<GetTaskResponse> {
-    return await this.invokeJsonRpc<TaskQueryParams, GetTaskResponse>(
+  public async getTask(params: GetTaskParams): Promise<GetTaskResponse> {
+    return await this.invokeJsonRpc<GetTaskParams, GetTaskResponse>(
       (t, p, id) => t.getTask(p, A2AClient.emptyOptions, id),
       params
     );
@@ -5,11 +5,25 @@
 export { A2AClient } from './client.js';
 export type { A2AClientOptions } from './client.js';
 export * from './auth-handler.js';
+export {
+  OAuth2AuthenticationHandler,
+  type OAuth2AuthenticationHandlerOptions,
+  OAuth2TokenError,
+} from './oauth2-auth-handler.js';
 export {
   AgentCardResolver,
   type AgentCardResolverOptions,
+  AgentCardSignatureError,
+  CachingAgentCardResolver,
+  type CachingAgentCardResolverOptions,
   DefaultAgentCardResolver,
 } from './card-resolver.js';
+export {
+  type AgentCardCache,
+  type AgentCardCacheEntry,
+  InMemoryAgentCardCache,
+  type InMemoryAgentCardCacheOptions,
+} from './agent-card-cache.js';
 export { Client, type ClientConfig, type RequestOptions } from './multitransport-client.js';
 export type { Transport, TransportFactory } from './transports/transport.js';
 export { ClientFactory, ClientFactoryOptions } from './factory.js';
@@ -18,10 +32,18 @@ export {
   JsonRpcTransportFactory,
   type JsonRpcTransportOptions,
 } from './transports/json_rpc_transport.js';
+export {
+  RestTransport,
+  RestTransportFactory,
+  RestTransportError,
+  type RestTransportOptions,
+  type RestErrorBody,
+} from './transports/rest_transport.js';
 export type {
   CallInterceptor,
   BeforeArgs,
   AfterArgs,
+  CompleteArgs,
   ClientCallInput,
   ClientCallResult,
 } from './interceptors.js';
@@ -29,5 +51,7 @@ export {
   ServiceParameters,
   type ServiceParametersUpdate,
   withA2AExtensions,
+  withTimeout,
 } from './service-parameters.js';
 export { ClientCallContext, type ContextUpdate, ClientCallContextKey } from './context.js';
+export { TracingInterceptor, withTraceContext } from './tracing-interceptor.js';
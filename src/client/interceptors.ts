@@ -13,6 +13,13 @@ export interface CallInterceptor {
    * Invoked after transport method.
    */
   after(args: AfterArgs): Promise<void>;
+
+  /**
+   * Invoked in reverse order once the call is over, whether it returned or the transport method
+   * threw. For `sendMessageStream` and `resubscribeTask`, invoked once the stream ended, failed
+   * or was abandoned by the caller. Optional.
+   */
+  onComplete?(args: CompleteArgs): Promise<void>;
 }
 
 export interface BeforeArgs<K extends keyof Client = keyof Client> {
@@ -63,6 +70,28 @@ export interface AfterArgs<K extends keyof Client = keyof Client> {
   options?: RequestOptions;
 }
 
+export interface CompleteArgs<K extends keyof Client = keyof Client> {
+  /**
+   * Identifies the client method invoked.
+   */
+  readonly method: K;
+
+  /**
+   * Identifies the agent card cached on the client
+   */
+  readonly agentCard: AgentCard;
+
+  /**
+   * The error the call failed with, if it failed.
+   */
+  readonly error?: unknown;
+
+  /**
+   * Options passed to the client.
+   */
+  options?: RequestOptions;
+}
+
 export type ClientCallInput<K extends keyof Client = keyof Client> = MethodInput<Client, K>;
 export type ClientCallResult<K extends keyof Client = keyof Client> = MethodResult<
   Client,
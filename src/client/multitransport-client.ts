@@ -6,16 +6,19 @@ import {
   ListTaskPushNotificationConfigParams,
   Task,
   TaskIdParams,
-  TaskQueryParams,
   PushNotificationConfig,
   AgentCard,
 } from '../types.js';
+import { ListTasksParams, ListTasksResult } from '../list_tasks.js';
+import { ResubscribeTaskParams } from '../resubscribe.js';
+import { GetTaskParams } from '../task_state_transitions.js';
 import { A2AStreamEventData, SendMessageResult } from './client.js';
 import { ClientCallContext } from './context.js';
 import {
   CallInterceptor,
   BeforeArgs,
   AfterArgs,
+  CompleteArgs,
   ClientCallResult,
   ClientCallInput,
 } from './interceptors.js';
@@ -121,43 +124,54 @@ export class Client {
     };
     const beforeResult = await this.interceptBefore(beforeArgs);
 
-    if (beforeResult) {
-      const earlyReturn = beforeResult.earlyReturn.value;
-      const afterArgs: AfterArgs<'sendMessageStream'> = {
-        result: { method, value: earlyReturn },
-        agentCard: this.agentCard,
-        options: beforeArgs.options,
-      };
-      await this.interceptAfter(afterArgs, beforeResult.executed);
-      yield afterArgs.result.value;
-      return;
-    }
+    let failure: { error: unknown } | undefined;
+    try {
+      if (beforeResult) {
+        const earlyReturn = beforeResult.earlyReturn.value;
+        const afterArgs: AfterArgs<'sendMessageStream'> = {
+          result: { method, value: earlyReturn },
+          agentCard: this.agentCard,
+          options: beforeArgs.options,
+        };
+        await this.interceptAfter(afterArgs, beforeResult.executed);
+        yield afterArgs.result.value;
+        return;
+      }
 
-    if (!this.agentCard.capabilities.streaming) {
-      const result = await this.transport.sendMessage(beforeArgs.input.value, beforeArgs.options);
-      const afterArgs: AfterArgs<'sendMessageStream'> = {
-        result: { method, value: result },
-        agentCard: this.agentCard,
-        options: beforeArgs.options,
-      };
-      await this.interceptAfter(afterArgs);
-      yield afterArgs.result.value;
-      return;
-    }
-    for await (const event of this.transport.sendMessageStream(
-      beforeArgs.input.value,
-      beforeArgs.options
-    )) {
-      const afterArgs: AfterArgs<'sendMessageStream'> = {
-        result: { method, value: event },
-        agentCard: this.agentCard,
-        options: beforeArgs.options,
-      };
-      await this.interceptAfter(afterArgs);
-      yield afterArgs.result.value;
-      if (afterArgs.earlyReturn) {
+      if (!this.agentCard.capabilities.streaming) {
+        const result = await this.transport.sendMessage(beforeArgs.input.value, beforeArgs.options);
+        const afterArgs: AfterArgs<'sendMessageStream'> = {
+          result: { method, value: result },
+          agentCard: this.agentCard,
+          options: beforeArgs.options,
+        };
+        await this.interceptAfter(afterArgs);
+        yield afterArgs.result.value;
         return;
       }
+      for await (const event of this.transport.sendMessageStream(
+        beforeArgs.input.value,
+        beforeArgs.options
+      )) {
+        const afterArgs: AfterArgs<'sendMessageStream'> = {
+          result: { method, value: event },
+          agentCard: this.agentCard,
+          options: beforeArgs.options,
+        };
+        await this.interceptAfter(afterArgs);
+        yield afterArgs.result.value;
+        if (afterArgs.earlyReturn) {
+          return;
+        }
+      }
+    } catch (error) {
+      failure = { error };
+      throw error;
+    } finally {
+      await this.interceptComplete(
+        { method, agentCard: this.agentCard, options: beforeArgs.options, ...failure },
+        beforeResult?.executed
+      );
     }
   }
 
@@ -235,7 +249,7 @@ export class Client {
   /**
    * Retrieves the current state (including status, artifacts, and optionally history) of a previously initiated task.
    */
-  getTask(params: TaskQueryParams, options?: RequestOptions): Promise<Task> {
+  getTask(params: GetTaskParams, options?: RequestOptions): Promise<Task> {
     return this.executeWithInterceptors(
       { method: 'getTask', value: params },
       options,
@@ -243,6 +257,18 @@ export class Client {
     );
   }
 
+  /**
+   * Lists tasks visible to the caller, most recently updated first.
+   * Use `nextPageToken` from the result as `pageToken` to fetch the next page.
+   */
+  listTasks(params: ListTasksParams = {}, options?: RequestOptions): Promise<ListTasksResult> {
+    return this.executeWithInterceptors(
+      { method: 'listTasks', value: params },
+      options,
+      this.transport.listTasks.bind(this.transport)
+    );
+  }
+
   /**
    * Requests the cancellation of an ongoing task. The server will attempt to cancel the task,
    * but success is not guaranteed (e.g., the task might have already completed or failed, or cancellation might not be supported at its current stage).
@@ -259,7 +285,7 @@ export class Client {
    * Allows a client to reconnect to an updates stream for an ongoing task after a previous connection was interrupted.
    */
   async *resubscribeTask(
-    params: TaskIdParams,
+    params: ResubscribeTaskParams,
     options?: RequestOptions
   ): AsyncGenerator<A2AStreamEventData, void, undefined> {
     const method = 'resubscribeTask';
@@ -271,32 +297,43 @@ export class Client {
     };
     const beforeResult = await this.interceptBefore(beforeArgs);
 
-    if (beforeResult) {
-      const earlyReturn = beforeResult.earlyReturn.value;
-      const afterArgs: AfterArgs<'resubscribeTask'> = {
-        result: { method, value: earlyReturn },
-        agentCard: this.agentCard,
-        options: beforeArgs.options,
-      };
-      await this.interceptAfter(afterArgs, beforeResult.executed);
-      yield afterArgs.result.value;
-      return;
-    }
-
-    for await (const event of this.transport.resubscribeTask(
-      beforeArgs.input.value,
-      beforeArgs.options
-    )) {
-      const afterArgs: AfterArgs<'resubscribeTask'> = {
-        result: { method, value: event },
-        agentCard: this.agentCard,
-        options: beforeArgs.options,
-      };
-      await this.interceptAfter(afterArgs);
-      yield afterArgs.result.value;
-      if (afterArgs.earlyReturn) {
+    let failure: { error: unknown } | undefined;
+    try {
+      if (beforeResult) {
+        const earlyReturn = beforeResult.earlyReturn.value;
+        const afterArgs: AfterArgs<'resubscribeTask'> = {
+          result: { method, value: earlyReturn },
+          agentCard: this.agentCard,
+          options: beforeArgs.options,
+        };
+        await this.interceptAfter(afterArgs, beforeResult.executed);
+        yield afterArgs.result.value;
         return;
       }
+
+      for await (const event of this.transport.resubscribeTask(
+        beforeArgs.input.value,
+        beforeArgs.options
+      )) {
+        const afterArgs: AfterArgs<'resubscribeTask'> = {
+          result: { method, value: event },
+          agentCard: this.agentCard,
+          options: beforeArgs.options,
+        };
+        await this.interceptAfter(afterArgs);
+        yield afterArgs.result.value;
+        if (afterArgs.earlyReturn) {
+          return;
+        }
+      }
+    } catch (error) {
+      failure = { error };
+      throw error;
+    } finally {
+      await this.interceptComplete(
+        { method, agentCard: this.agentCard, options: beforeArgs.options, ...failure },
+        beforeResult?.executed
+      );
     }
   }
 
@@ -334,29 +371,45 @@ export class Client {
     };
     const beforeResult = await this.interceptBefore(beforeArgs);
 
-    if (beforeResult) {
+    let failure: { error: unknown } | undefined;
+    try {
+      if (beforeResult) {
+        const afterArgs: AfterArgs<K> = {
+          result: {
+            method: input.method,
+            value: beforeResult.earlyReturn.value,
+          } as ClientCallResult<K>,
+          agentCard: this.agentCard,
+          options: beforeArgs.options,
+        };
+        await this.interceptAfter(afterArgs, beforeResult.executed);
+        return afterArgs.result.value;
+      }
+
+      const result = await transportCall(beforeArgs.input.value, beforeArgs.options);
+
       const afterArgs: AfterArgs<K> = {
-        result: {
-          method: input.method,
-          value: beforeResult.earlyReturn.value,
-        } as ClientCallResult<K>,
+        result: { method: input.method, value: result } as ClientCallResult<K>,
         agentCard: this.agentCard,
         options: beforeArgs.options,
       };
-      await this.interceptAfter(afterArgs, beforeResult.executed);
+      await this.interceptAfter(afterArgs);
+
       return afterArgs.result.value;
+    } catch (error) {
+      failure = { error };
+      throw error;
+    } finally {
+      await this.interceptComplete(
+        {
+          method: input.method,
+          agentCard: this.agentCard,
+          options: beforeArgs.options,
+          ...failure,
+        },
+        beforeResult?.executed
+      );
     }
-
-    const result = await transportCall(beforeArgs.input.value, beforeArgs.options);
-
-    const afterArgs: AfterArgs<K> = {
-      result: { method: input.method, value: result } as ClientCallResult<K>,
-      agentCard: this.agentCard,
-      options: beforeArgs.options,
-    };
-    await this.interceptAfter(afterArgs);
-
-    return afterArgs.result.value;
   }
 
   private async interceptBefore<K extends keyof Client>(
@@ -390,4 +443,13 @@ export class Client {
       }
     }
   }
+  private async interceptComplete<K extends keyof Client>(
+    args: CompleteArgs<K>,
+    interceptors?: CallInterceptor[]
+  ): Promise<void> {
+    const reversedInterceptors = [...(interceptors ?? this.config?.interceptors ?? [])].reverse();
+    for (const interceptor of reversedInterceptors) {
+      await interceptor.onComplete?.(args);
+    }
+  }
 }
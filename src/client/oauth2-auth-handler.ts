@@ -0,0 +1,292 @@
+import { AgentCard, OAuth2SecurityScheme, OpenIdConnectSecurityScheme } from '../types.js';
+import { AuthenticationHandler, HttpHeaders } from './auth-handler.js';
+
+export interface OAuth2AuthenticationHandlerOptions {
+  /** The agent card declaring the OAuth2 or OpenID Connect security scheme. */
+  agentCard: AgentCard;
+  /**
+   * Name of the scheme in `agentCard.securitySchemes`.
+   * Defaults to the first `oauth2` or `openIdConnect` scheme.
+   */
+  schemeName?: string;
+  clientId: string;
+  /** The client secret, required for the client-credentials grant. */
+  clientSecret?: string;
+  /**
+   * A refresh token obtained beforehand, e.g. through an authorization-code flow. When set,
+   * access tokens are obtained with the refresh-token grant.
+   */
+  refreshToken?: string;
+  /**
+   * Scopes to request. Defaults to the scopes the card's security requirements list for the scheme.
+   */
+  scopes?: string[];
+  /**
+   * How the client authenticates to the token endpoint (default: `client_secret_basic`).
+   */
+  clientAuthentication?: 'client_secret_basic' | 'client_secret_post';
+  /** Tokens are renewed this many seconds before they expire (default: 30). */
+  expiryMarginSeconds?: number;
+  /**
+   * Token endpoints the client credentials and refresh tokens may be sent to. When set, the
+   * endpoints declared by the agent card or discovered through OpenID Connect must be one of them,
+   * so that a tampered card cannot redirect credentials to another server.
+   */
+  allowedTokenUrls?: string[];
+  /**
+   * Whether plain `http` token and OpenID Connect discovery URLs are accepted, e.g. during
+   * development. Defaults to false.
+   */
+  allowHttp?: boolean;
+  /** Used for token and OpenID Connect discovery requests. */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Thrown when the token endpoint refuses to issue an access token.
+ */
+export class OAuth2TokenError extends Error {
+  constructor(
+    message: string,
+    /** The OAuth2 error code returned by the token endpoint, e.g. `invalid_client`. */
+    public readonly error?: string
+  ) {
+    super(message);
+    this.name = 'OAuth2TokenError';
+  }
+}
+
+interface AccessToken {
+  value: string;
+  /** In milliseconds since the epoch. */
+  expiresAt?: number;
+}
+
+interface TokenEndpoints {
+  clientCredentials?: string;
+  refresh?: string;
+}
+
+/**
+ * An {@link AuthenticationHandler} obtaining access tokens from the token endpoint declared by an
+ * agent card's `OAuth2SecurityScheme` or `OpenIdConnectSecurityScheme`, with the client-credentials
+ * or refresh-token grant. Tokens are cached until they expire, and renewed when the agent answers
+ * 401.
+ *
+ * Plug it into a client through the `fetchImpl` of its transports:
+ *
+ * ```ts
+ * const handler = new OAuth2AuthenticationHandler({ agentCard, clientId, clientSecret });
+ * const fetchImpl = createAuthenticatingFetchWithRetry(fetch, handler);
+ * const factory = new ClientFactory({ transports: [new JsonRpcTransportFactory({ fetchImpl })] });
+ * ```
+ */
+export class OAuth2AuthenticationHandler implements AuthenticationHandler {
+  private readonly scheme: OAuth2SecurityScheme | OpenIdConnectSecurityScheme;
+  private readonly scopes: string[];
+  private refreshToken?: string;
+  private accessToken?: AccessToken;
+  private pendingToken?: Promise<AccessToken>;
+  private endpoints?: Promise<TokenEndpoints>;
+
+  constructor(private readonly options: OAuth2AuthenticationHandlerOptions) {
+    const [schemeName, scheme] = findScheme(options.agentCard, options.schemeName);
+    this.scheme = scheme;
+    this.scopes = options.scopes ?? requiredScopes(options.agentCard, schemeName);
+    this.refreshToken = options.refreshToken;
+  }
+
+  async headers(): Promise<HttpHeaders> {
+    const token = await this.token();
+    return { Authorization: `Bearer ${token.value}` };
+  }
+
+  async shouldRetryWithHeaders(req: RequestInit, res: Response): Promise<HttpHeaders | undefined> {
+    if (res.status !== 401) {
+      return undefined;
+    }
+    const sent = (req.headers as HttpHeaders | undefined)?.Authorization;
+    // Another request may have renewed the token in the meantime.
+    if (this.accessToken && sent === `Bearer ${this.accessToken.value}`) {
+      this.accessToken = undefined;
+    }
+    return this.headers();
+  }
+
+  private token(): Promise<AccessToken> {
+    const margin = (this.options.expiryMarginSeconds ?? 30) * 1000;
+    const token = this.accessToken;
+    if (token && (token.expiresAt === undefined || token.expiresAt - margin > Date.now())) {
+      return Promise.resolve(token);
+    }
+    this.pendingToken ??= this.requestToken().finally(() => {
+      this.pendingToken = undefined;
+    });
+    return this.pendingToken;
+  }
+
+  private async requestToken(): Promise<AccessToken> {
+    const endpoints = await (this.endpoints ??= this.resolveEndpoints());
+    if (this.refreshToken && endpoints.refresh) {
+      try {
+        return await this.grant(endpoints.refresh, {
+          grant_type: 'refresh_token',
+          refresh_token: this.refreshToken,
+        });
+      } catch (error) {
+        // An expired or revoked refresh token can be replaced through client credentials.
+        if (!(error instanceof OAuth2TokenError) || !this.options.clientSecret) {
+          throw error;
+        }
+        this.refreshToken = undefined;
+      }
+    }
+    if (!this.options.clientSecret || !endpoints.clientCredentials) {
+      throw new Error(
+        'Cannot obtain an access token: a refresh token, or a client secret and a scheme ' +
+          'supporting the client-credentials flow, are required.'
+      );
+    }
+    return this.grant(endpoints.clientCredentials, { grant_type: 'client_credentials' });
+  }
+
+  private async grant(tokenUrl: string, params: Record<string, string>): Promise<AccessToken> {
+    const body = new URLSearchParams(params);
+    if (this.scopes.length > 0) {
+      body.set('scope', this.scopes.join(' '));
+    }
+    const headers: HttpHeaders = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    const { clientId, clientSecret } = this.options;
+    if (clientSecret && this.options.clientAuthentication !== 'client_secret_post') {
+      // RFC 6749 section 2.3.1: both parts are form-encoded before being joined.
+      const encode = (value: string) => new URLSearchParams({ v: value }).toString().slice(2);
+      headers.Authorization = `Basic ${btoa(`${encode(clientId)}:${encode(clientSecret)}`)}`;
+    } else {
+      body.set('client_id', clientId);
+      if (clientSecret) {
+        body.set('client_secret', clientSecret);
+      }
+    }
+
+    const response = await this.fetchImpl(tokenUrl, { method: 'POST', headers, body });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || typeof result.access_token !== 'string') {
+      throw new OAuth2TokenError(
+        `Failed to obtain an access token from ${tokenUrl}: ${
+          result.error_description ?? result.error ?? response.status
+        }`,
+        result.error
+      );
+    }
+    if (typeof result.refresh_token === 'string') {
+      this.refreshToken = result.refresh_token;
+    }
+    this.accessToken = {
+      value: result.access_token,
+      expiresAt:
+        typeof result.expires_in === 'number' ? Date.now() + result.expires_in * 1000 : undefined,
+    };
+    return this.accessToken;
+  }
+
+  private async resolveEndpoints(): Promise<TokenEndpoints> {
+    if (this.scheme.type === 'openIdConnect') {
+      const discoveryUrl = this.scheme.openIdConnectUrl;
+      this.checkUrl(discoveryUrl, 'OpenID Connect discovery');
+      const response = await this.fetchImpl(discoveryUrl, {
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch OpenID Connect configuration from ${discoveryUrl}: ${response.status}`
+        );
+      }
+      const { token_endpoint: tokenEndpoint } = await response.json().catch(() => ({}));
+      if (typeof tokenEndpoint !== 'string') {
+        throw new Error(
+          `OpenID Connect configuration of ${discoveryUrl} declares no token_endpoint.`
+        );
+      }
+      this.checkTokenUrl(tokenEndpoint);
+      return { clientCredentials: tokenEndpoint, refresh: tokenEndpoint };
+    }
+    const { clientCredentials, authorizationCode, password } = this.scheme.flows;
+    const refreshFlow = clientCredentials ?? authorizationCode ?? password;
+    const endpoints: TokenEndpoints = {
+      clientCredentials: clientCredentials?.tokenUrl,
+      refresh: refreshFlow?.refreshUrl ?? refreshFlow?.tokenUrl,
+    };
+    for (const url of [endpoints.clientCredentials, endpoints.refresh]) {
+      if (url !== undefined) {
+        this.checkTokenUrl(url);
+      }
+    }
+    return endpoints;
+  }
+
+  /**
+   * Checks that credentials may be sent to a token endpoint: it must use https, and be allowed
+   * by the `allowedTokenUrls` option if set.
+   */
+  private checkTokenUrl(url: string): void {
+    const parsed = this.checkUrl(url, 'token endpoint');
+    const { allowedTokenUrls } = this.options;
+    if (
+      allowedTokenUrls &&
+      !allowedTokenUrls.some((allowed) => new URL(allowed).href === parsed.href)
+    ) {
+      throw new Error(`OAuth2 token endpoint is not allowed: ${url}`);
+    }
+  }
+
+  private checkUrl(url: string, description: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`Invalid OAuth2 ${description} URL: ${url}`);
+    }
+    if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && this.options.allowHttp)) {
+      throw new Error(`OAuth2 ${description} URL must use https: ${url}`);
+    }
+    return parsed;
+  }
+
+  private fetchImpl(...args: Parameters<typeof fetch>): ReturnType<typeof fetch> {
+    if (this.options.fetchImpl) {
+      return this.options.fetchImpl(...args);
+    }
+    return fetch(...args);
+  }
+}
+
+function findScheme(
+  agentCard: AgentCard,
+  schemeName?: string
+): [string, OAuth2SecurityScheme | OpenIdConnectSecurityScheme] {
+  const schemes = Object.entries(agentCard.securitySchemes ?? {});
+  const found = schemes.find(
+    ([name, scheme]) =>
+      (schemeName === undefined || name === schemeName) &&
+      (scheme.type === 'oauth2' || scheme.type === 'openIdConnect')
+  );
+  if (!found) {
+    throw new Error(
+      schemeName === undefined
+        ? `Agent ${agentCard.name} declares no OAuth2 or OpenID Connect security scheme.`
+        : `Security scheme ${schemeName} of agent ${agentCard.name} is not an OAuth2 or OpenID Connect scheme.`
+    );
+  }
+  return found as [string, OAuth2SecurityScheme | OpenIdConnectSecurityScheme];
+}
+
+function requiredScopes(agentCard: AgentCard, schemeName: string): string[] {
+  const requirements = [
+    ...(agentCard.security ?? []),
+    ...agentCard.skills.flatMap((skill) => skill.security ?? []),
+  ];
+  return [...new Set(requirements.flatMap((requirement) => requirement[schemeName] ?? []))];
+}
@@ -1,4 +1,4 @@
-import { HTTP_EXTENSION_HEADER } from '../constants.js';
+import { HTTP_EXTENSION_HEADER, HTTP_TIMEOUT_HEADER } from '../constants.js';
 import { Extensions } from '../extensions.js';
 
 export type ServiceParameters = Record<string, string>;
@@ -27,3 +27,13 @@ export function withA2AExtensions(...extensions: Extensions): ServiceParametersU
     parameters[HTTP_EXTENSION_HEADER] = Extensions.toServiceParameter(extensions);
   };
 }
+
+/**
+ * Sets the time in milliseconds the client waits for the request. Agent executions started by
+ * the request are canceled by the server once it elapses.
+ */
+export function withTimeout(timeoutMs: number): ServiceParametersUpdate {
+  return (parameters: ServiceParameters) => {
+    parameters[HTTP_TIMEOUT_HEADER] = String(Math.max(0, Math.ceil(timeoutMs)));
+  };
+}
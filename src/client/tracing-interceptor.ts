@@ -0,0 +1,123 @@
+import { TRACEPARENT_HEADER } from '../constants.js';
+import {
+  Span,
+  SpanContext,
+  SpanKind,
+  Tracer,
+  formatTraceparent,
+  recordSpanError,
+} from '../tracing.js';
+import { TaskState } from '../types.js';
+import { ClientCallContextKey, ContextUpdate } from './context.js';
+import {
+  AfterArgs,
+  BeforeArgs,
+  CallInterceptor,
+  ClientCallResult,
+  CompleteArgs,
+} from './interceptors.js';
+import { RequestOptions } from './multitransport-client.js';
+import { ServiceParameters } from './service-parameters.js';
+
+// States ending the event stream of a task.
+const FINAL_TASK_STATES: TaskState[] = [
+  'completed',
+  'failed',
+  'canceled',
+  'rejected',
+  'input-required',
+  'auth-required',
+];
+
+const TRACE_CONTEXT_KEY = new ClientCallContextKey<SpanContext>('Trace context');
+
+/**
+ * Sets the parent of the client span recorded by a {@link TracingInterceptor}, e.g. the
+ * `traceContext` of the server call an agent executor is handling, so that the calls it makes to
+ * other agents belong to the same trace.
+ *
+ * @example
+ * ```ts
+ * await client.sendMessage(params, {
+ *   context: ClientCallContext.create(withTraceContext(requestContext.context.traceContext)),
+ * });
+ * ```
+ */
+export function withTraceContext(traceContext: SpanContext): ContextUpdate {
+  return TRACE_CONTEXT_KEY.set(traceContext);
+}
+
+/**
+ * Records a client span for each call, and propagates it to the server through the W3C
+ * `traceparent` header. Spans of streaming calls end with the final event of the stream, or
+ * once the stream ended otherwise. Failed calls are recorded with an error status.
+ *
+ * Add it last to the interceptors of the client, so that it runs closest to the transport.
+ */
+export class TracingInterceptor implements CallInterceptor {
+  private readonly spans: WeakMap<RequestOptions, Span> = new WeakMap();
+
+  constructor(private readonly tracer: Tracer) {}
+
+  async before(args: BeforeArgs): Promise<void> {
+    const context = args.options?.context;
+    const span = this.tracer.startSpan(`Client.${args.input.method}`, {
+      kind: SpanKind.CLIENT,
+      parent: context ? TRACE_CONTEXT_KEY.get(context) : undefined,
+      attributes: {
+        'a2a.client.method': args.input.method,
+        'a2a.agent.name': args.agentCard.name,
+        'server.address': args.agentCard.url,
+      },
+    });
+    // Options are copied, since callers may share them between calls.
+    args.options = {
+      ...args.options,
+      serviceParameters: ServiceParameters.createFrom(
+        args.options?.serviceParameters,
+        (parameters) => {
+          parameters[TRACEPARENT_HEADER] = formatTraceparent(span.spanContext());
+        }
+      ),
+    };
+    this.spans.set(args.options, span);
+  }
+
+  async after(args: AfterArgs): Promise<void> {
+    const span = args.options ? this.spans.get(args.options) : undefined;
+    if (!span || !isFinalResult(args.result)) {
+      return;
+    }
+    this.spans.delete(args.options!);
+    span.end();
+  }
+
+  async onComplete(args: CompleteArgs): Promise<void> {
+    const span = args.options ? this.spans.get(args.options) : undefined;
+    if (!span) {
+      return;
+    }
+    this.spans.delete(args.options!);
+    if (args.error !== undefined) {
+      recordSpanError(span, args.error);
+    }
+    span.end();
+  }
+}
+
+function isFinalResult(result: ClientCallResult): boolean {
+  if (result.method !== 'sendMessageStream' && result.method !== 'resubscribeTask') {
+    return true;
+  }
+  const event = result.value;
+  switch (event.kind) {
+    case 'message':
+      return true;
+    case 'status-update':
+      return event.final;
+    case 'task':
+      return FINAL_TASK_STATES.includes(event.status.state);
+    default:
+      return false;
+  }
+}
@@ -17,7 +17,6 @@ import {
   ListTaskPushNotificationConfigParams,
   DeleteTaskPushNotificationConfigParams,
   DeleteTaskPushNotificationConfigResponse,
-  TaskQueryParams,
   Task,
   JSONRPCErrorResponse,
   SendMessageSuccessResponse,
@@ -29,24 +28,77 @@ import {
   AgentCard,
   GetTaskPushNotificationConfigParams,
   GetAuthenticatedExtendedCardSuccessResponse,
+  TaskState,
 } from '../../types.js';
+import {
+  ListTasksParams,
+  ListTasksResponse,
+  ListTasksResult,
+  ListTasksSuccessResponse,
+} from '../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../resubscribe.js';
+import { GetTaskParams } from '../../task_state_transitions.js';
 import { A2AStreamEventData, SendMessageResult } from '../client.js';
 import { RequestOptions } from '../multitransport-client.js';
 import { Transport, TransportFactory } from './transport.js';
 
+export interface StreamReconnectOptions {
+  /**
+   * Maximum number of consecutive attempts to resume an interrupted stream.
+   * Defaults to 0, i.e. automatic reconnection is disabled.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before a reconnection attempt in milliseconds, multiplied by the attempt number.
+   * Defaults to 1000.
+   */
+  delayMs?: number;
+}
+
 export interface JsonRpcTransportOptions {
   endpoint: string;
   fetchImpl?: typeof fetch;
+  /**
+   * Automatic reconnection of `sendMessageStream` and `resubscribeTask` streams.
+   * When the connection ends before the final event, the transport calls `tasks/resubscribe`
+   * with the ID of the last received event so that the server replays the missed events.
+   * Disabled unless `maxAttempts` is set.
+   */
+  streamReconnect?: StreamReconnectOptions;
 }
 
+interface OpenedSseStream {
+  response: Response;
+  requestId: number;
+}
+
+interface StreamResumeState {
+  taskId?: string;
+  lastEventId?: string;
+  /** Whether the final event of the stream was received. */
+  finished: boolean;
+  /** Whether the current connection delivered any task update. */
+  progressed: boolean;
+}
+
+/**
+ * JSON-RPC responses of the A2A methods, including those missing from the generated types.
+ */
+type RpcResponse = JSONRPCResponse | ListTasksResponse;
+
+const TERMINAL_TASK_STATES: TaskState[] = ['completed', 'failed', 'canceled', 'rejected'];
+
 export class JsonRpcTransport implements Transport {
   private readonly customFetchImpl?: typeof fetch;
   private readonly endpoint: string;
+  private readonly streamReconnect?: StreamReconnectOptions;
   private requestIdCounter: number = 1;
 
   constructor(options: JsonRpcTransportOptions) {
     this.endpoint = options.endpoint;
     this.customFetchImpl = options.fetchImpl;
+    this.streamReconnect = options.streamReconnect;
   }
 
   async getExtendedAgentCard(options?: RequestOptions, idOverride?: number): Promise<AgentCard> {
@@ -126,11 +178,11 @@ export class JsonRpcTransport implements Transport {
   }
 
   async getTask(
-    params: TaskQueryParams,
+    params: GetTaskParams,
     options?: RequestOptions,
     idOverride?: number
   ): Promise<Task> {
-    const rpcResponse = await this._sendRpcRequest<TaskQueryParams, GetTaskSuccessResponse>(
+    const rpcResponse = await this._sendRpcRequest<GetTaskParams, GetTaskSuccessResponse>(
       'tasks/get',
       params,
       idOverride,
@@ -139,6 +191,20 @@ export class JsonRpcTransport implements Transport {
     return rpcResponse.result;
   }
 
+  async listTasks(
+    params: ListTasksParams,
+    options?: RequestOptions,
+    idOverride?: number
+  ): Promise<ListTasksResult> {
+    const rpcResponse = await this._sendRpcRequest<ListTasksParams, ListTasksSuccessResponse>(
+      'tasks/list',
+      params,
+      idOverride,
+      options
+    );
+    return rpcResponse.result;
+  }
+
   async cancelTask(
     params: TaskIdParams,
     options?: RequestOptions,
@@ -154,7 +220,7 @@ export class JsonRpcTransport implements Transport {
   }
 
   async *resubscribeTask(
-    params: TaskIdParams,
+    params: ResubscribeTaskParams,
     options?: RequestOptions
   ): AsyncGenerator<A2AStreamEventData, void, undefined> {
     yield* this._sendStreamingRequest('tasks/resubscribe', params, options);
@@ -190,7 +256,7 @@ export class JsonRpcTransport implements Transport {
   private async _sendRpcRequest<
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     TParams extends { [key: string]: any },
-    TResponse extends JSONRPCResponse,
+    TResponse extends RpcResponse,
   >(
     method: string,
     params: TParams,
@@ -229,7 +295,7 @@ export class JsonRpcTransport implements Transport {
       }
     }
 
-    const rpcResponse: JSONRPCResponse = await httpResponse.json();
+    const rpcResponse: RpcResponse = await httpResponse.json();
     if (rpcResponse.id !== requestId) {
       console.error(
         `CRITICAL: RPC response ID mismatch for method ${method}. Expected ${requestId}, got ${rpcResponse.id}.`
@@ -266,6 +332,53 @@ export class JsonRpcTransport implements Transport {
     params: unknown,
     options?: RequestOptions
   ): AsyncGenerator<A2AStreamEventData, void, undefined> {
+    const maxAttempts = this.streamReconnect?.maxAttempts ?? 0;
+    const delayMs = this.streamReconnect?.delayMs ?? 1000;
+    const state: StreamResumeState = { finished: false, progressed: false };
+
+    let stream = await this._openSseStream(method, params, options);
+    let attempt = 0;
+    while (true) {
+      state.progressed = false;
+      let error = yield* this._readSseStream(stream.response, stream.requestId, state);
+      if (state.finished) {
+        return;
+      }
+      if (state.progressed) {
+        attempt = 0;
+      }
+
+      // The connection ended before the final event: resume the task stream from the last
+      // received event, the server replays whatever was emitted in between.
+      let resumed: OpenedSseStream | undefined;
+      while (!resumed) {
+        if (!state.taskId || attempt >= maxAttempts || options?.signal?.aborted) {
+          if (error !== undefined) {
+            throw error;
+          }
+          return;
+        }
+        attempt++;
+        await new Promise((resolve) => setTimeout(resolve, delayMs * attempt));
+        const resubscribeParams: ResubscribeTaskParams = { id: state.taskId };
+        if (state.lastEventId !== undefined) {
+          resubscribeParams.lastEventId = state.lastEventId;
+        }
+        try {
+          resumed = await this._openSseStream('tasks/resubscribe', resubscribeParams, options);
+        } catch (e) {
+          error = e;
+        }
+      }
+      stream = resumed;
+    }
+  }
+
+  private async _openSseStream(
+    method: string,
+    params: unknown,
+    options?: RequestOptions
+  ): Promise<OpenedSseStream> {
     const clientRequestId = this.requestIdCounter++;
     const rpcRequest: JSONRPCRequest = {
       jsonrpc: '2.0',
@@ -303,32 +416,56 @@ export class JsonRpcTransport implements Transport {
       );
     }
 
-    yield* this._parseA2ASseStream<A2AStreamEventData>(response, clientRequestId);
+    return { response, requestId: clientRequestId };
   }
 
-  private async *_parseA2ASseStream<TStreamItem>(
+  /**
+   * Yields the events of an SSE response and records resumption state.
+   * Errors carried by the events are thrown, while a failure to read from the connection
+   * is returned so that the caller can decide to resume the stream.
+   */
+  private async *_readSseStream(
     response: Response,
-    originalRequestId: number | string | null
-  ): AsyncGenerator<TStreamItem, void, undefined> {
+    originalRequestId: number | string | null,
+    state: StreamResumeState
+  ): AsyncGenerator<A2AStreamEventData, unknown, undefined> {
     if (!response.body) {
       throw new Error('SSE response body is undefined. Cannot read stream.');
     }
     const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
     let buffer = '';
     let eventDataBuffer = '';
+    let eventId: string | undefined;
+
+    const dispatch = (): A2AStreamEventData => {
+      const event = this._processSseEventData<A2AStreamEventData>(
+        eventDataBuffer,
+        originalRequestId
+      );
+      JsonRpcTransport._trackStreamEvent(state, event, eventId);
+      eventDataBuffer = '';
+      eventId = undefined;
+      return event;
+    };
 
     try {
       while (true) {
-        const { done, value } = await reader.read();
+        let chunk: ReadableStreamReadResult<string>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          console.error(
+            'Error reading SSE stream:',
+            (error instanceof Error && error.message) || 'Error unknown'
+          );
+          return error;
+        }
+        const { done, value } = chunk;
         if (done) {
           if (eventDataBuffer.trim()) {
-            const result = this._processSseEventData<TStreamItem>(
-              eventDataBuffer,
-              originalRequestId
-            );
-            yield result;
+            yield dispatch();
           }
-          break;
+          return undefined;
         }
 
         buffer += value;
@@ -339,29 +476,48 @@ export class JsonRpcTransport implements Transport {
 
           if (line === '') {
             if (eventDataBuffer) {
-              const result = this._processSseEventData<TStreamItem>(
-                eventDataBuffer,
-                originalRequestId
-              );
-              yield result;
-              eventDataBuffer = '';
+              yield dispatch();
             }
           } else if (line.startsWith('data:')) {
             eventDataBuffer += line.substring(5).trimStart() + '\n';
+          } else if (line.startsWith('id:')) {
+            eventId = line.substring(3).trimStart();
           }
         }
       }
-    } catch (error) {
-      console.error(
-        'Error reading or parsing SSE stream:',
-        (error instanceof Error && error.message) || 'Error unknown'
-      );
-      throw error;
     } finally {
       reader.releaseLock();
     }
   }
 
+  private static _trackStreamEvent(
+    state: StreamResumeState,
+    event: A2AStreamEventData,
+    eventId: string | undefined
+  ): void {
+    if (eventId) {
+      state.lastEventId = eventId;
+    }
+    switch (event.kind) {
+      case 'message':
+        state.finished = true;
+        break;
+      case 'task':
+        state.taskId = event.id;
+        state.finished = TERMINAL_TASK_STATES.includes(event.status.state);
+        break;
+      case 'status-update':
+        state.taskId = event.taskId;
+        state.progressed = true;
+        state.finished = event.final;
+        break;
+      case 'artifact-update':
+        state.taskId = event.taskId;
+        state.progressed = true;
+        break;
+    }
+  }
+
   private _processSseEventData<TStreamItem>(
     jsonData: string,
     originalRequestId: number | string | null
@@ -434,6 +590,7 @@ export class JsonRpcTransport implements Transport {
 
 export class JsonRpcTransportFactoryOptions {
   fetchImpl?: typeof fetch;
+  streamReconnect?: StreamReconnectOptions;
 }
 
 export class JsonRpcTransportFactory implements TransportFactory {
@@ -449,6 +606,7 @@ export class JsonRpcTransportFactory implements TransportFactory {
     return new JsonRpcTransport({
       endpoint: url,
       fetchImpl: this.options?.fetchImpl,
+      streamReconnect: this.options?.streamReconnect,
     });
   }
 }
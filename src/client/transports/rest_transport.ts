@@ -0,0 +1,353 @@
+import { TransportProtocolName } from '../../core.js';
+import {
+  AuthenticatedExtendedCardNotConfiguredError,
+  ContentTypeNotSupportedError,
+  InvalidAgentResponseError,
+  PushNotificationNotSupportedError,
+  TaskNotCancelableError,
+  TaskNotFoundError,
+  UnsupportedOperationError,
+} from '../../errors.js';
+import {
+  MessageSendParams,
+  TaskPushNotificationConfig,
+  TaskIdParams,
+  ListTaskPushNotificationConfigParams,
+  DeleteTaskPushNotificationConfigParams,
+  Task,
+  AgentCard,
+  GetTaskPushNotificationConfigParams,
+} from '../../types.js';
+import { LAST_EVENT_ID_HEADER } from '../../constants.js';
+import { ListTasksParams, ListTasksResult } from '../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../resubscribe.js';
+import { GetTaskParams } from '../../task_state_transitions.js';
+import { parseSSEStream } from '../../sse_utils.js';
+import { A2AStreamEventData, SendMessageResult } from '../client.js';
+import { RequestOptions } from '../multitransport-client.js';
+import { Transport, TransportFactory } from './transport.js';
+
+export interface RestTransportOptions {
+  /**
+   * Base URL of the HTTP+JSON interface, routes like `/v1/message:send` are appended to it.
+   */
+  endpoint: string;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Error body returned by the HTTP+JSON transport.
+ */
+export interface RestErrorBody {
+  code: number;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'DELETE';
+
+export class RestTransport implements Transport {
+  private readonly customFetchImpl?: typeof fetch;
+  private readonly endpoint: string;
+
+  constructor(options: RestTransportOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+    this.customFetchImpl = options.fetchImpl;
+  }
+
+  async getExtendedAgentCard(options?: RequestOptions): Promise<AgentCard> {
+    return this._sendRequest<AgentCard>('GET', '/v1/card', undefined, options);
+  }
+
+  async sendMessage(
+    params: MessageSendParams,
+    options?: RequestOptions
+  ): Promise<SendMessageResult> {
+    return this._sendRequest<SendMessageResult>('POST', '/v1/message:send', params, options);
+  }
+
+  async *sendMessageStream(
+    params: MessageSendParams,
+    options?: RequestOptions
+  ): AsyncGenerator<A2AStreamEventData, void, undefined> {
+    yield* this._sendStreamingRequest('/v1/message:stream', params, options);
+  }
+
+  async setTaskPushNotificationConfig(
+    params: TaskPushNotificationConfig,
+    options?: RequestOptions
+  ): Promise<TaskPushNotificationConfig> {
+    return this._sendRequest<TaskPushNotificationConfig>(
+      'POST',
+      `/v1/tasks/${encodeURIComponent(params.taskId)}/pushNotificationConfigs`,
+      params,
+      options
+    );
+  }
+
+  async getTaskPushNotificationConfig(
+    params: GetTaskPushNotificationConfigParams,
+    options?: RequestOptions
+  ): Promise<TaskPushNotificationConfig> {
+    // For backward compatibility, if no config ID is given, the task ID is used.
+    const configId = params.pushNotificationConfigId ?? params.id;
+    return this._sendRequest<TaskPushNotificationConfig>(
+      'GET',
+      `/v1/tasks/${encodeURIComponent(params.id)}/pushNotificationConfigs/${encodeURIComponent(configId)}`,
+      undefined,
+      options
+    );
+  }
+
+  async listTaskPushNotificationConfig(
+    params: ListTaskPushNotificationConfigParams,
+    options?: RequestOptions
+  ): Promise<TaskPushNotificationConfig[]> {
+    return this._sendRequest<TaskPushNotificationConfig[]>(
+      'GET',
+      `/v1/tasks/${encodeURIComponent(params.id)}/pushNotificationConfigs`,
+      undefined,
+      options
+    );
+  }
+
+  async deleteTaskPushNotificationConfig(
+    params: DeleteTaskPushNotificationConfigParams,
+    options?: RequestOptions
+  ): Promise<void> {
+    await this._sendRequest<void>(
+      'DELETE',
+      `/v1/tasks/${encodeURIComponent(params.id)}/pushNotificationConfigs/${encodeURIComponent(params.pushNotificationConfigId)}`,
+      undefined,
+      options
+    );
+  }
+
+  async getTask(params: GetTaskParams, options?: RequestOptions): Promise<Task> {
+    const query = new URLSearchParams();
+    for (const key of ['historyLength', 'stateTransitionHistoryLength'] as const) {
+      if (params[key] !== undefined) {
+        query.set(key, String(params[key]));
+      }
+    }
+    const queryString = query.toString();
+    return this._sendRequest<Task>(
+      'GET',
+      `/v1/tasks/${encodeURIComponent(params.id)}${queryString ? `?${queryString}` : ''}`,
+      undefined,
+      options
+    );
+  }
+
+  async listTasks(params: ListTasksParams, options?: RequestOptions): Promise<ListTasksResult> {
+    const query = new URLSearchParams();
+    for (const key of [
+      'contextId',
+      'status',
+      'lastUpdatedAfter',
+      'pageSize',
+      'pageToken',
+      'historyLength',
+    ] as const) {
+      if (params[key] !== undefined) {
+        query.set(key, String(params[key]));
+      }
+    }
+    const queryString = query.toString();
+    return this._sendRequest<ListTasksResult>(
+      'GET',
+      `/v1/tasks${queryString ? `?${queryString}` : ''}`,
+      undefined,
+      options
+    );
+  }
+
+  async cancelTask(params: TaskIdParams, options?: RequestOptions): Promise<Task> {
+    return this._sendRequest<Task>(
+      'POST',
+      `/v1/tasks/${encodeURIComponent(params.id)}:cancel`,
+      undefined,
+      options
+    );
+  }
+
+  async *resubscribeTask(
+    params: ResubscribeTaskParams,
+    options?: RequestOptions
+  ): AsyncGenerator<A2AStreamEventData, void, undefined> {
+    if (params.lastEventId) {
+      options = {
+        ...options,
+        serviceParameters: {
+          ...options?.serviceParameters,
+          [LAST_EVENT_ID_HEADER]: params.lastEventId,
+        },
+      };
+    }
+    yield* this._sendStreamingRequest(
+      `/v1/tasks/${encodeURIComponent(params.id)}:subscribe`,
+      undefined,
+      options
+    );
+  }
+
+  private _fetch(...args: Parameters<typeof fetch>): ReturnType<typeof fetch> {
+    if (this.customFetchImpl) {
+      return this.customFetchImpl(...args);
+    }
+    if (typeof fetch === 'function') {
+      return fetch(...args);
+    }
+    throw new Error(
+      'A `fetch` implementation was not provided and is not available in the global scope. ' +
+        'Please provide a `fetchImpl` in the RestTransportOptions. '
+    );
+  }
+
+  private async _fetchRest(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    acceptHeader: string,
+    options: RequestOptions | undefined
+  ): Promise<Response> {
+    const requestInit: RequestInit = {
+      method,
+      headers: {
+        ...options?.serviceParameters,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        Accept: acceptHeader,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: options?.signal,
+    };
+    return this._fetch(`${this.endpoint}${path}`, requestInit);
+  }
+
+  private async _sendRequest<TResponse>(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    options: RequestOptions | undefined
+  ): Promise<TResponse> {
+    const httpResponse = await this._fetchRest(method, path, body, 'application/json', options);
+
+    if (!httpResponse.ok) {
+      throw await RestTransport.errorFromResponse(httpResponse, `${method} ${path}`);
+    }
+
+    if (httpResponse.status === 204) {
+      return undefined as TResponse;
+    }
+    return (await httpResponse.json()) as TResponse;
+  }
+
+  private async *_sendStreamingRequest(
+    path: string,
+    body: unknown,
+    options: RequestOptions | undefined
+  ): AsyncGenerator<A2AStreamEventData, void, undefined> {
+    const response = await this._fetchRest('POST', path, body, 'text/event-stream', options);
+
+    if (!response.ok) {
+      throw await RestTransport.errorFromResponse(response, `POST ${path}`);
+    }
+    if (!response.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+      throw new Error(
+        `Invalid response Content-Type for SSE stream for ${path}. Expected 'text/event-stream'.`
+      );
+    }
+    if (!response.body) {
+      throw new Error('SSE response body is undefined. Cannot read stream.');
+    }
+
+    for await (const event of parseSSEStream(response.body)) {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch (e) {
+        throw new Error(
+          `Failed to parse SSE event data: "${event.data.substring(0, 100)}...". Original error: ${(e instanceof Error && e.message) || 'Unknown error'}`
+        );
+      }
+      if (event.event === 'error') {
+        throw RestTransport.mapToError(data as RestErrorBody);
+      }
+      yield data as A2AStreamEventData;
+    }
+  }
+
+  private static async errorFromResponse(response: Response, operation: string): Promise<Error> {
+    let errorBodyText = '(empty or non-JSON response)';
+    let errorBody: RestErrorBody;
+    try {
+      errorBodyText = await response.text();
+      errorBody = JSON.parse(errorBodyText);
+    } catch (e) {
+      return new Error(
+        `HTTP error for ${operation}! Status: ${response.status} ${response.statusText}. Response: ${errorBodyText}`,
+        { cause: e }
+      );
+    }
+    if (typeof errorBody?.code === 'number' && typeof errorBody.message === 'string') {
+      return RestTransport.mapToError(errorBody, response.status);
+    }
+    return new Error(
+      `HTTP error for ${operation}! Status: ${response.status} ${response.statusText}. Response: ${errorBodyText}`
+    );
+  }
+
+  private static mapToError(body: RestErrorBody, status?: number): Error {
+    switch (body.code) {
+      case -32001:
+        return new TaskNotFoundError(body.message);
+      case -32002:
+        return new TaskNotCancelableError(body.message);
+      case -32003:
+        return new PushNotificationNotSupportedError(body.message);
+      case -32004:
+        return new UnsupportedOperationError(body.message);
+      case -32005:
+        return new ContentTypeNotSupportedError(body.message);
+      case -32006:
+        return new InvalidAgentResponseError(body.message);
+      case -32007:
+        return new AuthenticatedExtendedCardNotConfiguredError(body.message);
+      default:
+        return new RestTransportError(body, status);
+    }
+  }
+}
+
+export class RestTransportFactoryOptions {
+  fetchImpl?: typeof fetch;
+}
+
+export class RestTransportFactory implements TransportFactory {
+  public static readonly name: TransportProtocolName = 'HTTP+JSON';
+
+  constructor(private readonly options?: RestTransportFactoryOptions) {}
+
+  get protocolName(): string {
+    return RestTransportFactory.name;
+  }
+
+  async create(url: string, _agentCard: AgentCard): Promise<Transport> {
+    return new RestTransport({
+      endpoint: url,
+      fetchImpl: this.options?.fetchImpl,
+    });
+  }
+}
+
+export class RestTransportError extends Error {
+  constructor(
+    public errorBody: RestErrorBody,
+    public status?: number
+  ) {
+    super(
+      `HTTP+JSON error: ${errorBody.message} (Code: ${errorBody.code}) Data: ${JSON.stringify(errorBody.data || {})}`
+    );
+    this.name = 'RestTransportError';
+  }
+}
@@ -4,11 +4,13 @@ import {
   TaskIdParams,
   ListTaskPushNotificationConfigParams,
   DeleteTaskPushNotificationConfigParams,
-  TaskQueryParams,
   Task,
   AgentCard,
   GetTaskPushNotificationConfigParams,
 } from '../../types.js';
+import { ListTasksParams, ListTasksResult } from '../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../resubscribe.js';
+import { GetTaskParams } from '../../task_state_transitions.js';
 import { A2AStreamEventData, SendMessageResult } from '../client.js';
 import { RequestOptions } from '../multitransport-client.js';
 
@@ -42,12 +44,14 @@ export interface Transport {
     options?: RequestOptions
   ): Promise<void>;
 
-  getTask(params: TaskQueryParams, options?: RequestOptions): Promise<Task>;
+  getTask(params: GetTaskParams, options?: RequestOptions): Promise<Task>;
+
+  listTasks(params: ListTasksParams, options?: RequestOptions): Promise<ListTasksResult>;
 
   cancelTask(params: TaskIdParams, options?: RequestOptions): Promise<Task>;
 
   resubscribeTask(
-    params: TaskIdParams,
+    params: ResubscribeTaskParams,
     options?: RequestOptions
   ): AsyncGenerator<A2AStreamEventData, void, undefined>;
 }
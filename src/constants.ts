@@ -11,3 +11,39 @@ export const AGENT_CARD_PATH = '.well-known/agent-card.json';
  * The name of the extension header used in http
  */
 export const HTTP_EXTENSION_HEADER = 'X-A2A-Extensions';
+
+/**
+ * The name of the header carrying how long (in milliseconds) the client waits for the request,
+ * from which the server derives the deadline of the request
+ */
+export const HTTP_TIMEOUT_HEADER = 'X-A2A-Timeout';
+
+/**
+ * The name of the W3C Trace Context header propagating the trace of a call
+ */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/**
+ * The name of the header used to resume an SSE stream after the given event
+ */
+export const LAST_EVENT_ID_HEADER = 'Last-Event-ID';
+
+/**
+ * The name of the header carrying `PushNotificationConfig.token` in push notifications
+ */
+export const PUSH_NOTIFICATION_TOKEN_HEADER = 'X-A2A-Notification-Token';
+
+/**
+ * The name of the header carrying the API key of the `ApiKey` push notification scheme
+ */
+export const PUSH_NOTIFICATION_API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * The name of the header carrying the `HMAC-SHA256` signature of a push notification body
+ */
+export const PUSH_NOTIFICATION_SIGNATURE_HEADER = 'X-A2A-Notification-Signature';
+
+/**
+ * The name of the header carrying the Unix timestamp (in seconds) signed with the body
+ */
+export const PUSH_NOTIFICATION_TIMESTAMP_HEADER = 'X-A2A-Notification-Timestamp';
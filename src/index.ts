@@ -7,5 +7,60 @@
 
 export * from './types.js';
 export type { A2AResponse } from './a2a_response.js';
-export { AGENT_CARD_PATH, HTTP_EXTENSION_HEADER } from './constants.js';
+export {
+  AGENT_CARD_PATH,
+  HTTP_EXTENSION_HEADER,
+  HTTP_TIMEOUT_HEADER,
+  LAST_EVENT_ID_HEADER,
+  PUSH_NOTIFICATION_TOKEN_HEADER,
+  PUSH_NOTIFICATION_API_KEY_HEADER,
+  PUSH_NOTIFICATION_SIGNATURE_HEADER,
+  PUSH_NOTIFICATION_TIMESTAMP_HEADER,
+  TRACEPARENT_HEADER,
+} from './constants.js';
 export { Extensions, type ExtensionURI } from './extensions.js';
+export {
+  LIST_TASKS_METHOD,
+  DEFAULT_LIST_TASKS_PAGE_SIZE,
+  MAX_LIST_TASKS_PAGE_SIZE,
+  type ListTasksParams,
+  type ListTasksRequest,
+  type ListTasksResult,
+  type ListTasksResponse,
+  type ListTasksSuccessResponse,
+} from './list_tasks.js';
+export type { ResubscribeTaskParams } from './resubscribe.js';
+export {
+  STATE_TRANSITION_HISTORY_METADATA_KEY,
+  getTaskStateTransitions,
+  type GetTaskParams,
+  type TaskStateTransition,
+} from './task_state_transitions.js';
+export {
+  createPushNotificationAuthHeaders,
+  resolvePushNotificationAuthScheme,
+  verifyPushNotificationRequest,
+  type PushNotificationAuthScheme,
+  type PushNotificationAuthOptions,
+  type PushNotificationVerificationOptions,
+  type PushNotificationVerificationResult,
+} from './push_notification_auth.js';
+export {
+  canonicalizeAgentCard,
+  verifyAgentCardSignatures,
+  type AgentCardSignatureAlgorithm,
+  type AgentCardSignatureHeader,
+  type AgentCardJsonWebKey,
+  type AgentCardJsonWebKeySet,
+} from './agent_card_signature.js';
+export {
+  SpanKind,
+  SpanStatusCode,
+  formatTraceparent,
+  parseTraceparent,
+  type Span,
+  type SpanAttributes,
+  type SpanContext,
+  type SpanOptions,
+  type Tracer,
+} from './tracing.js';
@@ -0,0 +1,90 @@
+import { JSONRPCErrorResponse, Task, TaskState } from './types.js';
+
+/**
+ * JSON-RPC method name for listing tasks.
+ */
+export const LIST_TASKS_METHOD = 'tasks/list';
+
+/**
+ * Default number of tasks returned per page by `tasks/list`.
+ */
+export const DEFAULT_LIST_TASKS_PAGE_SIZE = 50;
+
+/**
+ * Maximum number of tasks returned per page by `tasks/list`.
+ */
+export const MAX_LIST_TASKS_PAGE_SIZE = 100;
+
+/**
+ * Parameters for the `tasks/list` method (`GET /v1/tasks` in HTTP+JSON).
+ * All filters are optional and combined with AND.
+ */
+export interface ListTasksParams {
+  /**
+   * Only return tasks belonging to this context.
+   */
+  contextId?: string;
+  /**
+   * Only return tasks whose `status.state` matches.
+   */
+  status?: TaskState;
+  /**
+   * Only return tasks updated after this point in time, in milliseconds since the Unix epoch.
+   */
+  lastUpdatedAfter?: number;
+  /**
+   * Maximum number of tasks to return, between 1 and {@link MAX_LIST_TASKS_PAGE_SIZE}.
+   * Defaults to {@link DEFAULT_LIST_TASKS_PAGE_SIZE}.
+   */
+  pageSize?: number;
+  /**
+   * Opaque cursor returned as `nextPageToken` by a previous call.
+   */
+  pageToken?: string;
+  /**
+   * Number of most recent history messages to include for each task.
+   */
+  historyLength?: number;
+  /**
+   * Optional metadata associated with the request.
+   */
+  metadata?: {
+    [k: string]: unknown;
+  };
+}
+
+/**
+ * Represents a JSON-RPC request for the `tasks/list` method.
+ */
+export interface ListTasksRequest {
+  id: string | number;
+  jsonrpc: '2.0';
+  method: typeof LIST_TASKS_METHOD;
+  params: ListTasksParams;
+}
+
+/**
+ * Result of the `tasks/list` method.
+ * Tasks are ordered by their last update time, most recent first.
+ */
+export interface ListTasksResult {
+  tasks: Task[];
+  /**
+   * Cursor for the next page, absent when there are no more tasks.
+   */
+  nextPageToken?: string;
+}
+
+/**
+ * Represents a successful JSON-RPC response for the `tasks/list` method.
+ */
+export interface ListTasksSuccessResponse {
+  id: string | number | null;
+  jsonrpc: '2.0';
+  result: ListTasksResult;
+}
+
+/**
+ * Represents a JSON-RPC response for the `tasks/list` method.
+ */
+export type ListTasksResponse = JSONRPCErrorResponse | ListTasksSuccessResponse;
@@ -0,0 +1,236 @@
+import { PushNotificationAuthenticationInfo } from './types.js';
+import {
+  PUSH_NOTIFICATION_API_KEY_HEADER,
+  PUSH_NOTIFICATION_SIGNATURE_HEADER,
+  PUSH_NOTIFICATION_TIMESTAMP_HEADER,
+  PUSH_NOTIFICATION_TOKEN_HEADER,
+} from './constants.js';
+
+/**
+ * Authentication schemes supported for push notifications, in
+ * `PushNotificationAuthenticationInfo.schemes` (case-insensitive):
+ * - `Bearer`: `credentials` is sent as `Authorization: Bearer <credentials>`.
+ * - `Basic`: `credentials` is `username:password` (or its base64 encoding).
+ * - `ApiKey`: `credentials` is sent in the `X-API-Key` header.
+ * - `HMAC-SHA256`: `credentials` is a shared secret signing `<timestamp>.<body>`.
+ */
+export type PushNotificationAuthScheme = 'Bearer' | 'Basic' | 'ApiKey' | 'HMAC-SHA256';
+
+const SCHEME_ALIASES: Record<string, PushNotificationAuthScheme> = {
+  bearer: 'Bearer',
+  basic: 'Basic',
+  apikey: 'ApiKey',
+  'api-key': 'ApiKey',
+  api_key: 'ApiKey',
+  hmac: 'HMAC-SHA256',
+  'hmac-sha256': 'HMAC-SHA256',
+};
+
+export interface PushNotificationAuthOptions {
+  /**
+   * Header carrying the API key for the `ApiKey` scheme. Defaults to 'X-API-Key'.
+   */
+  apiKeyHeaderName?: string;
+}
+
+/**
+ * Returns the first scheme of `authentication.schemes` supported by this library.
+ */
+export function resolvePushNotificationAuthScheme(
+  authentication: PushNotificationAuthenticationInfo
+): PushNotificationAuthScheme | undefined {
+  for (const scheme of authentication.schemes) {
+    const resolved = SCHEME_ALIASES[scheme.toLowerCase()];
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the headers authenticating a push notification, using the first supported scheme.
+ *
+ * @param authentication The authentication info of the push notification config.
+ * @param body The exact request body, signed by the `HMAC-SHA256` scheme.
+ * @returns The headers to add, or undefined if no scheme is supported or credentials are missing.
+ */
+export async function createPushNotificationAuthHeaders(
+  authentication: PushNotificationAuthenticationInfo,
+  body: string,
+  options?: PushNotificationAuthOptions
+): Promise<Record<string, string> | undefined> {
+  const scheme = resolvePushNotificationAuthScheme(authentication);
+  const credentials = authentication.credentials;
+  if (!scheme || !credentials) {
+    return undefined;
+  }
+
+  switch (scheme) {
+    case 'Bearer':
+      return { Authorization: `Bearer ${credentials}` };
+    case 'Basic':
+      return { Authorization: `Basic ${encodeBasicCredentials(credentials)}` };
+    case 'ApiKey':
+      return { [options?.apiKeyHeaderName ?? PUSH_NOTIFICATION_API_KEY_HEADER]: credentials };
+    case 'HMAC-SHA256': {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const signature = await hmacSha256Hex(credentials, `${timestamp}.${body}`);
+      return {
+        [PUSH_NOTIFICATION_TIMESTAMP_HEADER]: timestamp,
+        [PUSH_NOTIFICATION_SIGNATURE_HEADER]: `sha256=${signature}`,
+      };
+    }
+  }
+}
+
+export interface PushNotificationVerificationOptions extends PushNotificationAuthOptions {
+  /**
+   * Expected notification token (`PushNotificationConfig.token`), if one was configured.
+   */
+  token?: string;
+  /**
+   * Header carrying the notification token. Defaults to 'X-A2A-Notification-Token'.
+   */
+  tokenHeaderName?: string;
+  /**
+   * Authentication configured in the push notification config. The request must satisfy
+   * one of its supported schemes.
+   */
+  authentication?: PushNotificationAuthenticationInfo;
+  /**
+   * Maximum age of an `HMAC-SHA256` signature, in seconds. Defaults to 300.
+   */
+  toleranceSeconds?: number;
+}
+
+export interface PushNotificationVerificationResult {
+  valid: boolean;
+  /** The scheme that authenticated the request. */
+  scheme?: PushNotificationAuthScheme;
+  /** Why the request was rejected. */
+  reason?: string;
+}
+
+/**
+ * Verifies an incoming push notification on the receiving end (the webhook).
+ * The request body is read from a clone, so the request can still be consumed afterwards.
+ *
+ * @example
+ * ```ts
+ * app.post('/webhook', async (c) => {
+ *   const result = await verifyPushNotificationRequest(c.req.raw, {
+ *     token: 'my-token',
+ *     authentication: { schemes: ['HMAC-SHA256'], credentials: webhookSecret },
+ *   });
+ *   if (!result.valid) return c.text(result.reason!, 401);
+ *   const task = await c.req.json();
+ * });
+ * ```
+ */
+export async function verifyPushNotificationRequest(
+  request: Request,
+  options: PushNotificationVerificationOptions
+): Promise<PushNotificationVerificationResult> {
+  if (options.token !== undefined) {
+    const token = request.headers.get(options.tokenHeaderName ?? PUSH_NOTIFICATION_TOKEN_HEADER);
+    if (token === null || !timingSafeEqual(token, options.token)) {
+      return { valid: false, reason: 'Invalid notification token.' };
+    }
+  }
+
+  const authentication = options.authentication;
+  if (!authentication) {
+    return { valid: true };
+  }
+  const credentials = authentication.credentials ?? '';
+  const schemes = authentication.schemes
+    .map((scheme) => SCHEME_ALIASES[scheme.toLowerCase()])
+    .filter((scheme): scheme is PushNotificationAuthScheme => scheme !== undefined);
+
+  for (const scheme of schemes) {
+    if (await verifyScheme(request, scheme, credentials, options)) {
+      return { valid: true, scheme };
+    }
+  }
+  return {
+    valid: false,
+    reason:
+      schemes.length > 0
+        ? 'Invalid push notification credentials.'
+        : 'No supported push notification authentication scheme.',
+  };
+}
+
+async function verifyScheme(
+  request: Request,
+  scheme: PushNotificationAuthScheme,
+  credentials: string,
+  options: PushNotificationVerificationOptions
+): Promise<boolean> {
+  const authorization = request.headers.get('Authorization') ?? '';
+  switch (scheme) {
+    case 'Bearer':
+      return timingSafeEqual(authorization, `Bearer ${credentials}`);
+    case 'Basic':
+      return timingSafeEqual(authorization, `Basic ${encodeBasicCredentials(credentials)}`);
+    case 'ApiKey': {
+      const apiKey = request.headers.get(
+        options.apiKeyHeaderName ?? PUSH_NOTIFICATION_API_KEY_HEADER
+      );
+      return apiKey !== null && timingSafeEqual(apiKey, credentials);
+    }
+    case 'HMAC-SHA256': {
+      const timestamp = request.headers.get(PUSH_NOTIFICATION_TIMESTAMP_HEADER);
+      const signature = request.headers.get(PUSH_NOTIFICATION_SIGNATURE_HEADER);
+      if (!timestamp || !signature || !/^\d+$/.test(timestamp)) {
+        return false;
+      }
+      const ageSeconds = Math.abs(Date.now() / 1000 - Number(timestamp));
+      if (ageSeconds > (options.toleranceSeconds ?? 300)) {
+        return false;
+      }
+      const body = await request.clone().text();
+      const expected = await hmacSha256Hex(credentials, `${timestamp}.${body}`);
+      return timingSafeEqual(signature, `sha256=${expected}`);
+    }
+  }
+}
+
+function encodeBasicCredentials(credentials: string): string {
+  // Credentials without a colon are assumed to be encoded already.
+  if (!credentials.includes(':')) {
+    return credentials;
+  }
+  const bytes = new TextEncoder().encode(credentials);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join(
+    ''
+  );
+}
+
+/**
+ * Compares two strings in constant time with respect to their content.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,13 @@
+import { TaskIdParams } from './types.js';
+
+/**
+ * Parameters for the `tasks/resubscribe` method (`POST /v1/tasks/{id}:subscribe` in HTTP+JSON).
+ */
+export interface ResubscribeTaskParams extends TaskIdParams {
+  /**
+   * ID of the last event received on a previous stream for this task.
+   * If the server still has the events emitted after it, they are replayed in order
+   * instead of the current task snapshot. Sent as the `Last-Event-ID` header in HTTP+JSON.
+   */
+  lastEventId?: string;
+}
@@ -0,0 +1,77 @@
+import {
+  AgentCardSignatureAlgorithm,
+  AgentCardSignatureHeader,
+  base64UrlEncode,
+  canonicalizeAgentCard,
+  importAgentCardKey,
+  signAgentCardInput,
+} from '../agent_card_signature.js';
+import { AgentCard } from '../types.js';
+
+export interface AgentCardSigningKey {
+  /**
+   * The private key, as a JSON Web Key or a Web Crypto key usable for signing.
+   */
+  privateKey: JsonWebKey | CryptoKey;
+  /**
+   * The JWS algorithm of the key.
+   */
+  alg: AgentCardSignatureAlgorithm;
+  /**
+   * Key ID, used by clients to select the public key from their trusted JWKS.
+   */
+  kid?: string;
+  /**
+   * URL of the JWKS publishing the public key.
+   */
+  jku?: string;
+}
+
+/**
+ * Signs an Agent Card with one or more keys. The card is canonicalized (RFC 8785) without its
+ * `signatures`, and a detached JWS (RFC 7515, Appendix F) is appended to `signatures` per key.
+ *
+ * Sign the card once at startup, after all its fields are set: any later change invalidates
+ * the signatures.
+ *
+ * @example
+ * ```ts
+ * const signedCard = await signAgentCard(agentCard, {
+ *   privateKey: JSON.parse(process.env.AGENT_CARD_SIGNING_KEY!),
+ *   alg: 'ES256',
+ *   kid: 'agent-card-2025',
+ * });
+ * const requestHandler = new DefaultRequestHandler(signedCard, taskStore, agentExecutor);
+ * ```
+ * @returns A copy of the card including the new signatures.
+ */
+export async function signAgentCard(
+  card: AgentCard,
+  keys: AgentCardSigningKey | AgentCardSigningKey[]
+): Promise<AgentCard> {
+  const payload = base64UrlEncode(new TextEncoder().encode(canonicalizeAgentCard(card)));
+  const signatures = [...(card.signatures ?? [])];
+
+  for (const key of Array.isArray(keys) ? keys : [keys]) {
+    const header: AgentCardSignatureHeader = { alg: key.alg, typ: 'JOSE' };
+    if (key.kid) {
+      header.kid = key.kid;
+    }
+    if (key.jku) {
+      header.jku = key.jku;
+    }
+    const protectedHeader = base64UrlEncode(new TextEncoder().encode(JSON.stringify(header)));
+    const privateKey =
+      key.privateKey instanceof CryptoKey
+        ? key.privateKey
+        : await importAgentCardKey(key.privateKey, key.alg, 'sign');
+    const signature = await signAgentCardInput(
+      privateKey,
+      key.alg,
+      `${protectedHeader}.${payload}`
+    );
+    signatures.push({ protected: protectedHeader, signature: base64UrlEncode(signature) });
+  }
+
+  return { ...card, signatures };
+}
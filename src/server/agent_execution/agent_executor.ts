@@ -13,8 +13,12 @@ export interface AgentExecutor {
    * Method to explicitly cancel a running task.
    * The implementation should handle the logic of stopping the execution
    * and publishing the final 'canceled' status event on the provided event bus.
+   *
+   * `RequestContext.signal` is aborted before this method is called. If omitted, the request handler
+   * publishes the final 'canceled' status event itself, and the execution is expected to stop
+   * when the signal is aborted.
    * @param taskId The ID of the task to cancel.
    * @param eventBus The event bus associated with the task's execution.
    */
-  cancelTask: (taskId: string, eventBus: ExecutionEventBus) => Promise<void>;
+  cancelTask?: (taskId: string, eventBus: ExecutionEventBus) => Promise<void>;
 }
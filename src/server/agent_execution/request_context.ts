@@ -1,6 +1,32 @@
 import { Message, Task } from '../../types.js';
 import { ServerCallContext } from '../context.js';
 
+/**
+ * Why an execution was aborted:
+ * - `canceled`: the task was canceled with `tasks/cancel`.
+ * - `deadline-exceeded`: the execution ran past its deadline.
+ * - `client-disconnected`: the client of a streaming request went away.
+ * - `shutdown`: the server is shutting down.
+ */
+export type ExecutionAbortReason =
+  | 'canceled'
+  | 'deadline-exceeded'
+  | 'client-disconnected'
+  | 'shutdown';
+
+/**
+ * The reason of the `RequestContext.signal` of an aborted execution.
+ */
+export class ExecutionAbortedError extends Error {
+  public readonly reason: ExecutionAbortReason;
+
+  constructor(taskId: string, reason: ExecutionAbortReason) {
+    super(`Execution of task ${taskId} aborted: ${reason}`);
+    this.name = 'ExecutionAbortedError';
+    this.reason = reason;
+  }
+}
+
 export class RequestContext {
   public readonly userMessage: Message;
   public readonly taskId: string;
@@ -8,6 +34,11 @@ export class RequestContext {
   public readonly task?: Task;
   public readonly referenceTasks?: Task[];
   public readonly context?: ServerCallContext;
+  /**
+   * Whether the execution resumes a task interrupted by a previous server process,
+   * see `DefaultRequestHandler.recoverTasks`. `task` then holds its state at the interruption.
+   */
+  public readonly isRecovery: boolean;
 
   constructor(
     userMessage: Message,
@@ -15,7 +46,8 @@ export class RequestContext {
     contextId: string,
     task?: Task,
     referenceTasks?: Task[],
-    context?: ServerCallContext
+    context?: ServerCallContext,
+    isRecovery: boolean = false
   ) {
     this.userMessage = userMessage;
     this.taskId = taskId;
@@ -23,5 +55,55 @@ export class RequestContext {
     this.task = task;
     this.referenceTasks = referenceTasks;
     this.context = context;
+    this.isRecovery = isRecovery;
+  }
+
+  private readonly abortController: AbortController = new AbortController();
+  private readonly followUpListeners: ((message: Message) => void)[] = [];
+
+  /**
+   * Aborted when the execution must stop: see `ExecutionAbortReason`. Its reason is an
+   * `ExecutionAbortedError`. Executors can pass it to the APIs they call (e.g., `fetch`) or
+   * check it between steps.
+   */
+  public get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Aborts the signal of the execution, unless it is already aborted.
+   * @internal
+   */
+  public abort(reason: ExecutionAbortReason): void {
+    if (!this.abortController.signal.aborted) {
+      this.abortController.abort(new ExecutionAbortedError(this.taskId, reason));
+    }
+  }
+
+  /**
+   * Registers a listener for the messages the client sends to the task while it is being executed,
+   * when the request handler delivers concurrent messages as follow-up inputs.
+   * Without a listener, such messages are queued until the execution finishes.
+   */
+  public onFollowUpMessage(listener: (message: Message) => void): void {
+    this.followUpListeners.push(listener);
+  }
+
+  /**
+   * Whether the execution accepts follow-up messages.
+   * @internal
+   */
+  public get acceptsFollowUpMessages(): boolean {
+    return this.followUpListeners.length > 0;
+  }
+
+  /**
+   * Delivers a follow-up message to the listeners.
+   * @internal
+   */
+  public deliverFollowUpMessage(message: Message): void {
+    for (const listener of this.followUpListeners) {
+      listener(message);
+    }
   }
 }
@@ -0,0 +1,381 @@
+import { AgentCard, SecurityScheme } from '../../types.js';
+import {
+  AgentCardJsonWebKeySet,
+  AgentCardSignatureHeader,
+  base64UrlDecode,
+  verifyJwsSignature,
+} from '../../agent_card_signature.js';
+import { A2AError } from '../error.js';
+import { UnauthenticatedUser, User } from './user.js';
+
+/**
+ * Framework-agnostic access to the credentials carried by an incoming request.
+ */
+export interface RequestCredentials {
+  /** Returns the value of a request header (case-insensitive). */
+  header(name: string): string | undefined;
+  /** Returns the value of a query parameter. */
+  query(name: string): string | undefined;
+  /** Returns the value of a cookie. */
+  cookie(name: string): string | undefined;
+}
+
+/**
+ * Builds a user builder for the requests of a framework, authenticating them with
+ * {@link authenticateRequest}.
+ * @param credentialsOf - Reads the credentials of a request of the framework.
+ */
+export function createSecuritySchemesUserBuilder<TRequest>(
+  agentCard: AgentCard,
+  verifiers: Record<string, SecuritySchemeVerifier>,
+  credentialsOf: (request: TRequest) => RequestCredentials
+): (request: TRequest) => Promise<User> {
+  return (request) => authenticateRequest(agentCard, verifiers, credentialsOf(request));
+}
+
+/**
+ * Builds {@link RequestCredentials} from header and query accessors, reading cookies
+ * from the `Cookie` header.
+ */
+export function createRequestCredentials(
+  header: (name: string) => string | undefined,
+  query: (name: string) => string | undefined
+): RequestCredentials {
+  let cookies: Map<string, string> | undefined;
+  return {
+    header,
+    query,
+    cookie: (name) => {
+      cookies ??= parseCookieHeader(header('Cookie'));
+      return cookies.get(name);
+    },
+  };
+}
+
+/**
+ * The identity established by a security scheme.
+ */
+export interface SecuritySchemeIdentity {
+  /** A unique name for the user, e.g. the `sub` claim of a token. */
+  userName: string;
+  /** The scopes granted to the user, checked against the scopes of security requirements. */
+  scopes?: string[];
+  /** Additional claims about the user, e.g. the payload of a token. */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Verifies the credentials of a request for one security scheme declared in the agent card.
+ * Returns `undefined` when the request carries no valid credentials for the scheme.
+ */
+export type SecuritySchemeVerifier = (
+  credentials: RequestCredentials,
+  scheme: SecurityScheme
+) => Promise<SecuritySchemeIdentity | undefined>;
+
+/**
+ * Options of {@link SecuritySchemeVerifier.bearerJwt}.
+ */
+export interface BearerJwtOptions {
+  /** The keys trusted to sign tokens. */
+  jwks: AgentCardJsonWebKeySet;
+  /** The expected `iss` claim. */
+  issuer?: string;
+  /** The accepted `aud` claims; a token must name at least one of them. */
+  audience?: string | string[];
+  /** Tolerance for clock skew when checking `exp` and `nbf` (default: 0). */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * SecuritySchemeVerifier factory for the security schemes an agent card can declare.
+ */
+export const SecuritySchemeVerifier = {
+  /**
+   * Verifies a JSON Web Token sent as `Authorization: Bearer <token>` against a local key set.
+   * Suitable for `http` schemes with the `bearer` scheme, and for `oauth2` and `openIdConnect`
+   * schemes whose access tokens are JWTs. Tokens must carry an `exp` claim. The user name is
+   * taken from the `sub` claim, and the scopes from the `scope` or `scp` claim.
+   */
+  bearerJwt:
+    (options: BearerJwtOptions): SecuritySchemeVerifier =>
+    async (credentials) => {
+      const token = parseAuthorization(credentials.header('Authorization'), 'Bearer');
+      if (!token) {
+        return undefined;
+      }
+      const claims = await verifyJwt(token, options);
+      if (!claims || typeof claims.sub !== 'string') {
+        return undefined;
+      }
+      return { userName: claims.sub, scopes: parseScopes(claims), claims };
+    },
+
+  /**
+   * Verifies an API key read from the header, query parameter or cookie named by an
+   * `apiKey` scheme.
+   */
+  apiKey:
+    (
+      verify: (key: string) => Promise<SecuritySchemeIdentity | undefined>
+    ): SecuritySchemeVerifier =>
+    async (credentials, scheme) => {
+      if (scheme.type !== 'apiKey') {
+        return undefined;
+      }
+      const key = credentials[scheme.in](scheme.name);
+      return key ? verify(key) : undefined;
+    },
+
+  /**
+   * Verifies the user name and password sent as `Authorization: Basic <credentials>`.
+   */
+  basic:
+    (verify: (userName: string, password: string) => Promise<boolean>): SecuritySchemeVerifier =>
+    async (credentials) => {
+      const encoded = parseAuthorization(credentials.header('Authorization'), 'Basic');
+      if (!encoded) {
+        return undefined;
+      }
+      let decoded: string;
+      try {
+        decoded = new TextDecoder().decode(Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0)));
+      } catch {
+        return undefined;
+      }
+      const separator = decoded.indexOf(':');
+      if (separator < 0) {
+        return undefined;
+      }
+      const userName = decoded.slice(0, separator);
+      return (await verify(userName, decoded.slice(separator + 1))) ? { userName } : undefined;
+    },
+};
+
+/**
+ * A user authenticated by the security schemes of an agent card.
+ */
+export class SecuritySchemeUser implements User {
+  constructor(
+    private readonly identity: SecuritySchemeIdentity,
+    /** The names of the security schemes whose credentials were verified. */
+    public readonly schemes: string[],
+    /** The scopes granted by all verified schemes. */
+    public readonly scopes: string[],
+    /**
+     * The IDs of the skills whose security requirements the user satisfies, on top of those of
+     * the card. Messages do not name the skill they target, so executors enforce this when they
+     * route to a skill.
+     */
+    public readonly authorizedSkills: string[]
+  ) {}
+
+  get isAuthenticated(): boolean {
+    return true;
+  }
+
+  get userName(): string {
+    return this.identity.userName;
+  }
+
+  get claims(): Record<string, unknown> {
+    return this.identity.claims ?? {};
+  }
+
+  /**
+   * Whether the user may use the given skill.
+   */
+  canUseSkill(skillId: string): boolean {
+    return this.authorizedSkills.includes(skillId);
+  }
+}
+
+type SecurityRequirement = { [scheme: string]: string[] };
+
+/**
+ * Authenticates a request against the `security` requirements of an agent card. A request is
+ * admitted when it satisfies the requirements of the card; otherwise an `unauthenticated` error
+ * is thrown, carrying the `WWW-Authenticate` challenges of the required schemes. The requirements
+ * of skills only narrow the skills the user may use, see {@link SecuritySchemeUser.authorizedSkills}.
+ * Schemes without a verifier can never be satisfied.
+ *
+ * @returns A {@link SecuritySchemeUser} when any credentials were verified, or an
+ * {@link UnauthenticatedUser} when the card requires none and none were sent.
+ */
+export async function authenticateRequest(
+  agentCard: AgentCard,
+  verifiers: Record<string, SecuritySchemeVerifier>,
+  credentials: RequestCredentials
+): Promise<User> {
+  const identities = new Map<string, Promise<SecuritySchemeIdentity | undefined>>();
+  const identify = (name: string): Promise<SecuritySchemeIdentity | undefined> => {
+    let identity = identities.get(name);
+    if (!identity) {
+      const scheme = agentCard.securitySchemes?.[name];
+      const verifier = verifiers[name];
+      identity = scheme && verifier ? verifier(credentials, scheme) : Promise.resolve(undefined);
+      identities.set(name, identity);
+    }
+    return identity;
+  };
+  const satisfies = async (requirement: SecurityRequirement): Promise<boolean> => {
+    for (const [name, scopes] of Object.entries(requirement)) {
+      const identity = await identify(name);
+      if (!identity || !scopes.every((scope) => identity.scopes?.includes(scope))) {
+        return false;
+      }
+    }
+    return true;
+  };
+  const satisfiesAny = async (requirements: SecurityRequirement[] | undefined) => {
+    if (!requirements?.length) {
+      return true;
+    }
+    for (const requirement of requirements) {
+      if (await satisfies(requirement)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  if (!(await satisfiesAny(agentCard.security))) {
+    throw A2AError.unauthenticated(
+      'Authentication required.',
+      buildChallenges(agentCard, credentials)
+    );
+  }
+  const authorizedSkills: string[] = [];
+  for (const skill of agentCard.skills) {
+    if (await satisfiesAny(skill.security)) {
+      authorizedSkills.push(skill.id);
+    }
+  }
+
+  // Identify the user with every declared scheme, so that the user of an open card is still
+  // known when credentials are sent.
+  const verified: [string, SecuritySchemeIdentity][] = [];
+  for (const name of Object.keys(agentCard.securitySchemes ?? {})) {
+    const identity = await identify(name);
+    if (identity) {
+      verified.push([name, identity]);
+    }
+  }
+  if (verified.length === 0) {
+    return new UnauthenticatedUser();
+  }
+  return new SecuritySchemeUser(
+    verified[0][1],
+    verified.map(([name]) => name),
+    [...new Set(verified.flatMap(([, identity]) => identity.scopes ?? []))],
+    authorizedSkills
+  );
+}
+
+function buildChallenges(agentCard: AgentCard, credentials: RequestCredentials): string[] {
+  const required = new Set(
+    (agentCard.security ?? []).flatMap((requirement) => Object.keys(requirement))
+  );
+  const realm = `realm="${agentCard.name.replace(/["\\]/g, '\\$&')}"`;
+  const challenges = new Set<string>();
+  for (const name of required) {
+    const scheme = agentCard.securitySchemes?.[name];
+    if (!scheme) {
+      continue;
+    }
+    const httpScheme = scheme.type === 'http' ? scheme.scheme.toLowerCase() : undefined;
+    if (httpScheme === 'bearer' || scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+      const presented = parseAuthorization(credentials.header('Authorization'), 'Bearer');
+      challenges.add(presented ? `Bearer ${realm}, error="invalid_token"` : `Bearer ${realm}`);
+    } else if (httpScheme === 'basic') {
+      challenges.add(`Basic ${realm}, charset="UTF-8"`);
+    }
+  }
+  return [...challenges];
+}
+
+async function verifyJwt(
+  token: string,
+  options: BearerJwtOptions
+): Promise<Record<string, unknown> | undefined> {
+  const [encodedHeader, encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !signature || rest.length > 0) {
+    return undefined;
+  }
+  let header: AgentCardSignatureHeader;
+  let claims: Record<string, unknown>;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedHeader)));
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload)));
+  } catch {
+    return undefined;
+  }
+  if (
+    typeof claims !== 'object' ||
+    claims === null ||
+    !(await verifyJwsSignature(
+      header,
+      `${encodedHeader}.${encodedPayload}`,
+      signature,
+      options.jwks
+    ))
+  ) {
+    return undefined;
+  }
+
+  const now = Date.now() / 1000;
+  const tolerance = options.clockToleranceSeconds ?? 0;
+  if (typeof claims.exp !== 'number' || now > claims.exp + tolerance) {
+    return undefined;
+  }
+  if (
+    claims.nbf !== undefined &&
+    (typeof claims.nbf !== 'number' || now < claims.nbf - tolerance)
+  ) {
+    return undefined;
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    return undefined;
+  }
+  if (options.audience !== undefined) {
+    const accepted = [options.audience].flat();
+    const audiences = [claims.aud].flat();
+    if (!audiences.some((aud) => typeof aud === 'string' && accepted.includes(aud))) {
+      return undefined;
+    }
+  }
+  return claims;
+}
+
+function parseScopes(claims: Record<string, unknown>): string[] {
+  if (typeof claims.scope === 'string') {
+    return claims.scope.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(claims.scp)) {
+    return claims.scp.filter((scope): scope is string => typeof scope === 'string');
+  }
+  return typeof claims.scp === 'string' ? claims.scp.split(' ').filter(Boolean) : [];
+}
+
+function parseAuthorization(header: string | undefined, scheme: string): string | undefined {
+  const [type, value] = header?.trim().split(/\s+/, 2) ?? [];
+  return type?.toLowerCase() === scheme.toLowerCase() && value ? value : undefined;
+}
+
+function parseCookieHeader(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const pair of header?.split(';') ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      const name = pair.slice(0, separator).trim();
+      if (!cookies.has(name)) {
+        try {
+          cookies.set(name, decodeURIComponent(pair.slice(separator + 1).trim()));
+        } catch {
+          cookies.set(name, pair.slice(separator + 1).trim());
+        }
+      }
+    }
+  }
+  return cookies;
+}
@@ -1,20 +1,51 @@
 import { Extensions } from '../extensions.js';
 import { User } from './authentication/user.js';
+import { SpanContext } from '../tracing.js';
 
 export class ServerCallContext {
   private readonly _requestedExtensions?: Extensions;
   private readonly _user?: User;
+  private readonly _deadline?: number;
   private _activatedExtensions?: Extensions;
+  private _traceContext?: SpanContext;
 
-  constructor(requestedExtensions?: Extensions, user?: User) {
+  constructor(
+    requestedExtensions?: Extensions,
+    user?: User,
+    deadline?: number,
+    traceContext?: SpanContext
+  ) {
     this._requestedExtensions = requestedExtensions;
     this._user = user;
+    this._deadline = deadline;
+    this._traceContext = traceContext;
   }
 
   get user(): User | undefined {
     return this._user;
   }
 
+  /**
+   * Time (in milliseconds since the epoch) after which the client no longer waits for the request,
+   * if it set a timeout.
+   */
+  get deadline(): number | undefined {
+    return this._deadline;
+  }
+
+  /**
+   * The trace context of the call: the one propagated by the client in the `traceparent` header,
+   * then the one of the server span of the call, if tracing is enabled.
+   */
+  get traceContext(): SpanContext | undefined {
+    return this._traceContext;
+  }
+
+  /** @internal */
+  public setTraceContext(traceContext: SpanContext) {
+    this._traceContext = traceContext;
+  }
+
   get activatedExtensions(): Extensions | undefined {
     return this._activatedExtensions;
   }
@@ -27,3 +58,27 @@ export class ServerCallContext {
     this._activatedExtensions = Extensions.createFrom(this._activatedExtensions, uri);
   }
 }
+
+/**
+ * Longest timeout accepted in the timeout service parameter, about 24 days.
+ */
+const MAX_TIMEOUT_SERVICE_PARAMETER_MS = 2 ** 31 - 1;
+
+/**
+ * Parses the timeout service parameter (see `HTTP_TIMEOUT_HEADER`) into the deadline of a request.
+ * @returns The deadline in milliseconds since the epoch, or undefined if the value is missing,
+ * invalid or longer than about 24 days.
+ */
+export function parseTimeoutServiceParameter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value || !/^\d+$/.test(value.trim())) {
+    return undefined;
+  }
+  const timeoutMs = Number(value.trim());
+  if (timeoutMs > MAX_TIMEOUT_SERVICE_PARAMETER_MS) {
+    return undefined;
+  }
+  return now + timeoutMs;
+}
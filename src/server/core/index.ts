@@ -61,6 +61,7 @@ export {
   sendMessage,
   sendMessageStream,
   getTask,
+  listTasks,
   cancelTask,
   resubscribe,
   setTaskPushNotificationConfig,
@@ -81,6 +82,8 @@ export {
   // Core functions
   resolveAgentCardProvider as resolveCoreAgentCardProvider,
   fetchAgentCard,
+  computeAgentCardETag,
+  isNotModified,
 } from '../request_handler/agent_card_utils.js';
 
 // =============================================================================
@@ -107,6 +110,8 @@ export {
   createSSEEventData,
   createSSEErrorEventData,
   sseEventToString,
+  setSSEEventId,
+  getSSEEventId,
   // Base functions
   SSE_HEADERS,
   formatSSEEvent,
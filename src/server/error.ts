@@ -3,6 +3,7 @@ import {
   HTTP_STATUS,
   mapErrorToStatus,
   toHTTPError,
+  toHTTPErrorHeaders,
   RestHttpStatusCode,
 } from './transports/rest/rest_transport_handler.js';
 
@@ -79,6 +80,25 @@ export class A2AError extends Error {
   static authenticatedExtendedCardNotConfigured(): A2AError {
     return new A2AError(-32007, `Extended card not configured.`);
   }
+
+  static taskBusy(message: string, taskId?: string): A2AError {
+    return new A2AError(-32010, message, undefined, taskId);
+  }
+
+  static tooManyRequests(message: string, retryAfterSeconds: number): A2AError {
+    return new A2AError(-32011, message, { retryAfterSeconds });
+  }
+
+  static serverShuttingDown(): A2AError {
+    return new A2AError(-32012, 'Server is shutting down, try another instance.');
+  }
+
+  /**
+   * @param challenges `WWW-Authenticate` challenges of the security schemes the client may use.
+   */
+  static unauthenticated(message: string, challenges: string[]): A2AError {
+    return new A2AError(-32013, message, { challenges });
+  }
 }
 
 // =============================================================================
@@ -91,6 +111,7 @@ export class A2AError extends Error {
 export interface JsonRpcErrorResult {
   statusCode: number;
   body: schema.JSONRPCErrorResponse;
+  headers: Record<string, string>;
 }
 
 /**
@@ -99,6 +120,7 @@ export interface JsonRpcErrorResult {
 export interface RestErrorResult {
   statusCode: RestHttpStatusCode;
   body: unknown;
+  headers: Record<string, string>;
 }
 
 /**
@@ -114,14 +136,17 @@ export function formatJsonRpcError(
 ): JsonRpcErrorResult {
   const a2aError =
     error instanceof A2AError ? error : A2AError.internalError('General processing error.');
+  // Authentication failures are also reported at the HTTP level, with their challenges.
+  const unauthorized = mapErrorToStatus(a2aError.code) === HTTP_STATUS.UNAUTHORIZED;
 
   return {
-    statusCode: 500,
+    statusCode: unauthorized ? HTTP_STATUS.UNAUTHORIZED : 500,
     body: {
       jsonrpc: '2.0',
       id: requestId,
       error: a2aError.toJSONRPCError(),
     },
+    headers: toHTTPErrorHeaders(a2aError),
   };
 }
 
@@ -140,6 +165,7 @@ export function formatParseError(): JsonRpcErrorResult {
       id: null,
       error: a2aError.toJSONRPCError(),
     },
+    headers: {},
   };
 }
 
@@ -185,6 +211,7 @@ export function formatRestError(error: unknown): RestErrorResult {
   return {
     statusCode,
     body: toHTTPError(a2aError),
+    headers: toHTTPErrorHeaders(a2aError),
   };
 }
 
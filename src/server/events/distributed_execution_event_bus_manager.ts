@@ -0,0 +1,348 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getSSEEventId, setSSEEventId } from '../../sse_utils.js';
+import { ExecutionEventBroker } from './execution_event_broker.js';
+import {
+  AgentExecutionEvent,
+  DefaultExecutionEventBus,
+  ExecutionEventBus,
+} from './execution_event_bus.js';
+import {
+  ExecutionEventBusManager,
+  TaskCancellationHandler,
+} from './execution_event_bus_manager.js';
+
+export interface DistributedExecutionEventBusManagerOptions {
+  /**
+   * Unique ID of this server instance. Defaults to a random UUID.
+   */
+  instanceId?: string;
+
+  /**
+   * Prefix of the broker channels, to share a broker between several agents.
+   * Defaults to `a2a:`.
+   */
+  channelPrefix?: string;
+
+  /**
+   * How long to wait for the instance executing a task to answer a lookup, in milliseconds.
+   * Defaults to 250.
+   */
+  lookupTimeoutMs?: number;
+}
+
+/**
+ * Messages exchanged between instances.
+ */
+type BrokerMessage =
+  | { type: 'event'; event: AgentExecutionEvent; eventId?: string }
+  | { type: 'finished' }
+  | { type: 'lookup'; taskId: string; requestId: string }
+  | { type: 'owner'; taskId: string; requestId: string }
+  | { type: 'cancel'; taskId: string };
+
+interface BrokerEnvelope {
+  /** ID of the sending instance. */
+  origin: string;
+  message: BrokerMessage;
+}
+
+/**
+ * Event bus forwarding its events to the other instances through the broker.
+ * Events are forwarded after local listeners ran, so that they carry their journal ID.
+ */
+class BrokeredExecutionEventBus extends DefaultExecutionEventBus {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly forward: (message: BrokerMessage) => Promise<void>) {
+    super();
+  }
+
+  publish(event: AgentExecutionEvent): void {
+    super.publish(event);
+    this.enqueue({ type: 'event', event, eventId: getSSEEventId(event) });
+  }
+
+  finished(): void {
+    super.finished();
+    this.enqueue({ type: 'finished' });
+  }
+
+  /**
+   * Delivers a message received from another instance to local listeners only.
+   */
+  deliver(message: BrokerMessage): void {
+    if (message.type === 'event') {
+      if (message.eventId !== undefined) {
+        setSSEEventId(message.event, message.eventId);
+      }
+      super.publish(message.event);
+    } else if (message.type === 'finished') {
+      super.finished();
+    }
+  }
+
+  private enqueue(message: BrokerMessage): void {
+    // Chain publications to preserve the order of events.
+    this.pending = this.pending.then(() =>
+      this.forward(message).catch((error) => {
+        console.error('Failed to forward execution event to the broker:', error);
+      })
+    );
+  }
+}
+
+interface RemoteExecution {
+  eventBus: BrokeredExecutionEventBus;
+  ownerId: string;
+  unsubscribe: () => Promise<void>;
+}
+
+/**
+ * {@link ExecutionEventBusManager} for deployments with several server instances sharing a
+ * {@link TaskStore}. Events published on the instance executing a task are relayed through an
+ * {@link ExecutionEventBroker}, so that `tasks/resubscribe` and `tasks/cancel` work
+ * whichever instance receives the request. Cancellation is routed to the executing instance.
+ */
+export class DistributedExecutionEventBusManager implements ExecutionEventBusManager {
+  private readonly instanceId: string;
+  private readonly channelPrefix: string;
+  private readonly lookupTimeoutMs: number;
+  private readonly localBuses: Map<string, BrokeredExecutionEventBus> = new Map();
+  private readonly remoteExecutions: Map<string, RemoteExecution> = new Map();
+  private readonly pendingLookups: Map<string, Promise<RemoteExecution | undefined>> = new Map();
+  private readonly lookupResolvers: Map<string, (ownerId: string) => void> = new Map();
+  private readonly ready: Promise<Array<() => Promise<void>>>;
+  private cancellationHandler?: TaskCancellationHandler;
+
+  constructor(
+    private readonly broker: ExecutionEventBroker,
+    options?: DistributedExecutionEventBusManagerOptions
+  ) {
+    this.instanceId = options?.instanceId ?? uuidv4();
+    this.channelPrefix = options?.channelPrefix ?? 'a2a:';
+    this.lookupTimeoutMs = options?.lookupTimeoutMs ?? 250;
+
+    const onMessage = (raw: string) => this.handleControlMessage(raw);
+    this.ready = Promise.all([
+      this.broker.subscribe(this.controlChannel(), onMessage),
+      this.broker.subscribe(this.instanceChannel(this.instanceId), onMessage),
+    ]);
+    // Surfaced to callers awaiting `ready`; avoid an unhandled rejection in the meantime.
+    this.ready.catch((error) => {
+      console.error('Failed to subscribe to the execution event broker:', error);
+    });
+  }
+
+  /**
+   * Creates or retrieves the event bus of a task executed by this instance.
+   * @param taskId The ID of the task.
+   * @returns An instance of ExecutionEventBus.
+   */
+  public createOrGetByTaskId(taskId: string): ExecutionEventBus {
+    let eventBus = this.localBuses.get(taskId);
+    if (!eventBus) {
+      eventBus = new BrokeredExecutionEventBus((message) =>
+        this.send(this.taskChannel(taskId), message)
+      );
+      this.localBuses.set(taskId, eventBus);
+    }
+    return eventBus;
+  }
+
+  /**
+   * Retrieves the event bus of a task known to this instance, without querying other instances.
+   * @param taskId The ID of the task.
+   * @returns An instance of ExecutionEventBus or undefined if not found.
+   */
+  public getByTaskId(taskId: string): ExecutionEventBus | undefined {
+    return this.localBuses.get(taskId) ?? this.remoteExecutions.get(taskId)?.eventBus;
+  }
+
+  /**
+   * Retrieves the event bus of a task executed by this or another instance.
+   * For a remote execution, the returned bus receives the events relayed by the broker.
+   * @param taskId The ID of the task.
+   * @returns An instance of ExecutionEventBus or undefined if no instance executes the task.
+   */
+  public async findByTaskId(taskId: string): Promise<ExecutionEventBus | undefined> {
+    const eventBus = this.getByTaskId(taskId);
+    if (eventBus) {
+      return eventBus;
+    }
+    return (await this.lookupRemoteExecution(taskId))?.eventBus;
+  }
+
+  /**
+   * Removes the event bus for a given taskId.
+   * @param taskId The ID of the task.
+   */
+  public cleanupByTaskId(taskId: string): void {
+    const localBus = this.localBuses.get(taskId);
+    if (localBus) {
+      localBus.removeAllListeners();
+      this.localBuses.delete(taskId);
+    }
+    this.dropRemoteExecution(taskId);
+  }
+
+  public async requestCancellation(taskId: string): Promise<boolean> {
+    if (this.localBuses.has(taskId)) {
+      return false;
+    }
+    const remote = this.remoteExecutions.get(taskId) ?? (await this.lookupRemoteExecution(taskId));
+    if (!remote) {
+      return false;
+    }
+    await this.send(this.instanceChannel(remote.ownerId), { type: 'cancel', taskId });
+    return true;
+  }
+
+  public onCancellationRequested(handler: TaskCancellationHandler): void {
+    this.cancellationHandler = handler;
+  }
+
+  /**
+   * Unsubscribes from the broker. Buses of remote executions stop receiving events.
+   */
+  public async close(): Promise<void> {
+    for (const taskId of [...this.remoteExecutions.keys()]) {
+      this.dropRemoteExecution(taskId);
+    }
+    const unsubscribes = await this.ready;
+    await Promise.all(unsubscribes.map((unsubscribe) => unsubscribe()));
+  }
+
+  private lookupRemoteExecution(taskId: string): Promise<RemoteExecution | undefined> {
+    let lookup = this.pendingLookups.get(taskId);
+    if (!lookup) {
+      lookup = this.doLookupRemoteExecution(taskId).finally(() => {
+        this.pendingLookups.delete(taskId);
+      });
+      this.pendingLookups.set(taskId, lookup);
+    }
+    return lookup;
+  }
+
+  private async doLookupRemoteExecution(taskId: string): Promise<RemoteExecution | undefined> {
+    await this.ready;
+
+    // Subscribe before asking, so that no event published after the answer is missed.
+    const eventBus = new BrokeredExecutionEventBus((message) =>
+      this.send(this.taskChannel(taskId), message)
+    );
+    const unsubscribe = await this.broker.subscribe(this.taskChannel(taskId), (raw) => {
+      const envelope = this.parse(raw);
+      if (!envelope || envelope.origin === this.instanceId) {
+        return;
+      }
+      const { message } = envelope;
+      eventBus.deliver(message);
+      if (
+        message.type === 'finished' ||
+        (message.type === 'event' && message.event.kind === 'status-update' && message.event.final)
+      ) {
+        this.dropRemoteExecution(taskId);
+      }
+    });
+
+    const requestId = uuidv4();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const ownerId = await new Promise<string | undefined>((resolve) => {
+      this.lookupResolvers.set(requestId, resolve);
+      timer = setTimeout(() => resolve(undefined), this.lookupTimeoutMs);
+      this.send(this.controlChannel(), { type: 'lookup', taskId, requestId }).catch((error) => {
+        console.error(`Failed to look up the execution of task ${taskId}:`, error);
+        resolve(undefined);
+      });
+    });
+    clearTimeout(timer);
+    this.lookupResolvers.delete(requestId);
+
+    if (!ownerId) {
+      await unsubscribe();
+      return undefined;
+    }
+    const remote: RemoteExecution = { eventBus, ownerId, unsubscribe };
+    this.remoteExecutions.set(taskId, remote);
+    return remote;
+  }
+
+  private dropRemoteExecution(taskId: string): void {
+    const remote = this.remoteExecutions.get(taskId);
+    if (!remote) {
+      return;
+    }
+    this.remoteExecutions.delete(taskId);
+    remote.eventBus.removeAllListeners();
+    remote.unsubscribe().catch((error) => {
+      console.error(`Failed to unsubscribe from events of task ${taskId}:`, error);
+    });
+  }
+
+  private handleControlMessage(raw: string): void {
+    const envelope = this.parse(raw);
+    if (!envelope || envelope.origin === this.instanceId) {
+      return;
+    }
+    const { origin, message } = envelope;
+    switch (message.type) {
+      case 'lookup':
+        if (this.localBuses.has(message.taskId)) {
+          this.send(this.instanceChannel(origin), {
+            type: 'owner',
+            taskId: message.taskId,
+            requestId: message.requestId,
+          }).catch((error) => {
+            console.error(`Failed to answer lookup for task ${message.taskId}:`, error);
+          });
+        }
+        break;
+      case 'owner':
+        this.lookupResolvers.get(message.requestId)?.(origin);
+        break;
+      case 'cancel':
+        this.handleCancellationRequest(message.taskId);
+        break;
+    }
+  }
+
+  private handleCancellationRequest(taskId: string): void {
+    const eventBus = this.localBuses.get(taskId);
+    if (!eventBus) {
+      return;
+    }
+    if (!this.cancellationHandler) {
+      console.warn(`Cancellation of task ${taskId} requested, but no handler is registered.`);
+      return;
+    }
+    this.cancellationHandler(taskId, eventBus).catch((error) => {
+      console.error(`Failed to cancel task ${taskId}:`, error);
+    });
+  }
+
+  private send(channel: string, message: BrokerMessage): Promise<void> {
+    const envelope: BrokerEnvelope = { origin: this.instanceId, message };
+    return this.broker.publish(channel, JSON.stringify(envelope));
+  }
+
+  private parse(raw: string): BrokerEnvelope | undefined {
+    try {
+      return JSON.parse(raw) as BrokerEnvelope;
+    } catch (error) {
+      console.error('Ignoring malformed broker message:', error);
+      return undefined;
+    }
+  }
+
+  private controlChannel(): string {
+    return `${this.channelPrefix}control`;
+  }
+
+  private instanceChannel(instanceId: string): string {
+    return `${this.channelPrefix}instance:${instanceId}`;
+  }
+
+  private taskChannel(taskId: string): string {
+    return `${this.channelPrefix}task:${taskId}`;
+  }
+}
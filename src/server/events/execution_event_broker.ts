@@ -0,0 +1,70 @@
+/**
+ * Listener invoked with each message published on a channel.
+ */
+export type ExecutionEventBrokerListener = (message: string) => void;
+
+/**
+ * Publish/subscribe transport connecting the {@link ExecutionEventBusManager}s of
+ * several server instances. Messages are opaque strings delivered at most once,
+ * in publication order, to every subscriber of a channel (including the publisher's own instance).
+ */
+export interface ExecutionEventBroker {
+  /**
+   * Publishes a message on a channel.
+   * @param channel The channel name.
+   * @param message The serialized message.
+   */
+  publish(channel: string, message: string): Promise<void>;
+
+  /**
+   * Subscribes to a channel.
+   * @param channel The channel name.
+   * @param listener Invoked with each message published on the channel.
+   * @returns A function removing the subscription.
+   */
+  subscribe(channel: string, listener: ExecutionEventBrokerListener): Promise<() => Promise<void>>;
+}
+
+/**
+ * Process-local {@link ExecutionEventBroker}.
+ * Reference implementation, also useful to run several request handlers in the same process.
+ */
+export class InMemoryExecutionEventBroker implements ExecutionEventBroker {
+  private readonly channels: Map<string, Set<ExecutionEventBrokerListener>> = new Map();
+
+  async publish(channel: string, message: string): Promise<void> {
+    const listeners = this.channels.get(channel);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(`Error delivering message on channel ${channel}:`, error);
+      }
+    }
+  }
+
+  async subscribe(
+    channel: string,
+    listener: ExecutionEventBrokerListener
+  ): Promise<() => Promise<void>> {
+    // Wrap the listener so that the same function can be subscribed more than once.
+    const subscription: ExecutionEventBrokerListener = (message) => listener(message);
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+    }
+    listeners.add(subscription);
+
+    return async () => {
+      const current = this.channels.get(channel);
+      current?.delete(subscription);
+      if (current?.size === 0) {
+        this.channels.delete(channel);
+      }
+    };
+  }
+}
@@ -1,9 +1,38 @@
 import { DefaultExecutionEventBus, ExecutionEventBus } from './execution_event_bus.js';
 
+/**
+ * Cancels the execution of a task, publishing the resulting events on its bus.
+ */
+export type TaskCancellationHandler = (
+  taskId: string,
+  eventBus: ExecutionEventBus
+) => Promise<void>;
+
 export interface ExecutionEventBusManager {
   createOrGetByTaskId(taskId: string): ExecutionEventBus;
   getByTaskId(taskId: string): ExecutionEventBus | undefined;
   cleanupByTaskId(taskId: string): void;
+
+  /**
+   * Retrieves the event bus of a task that may be executed by another server instance.
+   * Managers that only know about local executions can omit it; `getByTaskId` is used instead.
+   * @param taskId The ID of the task.
+   */
+  findByTaskId?(taskId: string): Promise<ExecutionEventBus | undefined>;
+
+  /**
+   * Routes a cancellation request to the server instance executing the task.
+   * @param taskId The ID of the task.
+   * @returns true if another instance executes the task and was asked to cancel it,
+   * false if the task must be canceled locally.
+   */
+  requestCancellation?(taskId: string): Promise<boolean>;
+
+  /**
+   * Registers the handler invoked when another server instance requests the cancellation
+   * of a task executed locally.
+   */
+  onCancellationRequested?(handler: TaskCancellationHandler): void;
 }
 
 export class DefaultExecutionEventBusManager implements ExecutionEventBusManager {
@@ -0,0 +1,105 @@
+import { ExecutionEventBroker, ExecutionEventBrokerListener } from './execution_event_broker.js';
+
+/**
+ * Connection able to publish on Redis channels (`PUBLISH`).
+ */
+export interface RedisPublisherLike {
+  publish(channel: string, message: string): Promise<unknown>;
+}
+
+/**
+ * Connection in Redis subscriber mode (`SUBSCRIBE` / `UNSUBSCRIBE`), emitting
+ * a `message` event for each received message, as exposed by ioredis.
+ * Other clients can be adapted with a thin wrapper.
+ */
+export interface RedisSubscriberLike {
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+}
+
+interface RedisChannel {
+  listeners: Set<ExecutionEventBrokerListener>;
+  /** Settles once the `SUBSCRIBE` command is acknowledged. */
+  subscribed: Promise<void>;
+}
+
+/**
+ * {@link ExecutionEventBroker} on top of Redis pub/sub.
+ * Redis requires a dedicated connection for subscriptions, hence the separate publisher
+ * and subscriber connections.
+ *
+ * @example
+ * ```ts
+ * import Redis from 'ioredis';
+ *
+ * const broker = new RedisExecutionEventBroker(new Redis(url), new Redis(url));
+ * const eventBusManager = new DistributedExecutionEventBusManager(broker);
+ * ```
+ */
+export class RedisExecutionEventBroker implements ExecutionEventBroker {
+  private readonly channels: Map<string, RedisChannel> = new Map();
+
+  constructor(
+    private readonly publisher: RedisPublisherLike,
+    private readonly subscriber: RedisSubscriberLike
+  ) {
+    this.subscriber.on('message', (channel, message) => this.dispatch(channel, message));
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.publish(channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    listener: ExecutionEventBrokerListener
+  ): Promise<() => Promise<void>> {
+    let entry = this.channels.get(channel);
+    if (!entry) {
+      entry = { listeners: new Set(), subscribed: Promise.resolve() };
+      this.channels.set(channel, entry);
+      entry.subscribed = this.subscribeChannel(channel, entry);
+    }
+    const subscribedEntry = entry;
+    await subscribedEntry.subscribed;
+
+    const subscription: ExecutionEventBrokerListener = (message) => listener(message);
+    subscribedEntry.listeners.add(subscription);
+
+    return async () => {
+      if (!subscribedEntry.listeners.delete(subscription) || subscribedEntry.listeners.size > 0) {
+        return;
+      }
+      if (this.channels.get(channel) === subscribedEntry) {
+        this.channels.delete(channel);
+        await this.subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
+  private async subscribeChannel(channel: string, entry: RedisChannel): Promise<void> {
+    try {
+      await this.subscriber.subscribe(channel);
+    } catch (error) {
+      if (this.channels.get(channel) === entry) {
+        this.channels.delete(channel);
+      }
+      throw error;
+    }
+  }
+
+  private dispatch(channel: string, message: string): void {
+    const entry = this.channels.get(channel);
+    if (!entry) {
+      return;
+    }
+    for (const listener of [...entry.listeners]) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(`Error delivering message on channel ${channel}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Task, TaskArtifactUpdateEvent, TaskStatusUpdateEvent } from '../../types.js';
+
+/**
+ * Task events recorded by a {@link TaskEventJournal}.
+ * Messages are not journaled since they are not part of a task's event stream.
+ */
+export type JournaledTaskEvent = Task | TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+
+/**
+ * An event recorded in the journal together with its ID.
+ */
+export interface TaskEventJournalEntry {
+  /** Opaque ID, sent to clients as the SSE event ID. */
+  id: string;
+  event: JournaledTaskEvent;
+}
+
+/**
+ * Per-task log of emitted events, used to replay events a client missed
+ * while its stream was disconnected (SSE `Last-Event-ID`).
+ */
+export interface TaskEventJournal {
+  /**
+   * Records an event for a task.
+   * Called synchronously on publish so that the ID is known before any subscriber receives the event.
+   * @param taskId The ID of the task the event belongs to.
+   * @param event The event to record.
+   * @returns The ID assigned to the event.
+   */
+  append(taskId: string, event: JournaledTaskEvent): string;
+
+  /**
+   * Records an event under the ID another server instance assigned to it, for events of
+   * executions relayed by a `DistributedExecutionEventBusManager`. Journals shared by all
+   * instances already hold the event and can ignore it. Without this method, relayed events
+   * are not journaled, and clients resuming on this instance receive the task snapshot instead.
+   * @param taskId The ID of the task the event belongs to.
+   * @param entry The event and its ID.
+   */
+  record?(taskId: string, entry: TaskEventJournalEntry): void;
+
+  /**
+   * Returns the events recorded after the given event, in order.
+   * @param taskId The ID of the task.
+   * @param lastEventId The ID of the last event received by the client.
+   * @returns The missed events, or undefined if `lastEventId` is unknown (e.g. already evicted).
+   */
+  readAfter(taskId: string, lastEventId: string): Promise<TaskEventJournalEntry[] | undefined>;
+}
+
+export interface InMemoryTaskEventJournalOptions {
+  /**
+   * Maximum number of events kept per task; older events are evicted first.
+   * Defaults to 1000.
+   */
+  maxEventsPerTask?: number;
+
+  /**
+   * How long the journal of a task is kept after its last event, in milliseconds.
+   * Defaults to 10 minutes.
+   */
+  retentionMs?: number;
+}
+
+interface TaskJournal {
+  nextSequence: number;
+  lastAppendAt: number;
+  entries: TaskEventJournalEntry[];
+}
+
+/**
+ * In-memory {@link TaskEventJournal}. Event IDs are per-task sequence numbers, qualified by an ID
+ * of the journal, so that IDs assigned by other instances are never mistaken for its own.
+ */
+export class InMemoryTaskEventJournal implements TaskEventJournal {
+  private readonly journals: Map<string, TaskJournal> = new Map();
+  private readonly maxEventsPerTask: number;
+  private readonly retentionMs: number;
+  private readonly journalId: string = uuidv4();
+  private lastSweepAt = 0;
+
+  constructor(options?: InMemoryTaskEventJournalOptions) {
+    this.maxEventsPerTask = options?.maxEventsPerTask ?? 1000;
+    this.retentionMs = options?.retentionMs ?? 10 * 60 * 1000;
+  }
+
+  append(taskId: string, event: JournaledTaskEvent): string {
+    const journal = this.getJournal(taskId);
+    const id = `${this.journalId}:${journal.nextSequence++}`;
+    this.push(journal, { id, event });
+    return id;
+  }
+
+  record(taskId: string, entry: TaskEventJournalEntry): void {
+    this.push(this.getJournal(taskId), entry);
+  }
+
+  async readAfter(
+    taskId: string,
+    lastEventId: string
+  ): Promise<TaskEventJournalEntry[] | undefined> {
+    const journal = this.journals.get(taskId);
+    if (!journal || this.isExpired(journal, Date.now())) {
+      return undefined;
+    }
+    const index = journal.entries.findIndex((entry) => entry.id === lastEventId);
+    return index === -1 ? undefined : journal.entries.slice(index + 1);
+  }
+
+  private getJournal(taskId: string): TaskJournal {
+    const now = Date.now();
+    this.sweep(now);
+
+    let journal = this.journals.get(taskId);
+    if (!journal) {
+      journal = { nextSequence: 1, lastAppendAt: now, entries: [] };
+      this.journals.set(taskId, journal);
+    }
+    journal.lastAppendAt = now;
+    return journal;
+  }
+
+  private push(journal: TaskJournal, entry: TaskEventJournalEntry): void {
+    journal.entries.push(entry);
+    if (journal.entries.length > this.maxEventsPerTask) {
+      journal.entries.shift();
+    }
+  }
+
+  private isExpired(journal: TaskJournal, now: number): boolean {
+    return now - journal.lastAppendAt > this.retentionMs;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweepAt < this.retentionMs) {
+      return;
+    }
+    this.lastSweepAt = now;
+    for (const [taskId, journal] of this.journals) {
+      if (this.isExpired(journal, now)) {
+        this.journals.delete(taskId);
+      }
+    }
+  }
+}
@@ -35,7 +35,7 @@ import type {
   NextFunction,
   Express,
 } from 'express';
-import { A2ARequestHandler } from '../request_handler/a2a_request_handler.js';
+import { A2ARequestHandler, ShutdownOptions } from '../request_handler/a2a_request_handler.js';
 import { A2AError } from '../error.js';
 import { JsonRpcTransportHandler } from '../transports/jsonrpc/jsonrpc_transport_handler.js';
 import {
@@ -43,16 +43,34 @@ import {
   HTTP_STATUS,
   mapErrorToStatus,
   toHTTPError,
+  toHTTPErrorHeaders,
 } from '../transports/rest/rest_transport_handler.js';
-import { ServerCallContext } from '../context.js';
-import { HTTP_EXTENSION_HEADER } from '../../constants.js';
+import { ServerCallContext, parseTimeoutServiceParameter } from '../context.js';
+import { parseTraceparent } from '../../tracing.js';
+import {
+  HTTP_EXTENSION_HEADER,
+  HTTP_TIMEOUT_HEADER,
+  TRACEPARENT_HEADER,
+  LAST_EVENT_ID_HEADER,
+} from '../../constants.js';
 import { Extensions } from '../../extensions.js';
 import { User, UnauthenticatedUser } from '../authentication/user.js';
-import { JSONRPCErrorResponse, JSONRPCSuccessResponse } from '../../types.js';
-import { SSE_HEADERS, formatSSEEvent, formatSSEErrorEvent } from '../../sse_utils.js';
+import {
+  SecuritySchemeVerifier,
+  createSecuritySchemesUserBuilder,
+} from '../authentication/security_schemes.js';
+import { expressRequestCredentials } from '../express/common.js';
+import { AgentCard, JSONRPCErrorResponse, JSONRPCSuccessResponse } from '../../types.js';
+import {
+  SSE_HEADERS,
+  formatSSEEvent,
+  formatSSEErrorEvent,
+  sseEventToString,
+} from '../../sse_utils.js';
 import { Logger, ConsoleLogger, LogContext } from '../logging/logger.js';
 import { processStream, StreamConsumer } from '../transports/streaming.js';
 import { AGENT_CARD_ROUTE } from '../transports/routes.js';
+import { computeAgentCardETag, isNotModified } from '../request_handler/agent_card_utils.js';
 
 /**
  * Express-specific options for the A2A app.
@@ -83,6 +101,16 @@ export const UserBuilder = {
    * Returns an unauthenticated user for all requests.
    */
   noAuthentication: (): UserBuilder => () => Promise.resolve(new UnauthenticatedUser()),
+
+  /**
+   * Authenticates requests with the security schemes declared in the agent card, see
+   * `authenticateRequest`.
+   */
+  securitySchemes: (
+    agentCard: AgentCard,
+    verifiers: Record<string, SecuritySchemeVerifier>
+  ): UserBuilder =>
+    createSecuritySchemesUserBuilder(agentCard, verifiers, expressRequestCredentials),
 };
 
 /**
@@ -138,6 +166,15 @@ export class A2AExpressApp {
     this.options = options;
   }
 
+  /**
+   * Shuts down the request handler: new messages are rejected, and running executions
+   * are given `timeoutMs` to finish before being canceled.
+   * See {@link A2ARequestHandler.shutdown}.
+   */
+  public async shutdown(options?: ShutdownOptions): Promise<void> {
+    await this.requestHandler.shutdown?.(options);
+  }
+
   /**
    * Adds A2A routes to an existing Express app.
    *
@@ -169,7 +206,9 @@ export class A2AExpressApp {
       const user = await userBuilder(req);
       return new ServerCallContext(
         Extensions.parseServiceParameter(req.header(HTTP_EXTENSION_HEADER)),
-        user ?? new UnauthenticatedUser()
+        user ?? new UnauthenticatedUser(),
+        parseTimeoutServiceParameter(req.header(HTTP_TIMEOUT_HEADER)),
+        parseTraceparent(req.header(TRACEPARENT_HEADER))
       );
     };
 
@@ -205,7 +244,7 @@ export class A2AExpressApp {
           if (event.event === 'error') {
             res.write(formatSSEErrorEvent(JSON.parse(event.data)));
           } else {
-            res.write(formatSSEEvent(JSON.parse(event.data)));
+            res.write(sseEventToString(event));
           }
         },
         end() {
@@ -232,6 +271,7 @@ export class A2AExpressApp {
       });
 
       if (result.earlyError && result.statusCode && result.errorBody) {
+        res.set(result.errorHeaders);
         sendResponse(res, result.statusCode, context, result.errorBody);
       }
     };
@@ -250,6 +290,7 @@ export class A2AExpressApp {
               error instanceof Error ? error.message : 'Internal server error'
             );
       const statusCode = mapErrorToStatus(a2aError.code);
+      res.set(toHTTPErrorHeaders(a2aError));
       res.status(statusCode).json(toHTTPError(a2aError));
     };
 
@@ -271,7 +312,9 @@ export class A2AExpressApp {
         id: requestId,
         error: a2aError.toJSONRPCError(),
       };
-      res.status(500).json(errorResponse);
+      const unauthorized = mapErrorToStatus(a2aError.code) === HTTP_STATUS.UNAUTHORIZED;
+      res.set(toHTTPErrorHeaders(a2aError));
+      res.status(unauthorized ? HTTP_STATUS.UNAUTHORIZED : 500).json(errorResponse);
     };
 
     // ==========================================================================
@@ -315,6 +358,16 @@ export class A2AExpressApp {
       try {
         logger.debug('Agent card request received', logCtx);
         const agentCard = await this.requestHandler.getAgentCard();
+        const etag = await computeAgentCardETag(agentCard);
+        res.setHeader('ETag', etag);
+        if (isNotModified(req.get('If-None-Match'), etag)) {
+          logger.debug('Agent card not modified', {
+            ...logCtx,
+            durationMs: Date.now() - startTime,
+          });
+          res.status(304).end();
+          return;
+        }
         logger.info('Agent card served', { ...logCtx, durationMs: Date.now() - startTime });
         res.json(agentCard);
       } catch (error) {
@@ -443,6 +496,15 @@ export class A2AExpressApp {
         })
       );
 
+      router.get(
+        `${restBasePath}/v1/tasks`,
+        asyncHandler(async (req, res) => {
+          const context = await buildContext(req);
+          const result = await restTransportHandler.listTasks(req.query, context);
+          sendResponse(res, HTTP_STATUS.OK, context, result);
+        })
+      );
+
       router.get(
         `${restBasePath}/v1/tasks/:taskId`,
         asyncHandler(async (req, res) => {
@@ -450,7 +512,8 @@ export class A2AExpressApp {
           const result = await restTransportHandler.getTask(
             req.params.taskId,
             context,
-            req.query.historyLength as string | undefined
+            req.query.historyLength as string | undefined,
+            req.query.stateTransitionHistoryLength as string | undefined
           );
           sendResponse(res, HTTP_STATUS.OK, context, result);
         })
@@ -469,7 +532,11 @@ export class A2AExpressApp {
         `${restBasePath}/v1/tasks/:taskId\\:subscribe`,
         asyncHandler(async (req, res) => {
           const context = await buildContext(req);
-          const stream = await restTransportHandler.resubscribe(req.params.taskId, context);
+          const stream = await restTransportHandler.resubscribe(
+            req.params.taskId,
+            context,
+            req.header(LAST_EVENT_ID_HEADER)
+          );
           await sendStreamResponse(res, stream, context, {
             path: `${restBasePath}/v1/tasks/${req.params.taskId}:subscribe`,
             taskId: req.params.taskId,
@@ -528,6 +595,36 @@ export class A2AExpressApp {
           sendResponse(res, HTTP_STATUS.NO_CONTENT, context);
         })
       );
+
+      // Custom routes of extension methods registered in the request handler
+      router.use(restBasePath, async (req: ExpressRequest, res: ExpressResponse, next) => {
+        const match = restTransportHandler.matchExtensionRoute(req.method, req.path);
+        if (!match) {
+          next();
+          return;
+        }
+        try {
+          const context = await buildContext(req);
+          const { statusCode, result } = await restTransportHandler.callExtensionMethod(
+            match,
+            req.query as Record<string, string>,
+            req.body,
+            context
+          );
+          if (match.definition.streaming) {
+            await sendStreamResponse(
+              res,
+              result as AsyncGenerator<unknown, void, undefined>,
+              context,
+              { method: req.method, path: `${restBasePath}${req.path}` }
+            );
+          } else {
+            sendResponse(res, statusCode, context, result);
+          }
+        } catch (error) {
+          handleError(res, error);
+        }
+      });
     }
 
     // Mount router to app
@@ -1,6 +1,6 @@
 import express, { Express, RequestHandler, ErrorRequestHandler } from 'express';
 
-import { A2ARequestHandler } from '../request_handler/a2a_request_handler.js';
+import { A2ARequestHandler, ShutdownOptions } from '../request_handler/a2a_request_handler.js';
 import { AGENT_CARD_PATH } from '../../constants.js';
 import { jsonErrorHandler, jsonRpcHandler } from './json_rpc_handler.js';
 import { agentCardHandler } from './agent_card_handler.js';
@@ -80,6 +80,15 @@ export class A2AExpressApp {
     };
   }
 
+  /**
+   * Shuts down the request handler: new messages are rejected, and running executions
+   * are given `timeoutMs` to finish before being canceled.
+   * See {@link A2ARequestHandler.shutdown}.
+   */
+  public async shutdown(options?: ShutdownOptions): Promise<void> {
+    await this.requestHandler.shutdown?.(options);
+  }
+
   /**
    * Adds A2A routes to an existing Express app.
    *
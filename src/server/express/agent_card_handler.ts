@@ -1,7 +1,12 @@
 import express, { Request, Response, RequestHandler } from 'express';
 
 // Import core logic
-import { AgentCardProvider, fetchAgentCard } from '../request_handler/agent_card_utils.js';
+import {
+  AgentCardProvider,
+  computeAgentCardETag,
+  fetchAgentCard,
+  isNotModified,
+} from '../request_handler/agent_card_utils.js';
 
 export { AgentCardProvider };
 
@@ -14,6 +19,8 @@ export interface AgentCardHandlerOptions {
  *
  * This handler uses the core agent card logic for business processing
  * and only implements Express-specific I/O operations.
+ * Responses carry an ETag, and conditional requests (`If-None-Match`) get a
+ * `304 Not Modified` while the agent card is unchanged.
  *
  * @example
  * ```ts
@@ -27,12 +34,18 @@ export interface AgentCardHandlerOptions {
 export function agentCardHandler(options: AgentCardHandlerOptions): RequestHandler {
   const router = express.Router();
 
-  router.get('/', async (_req: Request, res: Response) => {
+  router.get('/', async (req: Request, res: Response) => {
     // Use core logic for fetching agent card
     const result = await fetchAgentCard(options.agentCardProvider);
 
     if (result.success === true) {
-      res.json(result.agentCard);
+      const etag = await computeAgentCardETag(result.agentCard);
+      res.setHeader('ETag', etag);
+      if (isNotModified(req.get('If-None-Match'), etag)) {
+        res.status(304).end();
+      } else {
+        res.json(result.agentCard);
+      }
     } else {
       res.status(500).json({ error: result.error });
     }
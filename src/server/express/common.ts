@@ -1,8 +1,38 @@
 import { Request } from 'express';
+import { AgentCard } from '../../types.js';
 import { UnauthenticatedUser, User } from '../authentication/user.js';
+import {
+  RequestCredentials,
+  SecuritySchemeVerifier,
+  createRequestCredentials,
+  createSecuritySchemesUserBuilder,
+} from '../authentication/security_schemes.js';
 
 export type UserBuilder = (req: Request) => Promise<User>;
 
 export const UserBuilder = {
   noAuthentication: () => Promise.resolve(new UnauthenticatedUser()),
+
+  /**
+   * Authenticates requests with the security schemes declared in the agent card, see
+   * `authenticateRequest`.
+   */
+  securitySchemes: (
+    agentCard: AgentCard,
+    verifiers: Record<string, SecuritySchemeVerifier>
+  ): UserBuilder =>
+    createSecuritySchemesUserBuilder(agentCard, verifiers, expressRequestCredentials),
 };
+
+/**
+ * Reads the credentials of an Express request.
+ */
+export function expressRequestCredentials(req: Request): RequestCredentials {
+  return createRequestCredentials(
+    (name) => req.header(name),
+    (name) => {
+      const value = req.query[name];
+      return typeof value === 'string' ? value : undefined;
+    }
+  );
+}
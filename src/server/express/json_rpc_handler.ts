@@ -7,7 +7,7 @@ import express, {
 } from 'express';
 import { A2ARequestHandler } from '../request_handler/a2a_request_handler.js';
 import { JsonRpcTransportHandler } from '../transports/jsonrpc/jsonrpc_transport_handler.js';
-import { HTTP_EXTENSION_HEADER } from '../../constants.js';
+import { HTTP_EXTENSION_HEADER, HTTP_TIMEOUT_HEADER, TRACEPARENT_HEADER } from '../../constants.js';
 import { UnauthenticatedUser } from '../authentication/user.js';
 import { UserBuilder } from './common.js';
 
@@ -54,6 +54,8 @@ export function jsonRpcHandler(options: JsonRpcHandlerOptions): RequestHandler {
         {
           body: req.body,
           extensionsHeader: req.header(HTTP_EXTENSION_HEADER) ?? null,
+          timeoutHeader: req.header(HTTP_TIMEOUT_HEADER) ?? null,
+          traceparentHeader: req.header(TRACEPARENT_HEADER) ?? null,
           user: user ?? new UnauthenticatedUser(),
         },
         jsonRpcTransportHandler
@@ -75,7 +77,7 @@ export function jsonRpcHandler(options: JsonRpcHandlerOptions): RequestHandler {
       // Use core error formatting
       const errorResult = formatJsonRpcError(error, requestId);
       if (!res.headersSent) {
-        res.status(errorResult.statusCode).json(errorResult.body);
+        res.status(errorResult.statusCode).set(errorResult.headers).json(errorResult.body);
       } else if (!res.writableEnded) {
         res.end();
       }
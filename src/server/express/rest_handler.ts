@@ -13,9 +13,16 @@ import {
   HTTP_STATUS,
   mapErrorToStatus,
   toHTTPError,
+  toHTTPErrorHeaders,
 } from '../transports/rest/rest_transport_handler.js';
-import { ServerCallContext } from '../context.js';
-import { HTTP_EXTENSION_HEADER } from '../../constants.js';
+import { ServerCallContext, parseTimeoutServiceParameter } from '../context.js';
+import { parseTraceparent } from '../../tracing.js';
+import {
+  HTTP_EXTENSION_HEADER,
+  HTTP_TIMEOUT_HEADER,
+  TRACEPARENT_HEADER,
+  LAST_EVENT_ID_HEADER,
+} from '../../constants.js';
 import { UserBuilder } from './common.js';
 import { Extensions } from '../../extensions.js';
 
@@ -105,7 +112,9 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
     const user = await options.userBuilder(req);
     return new ServerCallContext(
       Extensions.parseServiceParameter(req.header(HTTP_EXTENSION_HEADER)),
-      user
+      user,
+      parseTimeoutServiceParameter(req.header(HTTP_TIMEOUT_HEADER)),
+      parseTraceparent(req.header(TRACEPARENT_HEADER))
     );
   };
 
@@ -174,6 +183,7 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
           ? error
           : A2AError.internalError(error instanceof Error ? error.message : 'Streaming error');
       const statusCode = mapErrorToStatus(a2aError.code);
+      res.set(toHTTPErrorHeaders(a2aError));
       sendResponse(res, statusCode, context, toHTTPError(a2aError));
       return;
     }
@@ -232,6 +242,7 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
         ? error
         : A2AError.internalError(error instanceof Error ? error.message : 'Internal server error');
     const statusCode = mapErrorToStatus(a2aError.code);
+    res.set(toHTTPErrorHeaders(a2aError));
     res.status(statusCode).json(toHTTPError(a2aError));
   };
 
@@ -314,6 +325,29 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
     })
   );
 
+  /**
+   * GET /v1/tasks
+   *
+   * Lists tasks, most recently updated first.
+   *
+   * @param req.query.contextId - Optional context filter
+   * @param req.query.status - Optional task state filter
+   * @param req.query.lastUpdatedAfter - Optional timestamp (epoch milliseconds or ISO 8601)
+   * @param req.query.pageSize - Optional page size (1-100, default 50)
+   * @param req.query.pageToken - Optional cursor returned by a previous call
+   * @param req.query.historyLength - Optional number of history messages to include
+   * @returns 200 OK with { tasks, nextPageToken? }
+   * @returns 400 Bad Request if a parameter is invalid
+   */
+  router.get(
+    '/v1/tasks',
+    asyncHandler(async (req, res) => {
+      const context = await buildContext(req);
+      const result = await restTransportHandler.listTasks(req.query, context);
+      sendResponse(res, HTTP_STATUS.OK, context, result);
+    })
+  );
+
   /**
    * GET /v1/tasks/:taskId
    *
@@ -321,8 +355,9 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
    *
    * @param req.params.taskId - Task identifier
    * @param req.query.historyLength - Optional number of history messages to include
+   * @param req.query.stateTransitionHistoryLength - Optional number of state transitions to include
    * @returns 200 OK with RestTask
-   * @returns 400 Bad Request if historyLength is invalid
+   * @returns 400 Bad Request if historyLength or stateTransitionHistoryLength is invalid
    * @returns 404 Not Found if task doesn't exist
    */
   router.get(
@@ -332,7 +367,8 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
       const result = await restTransportHandler.getTask(
         req.params.taskId,
         context,
-        req.query.historyLength
+        req.query.historyLength,
+        req.query.stateTransitionHistoryLength
       );
       sendResponse(res, HTTP_STATUS.OK, context, result);
     })
@@ -365,6 +401,7 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
    * Useful for reconnecting to long-running tasks or receiving missed updates.
    *
    * @param req.params.taskId - Task identifier
+   * @param req.headers.last-event-id - Optional ID of the last received event, to replay missed events
    * @returns 200 OK with SSE stream of task status and artifact updates
    * @returns 404 Not Found if task doesn't exist
    * @returns 501 Not Implemented if streaming not supported
@@ -373,7 +410,11 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
     '/v1/tasks/:taskId\\:subscribe',
     asyncHandler(async (req, res) => {
       const context = await buildContext(req);
-      const stream = await restTransportHandler.resubscribe(req.params.taskId, context);
+      const stream = await restTransportHandler.resubscribe(
+        req.params.taskId,
+        context,
+        req.header(LAST_EVENT_ID_HEADER)
+      );
       await sendStreamResponse(res, stream, context);
     })
   );
@@ -470,5 +511,34 @@ export function restHandler(options: RestHandlerOptions): RequestHandler {
     })
   );
 
+  /**
+   * Custom routes of extension methods registered in the request handler.
+   *
+   * @returns 404 Not Found if no extension method matches the route
+   */
+  router.use(async (req: Request, res: Response, next: NextFunction) => {
+    const match = restTransportHandler.matchExtensionRoute(req.method, req.path);
+    if (!match) {
+      next();
+      return;
+    }
+    try {
+      const context = await buildContext(req);
+      const { statusCode, result } = await restTransportHandler.callExtensionMethod(
+        match,
+        req.query as Record<string, string>,
+        req.body,
+        context
+      );
+      if (match.definition.streaming) {
+        await sendStreamResponse(res, result as AsyncGenerator<unknown, void, undefined>, context);
+      } else {
+        sendResponse(res, statusCode, context, result);
+      }
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,153 @@
+import { ExtensionURI } from '../../extensions.js';
+import { AgentCard } from '../../types.js';
+import { ServerCallContext } from '../context.js';
+import { A2AError } from '../error.js';
+import { HttpMethod, RoutePattern, toRegex } from '../transports/routes.js';
+
+/**
+ * REST route exposing an extension method, in addition to its JSON-RPC method.
+ * The method params merge the query parameters, the JSON body and the path parameters.
+ */
+export interface ExtensionRestRoute {
+  method: HttpMethod;
+  /** Route pattern with :param placeholders, relative to the REST base path (e.g., '/v1/x/:id'). */
+  pattern: RoutePattern;
+  /** HTTP status code on success. Defaults to 200, or 204 if the method returns nothing. */
+  successStatus?: number;
+}
+
+interface ExtensionMethodDefinitionBase {
+  /**
+   * URI of the extension providing the method. It must be declared in
+   * `AgentCard.capabilities.extensions` and requested by the client in `X-A2A-Extensions`.
+   */
+  extension: ExtensionURI;
+  /** JSON-RPC method name, namespaced by the extension (e.g., 'myext/doSomething'). */
+  method: string;
+  /** Optional REST route for the method. */
+  rest?: ExtensionRestRoute;
+}
+
+export interface UnaryExtensionMethodDefinition<TParams = unknown, TResult = unknown>
+  extends ExtensionMethodDefinitionBase {
+  streaming?: false;
+  handler(params: TParams, context: ServerCallContext): Promise<TResult>;
+}
+
+export interface StreamingExtensionMethodDefinition<TParams = unknown, TResult = unknown>
+  extends ExtensionMethodDefinitionBase {
+  /** Streaming methods are sent as SSE streams, and require the streaming capability. */
+  streaming: true;
+  handler(params: TParams, context: ServerCallContext): AsyncGenerator<TResult, void, undefined>;
+}
+
+export type ExtensionMethodDefinition<TParams = unknown, TResult = unknown> =
+  | UnaryExtensionMethodDefinition<TParams, TResult>
+  | StreamingExtensionMethodDefinition<TParams, TResult>;
+
+/**
+ * An extension method matched by a REST request.
+ */
+export interface ExtensionRouteMatch {
+  definition: ExtensionMethodDefinition;
+  pathParams: Record<string, string>;
+}
+
+const CORE_METHODS = new Set([
+  'message/send',
+  'message/stream',
+  'tasks/get',
+  'tasks/list',
+  'tasks/cancel',
+  'tasks/resubscribe',
+  'tasks/pushNotificationConfig/set',
+  'tasks/pushNotificationConfig/get',
+  'tasks/pushNotificationConfig/list',
+  'tasks/pushNotificationConfig/delete',
+  'agent/getAuthenticatedExtendedCard',
+]);
+
+/**
+ * Registry of custom JSON-RPC methods (and REST routes) provided by protocol extensions.
+ *
+ * Methods are only callable when their extension is declared in the agent card and requested
+ * by the client, in which case the extension is reported as activated in the response.
+ *
+ * @example
+ * ```ts
+ * requestHandler.extensionMethods.register({
+ *   extension: 'https://example.com/ext/timestamps/v1',
+ *   method: 'timestamps/now',
+ *   rest: { method: 'GET', pattern: '/v1/timestamps/now' },
+ *   handler: async () => ({ now: Date.now() }),
+ * });
+ * ```
+ */
+export class ExtensionMethodRegistry {
+  private readonly methods: Map<string, ExtensionMethodDefinition> = new Map();
+
+  /**
+   * Registers an extension method.
+   * @throws Error if the method is a core A2A method or is already registered.
+   */
+  register<TParams = unknown, TResult = unknown>(
+    definition: ExtensionMethodDefinition<TParams, TResult>
+  ): this {
+    if (CORE_METHODS.has(definition.method)) {
+      throw new Error(`Cannot register core A2A method ${definition.method} as extension method.`);
+    }
+    if (this.methods.has(definition.method)) {
+      throw new Error(`Extension method ${definition.method} is already registered.`);
+    }
+    this.methods.set(definition.method, definition as ExtensionMethodDefinition);
+    return this;
+  }
+
+  get(method: string): ExtensionMethodDefinition | undefined {
+    return this.methods.get(method);
+  }
+
+  /**
+   * Finds the extension method exposed at a REST path, relative to the REST base path.
+   */
+  matchRestRoute(httpMethod: string, path: string): ExtensionRouteMatch | undefined {
+    for (const definition of this.methods.values()) {
+      if (definition.rest?.method !== httpMethod) {
+        continue;
+      }
+      const match = toRegex(definition.rest.pattern).exec(path);
+      if (match) {
+        return { definition, pathParams: { ...match.groups } };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Invokes an extension method after checking that its extension is declared in the agent card
+   * and requested by the client, and marks the extension as activated.
+   *
+   * @returns The result of the method, or an AsyncGenerator of results for streaming methods.
+   */
+  async invoke(
+    definition: ExtensionMethodDefinition,
+    params: unknown,
+    context: ServerCallContext | undefined,
+    agentCard: AgentCard
+  ): Promise<unknown> {
+    const { extension, method } = definition;
+    if (!agentCard.capabilities.extensions?.some((declared) => declared.uri === extension)) {
+      throw A2AError.methodNotFound(method);
+    }
+    if (!context?.requestedExtensions?.includes(extension)) {
+      throw A2AError.invalidRequest(
+        `Method ${method} requires extension ${extension} to be requested in the X-A2A-Extensions header.`
+      );
+    }
+    if (definition.streaming && !agentCard.capabilities.streaming) {
+      throw A2AError.unsupportedOperation(`Method ${method} requires streaming capability.`);
+    }
+    context.addActivatedExtension(extension);
+    return definition.handler(params, context);
+  }
+}
@@ -6,7 +6,7 @@
  * that can be used in route files.
  */
 
-import { A2ARequestHandler } from '../request_handler/a2a_request_handler.js';
+import { A2ARequestHandler, ShutdownOptions } from '../request_handler/a2a_request_handler.js';
 import {
   createAgentCardHandler,
   createJsonRpcHandler,
@@ -88,6 +88,15 @@ export class A2AFreshApp {
     };
   }
 
+  /**
+   * Shuts down the request handler: new messages are rejected, and running executions
+   * are given `timeoutMs` to finish before being canceled.
+   * See {@link A2ARequestHandler.shutdown}.
+   */
+  public async shutdown(options?: ShutdownOptions): Promise<void> {
+    await this.requestHandler.shutdown?.(options);
+  }
+
   /**
    * Creates a Fresh-compatible handler for A2A endpoints.
    *
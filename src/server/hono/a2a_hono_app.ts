@@ -14,7 +14,7 @@
 import { Hono, Context, MiddlewareHandler } from 'hono';
 import { streamSSE } from 'hono/streaming';
 
-import { A2ARequestHandler } from '../request_handler/a2a_request_handler.js';
+import { A2ARequestHandler, ShutdownOptions } from '../request_handler/a2a_request_handler.js';
 import { createAgentCardHandler } from '../web-standard/handlers.js';
 import { UserBuilder, parseJsonBody, jsonResponse } from '../web-standard/types.js';
 import { Logger, ConsoleLogger, LogContext } from '../logging/logger.js';
@@ -26,9 +26,15 @@ import {
   extractRequestId,
   JsonRpcInput,
 } from '../transports/jsonrpc/json_rpc_logic.js';
-import { formatJsonRpcError, formatParseError, A2AError } from '../error.js';
-import { HTTP_EXTENSION_HEADER } from '../../constants.js';
-import { ServerCallContext } from '../context.js';
+import { formatJsonRpcError, formatParseError, formatRestError, A2AError } from '../error.js';
+import {
+  HTTP_EXTENSION_HEADER,
+  HTTP_TIMEOUT_HEADER,
+  TRACEPARENT_HEADER,
+  LAST_EVENT_ID_HEADER,
+} from '../../constants.js';
+import { ServerCallContext, parseTimeoutServiceParameter } from '../context.js';
+import { parseTraceparent } from '../../tracing.js';
 import { Extensions } from '../../extensions.js';
 import type {
   MessageSendParamsInput,
@@ -116,6 +122,15 @@ export class A2AHonoApp {
     };
   }
 
+  /**
+   * Shuts down the request handler: new messages are rejected, and running executions
+   * are given `timeoutMs` to finish before being canceled.
+   * See {@link A2ARequestHandler.shutdown}.
+   */
+  public async shutdown(options?: ShutdownOptions): Promise<void> {
+    await this.requestHandler.shutdown?.(options);
+  }
+
   /**
    * Builds user from request using the configured userBuilder.
    */
@@ -134,7 +149,9 @@ export class A2AHonoApp {
     const extensionsHeader = request.headers.get(HTTP_EXTENSION_HEADER);
     return new ServerCallContext(
       Extensions.parseServiceParameter(extensionsHeader ?? undefined),
-      user
+      user,
+      parseTimeoutServiceParameter(request.headers.get(HTTP_TIMEOUT_HEADER)),
+      parseTraceparent(request.headers.get(TRACEPARENT_HEADER))
     );
   }
 
@@ -218,7 +235,7 @@ export class A2AHonoApp {
       if (body === null) {
         logger.warn('Invalid JSON payload', logCtx);
         const errorResult = formatParseError();
-        return jsonResponse(errorResult.body, errorResult.statusCode);
+        return jsonResponse(errorResult.body, errorResult.statusCode, errorResult.headers);
       }
 
       // Extract request ID
@@ -232,6 +249,8 @@ export class A2AHonoApp {
       const input: JsonRpcInput = {
         body,
         extensionsHeader,
+        timeoutHeader: c.req.raw.headers.get(HTTP_TIMEOUT_HEADER),
+        traceparentHeader: c.req.raw.headers.get(TRACEPARENT_HEADER),
         user,
       };
 
@@ -299,16 +318,28 @@ export class A2AHonoApp {
       });
 
       const errorResult = formatJsonRpcError(error, requestId);
-      return jsonResponse(errorResult.body, errorResult.statusCode);
+      return jsonResponse(errorResult.body, errorResult.statusCode, errorResult.headers);
     }
   }
 
   /**
    * Sets up REST API routes with native Hono streaming.
    */
-  private setupRestRoutes(app: Hono): void {
+  private setupRestRoutes(parent: Hono): void {
     const logger = this.options.logger;
     const basePath = this.options.restBasePath;
+    const app = new Hono();
+
+    // Errors are answered in the REST format, with the headers they carry
+    // (e.g. `WWW-Authenticate` or `Retry-After`)
+    app.onError((error, c) => {
+      logger.error('REST handler error', {
+        path: c.req.path,
+        error: errorToLogContext(error),
+      });
+      const errorResult = formatRestError(error);
+      return jsonResponse(errorResult.body, errorResult.statusCode, errorResult.headers);
+    });
 
     // Helper to respond with JSON
     const respond = (statusCode: number, context: ServerCallContext, body?: unknown): Response => {
@@ -370,13 +401,24 @@ export class A2AHonoApp {
       return streamWithHono(c, stream, context, { path: '/v1/message:stream' });
     });
 
+    // GET /v1/tasks
+    app.get(`${basePath}/v1/tasks`, async (c: Context) => {
+      const context = await this.buildContext(c.req.raw);
+      const result = await this.restTransportHandler.listTasks(c.req.query(), context);
+      return respond(HTTP_STATUS.OK, context, result);
+    });
+
     // GET /v1/tasks/:taskId
     app.get(`${basePath}/v1/tasks/:taskId`, async (c: Context) => {
       const context = await this.buildContext(c.req.raw);
       const taskId = c.req.param('taskId');
       const url = new URL(c.req.url);
-      const historyLength = url.searchParams.get('historyLength') ?? undefined;
-      const result = await this.restTransportHandler.getTask(taskId, context, historyLength);
+      const result = await this.restTransportHandler.getTask(
+        taskId,
+        context,
+        url.searchParams.get('historyLength') ?? undefined,
+        url.searchParams.get('stateTransitionHistoryLength') ?? undefined
+      );
       return respond(HTTP_STATUS.OK, context, result);
     });
 
@@ -392,7 +434,11 @@ export class A2AHonoApp {
     app.post(`${basePath}/v1/tasks/:taskId:subscribe`, async (c: Context) => {
       const context = await this.buildContext(c.req.raw);
       const taskId = c.req.param('taskId');
-      const stream = await this.restTransportHandler.resubscribe(taskId, context);
+      const stream = await this.restTransportHandler.resubscribe(
+        taskId,
+        context,
+        c.req.header(LAST_EVENT_ID_HEADER)
+      );
       return streamWithHono(c, stream, context, {
         path: `/v1/tasks/${taskId}:subscribe`,
         taskId,
@@ -448,5 +494,34 @@ export class A2AHonoApp {
         return respond(HTTP_STATUS.NO_CONTENT, context);
       }
     );
+
+    // Custom routes of extension methods registered in the request handler
+    app.on(
+      ['GET', 'POST', 'DELETE'],
+      `${basePath}/:extensionPath{.+}`,
+      async (c: Context, next) => {
+        const path = `/${c.req.param('extensionPath')}`;
+        const match = this.restTransportHandler.matchExtensionRoute(c.req.method, path);
+        if (!match) {
+          return next();
+        }
+        const context = await this.buildContext(c.req.raw);
+        const body = c.req.method === 'GET' ? undefined : await parseJsonBody(c.req.raw);
+        const { statusCode, result } = await this.restTransportHandler.callExtensionMethod(
+          match,
+          c.req.query(),
+          body,
+          context
+        );
+        if (match.definition.streaming) {
+          return streamWithHono(c, result as AsyncGenerator<unknown, void, undefined>, context, {
+            path,
+          });
+        }
+        return respond(statusCode, context, result);
+      }
+    );
+
+    parent.route('', app);
   }
 }
@@ -4,7 +4,11 @@
  */
 
 export type { AgentExecutor } from './agent_execution/agent_executor.js';
-export { RequestContext } from './agent_execution/request_context.js';
+export { RequestContext, ExecutionAbortedError } from './agent_execution/request_context.js';
+export type { ExecutionAbortReason } from './agent_execution/request_context.js';
+
+export type { AgentCardSigningKey } from './agent_card_signer.js';
+export { signAgentCard } from './agent_card_signer.js';
 
 export type {
   AgentExecutionEvent,
@@ -12,26 +16,143 @@ export type {
   ExecutionEventName,
 } from './events/execution_event_bus.js';
 export { DefaultExecutionEventBus } from './events/execution_event_bus.js';
-export type { ExecutionEventBusManager } from './events/execution_event_bus_manager.js';
+export type {
+  ExecutionEventBusManager,
+  TaskCancellationHandler,
+} from './events/execution_event_bus_manager.js';
 export { DefaultExecutionEventBusManager } from './events/execution_event_bus_manager.js';
+export type { DistributedExecutionEventBusManagerOptions } from './events/distributed_execution_event_bus_manager.js';
+export { DistributedExecutionEventBusManager } from './events/distributed_execution_event_bus_manager.js';
+export type {
+  ExecutionEventBroker,
+  ExecutionEventBrokerListener,
+} from './events/execution_event_broker.js';
+export { InMemoryExecutionEventBroker } from './events/execution_event_broker.js';
+export type {
+  RedisPublisherLike,
+  RedisSubscriberLike,
+} from './events/redis_execution_event_broker.js';
+export { RedisExecutionEventBroker } from './events/redis_execution_event_broker.js';
 export { ExecutionEventQueue } from './events/execution_event_queue.js';
+export type {
+  TaskEventJournal,
+  TaskEventJournalEntry,
+  JournaledTaskEvent,
+  InMemoryTaskEventJournalOptions,
+} from './events/task_event_journal.js';
+export { InMemoryTaskEventJournal } from './events/task_event_journal.js';
 
-export type { A2ARequestHandler } from './request_handler/a2a_request_handler.js';
+export type { A2ARequestHandler, ShutdownOptions } from './request_handler/a2a_request_handler.js';
 export { DefaultRequestHandler } from './request_handler/default_request_handler.js';
-export type { ExtendedAgentCardProvider } from './request_handler/default_request_handler.js';
+export type {
+  DefaultRequestHandlerOptions,
+  ExtendedAgentCardProvider,
+} from './request_handler/default_request_handler.js';
+export { InterceptingRequestHandler } from './request_handler/intercepting_request_handler.js';
+export type {
+  ServerInterceptor,
+  ServerBeforeArgs,
+  ServerAfterArgs,
+  ServerMethod,
+  ServerCallInput,
+  ServerCallResult,
+  ExtensionMethodInvocation,
+} from './interceptors.js';
+export type {
+  TaskRecoveryPolicy,
+  TaskRecoveryOptions,
+  TaskRecoveryResult,
+} from './request_handler/task_recovery.js';
+export type {
+  ConcurrentMessageOptions,
+  ConcurrentMessagePolicy,
+} from './request_handler/task_execution_lock.js';
+export type { ExecutionSchedulerOptions } from './request_handler/execution_scheduler.js';
+export { ExecutionScheduler } from './request_handler/execution_scheduler.js';
+export type { ExecutionDeadlineOptions } from './request_handler/execution_deadline.js';
 export { ResultManager } from './result_manager.js';
-export type { TaskStore } from './store.js';
-export { InMemoryTaskStore } from './store.js';
+export type { ResultManagerOptions } from './result_manager.js';
+export type { TaskStateValidationPolicy } from './task_state_validation.js';
+export { isValidTaskStateTransition } from './task_state_validation.js';
+export {
+  TaskAuthorizationPolicy,
+  TASK_OWNER_METADATA_KEY,
+  getTaskOwner,
+} from './task_authorization.js';
+export type {
+  ExtensionMethodDefinition,
+  UnaryExtensionMethodDefinition,
+  StreamingExtensionMethodDefinition,
+  ExtensionRestRoute,
+  ExtensionRouteMatch,
+} from './extensions/extension_method_registry.js';
+export { ExtensionMethodRegistry } from './extensions/extension_method_registry.js';
+export type {
+  TaskStore,
+  TaskStoreListQuery,
+  TaskStoreListResult,
+  TaskPagePosition,
+  VersionedTask,
+  VersionedTaskStore,
+} from './store.js';
+export {
+  InMemoryTaskStore,
+  encodeTaskPageToken,
+  decodeTaskPageToken,
+  isAfterTaskPagePosition,
+  isVersionedTaskStore,
+  updateVersionedTask,
+  TaskVersionConflictError,
+} from './store.js';
+export type {
+  SqlDriver,
+  SqlValue,
+  SqliteDatabaseLike,
+  SqlTaskStoreOptions,
+} from './sql_task_store.js';
+export { SqlTaskStore, sqliteDriver } from './sql_task_store.js';
+export { TracingTaskStore } from './tracing.js';
 
 export { JsonRpcTransportHandler } from './transports/jsonrpc/jsonrpc_transport_handler.js';
-export { ServerCallContext } from './context.js';
+export { ServerCallContext, parseTimeoutServiceParameter } from './context.js';
 export { A2AError } from './error.js';
 
 export type { PushNotificationSender } from './push_notification/push_notification_sender.js';
-export { DefaultPushNotificationSender } from './push_notification/default_push_notification_sender.js';
-export type { DefaultPushNotificationSenderOptions } from './push_notification/default_push_notification_sender.js';
+export {
+  DefaultPushNotificationSender,
+  PushNotificationDeliveryError,
+} from './push_notification/default_push_notification_sender.js';
+export type {
+  DefaultPushNotificationSenderOptions,
+  PushNotificationRetryOptions,
+} from './push_notification/default_push_notification_sender.js';
+export type {
+  PushNotificationDelivery,
+  PushNotificationOutbox,
+} from './push_notification/push_notification_outbox.js';
+export { InMemoryPushNotificationOutbox } from './push_notification/push_notification_outbox.js';
+export type {
+  PushNotificationUrlValidationPhase,
+  PushNotificationUrlValidator,
+  DefaultPushNotificationUrlValidatorOptions,
+} from './push_notification/push_notification_url_validator.js';
+export {
+  DefaultPushNotificationUrlValidator,
+  isPublicIpAddress,
+} from './push_notification/push_notification_url_validator.js';
 export type { PushNotificationStore } from './push_notification/push_notification_store.js';
 export { InMemoryPushNotificationStore } from './push_notification/push_notification_store.js';
 
 export type { User } from './authentication/user.js';
 export { UnauthenticatedUser } from './authentication/user.js';
+export type {
+  RequestCredentials,
+  SecuritySchemeIdentity,
+  BearerJwtOptions,
+} from './authentication/security_schemes.js';
+export {
+  SecuritySchemeVerifier,
+  SecuritySchemeUser,
+  authenticateRequest,
+  createRequestCredentials,
+} from './authentication/security_schemes.js';
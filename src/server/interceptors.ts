@@ -0,0 +1,124 @@
+import { Message, Task, TaskArtifactUpdateEvent, TaskStatusUpdateEvent } from '../types.js';
+import { ServerCallContext } from './context.js';
+import { ExtensionMethodDefinition } from './extensions/extension_method_registry.js';
+import { A2ARequestHandler } from './request_handler/a2a_request_handler.js';
+
+/**
+ * Intercepts the calls of an {@link InterceptingRequestHandler} to the request handler it wraps,
+ * for every transport and framework adapter. The server-side counterpart of `CallInterceptor`.
+ */
+export interface ServerInterceptor {
+  /**
+   * Invoked before the request handler method. Throw an `A2AError` to reject the call.
+   */
+  before(args: ServerBeforeArgs): Promise<void>;
+
+  /**
+   * Invoked after the request handler method, in reverse order. For `sendMessageStream`,
+   * `resubscribe` and streaming extension methods, invoked for each event of the stream.
+   */
+  after(args: ServerAfterArgs): Promise<void>;
+}
+
+export interface ServerBeforeArgs<K extends ServerMethod = ServerMethod> {
+  /**
+   * Identifies the request handler method invoked and its params.
+   * Params inside the input object can be modified.
+   */
+  readonly input: ServerCallInput<K>;
+
+  /**
+   * The context of the call, with the authenticated user.
+   */
+  readonly context?: ServerCallContext;
+
+  /**
+   * If set by the interceptor, stops execution, invokes "after"
+   * for executed interceptors and returns the result. The request handler is not called.
+   */
+  earlyReturn?: ServerCallResult<K>;
+}
+
+export interface ServerAfterArgs<K extends ServerMethod = ServerMethod> {
+  /**
+   * Identifies the request handler method invoked and its result.
+   * Payload inside the result object can be modified.
+   */
+  readonly result: ServerCallResult<K>;
+
+  /**
+   * The context of the call, with the authenticated user.
+   */
+  readonly context?: ServerCallContext;
+
+  /**
+   * If set by the interceptor, stops execution and returns result value,
+   * remaining interceptors are not executed. Ends streams after the current event.
+   */
+  earlyReturn?: boolean;
+}
+
+/**
+ * A call of an extension method, intercepted as the `invokeExtensionMethod` method.
+ */
+export interface ExtensionMethodInvocation {
+  /** The extension method called. */
+  readonly definition: ExtensionMethodDefinition;
+  /** The params of the call. */
+  params: unknown;
+}
+
+/**
+ * The request handler methods going through interceptors, and `invokeExtensionMethod` for the
+ * calls of extension methods. `getAgentCard` is excluded, since transports also call it
+ * internally to check capabilities.
+ */
+export type ServerMethod = keyof InterceptedCalls;
+
+export type ServerCallInput<K extends ServerMethod = ServerMethod> = MethodInput<
+  InterceptedCalls,
+  K
+>;
+export type ServerCallResult<K extends ServerMethod = ServerMethod> = MethodResult<
+  InterceptedCalls,
+  K,
+  ResultsOverrides
+>;
+
+// Like their client counterparts, the helper types below are not exported, and are only
+// exposed through the ServerXxx aliases.
+
+interface InterceptedCalls
+  extends Pick<
+    A2ARequestHandler,
+    Exclude<keyof A2ARequestHandler, 'extensionMethods' | 'tracer' | 'getAgentCard' | 'shutdown'>
+  > {
+  invokeExtensionMethod(
+    invocation: ExtensionMethodInvocation,
+    context?: ServerCallContext
+  ): Promise<unknown>;
+}
+
+type MethodInput<T, TMembers extends keyof T = keyof T> = {
+  [M in TMembers]: T[M] extends () => unknown
+    ? { readonly method: M; value?: never }
+    : T[M] extends (params: infer P, context?: ServerCallContext) => unknown
+      ? { readonly method: M; value: P }
+      : never;
+}[TMembers];
+
+type MethodResult<T, TMembers extends keyof T = keyof T, TOverrides = object> = {
+  [M in TMembers]: M extends keyof TOverrides
+    ? { readonly method: M; value: TOverrides[M] }
+    : T[M] extends (...args: never[]) => infer R
+      ? { readonly method: M; value: Awaited<R> }
+      : never;
+}[TMembers];
+
+interface ResultsOverrides {
+  // sendMessageStream and resubscribe return async generators and are intercepted on each event.
+  sendMessageStream: Message | Task | TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+  resubscribe: Task | TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+  // Streaming extension methods are intercepted on each event as well.
+  invokeExtensionMethod: unknown;
+}
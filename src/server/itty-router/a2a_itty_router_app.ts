@@ -4,7 +4,7 @@
  * Provides A2AIttyRouterApp for lightweight Cloudflare Workers applications.
  */
 
-import { A2ARequestHandler } from '../request_handler/a2a_request_handler.js';
+import { A2ARequestHandler, ShutdownOptions } from '../request_handler/a2a_request_handler.js';
 import {
   createAgentCardHandler,
   createJsonRpcHandler,
@@ -87,6 +87,15 @@ export class A2AIttyRouterApp {
     };
   }
 
+  /**
+   * Shuts down the request handler: new messages are rejected, and running executions
+   * are given `timeoutMs` to finish before being canceled.
+   * See {@link A2ARequestHandler.shutdown}.
+   */
+  public async shutdown(options?: ShutdownOptions): Promise<void> {
+    await this.requestHandler.shutdown?.(options);
+  }
+
   /**
    * Gets the route definitions for A2A endpoints.
    *
@@ -1,6 +1,47 @@
+import { v4 as uuidv4 } from 'uuid';
 import { Task, PushNotificationConfig } from '../../types.js';
+import { ConsoleLogger, Logger } from '../logging/logger.js';
+import {
+  PUSH_NOTIFICATION_API_KEY_HEADER,
+  PUSH_NOTIFICATION_TOKEN_HEADER,
+  TRACEPARENT_HEADER,
+} from '../../constants.js';
+import { SpanContext, SpanKind, Tracer, formatTraceparent, withSpan } from '../../tracing.js';
+import { createPushNotificationAuthHeaders } from '../../push_notification_auth.js';
 import { PushNotificationSender } from './push_notification_sender.js';
 import { PushNotificationStore } from './push_notification_store.js';
+import {
+  InMemoryPushNotificationOutbox,
+  PushNotificationDelivery,
+  PushNotificationOutbox,
+} from './push_notification_outbox.js';
+import {
+  DefaultPushNotificationUrlValidator,
+  PushNotificationUrlValidator,
+} from './push_notification_url_validator.js';
+
+export interface PushNotificationRetryOptions {
+  /**
+   * Maximum number of delivery attempts, including the first one. Defaults to 5.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds. Defaults to 1000ms.
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound of the delay between attempts, also applied to `Retry-After`. Defaults to 60000ms.
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor applied to the delay after each failed attempt. Defaults to 2.
+   */
+  multiplier?: number;
+  /**
+   * Random variation of the delay, as a ratio between 0 and 1. Defaults to 0.2 (±20%).
+   */
+  jitter?: number;
+}
 
 export interface DefaultPushNotificationSenderOptions {
   /**
@@ -11,12 +52,99 @@ export interface DefaultPushNotificationSenderOptions {
    * Custom header name for the token. Defaults to 'X-A2A-Notification-Token'.
    */
   tokenHeaderName?: string;
+  /**
+   * Header carrying the API key when `authentication.schemes` selects `ApiKey`.
+   * Defaults to 'X-API-Key'.
+   */
+  apiKeyHeaderName?: string;
+  /**
+   * Validates webhook URLs right before sending, so that configs stored before a policy change
+   * or pointing at hosts that now resolve to private addresses are not called.
+   * Defaults to a {@link DefaultPushNotificationUrlValidator}.
+   */
+  urlValidator?: PushNotificationUrlValidator;
+  /**
+   * Fetch implementation delivering the notifications. Defaults to the global fetch.
+   * Fetch resolves the webhook host again after validation: to keep a webhook from switching its
+   * DNS records to a private address in between (DNS rebinding), use a fetch checking the
+   * addresses it connects to with `isPublicIpAddress`.
+   */
+  fetchImpl?: typeof fetch;
+  /**
+   * Retry policy for failed deliveries.
+   */
+  retry?: PushNotificationRetryOptions;
+  /**
+   * Queue of pending deliveries. Defaults to an in-memory outbox.
+   */
+  outbox?: PushNotificationOutbox;
+  /**
+   * Invoked when a delivery is given up, after the last attempt or on a non-retryable response.
+   */
+  onDeadLetter?: (delivery: PushNotificationDelivery, error: unknown) => void | Promise<void>;
+  /**
+   * Logger receiving delivery outcomes. Each entry has a `metric` field
+   * (`push_notification.delivered`, `.retry_scheduled`, `.superseded` or `.dead_lettered`).
+   * Defaults to a ConsoleLogger.
+   */
+  logger?: Logger;
+  /**
+   * Tracer recording a client span for each delivery attempt, propagated to the webhook
+   * through the `traceparent` header.
+   */
+  tracer?: Tracer;
 }
 
+/**
+ * Error thrown for a failed delivery attempt.
+ */
+export class PushNotificationDeliveryError extends Error {
+  /**
+   * Whether the attempt may succeed later. By default: network errors, timeouts,
+   * 408, 429 and 5xx responses.
+   */
+  public readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    /** HTTP status of the webhook response, if one was received. */
+    public readonly statusCode?: number,
+    /** Delay requested by the webhook through `Retry-After`, in milliseconds. */
+    public readonly retryAfterMs?: number,
+    retryable?: boolean
+  ) {
+    super(message);
+    this.name = 'PushNotificationDeliveryError';
+    this.retryable =
+      retryable ??
+      (statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500);
+  }
+}
+
+/**
+ * Delivers task updates to webhooks.
+ *
+ * Notifications for the same task are sent in order. Failed deliveries are retried with
+ * exponential backoff and jitter, honoring `Retry-After`, and are kept in a
+ * {@link PushNotificationOutbox} until delivered or dead-lettered. Since each notification
+ * carries the full task, a pending retry is dropped once a newer notification for the
+ * same task and webhook was enqueued.
+ */
 export class DefaultPushNotificationSender implements PushNotificationSender {
   private readonly pushNotificationStore: PushNotificationStore;
   private notificationChain: Map<string, Promise<unknown>>;
-  private readonly options: Required<DefaultPushNotificationSenderOptions>;
+  private readonly options: Required<
+    Omit<DefaultPushNotificationSenderOptions, 'retry' | 'onDeadLetter' | 'tracer' | 'fetchImpl'>
+  > &
+    Pick<DefaultPushNotificationSenderOptions, 'onDeadLetter' | 'tracer' | 'fetchImpl'>;
+  private readonly retry: Required<PushNotificationRetryOptions>;
+  // Latest delivery ID per task and webhook, used to drop superseded retries.
+  private readonly latestDeliveries: Map<string, string> = new Map();
+  private readonly sending: Set<Promise<void>> = new Set();
+  // Deliveries waiting for a retry, by timer.
+  private readonly retryTimers: Map<ReturnType<typeof setTimeout>, PushNotificationDelivery> =
+    new Map();
+  private closed = false;
 
   constructor(
     pushNotificationStore: PushNotificationStore,
@@ -24,27 +152,82 @@ export class DefaultPushNotificationSender implements PushNotificationSender {
   ) {
     this.pushNotificationStore = pushNotificationStore;
     this.notificationChain = new Map();
+    const { retry, ...rest } = options;
     this.options = {
       timeout: 5000,
-      tokenHeaderName: 'X-A2A-Notification-Token',
-      ...options,
+      tokenHeaderName: PUSH_NOTIFICATION_TOKEN_HEADER,
+      apiKeyHeaderName: PUSH_NOTIFICATION_API_KEY_HEADER,
+      urlValidator: new DefaultPushNotificationUrlValidator(),
+      outbox: new InMemoryPushNotificationOutbox(),
+      logger: ConsoleLogger.create(),
+      ...rest,
+    };
+    this.retry = {
+      maxAttempts: 5,
+      initialDelayMs: 1000,
+      maxDelayMs: 60000,
+      multiplier: 2,
+      jitter: 0.2,
+      ...retry,
     };
   }
 
   async send(task: Task): Promise<void> {
+    if (this.closed) {
+      this.options.logger.warn('Push notification sender is shut down, notification dropped', {
+        taskId: task.id,
+      });
+      return;
+    }
+    const sending = this._enqueue(task);
+    this.sending.add(sending);
+    try {
+      await sending;
+    } finally {
+      this.sending.delete(sending);
+    }
+  }
+
+  /**
+   * Waits for the deliveries in progress and stops scheduling retries. Deliveries waiting for
+   * a retry are attempted right away, once: those failing again stay in the outbox, to be
+   * resumed with {@link resumePending}.
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+    const pendingRetries = [...this.retryTimers];
+    this.retryTimers.clear();
+    for (const [timer] of pendingRetries) {
+      clearTimeout(timer);
+    }
+    await Promise.allSettled([...this.sending]);
+    for (const [, delivery] of pendingRetries) {
+      this._retry(delivery);
+    }
+    await Promise.allSettled([...this.notificationChain.values()]);
+  }
+
+  private async _enqueue(task: Task): Promise<void> {
     const pushConfigs = await this.pushNotificationStore.load(task.id);
     if (!pushConfigs || pushConfigs.length === 0) {
       return;
     }
 
-    const lastPromise = this.notificationChain.get(task.id) ?? Promise.resolve();
-    // Chain promises to ensure notifications for the same task are sent sequentially.
-    // Once the promise is resolved, the Garbage Collector will clean it up if there are no other references to it.
-    // This will prevent memory to linearly grow with the number of notifications sent.
-    const newPromise = lastPromise.then(async () => {
+    this._chain(task.id, async () => {
       const dispatches = pushConfigs.map(async (pushConfig) => {
         try {
-          await this._dispatchNotification(task, pushConfig);
+          const now = Date.now();
+          const delivery: PushNotificationDelivery = {
+            id: uuidv4(),
+            task,
+            pushNotificationConfig: pushConfig,
+            attempts: 0,
+            createdAt: now,
+            nextAttemptAt: now,
+          };
+          this.latestDeliveries.set(this._deliveryKey(delivery), delivery.id);
+          await this.options.outbox.save(delivery);
+          await this._attemptDelivery(delivery);
         } catch (error) {
           console.error(
             `Error sending push notification for task_id=${task.id} to URL: ${pushConfig.url}. Error:`,
@@ -54,21 +237,221 @@ export class DefaultPushNotificationSender implements PushNotificationSender {
       });
       await Promise.all(dispatches);
     });
-    this.notificationChain.set(task.id, newPromise);
+  }
+
+  /**
+   * Runs `work` once the previous notifications of the task are sent, so that the notifications
+   * (including retries) of a task are sent sequentially. `work` must not reject.
+   */
+  private _chain(taskId: string, work: () => Promise<void>): void {
+    const lastPromise = this.notificationChain.get(taskId) ?? Promise.resolve();
+    // Once the promise is resolved, the Garbage Collector will clean it up if there are no other references to it.
+    // This will prevent memory to linearly grow with the number of notifications sent.
+    const newPromise = lastPromise.then(work);
+    this.notificationChain.set(taskId, newPromise);
 
     newPromise.finally(() => {
       // Clean up the chain if it's the last notification
-      if (this.notificationChain.get(task.id) === newPromise) {
-        this.notificationChain.delete(task.id);
+      if (this.notificationChain.get(taskId) === newPromise) {
+        this.notificationChain.delete(taskId);
       }
     });
   }
 
+  /**
+   * Schedules the deliveries left in the outbox, e.g. by a previous process.
+   * Call it once on startup.
+   */
+  async resumePending(): Promise<void> {
+    const pending = await this.options.outbox.loadPending();
+    // Oldest first, so the latest delivery per task and webhook wins.
+    for (const delivery of pending) {
+      this.latestDeliveries.set(this._deliveryKey(delivery), delivery.id);
+    }
+    for (const delivery of pending) {
+      this._scheduleAttempt(delivery, Math.max(0, delivery.nextAttemptAt - Date.now()));
+    }
+  }
+
+  private async _attemptDelivery(delivery: PushNotificationDelivery): Promise<void> {
+    const { logger, outbox } = this.options;
+    const key = this._deliveryKey(delivery);
+    const logContext = {
+      taskId: delivery.task.id,
+      url: delivery.pushNotificationConfig.url,
+      deliveryId: delivery.id,
+    };
+
+    if (this.latestDeliveries.get(key) !== delivery.id) {
+      await outbox.delete(delivery.id);
+      logger.info('Push notification superseded by a newer one', {
+        ...logContext,
+        metric: 'push_notification.superseded',
+        attempts: delivery.attempts,
+      });
+      return;
+    }
+
+    delivery.attempts++;
+    const startTime = Date.now();
+    try {
+      await this._traceDispatch(delivery);
+    } catch (error) {
+      const durationMs = Date.now() - startTime;
+      const deliveryError =
+        error instanceof PushNotificationDeliveryError
+          ? error
+          : new PushNotificationDeliveryError(
+              error instanceof Error ? error.message : String(error)
+            );
+      delivery.lastError = deliveryError.message;
+
+      if (!deliveryError.retryable || delivery.attempts >= this.retry.maxAttempts) {
+        await this._deadLetter(delivery, deliveryError, durationMs);
+        return;
+      }
+
+      const delayMs = this._retryDelay(delivery.attempts, deliveryError.retryAfterMs);
+      delivery.nextAttemptAt = Date.now() + delayMs;
+      await outbox.save(delivery);
+      logger.warn('Push notification delivery failed, retry scheduled', {
+        ...logContext,
+        metric: 'push_notification.retry_scheduled',
+        attempt: delivery.attempts,
+        statusCode: deliveryError.statusCode,
+        durationMs,
+        retryInMs: delayMs,
+        error: { name: deliveryError.name, message: deliveryError.message },
+      });
+      this._scheduleAttempt(delivery, delayMs);
+      return;
+    }
+
+    await outbox.delete(delivery.id);
+    this._releaseDelivery(delivery);
+    logger.info('Push notification delivered', {
+      ...logContext,
+      metric: 'push_notification.delivered',
+      attempt: delivery.attempts,
+      durationMs: Date.now() - startTime,
+    });
+  }
+
+  private _scheduleAttempt(delivery: PushNotificationDelivery, delayMs: number): void {
+    if (this.closed) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      this._retry(delivery);
+    }, delayMs);
+    this.retryTimers.set(timer, delivery);
+  }
+
+  private _retry(delivery: PushNotificationDelivery): void {
+    this._chain(delivery.task.id, () =>
+      this._attemptDelivery(delivery).catch((error) => {
+        console.error(
+          `Error sending push notification for task_id=${delivery.task.id} to URL: ${delivery.pushNotificationConfig.url}. Error:`,
+          error
+        );
+      })
+    );
+  }
+
+  private async _deadLetter(
+    delivery: PushNotificationDelivery,
+    error: PushNotificationDeliveryError,
+    durationMs: number
+  ): Promise<void> {
+    await this.options.outbox.delete(delivery.id);
+    this._releaseDelivery(delivery);
+    this.options.logger.error('Push notification dead-lettered', {
+      taskId: delivery.task.id,
+      url: delivery.pushNotificationConfig.url,
+      deliveryId: delivery.id,
+      metric: 'push_notification.dead_lettered',
+      attempts: delivery.attempts,
+      statusCode: error.statusCode,
+      durationMs,
+      error: { name: error.name, message: error.message },
+    });
+    try {
+      await this.options.onDeadLetter?.(delivery, error);
+    } catch (hookError) {
+      console.error(`Dead-letter hook failed for task_id=${delivery.task.id}:`, hookError);
+    }
+  }
+
+  private _releaseDelivery(delivery: PushNotificationDelivery): void {
+    const key = this._deliveryKey(delivery);
+    if (this.latestDeliveries.get(key) === delivery.id) {
+      this.latestDeliveries.delete(key);
+    }
+  }
+
+  private _retryDelay(attempts: number, retryAfterMs?: number): number {
+    const { initialDelayMs, maxDelayMs, multiplier, jitter } = this.retry;
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, maxDelayMs);
+    }
+    const backoff = initialDelayMs * Math.pow(multiplier, attempts - 1);
+    const jittered = backoff * (1 + jitter * (2 * Math.random() - 1));
+    return Math.max(0, Math.min(jittered, maxDelayMs));
+  }
+
+  private _deliveryKey(delivery: PushNotificationDelivery): string {
+    const config = delivery.pushNotificationConfig;
+    return `${delivery.task.id}\n${config.id ?? config.url}`;
+  }
+
+  private _traceDispatch(delivery: PushNotificationDelivery): Promise<void> {
+    const { task, pushNotificationConfig } = delivery;
+    if (!this.options.tracer) {
+      return this._dispatchNotification(task, pushNotificationConfig);
+    }
+    return withSpan(
+      this.options.tracer,
+      'PushNotification.deliver',
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'a2a.task.id': task.id,
+          'a2a.push_notification.delivery_id': delivery.id,
+          'a2a.push_notification.attempt': delivery.attempts,
+          'url.full': pushNotificationConfig.url,
+        },
+      },
+      async (span) => {
+        try {
+          await this._dispatchNotification(task, pushNotificationConfig, span.spanContext());
+        } catch (error) {
+          if (error instanceof PushNotificationDeliveryError && error.statusCode !== undefined) {
+            span.setAttribute('http.response.status_code', error.statusCode);
+          }
+          throw error;
+        }
+      }
+    );
+  }
+
   private async _dispatchNotification(
     task: Task,
-    pushConfig: PushNotificationConfig
+    pushConfig: PushNotificationConfig,
+    traceContext?: SpanContext
   ): Promise<void> {
     const url = pushConfig.url;
+    try {
+      await this.options.urlValidator.validate(pushConfig, 'send');
+    } catch (error) {
+      throw new PushNotificationDeliveryError(
+        error instanceof Error ? error.message : String(error),
+        undefined,
+        undefined,
+        false
+      );
+    }
+
     const controller = new AbortController();
     // Abort the request if it takes longer than the configured timeout.
     const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
@@ -81,21 +464,63 @@ export class DefaultPushNotificationSender implements PushNotificationSender {
       if (pushConfig.token) {
         headers[this.options.tokenHeaderName] = pushConfig.token;
       }
+      if (traceContext) {
+        headers[TRACEPARENT_HEADER] = formatTraceparent(traceContext);
+      }
 
-      const response = await fetch(url, {
+      const body = JSON.stringify(task);
+      if (pushConfig.authentication) {
+        const authHeaders = await createPushNotificationAuthHeaders(
+          pushConfig.authentication,
+          body,
+          {
+            apiKeyHeaderName: this.options.apiKeyHeaderName,
+          }
+        );
+        if (authHeaders) {
+          Object.assign(headers, authHeaders);
+        } else {
+          this.options.logger.warn('No supported push notification authentication scheme', {
+            taskId: task.id,
+            url,
+            schemes: pushConfig.authentication.schemes,
+          });
+        }
+      }
+
+      const response = await (this.options.fetchImpl ?? fetch)(url, {
         method: 'POST',
         headers,
-        body: JSON.stringify(task),
+        body,
         signal: controller.signal,
+        // Following redirects would let a webhook send the notification to another host.
+        redirect: 'manual',
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new PushNotificationDeliveryError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
       }
-
-      console.info(`Push notification sent for task_id=${task.id} to URL: ${url}`);
     } finally {
       clearTimeout(timeoutId);
     }
   }
 }
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @returns The delay in milliseconds, or undefined if absent or invalid.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,62 @@
+import { PushNotificationConfig, Task } from '../../types.js';
+
+/**
+ * A push notification waiting to be delivered to a webhook.
+ */
+export interface PushNotificationDelivery {
+  /** Unique ID of the delivery. */
+  id: string;
+  /** The task snapshot sent as the notification payload. */
+  task: Task;
+  /** The webhook configuration the notification is delivered to. */
+  pushNotificationConfig: PushNotificationConfig;
+  /** Number of delivery attempts made so far. */
+  attempts: number;
+  /** When the delivery was created, in milliseconds since the Unix epoch. */
+  createdAt: number;
+  /** When the next attempt is due, in milliseconds since the Unix epoch. */
+  nextAttemptAt: number;
+  /** Error message of the last failed attempt. */
+  lastError?: string;
+}
+
+/**
+ * Durable queue of pending push notification deliveries.
+ * Implement it on top of a database so that deliveries survive restarts; the sender
+ * resumes them with {@link DefaultPushNotificationSender.resumePending}.
+ */
+export interface PushNotificationOutbox {
+  /**
+   * Adds or replaces a delivery.
+   */
+  save(delivery: PushNotificationDelivery): Promise<void>;
+
+  /**
+   * Removes a delivery once it was delivered or given up.
+   */
+  delete(deliveryId: string): Promise<void>;
+
+  /**
+   * Returns all pending deliveries, oldest first.
+   */
+  loadPending(): Promise<PushNotificationDelivery[]>;
+}
+
+export class InMemoryPushNotificationOutbox implements PushNotificationOutbox {
+  private store: Map<string, PushNotificationDelivery> = new Map();
+
+  async save(delivery: PushNotificationDelivery): Promise<void> {
+    // Store copies to prevent internal mutation if caller reuses objects
+    this.store.set(delivery.id, { ...delivery });
+  }
+
+  async delete(deliveryId: string): Promise<void> {
+    this.store.delete(deliveryId);
+  }
+
+  async loadPending(): Promise<PushNotificationDelivery[]> {
+    return [...this.store.values()]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((delivery) => ({ ...delivery }));
+  }
+}
@@ -2,4 +2,9 @@ import { Task } from '../../types.js';
 
 export interface PushNotificationSender {
   send(task: Task): Promise<void>;
+
+  /**
+   * Waits for the notifications being sent, and stops sending new ones.
+   */
+  shutdown?(): Promise<void>;
 }
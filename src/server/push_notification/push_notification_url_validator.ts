@@ -0,0 +1,334 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PushNotificationConfig } from '../../types.js';
+import { A2AError } from '../error.js';
+
+/**
+ * When a webhook URL is validated: when a client registers the push notification config,
+ * or right before a notification is sent to it.
+ */
+export type PushNotificationUrlValidationPhase = 'config' | 'send';
+
+/**
+ * Decides which webhook URLs push notifications may be sent to, protecting the agent
+ * against server-side request forgery (SSRF) through client-provided URLs.
+ */
+export interface PushNotificationUrlValidator {
+  /**
+   * Validates the webhook URL of a push notification config.
+   * @param config The push notification config.
+   * @param phase Whether the config is being registered or a notification is about to be sent.
+   * @throws A2AError (invalid params) if the URL is not allowed.
+   */
+  validate(
+    config: PushNotificationConfig,
+    phase: PushNotificationUrlValidationPhase
+  ): Promise<void>;
+}
+
+export interface DefaultPushNotificationUrlValidatorOptions {
+  /**
+   * Hosts exempted from the policy, e.g. `localhost` during development.
+   * Entries match the hostname exactly, or any subdomain when starting with `*.`.
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Whether plain `http` URLs are accepted for all hosts. Defaults to false.
+   */
+  allowHttp?: boolean;
+
+  /**
+   * Resolves a hostname to its IP addresses, so that names pointing at private addresses are
+   * blocked as well. Defaults to the `node:dns` module of the runtime (Node.js, Deno, Bun),
+   * loaded on first use. Where the runtime has none (e.g. edge runtimes), or when set to false,
+   * only IP literals and well-known internal names are checked: names of public DNS zones
+   * pointing at private addresses (e.g. `127.0.0.1.nip.io`) are NOT blocked.
+   */
+  resolveHost?: ((hostname: string) => Promise<string[]>) | false;
+
+  /**
+   * Whether to verify that the client controls the webhook when a config is registered:
+   * a `GET` request with a `validationToken` query parameter must answer with the token
+   * as its body. Defaults to false.
+   */
+  verifyOwnership?: boolean;
+
+  /**
+   * Timeout of the ownership challenge in milliseconds. Defaults to 5000ms.
+   */
+  ownershipChallengeTimeoutMs?: number;
+}
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * IPv4 ranges that must not be reached from the agent: "this" network, private,
+ * shared (CGNAT), loopback, link-local (including cloud metadata endpoints),
+ * IETF protocol assignments, benchmarking, multicast and reserved addresses.
+ */
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/**
+ * Default {@link PushNotificationUrlValidator}. Requires `https`, and rejects loopback,
+ * private, link-local and other non-public addresses, unless the host is allowlisted.
+ * Optionally verifies that the client controls the webhook.
+ *
+ * Hostnames are resolved with the DNS module of the runtime, if any (see `resolveHost`). The
+ * request to the webhook resolves the hostname again, so a host changing its DNS records in
+ * between (DNS rebinding) is only stopped by a fetch checking the addresses it connects to,
+ * see {@link isPublicIpAddress}.
+ */
+export class DefaultPushNotificationUrlValidator implements PushNotificationUrlValidator {
+  private readonly options: DefaultPushNotificationUrlValidatorOptions;
+
+  constructor(options: DefaultPushNotificationUrlValidatorOptions = {}) {
+    this.options = options;
+  }
+
+  async validate(
+    config: PushNotificationConfig,
+    phase: PushNotificationUrlValidationPhase
+  ): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(config.url);
+    } catch {
+      throw A2AError.invalidParams(`Invalid push notification URL: ${config.url}`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw A2AError.invalidParams(`Unsupported push notification URL scheme: ${url.protocol}`);
+    }
+    if (url.username || url.password) {
+      throw A2AError.invalidParams('Push notification URLs must not contain credentials.');
+    }
+
+    // `localhost.` and `localhost` name the same host.
+    const hostname = url.hostname.replace(/\.+$/, '');
+    if (!this.isAllowlisted(hostname)) {
+      if (url.protocol === 'http:' && !this.options.allowHttp) {
+        throw A2AError.invalidParams('Push notification URLs must use https.');
+      }
+      await this.checkHost(hostname);
+    }
+
+    if (phase === 'config' && this.options.verifyOwnership) {
+      await this.verifyOwnership(url);
+    }
+  }
+
+  private isAllowlisted(hostname: string): boolean {
+    return (this.options.allowedHosts ?? []).some((allowed) => {
+      const pattern = allowed.toLowerCase();
+      return pattern.startsWith('*.')
+        ? hostname.endsWith(pattern.substring(1))
+        : hostname === pattern;
+    });
+  }
+
+  private async checkHost(hostname: string): Promise<void> {
+    if (
+      BLOCKED_HOSTNAMES.includes(hostname) ||
+      BLOCKED_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+    ) {
+      throw A2AError.invalidParams(`Push notification host is not allowed: ${hostname}`);
+    }
+
+    let addresses: string[] | undefined;
+    if (isIpLiteral(hostname)) {
+      addresses = [hostname];
+    } else if (this.options.resolveHost !== false) {
+      try {
+        addresses = await (this.options.resolveHost ?? lookupHost)(hostname);
+      } catch {
+        throw A2AError.invalidParams(`Push notification host cannot be resolved: ${hostname}`);
+      }
+    }
+    if (!addresses) {
+      return;
+    }
+    for (const address of addresses) {
+      if (isBlockedAddress(address)) {
+        throw A2AError.invalidParams(
+          `Push notification host resolves to a non-public address: ${hostname}`
+        );
+      }
+    }
+  }
+
+  private async verifyOwnership(url: URL): Promise<void> {
+    const validationToken = uuidv4();
+    const challengeUrl = new URL(url);
+    challengeUrl.searchParams.set('validationToken', validationToken);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      this.options.ownershipChallengeTimeoutMs ?? 5000
+    );
+    try {
+      const response = await fetch(challengeUrl, {
+        method: 'GET',
+        signal: controller.signal,
+        // Following redirects would let the challenge reach another host.
+        redirect: 'manual',
+      });
+      const body = response.ok ? (await response.text()).trim() : undefined;
+      if (body !== validationToken) {
+        throw A2AError.invalidParams(
+          `Push notification URL did not answer the validation challenge: ${url.origin}`
+        );
+      }
+    } catch (error) {
+      if (error instanceof A2AError) {
+        throw error;
+      }
+      throw A2AError.invalidParams(
+        `Push notification URL validation challenge failed: ${url.origin}`
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+interface DnsModule {
+  promises: {
+    lookup(hostname: string, options: { all: true }): Promise<{ address: string }[]>;
+  };
+}
+
+let dnsModule: Promise<DnsModule | undefined> | undefined;
+
+/**
+ * Resolves a hostname with the `node:dns` module of the runtime.
+ * @returns The addresses of the host, or undefined if the runtime has no DNS module.
+ */
+async function lookupHost(hostname: string): Promise<string[] | undefined> {
+  if (!dnsModule) {
+    // Not a literal, so that bundlers targeting edge runtimes leave the import alone.
+    const specifier = 'node:dns';
+    dnsModule = import(/* @vite-ignore */ specifier).then(
+      (module: DnsModule & { default?: DnsModule }) => module.default ?? module,
+      (): undefined => undefined
+    );
+  }
+  const dns = await dnsModule;
+  if (!dns) {
+    return undefined;
+  }
+  const results = await dns.promises.lookup(hostname, { all: true });
+  return results.map((result) => result.address);
+}
+
+/**
+ * Whether an IP address is public, i.e. not loopback, private, link-local or otherwise reserved,
+ * as required by {@link DefaultPushNotificationUrlValidator}. Use it to check the addresses the
+ * `fetchImpl` of `DefaultPushNotificationSender` connects to, which pins the webhook to public
+ * addresses even if its DNS records change after validation.
+ */
+export function isPublicIpAddress(address: string): boolean {
+  return !isBlockedAddress(address);
+}
+
+function isIpLiteral(hostname: string): boolean {
+  return hostname.startsWith('[') || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+}
+
+/**
+ * Whether an IP address (as normalized by the URL parser, IPv6 possibly in brackets)
+ * belongs to a non-public range.
+ */
+function isBlockedAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!ip.includes(':')) {
+    const value = ipv4ToNumber(ip);
+    return (
+      value === undefined ||
+      value === 0xffffffff ||
+      BLOCKED_IPV4_RANGES.some(([base, bits]) => inIpv4Range(value, base, bits))
+    );
+  }
+
+  const groups = ipv6ToGroups(ip.replace(/%.*$/, ''));
+  if (!groups) {
+    return true;
+  }
+  const embeddedIpv4 = (high: number, low: number) =>
+    `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+  // IPv4-compatible ::/96 (including :: and ::1), IPv4-mapped ::ffff:0:0/96 and
+  // NAT64 64:ff9b::/96 addresses embed an IPv4 address in their last 32 bits.
+  const hasPrefix = (...prefix: number[]) => prefix.every((group, i) => groups[i] === group);
+  if (
+    hasPrefix(0, 0, 0, 0, 0, 0) ||
+    hasPrefix(0, 0, 0, 0, 0, 0xffff) ||
+    hasPrefix(0x64, 0xff9b, 0, 0, 0, 0)
+  ) {
+    return isBlockedAddress(embeddedIpv4(groups[6], groups[7]));
+  }
+  // 6to4 2002::/16 addresses embed an IPv4 address in their second and third groups.
+  if (groups[0] === 0x2002) {
+    return isBlockedAddress(embeddedIpv4(groups[1], groups[2]));
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local fc00::/7
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local fe80::/10
+    (groups[0] & 0xff00) === 0xff00 // Multicast ff00::/8
+  );
+}
+
+/**
+ * Expands an IPv6 address, possibly compressed or ending with an IPv4 address, into its
+ * eight 16-bit groups.
+ */
+function ipv6ToGroups(ip: string): number[] | undefined {
+  const dotted = ip.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[2]);
+    if (value === undefined) {
+      return undefined;
+    }
+    ip = `${dotted[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const halves = ip.split('::');
+  if (halves.length > 2) {
+    return undefined;
+  }
+  const parse = (half: string) =>
+    (half ? half.split(':') : []).map((group) =>
+      /^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN
+    );
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return undefined;
+  }
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  return groups.some(Number.isNaN) ? undefined : groups;
+}
+
+function ipv4ToNumber(ip: string): number | undefined {
+  const parts = ip.split('.').map(Number);
+  if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part > 255)) {
+    return undefined;
+  }
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+
+function inIpv4Range(value: number, base: string, bits: number): boolean {
+  const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+  return (value & mask) >>> 0 === (ipv4ToNumber(base)! & mask) >>> 0;
+}
@@ -5,16 +5,38 @@ import {
   Task,
   TaskStatusUpdateEvent,
   TaskArtifactUpdateEvent,
-  TaskQueryParams,
   TaskIdParams,
   TaskPushNotificationConfig,
   GetTaskPushNotificationConfigParams,
   ListTaskPushNotificationConfigParams,
   DeleteTaskPushNotificationConfigParams,
 } from '../../types.js';
+import { ListTasksParams, ListTasksResult } from '../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../resubscribe.js';
+import { GetTaskParams } from '../../task_state_transitions.js';
 import { ServerCallContext } from '../context.js';
+import { ExtensionMethodRegistry } from '../extensions/extension_method_registry.js';
+import { Tracer } from '../../tracing.js';
+
+export interface ShutdownOptions {
+  /**
+   * Time in milliseconds given to running executions to finish before they are canceled.
+   * Defaults to 10000ms.
+   */
+  timeoutMs?: number;
+}
 
 export interface A2ARequestHandler {
+  /**
+   * Custom methods provided by protocol extensions, served by the JSON-RPC and REST transports.
+   */
+  readonly extensionMethods?: ExtensionMethodRegistry;
+
+  /**
+   * Tracer with which the JSON-RPC and REST transports record a span for each call.
+   */
+  readonly tracer?: Tracer;
+
   getAgentCard(): Promise<AgentCard>;
 
   getAuthenticatedExtendedAgentCard(context?: ServerCallContext): Promise<AgentCard>;
@@ -30,8 +52,9 @@ export interface A2ARequestHandler {
     undefined
   >;
 
-  getTask(params: TaskQueryParams, context?: ServerCallContext): Promise<Task>;
+  getTask(params: GetTaskParams, context?: ServerCallContext): Promise<Task>;
   cancelTask(params: TaskIdParams, context?: ServerCallContext): Promise<Task>;
+  listTasks(params: ListTasksParams, context?: ServerCallContext): Promise<ListTasksResult>;
 
   setTaskPushNotificationConfig(
     params: TaskPushNotificationConfig,
@@ -54,7 +77,14 @@ export interface A2ARequestHandler {
   ): Promise<void>;
 
   resubscribe(
-    params: TaskIdParams,
+    params: ResubscribeTaskParams,
     context?: ServerCallContext
   ): AsyncGenerator<Task | TaskStatusUpdateEvent | TaskArtifactUpdateEvent, void, undefined>;
+
+  /**
+   * Stops accepting new messages and waits for the running executions to finish, canceling
+   * those still running after `timeoutMs`. Resolves once the executions and the pending
+   * push notifications are over.
+   */
+  shutdown?(options?: ShutdownOptions): Promise<void>;
 }
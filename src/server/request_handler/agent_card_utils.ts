@@ -80,3 +80,40 @@ export async function fetchAgentCard(provider: AgentCardProvider): Promise<Agent
     };
   }
 }
+
+// =============================================================================
+// HTTP Validators
+// =============================================================================
+
+/**
+ * Computes a strong ETag for an agent card, from the SHA-256 digest of its JSON serialization.
+ *
+ * @param agentCard - The agent card
+ * @returns The quoted ETag value
+ */
+export async function computeAgentCardETag(agentCard: AgentCard): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify(agentCard))
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0'));
+  return `"${hex.join('')}"`;
+}
+
+/**
+ * Checks an `If-None-Match` request header against the current ETag, using the weak
+ * comparison required for `GET` requests (RFC 9110, section 13.1.2).
+ *
+ * @param ifNoneMatch - The `If-None-Match` header value, if any
+ * @param etag - The current ETag
+ * @returns Whether the client's copy is current and `304 Not Modified` can be returned
+ */
+export function isNotModified(ifNoneMatch: string | null | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  const opaqueTag = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch
+    .split(',')
+    .some((tag) => tag.trim() === '*' || opaqueTag(tag) === opaqueTag(etag));
+}
@@ -6,9 +6,9 @@ import {
   Task,
   MessageSendParams,
   TaskState,
+  TaskStatus,
   TaskStatusUpdateEvent,
   TaskArtifactUpdateEvent,
-  TaskQueryParams,
   TaskIdParams,
   TaskPushNotificationConfig,
   DeleteTaskPushNotificationConfigParams,
@@ -16,28 +16,133 @@ import {
   ListTaskPushNotificationConfigParams,
 } from '../../types.js';
 import { AgentExecutor } from '../agent_execution/agent_executor.js';
-import { RequestContext } from '../agent_execution/request_context.js';
+import { ExecutionAbortReason, RequestContext } from '../agent_execution/request_context.js';
 import { A2AError } from '../error.js';
 import {
   ExecutionEventBusManager,
   DefaultExecutionEventBusManager,
 } from '../events/execution_event_bus_manager.js';
-import { AgentExecutionEvent } from '../events/execution_event_bus.js';
+import { AgentExecutionEvent, ExecutionEventBus } from '../events/execution_event_bus.js';
 import { ExecutionEventQueue } from '../events/execution_event_queue.js';
+import { InMemoryTaskEventJournal, TaskEventJournal } from '../events/task_event_journal.js';
 import { ResultManager } from '../result_manager.js';
-import { TaskStore } from '../store.js';
-import { A2ARequestHandler } from './a2a_request_handler.js';
+import { TaskStore, isVersionedTaskStore, updateVersionedTask } from '../store.js';
+import { TaskStateValidationPolicy } from '../task_state_validation.js';
+import { TaskAuthorizationPolicy, getTaskOwner } from '../task_authorization.js';
+import { A2ARequestHandler, ShutdownOptions } from './a2a_request_handler.js';
+import { ConcurrentMessageOptions, TaskExecutionLock } from './task_execution_lock.js';
+import { ExecutionScheduler } from './execution_scheduler.js';
+import {
+  DEFAULT_CANCEL_GRACE_PERIOD_MS,
+  ExecutionDeadlineOptions,
+  MAX_TIMER_DELAY_MS,
+  getExecutionDeadline,
+} from './execution_deadline.js';
+import { TaskRecoveryOptions, TaskRecoveryResult } from './task_recovery.js';
+import { SpanKind, Tracer, withSpan } from '../../tracing.js';
 import {
   InMemoryPushNotificationStore,
   PushNotificationStore,
 } from '../push_notification/push_notification_store.js';
 import { PushNotificationSender } from '../push_notification/push_notification_sender.js';
 import { DefaultPushNotificationSender } from '../push_notification/default_push_notification_sender.js';
+import {
+  DefaultPushNotificationUrlValidator,
+  PushNotificationUrlValidator,
+} from '../push_notification/push_notification_url_validator.js';
 import { ServerCallContext } from '../context.js';
+import { User } from '../authentication/user.js';
+import { ExtensionMethodRegistry } from '../extensions/extension_method_registry.js';
+import {
+  DEFAULT_LIST_TASKS_PAGE_SIZE,
+  ListTasksParams,
+  ListTasksResult,
+  MAX_LIST_TASKS_PAGE_SIZE,
+} from '../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../resubscribe.js';
+import {
+  GetTaskParams,
+  STATE_TRANSITION_HISTORY_METADATA_KEY,
+  getTaskStateTransitions,
+  recordTaskStateTransition,
+} from '../../task_state_transitions.js';
+import { getSSEEventId, setSSEEventId } from '../../sse_utils.js';
 
 const terminalStates: TaskState[] = ['completed', 'failed', 'canceled', 'rejected'];
+// States of the tasks with an execution in progress: those left behind by a crashed server
+// (see recoverTasks), and the only ones other server instances may be executing.
+const executingStates: TaskState[] = ['submitted', 'working'];
+const taskStates: TaskState[] = [
+  'submitted',
+  'working',
+  'input-required',
+  'completed',
+  'canceled',
+  'failed',
+  'rejected',
+  'auth-required',
+  'unknown',
+];
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10000;
+
+/**
+ * An agent execution in progress on this server instance.
+ */
+interface RunningExecution {
+  requestContext: RequestContext;
+  eventBus: ExecutionEventBus;
+  /** Settles once the events of the execution are processed. */
+  processed: Promise<unknown>;
+}
+
+/**
+ * Optional settings of {@link DefaultRequestHandler}.
+ */
+export interface DefaultRequestHandlerOptions {
+  /**
+   * Journal of the task events, replayed to clients resubscribing with `Last-Event-ID`.
+   * Defaults to an {@link InMemoryTaskEventJournal}.
+   */
+  eventJournal?: TaskEventJournal;
+  /**
+   * Validates the webhook URLs of push notification configs when they are registered.
+   * Defaults to a {@link DefaultPushNotificationUrlValidator}, also used by the default sender.
+   */
+  pushNotificationUrlValidator?: PushNotificationUrlValidator;
+  /**
+   * What to do with agent events breaking the task lifecycle. Defaults to `allow`.
+   */
+  taskStateValidation?: TaskStateValidationPolicy;
+  /**
+   * How messages sent to a task that is already being executed are handled.
+   * Defaults to waiting for the running execution.
+   */
+  concurrentMessages?: ConcurrentMessageOptions;
+  /**
+   * Bounds the number of agent executions running at once. Defaults to no limits.
+   */
+  executionScheduler?: ExecutionScheduler;
+  /**
+   * Bounds the duration of agent executions. Defaults to no deadline.
+   */
+  executionDeadline?: ExecutionDeadlineOptions;
+  /**
+   * Whether to cancel the execution of a stream whose client disconnects. Defaults to false.
+   */
+  cancelOnClientDisconnect?: boolean;
+  /**
+   * Decides which users may access a task. Defaults to {@link TaskAuthorizationPolicy.ownerOnly}.
+   */
+  taskAuthorization?: TaskAuthorizationPolicy;
+  /**
+   * Tracer recording spans for the calls, agent executions and push deliveries.
+   */
+  tracer?: Tracer;
+}
 
 export class DefaultRequestHandler implements A2ARequestHandler {
+  public readonly extensionMethods: ExtensionMethodRegistry = new ExtensionMethodRegistry();
+  public readonly tracer?: Tracer;
   private readonly agentCard: AgentCard;
   private readonly taskStore: TaskStore;
   private readonly agentExecutor: AgentExecutor;
@@ -45,6 +150,18 @@ export class DefaultRequestHandler implements A2ARequestHandler {
   private readonly pushNotificationStore?: PushNotificationStore;
   private readonly pushNotificationSender?: PushNotificationSender;
   private readonly extendedAgentCardProvider?: AgentCard | ExtendedAgentCardProvider;
+  private readonly eventJournal: TaskEventJournal;
+  private readonly pushNotificationUrlValidator: PushNotificationUrlValidator;
+  private readonly taskStateValidation: TaskStateValidationPolicy;
+  private readonly concurrentMessages: ConcurrentMessageOptions;
+  private readonly executionScheduler: ExecutionScheduler;
+  private readonly executionDeadline: ExecutionDeadlineOptions;
+  private readonly cancelOnClientDisconnect: boolean;
+  private readonly taskAuthorization: TaskAuthorizationPolicy;
+  private readonly journaledEventBuses: WeakSet<ExecutionEventBus> = new WeakSet();
+  private readonly executionLock: TaskExecutionLock = new TaskExecutionLock();
+  private readonly runningExecutions: Map<string, RunningExecution> = new Map();
+  private shutdownPromise?: Promise<void>;
 
   constructor(
     agentCard: AgentCard,
@@ -53,20 +170,38 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     eventBusManager: ExecutionEventBusManager = new DefaultExecutionEventBusManager(),
     pushNotificationStore?: PushNotificationStore,
     pushNotificationSender?: PushNotificationSender,
-    extendedAgentCardProvider?: AgentCard | ExtendedAgentCardProvider
+    extendedAgentCardProvider?: AgentCard | ExtendedAgentCardProvider,
+    options: DefaultRequestHandlerOptions = {}
   ) {
     this.agentCard = agentCard;
     this.taskStore = taskStore;
     this.agentExecutor = agentExecutor;
     this.eventBusManager = eventBusManager;
     this.extendedAgentCardProvider = extendedAgentCardProvider;
+    this.eventJournal = options.eventJournal ?? new InMemoryTaskEventJournal();
+    this.pushNotificationUrlValidator =
+      options.pushNotificationUrlValidator ?? new DefaultPushNotificationUrlValidator();
+    this.taskStateValidation = options.taskStateValidation ?? 'allow';
+    this.concurrentMessages = options.concurrentMessages ?? {};
+    this.executionScheduler = options.executionScheduler ?? new ExecutionScheduler();
+    this.executionDeadline = options.executionDeadline ?? {};
+    this.cancelOnClientDisconnect = options.cancelOnClientDisconnect ?? false;
+    this.taskAuthorization = options.taskAuthorization ?? TaskAuthorizationPolicy.ownerOnly();
+    this.tracer = options.tracer;
+    this.eventBusManager.onCancellationRequested?.((taskId, eventBus) =>
+      this._cancelExecution(taskId, eventBus, 'canceled')
+    );
 
     // If push notifications are supported, use the provided store and sender.
     // Otherwise, use the default in-memory store and sender.
     if (agentCard.capabilities.pushNotifications) {
       this.pushNotificationStore = pushNotificationStore || new InMemoryPushNotificationStore();
       this.pushNotificationSender =
-        pushNotificationSender || new DefaultPushNotificationSender(this.pushNotificationStore);
+        pushNotificationSender ||
+        new DefaultPushNotificationSender(this.pushNotificationStore, {
+          urlValidator: this.pushNotificationUrlValidator,
+          tracer: this.tracer,
+        });
     }
   }
 
@@ -99,19 +234,8 @@ export class DefaultRequestHandler implements A2ARequestHandler {
 
     // incomingMessage would contain taskId, if a task already exists.
     if (incomingMessage.taskId) {
-      task = await this.taskStore.load(incomingMessage.taskId, context);
-      if (!task) {
-        throw A2AError.taskNotFound(incomingMessage.taskId);
-      }
-      if (terminalStates.includes(task.status.state)) {
-        // Throw an error that conforms to the JSON-RPC Invalid Request error specification.
-        throw A2AError.invalidRequest(
-          `Task ${task.id} is in a terminal state (${task.status.state}) and cannot be modified.`
-        );
-      }
       // Add incomingMessage to history and save the task.
-      task.history = [...(task.history || []), incomingMessage];
-      await this.taskStore.save(task, context);
+      task = await this._appendMessageToTask(incomingMessage.taskId, incomingMessage, context);
     }
     // Ensure taskId is present
     const taskId = incomingMessage.taskId || uuidv4();
@@ -119,7 +243,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     if (incomingMessage.referenceTaskIds && incomingMessage.referenceTaskIds.length > 0) {
       referenceTasks = [];
       for (const refId of incomingMessage.referenceTaskIds) {
-        const refTask = await this.taskStore.load(refId, context);
+        const refTask = await this._loadAuthorizedTask(refId, context);
         if (refTask) {
           referenceTasks.push(refTask);
         } else {
@@ -140,7 +264,12 @@ export class DefaultRequestHandler implements A2ARequestHandler {
       const validExtensions = context.requestedExtensions.filter((extension) =>
         exposedExtensions.has(extension)
       );
-      context = new ServerCallContext(validExtensions, context.user);
+      context = new ServerCallContext(
+        validExtensions,
+        context.user,
+        context.deadline,
+        context.traceContext
+      );
     }
 
     const messageForContext = {
@@ -151,6 +280,359 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     return new RequestContext(messageForContext, taskId, contextId, task, referenceTasks, context);
   }
 
+  /**
+   * Loads a task, unless the user of the call is not allowed to access it.
+   */
+  private async _loadAuthorizedTask(
+    taskId: string,
+    context?: ServerCallContext
+  ): Promise<Task | undefined> {
+    const task = await this.taskStore.load(taskId, context);
+    return task && (await this.taskAuthorization(task, context)) ? task : undefined;
+  }
+
+  /**
+   * Fails with "task not found" if the message continues a task the user may not access.
+   */
+  private async _authorizeMessage(message: Message, context?: ServerCallContext): Promise<void> {
+    if (message.taskId && !(await this._loadAuthorizedTask(message.taskId, context))) {
+      throw A2AError.taskNotFound(message.taskId);
+    }
+  }
+
+  /**
+   * Makes the result manager record the owner of the task of an execution: the owner of the
+   * existing task, or the authenticated user creating it.
+   */
+  private _setTaskOwner(
+    resultManager: ResultManager,
+    requestContext: RequestContext,
+    context?: ServerCallContext
+  ): void {
+    const owner = requestContext.task
+      ? getTaskOwner(requestContext.task)
+      : context?.user?.isAuthenticated
+        ? context.user.userName
+        : undefined;
+    if (owner !== undefined) {
+      resultManager.setOwner(owner);
+    }
+  }
+
+  /**
+   * Adds a message to the history of a task that is not in a terminal state, and saves the task.
+   */
+  private async _appendMessageToTask(
+    taskId: string,
+    message: Message,
+    context?: ServerCallContext
+  ): Promise<Task> {
+    const appendMessage = (latest: Task | undefined): Task => {
+      if (!latest) {
+        throw A2AError.taskNotFound(taskId);
+      }
+      if (terminalStates.includes(latest.status.state)) {
+        // Throw an error that conforms to the JSON-RPC Invalid Request error specification.
+        throw A2AError.invalidRequest(
+          `Task ${latest.id} is in a terminal state (${latest.status.state}) and cannot be modified.`
+        );
+      }
+      return { ...latest, history: [...(latest.history || []), message] };
+    };
+    if (isVersionedTaskStore(this.taskStore)) {
+      return (await updateVersionedTask(this.taskStore, taskId, appendMessage, context)).task;
+    }
+    const task = appendMessage(await this.taskStore.load(taskId, context));
+    await this.taskStore.save(task, context);
+    return task;
+  }
+
+  /**
+   * Waits until the message may be executed: according to the concurrent message policy, no other
+   * execution may run for its task (and its context, if executions are serialized per context),
+   * then the execution scheduler must grant it a slot.
+   * @returns A function to call once the execution of the message is over.
+   */
+  private async _admitExecution(
+    params: MessageSendParams,
+    context?: ServerCallContext
+  ): Promise<() => void> {
+    const message = params.message;
+    const keys: string[] = [];
+    if (message.taskId) {
+      keys.push(`task:${message.taskId}`);
+    }
+    if (this.concurrentMessages.perContext) {
+      const contextId =
+        message.contextId ??
+        (message.taskId && (await this.taskStore.load(message.taskId, context))?.contextId);
+      if (contextId) {
+        keys.push(`context:${contextId}`);
+      }
+    }
+    if (
+      this.concurrentMessages.policy === 'reject' &&
+      keys.some((key) => this.executionLock.isLocked(key))
+    ) {
+      throw A2AError.taskBusy(
+        message.taskId
+          ? `Task ${message.taskId} is already being executed.`
+          : `Another task of context ${message.contextId} is already being executed.`,
+        message.taskId
+      );
+    }
+    const releaseLock = await this.executionLock.acquire(keys);
+    let releaseSlot: () => void;
+    try {
+      releaseSlot = await this.executionScheduler.acquire(params, context);
+    } catch (error) {
+      releaseLock();
+      throw error;
+    }
+    const releaseExecution = () => {
+      releaseSlot();
+      releaseLock();
+    };
+    if (this.shutdownPromise) {
+      // The server started shutting down while the message was waiting.
+      releaseExecution();
+      throw A2AError.serverShuttingDown();
+    }
+    return releaseExecution;
+  }
+
+  /**
+   * Keeps track of an execution until its events are processed, and releases it once both
+   * the execution and the processing are over, or once the execution is failed past its deadline.
+   */
+  private _trackExecution(
+    requestContext: RequestContext,
+    eventBus: ExecutionEventBus,
+    execution: Promise<void>,
+    processing: Promise<void>,
+    releaseExecution: () => void
+  ): void {
+    const running: RunningExecution = {
+      requestContext,
+      eventBus,
+      processed: Promise.allSettled([processing]),
+    };
+    this.runningExecutions.set(requestContext.taskId, running);
+    running.processed.then(() => {
+      if (this.runningExecutions.get(requestContext.taskId) === running) {
+        this.runningExecutions.delete(requestContext.taskId);
+      }
+    });
+    Promise.allSettled([execution, processing]).then(releaseExecution);
+
+    const deadline = getExecutionDeadline(this.executionDeadline, requestContext.context);
+    if (deadline !== undefined) {
+      this._enforceDeadline(running, deadline, releaseExecution);
+    }
+  }
+
+  /**
+   * Cancels an execution still running at its deadline, and fails its task if the agent executor
+   * does not finish within the grace period.
+   */
+  private _enforceDeadline(
+    running: RunningExecution,
+    deadline: number,
+    releaseExecution: () => void
+  ): void {
+    const { requestContext, eventBus } = running;
+    const { taskId } = requestContext;
+    let processed = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const failTask = () => {
+      if (processed) {
+        return;
+      }
+      console.error(`Task ${taskId} did not stop within the grace period after its deadline.`);
+      this._failExecution(running, 'Task execution deadline exceeded.');
+      // The agent executor may never return, do not wait for it to run the next execution.
+      releaseExecution();
+    };
+
+    const cancelTask = async () => {
+      if (processed) {
+        return;
+      }
+      console.warn(`Task ${taskId} exceeded its execution deadline, canceling it.`);
+      try {
+        await this._cancelExecution(taskId, eventBus, 'deadline-exceeded');
+      } catch (error) {
+        console.error(`Failed to cancel task ${taskId} past its deadline:`, error);
+      }
+      if (!processed) {
+        timer = setTimeout(
+          failTask,
+          Math.min(
+            this.executionDeadline.cancelGracePeriodMs ?? DEFAULT_CANCEL_GRACE_PERIOD_MS,
+            MAX_TIMER_DELAY_MS
+          )
+        );
+      }
+    };
+
+    const armDeadline = () => {
+      const delay = Math.max(0, deadline - Date.now());
+      // Deadlines beyond the longest timer delay are reached in several steps.
+      timer =
+        delay > MAX_TIMER_DELAY_MS
+          ? setTimeout(armDeadline, MAX_TIMER_DELAY_MS)
+          : setTimeout(cancelTask, delay);
+    };
+
+    armDeadline();
+    running.processed.then(() => {
+      processed = true;
+      clearTimeout(timer);
+    });
+  }
+
+  /**
+   * Fails the task of an execution that did not stop when canceled, and closes its event bus.
+   */
+  private _failExecution(
+    running: Pick<RunningExecution, 'requestContext' | 'eventBus'>,
+    text: string
+  ): void {
+    const { requestContext, eventBus } = running;
+    const { taskId, contextId } = requestContext;
+    eventBus.publish({
+      kind: 'status-update',
+      taskId,
+      contextId,
+      status: {
+        state: 'failed',
+        message: {
+          kind: 'message',
+          role: 'agent',
+          messageId: uuidv4(),
+          parts: [{ kind: 'text', text }],
+          taskId,
+          contextId,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      final: true,
+    });
+    eventBus.finished();
+  }
+
+  /**
+   * Waits for the events of the running executions to be processed.
+   * @returns Whether they were all processed within the timeout.
+   */
+  private async _drainExecutions(timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const processed = Promise.all(
+      [...this.runningExecutions.values()].map((running) => running.processed)
+    ).then(() => true);
+    try {
+      return await Promise.race([processed, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Aborts the signal of the execution of a task, then cancels the task with
+   * `AgentExecutor.cancelTask`, or by publishing the final `canceled` status if the executor
+   * does not implement it.
+   */
+  private async _cancelExecution(
+    taskId: string,
+    eventBus: ExecutionEventBus,
+    reason: ExecutionAbortReason,
+    context?: ServerCallContext
+  ): Promise<void> {
+    const requestContext = this.runningExecutions.get(taskId)?.requestContext;
+    requestContext?.abort(reason);
+    if (this.agentExecutor.cancelTask) {
+      return this.agentExecutor.cancelTask(taskId, eventBus);
+    }
+
+    const contextId =
+      requestContext?.contextId ?? (await this.taskStore.load(taskId, context))?.contextId;
+    if (!contextId) {
+      console.warn(`Cannot cancel task ${taskId}: task not found.`);
+      return;
+    }
+    eventBus.publish({
+      kind: 'status-update',
+      taskId,
+      contextId,
+      status: { state: 'canceled', timestamp: new Date().toISOString() },
+      final: true,
+    });
+  }
+
+  /**
+   * Waits for the final status of a task executed by another server instance, without
+   * processing its events.
+   */
+  private async _waitForFinalStatus(
+    eventQueue: ExecutionEventQueue
+  ): Promise<TaskStatus | undefined> {
+    try {
+      for await (const event of eventQueue.events()) {
+        if (
+          (event.kind === 'status-update' && event.final) ||
+          (event.kind === 'task' && terminalStates.includes(event.status.state))
+        ) {
+          return event.status;
+        }
+      }
+      return undefined;
+    } finally {
+      eventQueue.stop();
+    }
+  }
+
+  /**
+   * Returns the running execution the message must be delivered to as a follow-up input, if any.
+   */
+  private _findFollowUpTarget(message: Message): RunningExecution | undefined {
+    if (this.concurrentMessages.policy !== 'follow-up' || !message.taskId) {
+      return undefined;
+    }
+    const running = this.runningExecutions.get(message.taskId);
+    return running?.requestContext.acceptsFollowUpMessages ? running : undefined;
+  }
+
+  /**
+   * Adds a follow-up message to the task history and delivers it to the running execution.
+   */
+  private async _deliverFollowUpMessage(
+    running: RunningExecution,
+    message: Message,
+    context?: ServerCallContext
+  ): Promise<Task> {
+    const { taskId, contextId } = running.requestContext;
+    const followUpMessage: Message = { ...message, taskId, contextId };
+    const task = await this._appendMessageToTask(taskId, followUpMessage, context);
+    running.requestContext.deliverFollowUpMessage(followUpMessage);
+    return task;
+  }
+
+  private async _savePushNotificationConfig(
+    taskId: string,
+    params: MessageSendParams
+  ): Promise<void> {
+    if (
+      params.configuration?.pushNotificationConfig &&
+      this.agentCard.capabilities.pushNotifications
+    ) {
+      await this.pushNotificationStore?.save(taskId, params.configuration.pushNotificationConfig);
+    }
+  }
+
   private async _processEvents(
     taskId: string,
     resultManager: ResultManager,
@@ -159,12 +641,20 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     options?: {
       firstResultResolver?: (value: Message | Task | PromiseLike<Message | Task>) => void;
       firstResultRejector?: (reason?: unknown) => void;
+      /**
+       * Whether nobody awaits the processing (streams whose client disconnected, recovered
+       * tasks). Failures then fail the task instead of being rethrown.
+       */
+      background?: boolean;
     }
   ): Promise<void> {
     let firstResultSent = false;
     try {
-      for await (const event of eventQueue.events()) {
-        await resultManager.processEvent(event);
+      for await (const executionEvent of eventQueue.events()) {
+        const event = await resultManager.processEvent(executionEvent);
+        if (!event) {
+          continue;
+        }
 
         try {
           await this._sendPushNotificationIfNeeded(event, context);
@@ -184,6 +674,11 @@ export class DefaultRequestHandler implements A2ARequestHandler {
             firstResultSent = true;
           }
         }
+        if (event !== executionEvent) {
+          // The task was failed because of an invalid event; ignore the rest of the execution.
+          eventQueue.stop();
+          break;
+        }
       }
       if (options?.firstResultRejector && !firstResultSent) {
         options.firstResultRejector(
@@ -192,13 +687,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
       }
     } catch (error) {
       console.error(`Event processing loop failed for task ${taskId}:`, error);
-      this._handleProcessingError(
-        error,
-        resultManager,
-        firstResultSent,
-        taskId,
-        options?.firstResultRejector
-      );
+      await this._handleProcessingError(error, resultManager, firstResultSent, taskId, options);
     } finally {
       this.eventBusManager.cleanupByTaskId(taskId);
     }
@@ -212,39 +701,60 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     if (!incomingMessage.messageId) {
       throw A2AError.invalidParams('message.messageId is required.');
     }
+    if (this.shutdownPromise) {
+      throw A2AError.serverShuttingDown();
+    }
+    await this._validatePushNotificationConfig(params);
+
+    await this._authorizeMessage(incomingMessage, context);
 
     // Default to blocking behavior if 'blocking' is not explicitly false.
     const isBlocking = params.configuration?.blocking !== false;
+
+    const followUpTarget = this._findFollowUpTarget(incomingMessage);
+    if (followUpTarget) {
+      const task = await this._deliverFollowUpMessage(followUpTarget, incomingMessage, context);
+      await this._savePushNotificationConfig(task.id, params);
+      if (!isBlocking) {
+        return task;
+      }
+      // The running execution processes the events, wait for it to finish.
+      await followUpTarget.processed;
+      return (await this.taskStore.load(task.id, context)) ?? task;
+    }
+
     // Instantiate ResultManager before creating RequestContext
-    const resultManager = new ResultManager(this.taskStore, context);
+    const resultManager = this._createResultManager(context);
     resultManager.setContext(incomingMessage); // Set context for ResultManager
 
-    const requestContext = await this._createRequestContext(incomingMessage, context);
+    const releaseExecution = await this._admitExecution(params, context);
+    let requestContext: RequestContext;
+    try {
+      requestContext = await this._createRequestContext(incomingMessage, context);
+      // If push notification config is provided, save it to the store.
+      await this._savePushNotificationConfig(requestContext.taskId, params);
+    } catch (error) {
+      releaseExecution();
+      throw error;
+    }
+    this._setTaskOwner(resultManager, requestContext, context);
     const taskId = requestContext.taskId;
 
     // Use the (potentially updated) contextId from requestContext
     const finalMessageForAgent = requestContext.userMessage;
 
-    // If push notification config is provided, save it to the store.
-    if (
-      params.configuration?.pushNotificationConfig &&
-      this.agentCard.capabilities.pushNotifications
-    ) {
-      await this.pushNotificationStore?.save(taskId, params.configuration.pushNotificationConfig);
-    }
-
-    const eventBus = this.eventBusManager.createOrGetByTaskId(taskId);
+    const eventBus = this._createOrGetEventBus(taskId);
     // EventQueue should be attached to the bus, before the agent execution begins.
     const eventQueue = new ExecutionEventQueue(eventBus);
 
     // Start agent execution (non-blocking).
     // It runs in the background and publishes events to the eventBus.
-    this.agentExecutor.execute(requestContext, eventBus).catch((err) => {
+    const execution = this._executeAgent(requestContext, eventBus).catch((err) => {
       console.error(`Agent execution failed for message ${finalMessageForAgent.messageId}:`, err);
       // Publish a synthetic error event, which will be handled by the ResultManager
       // and will also settle the firstResultPromise for non-blocking calls.
       const errorTask: Task = {
-        id: requestContext.task?.id || uuidv4(), // Use existing task ID or generate new
+        id: requestContext.taskId,
         contextId: finalMessageForAgent.contextId!,
         status: {
           state: 'failed',
@@ -253,7 +763,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
             role: 'agent',
             messageId: uuidv4(),
             parts: [{ kind: 'text', text: `Agent execution error: ${err.message}` }],
-            taskId: requestContext.task?.id,
+            taskId: requestContext.taskId,
             contextId: finalMessageForAgent.contextId!,
           },
           timestamp: new Date().toISOString(),
@@ -281,7 +791,9 @@ export class DefaultRequestHandler implements A2ARequestHandler {
 
     if (isBlocking) {
       // In blocking mode, wait for the full processing to complete.
-      await this._processEvents(taskId, resultManager, eventQueue, context);
+      const processing = this._processEvents(taskId, resultManager, eventQueue, context);
+      this._trackExecution(requestContext, eventBus, execution, processing, releaseExecution);
+      await processing;
       const finalResult = resultManager.getFinalResult();
       if (!finalResult) {
         throw A2AError.internalError(
@@ -293,10 +805,11 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     } else {
       // In non-blocking mode, return a promise that will be settled by fullProcessing.
       return new Promise<Message | Task>((resolve, reject) => {
-        this._processEvents(taskId, resultManager, eventQueue, context, {
+        const processing = this._processEvents(taskId, resultManager, eventQueue, context, {
           firstResultResolver: resolve,
           firstResultRejector: reject,
         });
+        this._trackExecution(requestContext, eventBus, execution, processing, releaseExecution);
       });
     }
   }
@@ -315,28 +828,50 @@ export class DefaultRequestHandler implements A2ARequestHandler {
       // Let's assume client provides it or throw for now.
       throw A2AError.invalidParams('message.messageId is required for streaming.');
     }
+    if (this.shutdownPromise) {
+      throw A2AError.serverShuttingDown();
+    }
+    await this._validatePushNotificationConfig(params);
+    await this._authorizeMessage(incomingMessage, context);
+
+    const followUpTarget = this._findFollowUpTarget(incomingMessage);
+    if (followUpTarget) {
+      // Stream the events of the running execution, which processes them.
+      const eventQueue = new ExecutionEventQueue(followUpTarget.eventBus);
+      try {
+        const task = await this._deliverFollowUpMessage(followUpTarget, incomingMessage, context);
+        await this._savePushNotificationConfig(task.id, params);
+        yield task;
+        yield* eventQueue.events();
+      } finally {
+        eventQueue.stop();
+      }
+      return;
+    }
 
     // Instantiate ResultManager before creating RequestContext
-    const resultManager = new ResultManager(this.taskStore, context);
+    const resultManager = this._createResultManager(context);
     resultManager.setContext(incomingMessage); // Set context for ResultManager
 
-    const requestContext = await this._createRequestContext(incomingMessage, context);
+    const releaseExecution = await this._admitExecution(params, context);
+    let requestContext: RequestContext;
+    try {
+      requestContext = await this._createRequestContext(incomingMessage, context);
+      // If push notification config is provided, save it to the store.
+      await this._savePushNotificationConfig(requestContext.taskId, params);
+    } catch (error) {
+      releaseExecution();
+      throw error;
+    }
+    this._setTaskOwner(resultManager, requestContext, context);
     const taskId = requestContext.taskId;
     const finalMessageForAgent = requestContext.userMessage;
 
-    const eventBus = this.eventBusManager.createOrGetByTaskId(taskId);
+    const eventBus = this._createOrGetEventBus(taskId);
     const eventQueue = new ExecutionEventQueue(eventBus);
 
-    // If push notification config is provided, save it to the store.
-    if (
-      params.configuration?.pushNotificationConfig &&
-      this.agentCard.capabilities.pushNotifications
-    ) {
-      await this.pushNotificationStore?.save(taskId, params.configuration.pushNotificationConfig);
-    }
-
     // Start agent execution (non-blocking)
-    this.agentExecutor.execute(requestContext, eventBus).catch((err) => {
+    const execution = this._executeAgent(requestContext, eventBus).catch((err) => {
       console.error(
         `Agent execution failed for stream message ${finalMessageForAgent.messageId}:`,
         err
@@ -344,7 +879,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
       // Publish a synthetic error event if needed
       const errorTaskStatus: TaskStatusUpdateEvent = {
         kind: 'status-update',
-        taskId: requestContext.task?.id || uuidv4(), // Use existing or a placeholder
+        taskId: requestContext.taskId,
         contextId: finalMessageForAgent.contextId!,
         status: {
           state: 'failed',
@@ -353,7 +888,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
             role: 'agent',
             messageId: uuidv4(),
             parts: [{ kind: 'text', text: `Agent execution error: ${err.message}` }],
-            taskId: requestContext.task?.id,
+            taskId: requestContext.taskId,
             contextId: finalMessageForAgent.contextId!,
           },
           timestamp: new Date().toISOString(),
@@ -363,36 +898,118 @@ export class DefaultRequestHandler implements A2ARequestHandler {
       eventBus.publish(errorTaskStatus);
     });
 
+    let processingDone!: () => void;
+    const processing = new Promise<void>((resolve) => {
+      processingDone = resolve;
+    });
+    this._trackExecution(requestContext, eventBus, execution, processing, releaseExecution);
+
+    // Whether the client got all the events, should it stop consuming the stream.
+    let streamComplete = false;
     try {
-      for await (const event of eventQueue.events()) {
-        await resultManager.processEvent(event); // Update store in background
+      for await (const executionEvent of eventQueue.events()) {
+        const event = await resultManager.processEvent(executionEvent); // Update store in background
+        if (!event) {
+          continue;
+        }
         await this._sendPushNotificationIfNeeded(event, context);
+        streamComplete =
+          event !== executionEvent ||
+          event.kind === 'message' ||
+          (event.kind === 'status-update' && event.final);
         yield event; // Stream the event to the client
+        if (event !== executionEvent) {
+          // The task was failed because of an invalid event; ignore the rest of the execution.
+          eventQueue.stop();
+          return;
+        }
       }
+      streamComplete = true;
+    } catch (error) {
+      streamComplete = true;
+      throw error;
     } finally {
-      // Cleanup when the stream is fully consumed or breaks
-      this.eventBusManager.cleanupByTaskId(taskId);
+      if (!streamComplete && this.cancelOnClientDisconnect) {
+        // The client disconnected: cancel the execution, and process its remaining events.
+        this._cancelExecution(taskId, eventBus, 'client-disconnected').catch((error) =>
+          console.error(`Failed to cancel task ${taskId} after client disconnect:`, error)
+        );
+        this._processEvents(taskId, resultManager, eventQueue, context, {
+          background: true,
+        }).then(processingDone, processingDone);
+      } else {
+        // Cleanup when the stream is fully consumed or breaks
+        this.eventBusManager.cleanupByTaskId(taskId);
+        processingDone();
+      }
     }
   }
 
-  async getTask(params: TaskQueryParams, context?: ServerCallContext): Promise<Task> {
-    const task = await this.taskStore.load(params.id, context);
+  async getTask(params: GetTaskParams, context?: ServerCallContext): Promise<Task> {
+    const task = await this._loadAuthorizedTask(params.id, context);
     if (!task) {
       throw A2AError.taskNotFound(params.id);
     }
-    if (params.historyLength !== undefined && params.historyLength >= 0) {
-      if (task.history) {
-        task.history = task.history.slice(-params.historyLength);
-      }
-    } else {
-      // Negative or invalid historyLength means no history
-      task.history = [];
+    if (
+      params.stateTransitionHistoryLength !== undefined &&
+      !(
+        Number.isInteger(params.stateTransitionHistoryLength) &&
+        params.stateTransitionHistoryLength >= 0
+      )
+    ) {
+      throw A2AError.invalidParams('stateTransitionHistoryLength must be a non-negative integer.');
     }
-    return task;
+    this._trimStateTransitions(task, params.stateTransitionHistoryLength);
+    return this._trimHistory(task, params.historyLength);
+  }
+
+  async listTasks(params: ListTasksParams, context?: ServerCallContext): Promise<ListTasksResult> {
+    if (!this.taskStore.list) {
+      throw A2AError.unsupportedOperation('Task store does not support listing tasks.');
+    }
+    const pageSize = params.pageSize ?? DEFAULT_LIST_TASKS_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LIST_TASKS_PAGE_SIZE) {
+      throw A2AError.invalidParams(
+        `pageSize must be an integer between 1 and ${MAX_LIST_TASKS_PAGE_SIZE}.`
+      );
+    }
+    if (params.status !== undefined && !taskStates.includes(params.status)) {
+      throw A2AError.invalidParams(`Invalid status: ${params.status}`);
+    }
+    if (params.lastUpdatedAfter !== undefined && !Number.isFinite(params.lastUpdatedAfter)) {
+      throw A2AError.invalidParams('lastUpdatedAfter must be a timestamp in milliseconds.');
+    }
+
+    // Keep listing until the page is full, since the tasks of other users are filtered out.
+    // Each store page only holds as many tasks as missing, so that its token resumes the listing
+    // right after the last task examined.
+    const tasks: Task[] = [];
+    let pageToken = params.pageToken;
+    do {
+      const page = await this.taskStore.list(
+        {
+          contextId: params.contextId,
+          status: params.status,
+          lastUpdatedAfter: params.lastUpdatedAfter,
+          pageSize: pageSize - tasks.length,
+          pageToken,
+        },
+        context
+      );
+      const authorized = await Promise.all(
+        page.tasks.map((task) => this.taskAuthorization(task, context))
+      );
+      tasks.push(...page.tasks.filter((_task, index) => authorized[index]));
+      pageToken = page.nextPageToken;
+    } while (pageToken && tasks.length < pageSize);
+    return {
+      tasks: tasks.map((task) => this._trimHistory(task, params.historyLength)),
+      nextPageToken: pageToken,
+    };
   }
 
   async cancelTask(params: TaskIdParams, context?: ServerCallContext): Promise<Task> {
-    const task = await this.taskStore.load(params.id, context);
+    const task = await this._loadAuthorizedTask(params.id, context);
     if (!task) {
       throw A2AError.taskNotFound(params.id);
     }
@@ -403,43 +1020,72 @@ export class DefaultRequestHandler implements A2ARequestHandler {
       throw A2AError.taskNotCancelable(params.id);
     }
 
-    const eventBus = this.eventBusManager.getByTaskId(params.id);
+    const eventBus = await this._findEventBus(task);
+    let remoteFinalStatus: TaskStatus | undefined;
 
     if (eventBus) {
       const eventQueue = new ExecutionEventQueue(eventBus);
-      await this.agentExecutor.cancelTask(params.id, eventBus);
-      // Consume all the events until the task reaches a terminal state.
-      await this._processEvents(
-        params.id,
-        new ResultManager(this.taskStore, context),
-        eventQueue,
-        context
-      );
+      if (await this.eventBusManager.requestCancellation?.(params.id)) {
+        // The task is executed by another server instance, which persists its events:
+        // only wait for the task to reach a terminal state.
+        remoteFinalStatus = await this._waitForFinalStatus(eventQueue);
+      } else {
+        await this._cancelExecution(params.id, eventBus, 'canceled', context);
+        // Consume all the events until the task reaches a terminal state.
+        const resultManager = this._createResultManager(context);
+        const owner = getTaskOwner(task);
+        if (owner !== undefined) {
+          resultManager.setOwner(owner);
+        }
+        await this._processEvents(params.id, resultManager, eventQueue, context);
+      }
     } else {
       // Here we are marking task as cancelled. We are not waiting for the executor to actually cancel processing.
-      task.status = {
-        state: 'canceled',
-        message: {
-          // Optional: Add a system message indicating cancellation
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Task cancellation requested by user.' }],
-          taskId: task.id,
-          contextId: task.contextId,
-        },
-        timestamp: new Date().toISOString(),
+      const markCanceled = (latest: Task | undefined): Task => {
+        if (!latest) {
+          throw A2AError.taskNotFound(params.id);
+        }
+        if (nonCancelableStates.includes(latest.status.state)) {
+          throw A2AError.taskNotCancelable(params.id);
+        }
+        const canceled: Task = {
+          ...latest,
+          status: {
+            state: 'canceled',
+            message: {
+              // Optional: Add a system message indicating cancellation
+              kind: 'message',
+              role: 'agent',
+              messageId: uuidv4(),
+              parts: [{ kind: 'text', text: 'Task cancellation requested by user.' }],
+              taskId: latest.id,
+              contextId: latest.contextId,
+            },
+            timestamp: new Date().toISOString(),
+          },
+        };
+        // Add cancellation message to history
+        canceled.history = [...(latest.history || []), canceled.status.message!];
+        if (this.agentCard.capabilities.stateTransitionHistory) {
+          recordTaskStateTransition(canceled);
+        }
+        return canceled;
       };
-      // Add cancellation message to history
-      task.history = [...(task.history || []), task.status.message];
-
-      await this.taskStore.save(task, context);
+      if (isVersionedTaskStore(this.taskStore)) {
+        await updateVersionedTask(this.taskStore, params.id, markCanceled, context);
+      } else {
+        await this.taskStore.save(markCanceled(task), context);
+      }
     }
 
-    const latestTask = await this.taskStore.load(params.id, context);
+    let latestTask = await this.taskStore.load(params.id, context);
     if (!latestTask) {
       throw A2AError.internalError(`Task ${params.id} not found after cancellation.`);
     }
+    if (remoteFinalStatus && !terminalStates.includes(latestTask.status.state)) {
+      // The executing instance may not have persisted the final event yet.
+      latestTask = { ...latestTask, status: remoteFinalStatus };
+    }
     if (latestTask.status.state != 'canceled') {
       throw A2AError.taskNotCancelable(params.id);
     }
@@ -453,7 +1099,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     if (!this.agentCard.capabilities.pushNotifications) {
       throw A2AError.pushNotificationNotSupported();
     }
-    const task = await this.taskStore.load(params.taskId, context);
+    const task = await this._loadAuthorizedTask(params.taskId, context);
     if (!task) {
       throw A2AError.taskNotFound(params.taskId);
     }
@@ -465,6 +1111,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
       pushNotificationConfig.id = taskId;
     }
 
+    await this.pushNotificationUrlValidator.validate(pushNotificationConfig, 'config');
     await this.pushNotificationStore?.save(taskId, pushNotificationConfig);
 
     return params;
@@ -477,7 +1124,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     if (!this.agentCard.capabilities.pushNotifications) {
       throw A2AError.pushNotificationNotSupported();
     }
-    const task = await this.taskStore.load(params.id, context);
+    const task = await this._loadAuthorizedTask(params.id, context);
     if (!task) {
       throw A2AError.taskNotFound(params.id);
     }
@@ -512,7 +1159,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     if (!this.agentCard.capabilities.pushNotifications) {
       throw A2AError.pushNotificationNotSupported();
     }
-    const task = await this.taskStore.load(params.id, context);
+    const task = await this._loadAuthorizedTask(params.id, context);
     if (!task) {
       throw A2AError.taskNotFound(params.id);
     }
@@ -532,7 +1179,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     if (!this.agentCard.capabilities.pushNotifications) {
       throw A2AError.pushNotificationNotSupported();
     }
-    const task = await this.taskStore.load(params.id, context);
+    const task = await this._loadAuthorizedTask(params.id, context);
     if (!task) {
       throw A2AError.taskNotFound(params.id);
     }
@@ -543,7 +1190,7 @@ export class DefaultRequestHandler implements A2ARequestHandler {
   }
 
   async *resubscribe(
-    params: TaskIdParams,
+    params: ResubscribeTaskParams,
     context?: ServerCallContext
   ): AsyncGenerator<
     | Task // Initial task state
@@ -555,35 +1202,63 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     if (!this.agentCard.capabilities.streaming) {
       throw A2AError.unsupportedOperation('Streaming (and thus resubscription) is not supported.');
     }
+    if (params.lastEventId !== undefined && typeof params.lastEventId !== 'string') {
+      throw A2AError.invalidParams('lastEventId must be a string.');
+    }
 
-    const task = await this.taskStore.load(params.id, context);
+    const task = await this._loadAuthorizedTask(params.id, context);
     if (!task) {
       throw A2AError.taskNotFound(params.id);
     }
 
-    // Yield the current task state first
-    yield task;
+    // Attach to the bus before reading the journal, so that no event is lost between
+    // the replayed events and the live ones. Duplicates are skipped below.
+    const eventBus = await this._findEventBus(task);
+    const eventQueue =
+      eventBus && !terminalStates.includes(task.status.state)
+        ? new ExecutionEventQueue(eventBus)
+        : undefined;
 
-    // If task is already in a final state, no more events will come.
-    const finalStates = ['completed', 'failed', 'canceled', 'rejected'];
-    if (finalStates.includes(task.status.state)) {
-      return;
-    }
+    try {
+      const missedEvents =
+        params.lastEventId !== undefined
+          ? await this.eventJournal.readAfter(params.id, params.lastEventId)
+          : undefined;
+      const replayedEventIds = new Set<string>();
+
+      if (missedEvents) {
+        // Resume where the client left off.
+        for (const { id, event } of missedEvents) {
+          setSSEEventId(event, id);
+          replayedEventIds.add(id);
+          yield event;
+          if (event.kind === 'status-update' && event.final) {
+            return;
+          }
+        }
+      } else {
+        // Yield the current task state first
+        yield task;
+      }
 
-    const eventBus = this.eventBusManager.getByTaskId(params.id);
-    if (!eventBus) {
-      // No active execution for this task, so no live events.
-      console.warn(`Resubscribe: No active event bus for task ${params.id}.`);
-      return;
-    }
+      // If task is already in a final state, no more events will come.
+      if (terminalStates.includes(task.status.state)) {
+        return;
+      }
 
-    // Attach a new queue to the existing bus for this resubscription
-    const eventQueue = new ExecutionEventQueue(eventBus);
-    // Note: The ResultManager part is already handled by the original execution flow.
-    // Resubscribe just listens for new events.
+      if (!eventQueue) {
+        // No active execution for this task, so no live events.
+        console.warn(`Resubscribe: No active event bus for task ${params.id}.`);
+        return;
+      }
 
-    try {
+      // Note: The ResultManager part is already handled by the original execution flow.
+      // Resubscribe just listens for new events.
       for await (const event of eventQueue.events()) {
+        const eventId = getSSEEventId(event);
+        if (eventId !== undefined && replayedEventIds.has(eventId)) {
+          continue;
+        }
         // We only care about updates related to *this* task.
         // The event bus might be shared if messageId was reused, though
         // ExecutionEventBusManager tries to give one bus per original message.
@@ -600,7 +1275,321 @@ export class DefaultRequestHandler implements A2ARequestHandler {
         // If a 'message' event for the original request terminates the bus, this loop will also end.
       }
     } finally {
-      eventQueue.stop();
+      eventQueue?.stop();
+    }
+  }
+
+  /**
+   * Stops accepting messages, which then fail with a "server shutting down" error (HTTP 503),
+   * and waits up to `timeoutMs` for the running executions to finish. Executions still running
+   * are then canceled with the `shutdown` abort reason, and failed if they do not stop within
+   * the cancel grace period of the execution deadline options, which closes their streams.
+   * Finally, waits for the push notifications being sent.
+   */
+  async shutdown(options: ShutdownOptions = {}): Promise<void> {
+    this.shutdownPromise ??= this._shutdown(options.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS);
+    return this.shutdownPromise;
+  }
+
+  private async _shutdown(timeoutMs: number): Promise<void> {
+    if (!(await this._drainExecutions(timeoutMs))) {
+      const executions = [...this.runningExecutions.values()];
+      console.warn(`Canceling ${executions.length} running task(s) to shut down.`);
+      await Promise.all(
+        executions.map(({ requestContext, eventBus }) =>
+          this._cancelExecution(requestContext.taskId, eventBus, 'shutdown').catch((error) =>
+            console.error(`Failed to cancel task ${requestContext.taskId} to shut down:`, error)
+          )
+        )
+      );
+      const gracePeriodMs =
+        this.executionDeadline.cancelGracePeriodMs ?? DEFAULT_CANCEL_GRACE_PERIOD_MS;
+      if (!(await this._drainExecutions(gracePeriodMs))) {
+        for (const running of this.runningExecutions.values()) {
+          console.error(
+            `Task ${running.requestContext.taskId} did not stop within the grace period after shutdown.`
+          );
+          this._failExecution(running, 'Server shut down before the task completed.');
+        }
+        await this._drainExecutions(gracePeriodMs);
+      }
+    }
+    await this.pushNotificationSender?.shutdown?.();
+  }
+
+  /**
+   * Recovers the tasks left `submitted` or `working` by a previous server process, according to
+   * the recovery policy. Call it once on startup, before serving requests. Tasks executed by
+   * another server instance, as known to the event bus manager, are left alone.
+   * With the `resume` policy, each resumed task waits for an execution slot in the background, like
+   * a message would. Tasks are accessed on behalf of the user who created them.
+   * @throws A2AError if the task store does not support listing tasks.
+   */
+  async recoverTasks(options: TaskRecoveryOptions = {}): Promise<TaskRecoveryResult> {
+    if (!this.taskStore.list) {
+      throw A2AError.unsupportedOperation('Task store does not support listing tasks.');
+    }
+    const policy = options.policy ?? 'fail';
+
+    // List all the tasks first, since recovering them changes the pages.
+    const orphanedTasks: Task[] = [];
+    for (const status of executingStates) {
+      let pageToken: string | undefined;
+      do {
+        const page = await this.taskStore.list({
+          status,
+          pageSize: MAX_LIST_TASKS_PAGE_SIZE,
+          pageToken,
+          allUsers: true,
+        });
+        orphanedTasks.push(...page.tasks);
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+    }
+
+    const result: TaskRecoveryResult = { recoveredTaskIds: [], errors: [] };
+    for (const task of orphanedTasks) {
+      if (this.runningExecutions.has(task.id) || (await this._findEventBus(task))) {
+        continue;
+      }
+      // Stores scoping tasks by user only give access to a task on behalf of its owner.
+      const context = this._taskOwnerContext(task);
+      try {
+        if (policy === 'fail') {
+          await this._failOrphanedTask(task.id, context);
+        } else if (policy === 'resume') {
+          await this._resumeOrphanedTask(task, context);
+        } else {
+          await policy(task, context);
+        }
+        result.recoveredTaskIds.push(task.id);
+      } catch (error) {
+        console.error(`Failed to recover task ${task.id}:`, error);
+        result.errors.push({ taskId: task.id, error });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns a context acting on behalf of the user who created a task, if it was created by an
+   * authenticated user.
+   */
+  private _taskOwnerContext(task: Task): ServerCallContext | undefined {
+    const owner = getTaskOwner(task);
+    return owner === undefined ? undefined : new ServerCallContext(undefined, new TaskOwner(owner));
+  }
+
+  /**
+   * Marks an orphaned task `failed`, unless it moved on in the meantime.
+   */
+  private async _failOrphanedTask(taskId: string, context?: ServerCallContext): Promise<void> {
+    const markFailed = (latest: Task | undefined): Task => {
+      if (!latest) {
+        throw A2AError.taskNotFound(taskId);
+      }
+      if (!executingStates.includes(latest.status.state)) {
+        throw A2AError.invalidRequest(
+          `Task ${taskId} moved to ${latest.status.state} during recovery.`
+        );
+      }
+      const failed: Task = {
+        ...latest,
+        status: {
+          state: 'failed',
+          message: {
+            kind: 'message',
+            role: 'agent',
+            messageId: uuidv4(),
+            parts: [{ kind: 'text', text: 'Task execution was interrupted by a server restart.' }],
+            taskId,
+            contextId: latest.contextId,
+          },
+          timestamp: new Date().toISOString(),
+        },
+      };
+      failed.history = [...(latest.history || []), failed.status.message!];
+      if (this.agentCard.capabilities.stateTransitionHistory) {
+        recordTaskStateTransition(failed);
+      }
+      return failed;
+    };
+    let task: Task;
+    if (isVersionedTaskStore(this.taskStore)) {
+      task = (await updateVersionedTask(this.taskStore, taskId, markFailed, context)).task;
+    } else {
+      task = markFailed(await this.taskStore.load(taskId, context));
+      await this.taskStore.save(task, context);
+    }
+    await this._sendPushNotificationIfNeeded(task, context);
+  }
+
+  /**
+   * Executes an orphaned task again from its last user message. The execution is admitted in the
+   * background, so that the recovery of the other tasks does not wait for a free execution slot.
+   */
+  private async _resumeOrphanedTask(task: Task, context?: ServerCallContext): Promise<void> {
+    const lastUserMessage = [...(task.history || [])]
+      .reverse()
+      .find((message) => message.role === 'user');
+    if (!lastUserMessage) {
+      throw A2AError.invalidRequest(`Task ${task.id} has no user message to resume from.`);
+    }
+    const userMessage: Message = { ...lastUserMessage, taskId: task.id, contextId: task.contextId };
+    this._admitExecution({ message: userMessage }, context).then(
+      (releaseExecution) => {
+        const requestContext = new RequestContext(
+          userMessage,
+          task.id,
+          task.contextId,
+          task,
+          undefined,
+          context,
+          true
+        );
+        const eventBus = this._createOrGetEventBus(task.id);
+        const eventQueue = new ExecutionEventQueue(eventBus);
+        const resultManager = this._createResultManager(context);
+        resultManager.setContext(userMessage);
+        this._setTaskOwner(resultManager, requestContext, context);
+
+        const execution = this._executeAgent(requestContext, eventBus).catch((err) => {
+          console.error(`Agent execution failed for recovered task ${task.id}:`, err);
+          this._failExecution(
+            { requestContext, eventBus },
+            `Agent execution error: ${err.message}`
+          );
+        });
+        const processing = this._processEvents(task.id, resultManager, eventQueue, context, {
+          background: true,
+        });
+        this._trackExecution(requestContext, eventBus, execution, processing, releaseExecution);
+      },
+      async (error) => {
+        console.error(`Failed to admit the execution of recovered task ${task.id}:`, error);
+        // On shutdown, leave the task to the recovery of the next process.
+        if (!this.shutdownPromise) {
+          await this._failOrphanedTask(task.id, context).catch((error) =>
+            console.error(`Failed to fail recovered task ${task.id}:`, error)
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Runs the agent executor, within a span child of the trace context of the call when tracing
+   * is enabled.
+   */
+  private _executeAgent(
+    requestContext: RequestContext,
+    eventBus: ExecutionEventBus
+  ): Promise<void> {
+    if (!this.tracer) {
+      return this.agentExecutor.execute(requestContext, eventBus);
+    }
+    return withSpan(
+      this.tracer,
+      'AgentExecutor.execute',
+      {
+        kind: SpanKind.INTERNAL,
+        parent: requestContext.context?.traceContext,
+        attributes: {
+          'a2a.task.id': requestContext.taskId,
+          'a2a.context.id': requestContext.contextId,
+          'a2a.execution.recovery': requestContext.isRecovery,
+        },
+      },
+      () => this.agentExecutor.execute(requestContext, eventBus)
+    );
+  }
+
+  /**
+   * Returns the event bus of a task, journaling its events on first use.
+   */
+  private _createOrGetEventBus(taskId: string): ExecutionEventBus {
+    return this._journalEvents(taskId, this.eventBusManager.createOrGetByTaskId(taskId));
+  }
+
+  /**
+   * Returns the event bus of a task executing on this or, with a distributed manager, another
+   * node. Events of remote executions are journaled as well, so that clients of this node can
+   * resume their streams. Other nodes are only asked about tasks whose stored state shows an
+   * execution in progress, so that finding no execution does not wait for their answer.
+   */
+  private async _findEventBus(task: Task): Promise<ExecutionEventBus | undefined> {
+    const eventBus =
+      this.eventBusManager.findByTaskId && executingStates.includes(task.status.state)
+        ? await this.eventBusManager.findByTaskId(task.id)
+        : this.eventBusManager.getByTaskId(task.id);
+    return eventBus && this._journalEvents(task.id, eventBus);
+  }
+
+  /**
+   * Records the events of a bus in the journal, once per bus.
+   * The journal listener is registered before any ExecutionEventQueue, so events
+   * carry their journal ID by the time subscribers receive them. Events relayed from the
+   * instance executing the task already carry the ID it assigned, and are recorded under it.
+   */
+  private _journalEvents(taskId: string, eventBus: ExecutionEventBus): ExecutionEventBus {
+    if (!this.journaledEventBuses.has(eventBus)) {
+      this.journaledEventBuses.add(eventBus);
+      eventBus.on('event', (event) => {
+        if (event.kind === 'message') {
+          return;
+        }
+        try {
+          const relayedEventId = getSSEEventId(event);
+          if (relayedEventId !== undefined) {
+            this.eventJournal.record?.(taskId, { id: relayedEventId, event });
+          } else {
+            setSSEEventId(event, this.eventJournal.append(taskId, event));
+          }
+        } catch (error) {
+          console.error(`Failed to journal event for task ${taskId}:`, error);
+        }
+      });
+    }
+    return eventBus;
+  }
+
+  private _createResultManager(context?: ServerCallContext): ResultManager {
+    return new ResultManager(this.taskStore, context, {
+      stateTransitionHistory: this.agentCard.capabilities.stateTransitionHistory,
+      taskStateValidation: this.taskStateValidation,
+    });
+  }
+
+  private _trimStateTransitions(task: Task, stateTransitionHistoryLength?: number): void {
+    if (stateTransitionHistoryLength === undefined) {
+      return;
+    }
+    const transitions = getTaskStateTransitions(task);
+    if (transitions.length > 0) {
+      task.metadata = {
+        ...task.metadata,
+        [STATE_TRANSITION_HISTORY_METADATA_KEY]:
+          stateTransitionHistoryLength > 0 ? transitions.slice(-stateTransitionHistoryLength) : [],
+      };
+    }
+  }
+
+  private _trimHistory(task: Task, historyLength?: number): Task {
+    if (historyLength !== undefined && historyLength >= 0) {
+      if (task.history) {
+        task.history = task.history.slice(-historyLength);
+      }
+    } else {
+      // Negative or invalid historyLength means no history
+      task.history = [];
+    }
+    return task;
+  }
+
+  private async _validatePushNotificationConfig(params: MessageSendParams): Promise<void> {
+    const pushNotificationConfig = params.configuration?.pushNotificationConfig;
+    if (pushNotificationConfig && this.agentCard.capabilities.pushNotifications) {
+      await this.pushNotificationUrlValidator.validate(pushNotificationConfig, 'config');
     }
   }
 
@@ -640,44 +1629,25 @@ export class DefaultRequestHandler implements A2ARequestHandler {
     resultManager: ResultManager,
     firstResultSent: boolean,
     taskId: string,
-    firstResultRejector?: (reason: unknown) => void
+    options?: { firstResultRejector?: (reason: unknown) => void; background?: boolean }
   ): Promise<void> {
     // Non-blocking case with with first result not sent
-    if (firstResultRejector && !firstResultSent) {
-      firstResultRejector(error);
+    if (options?.firstResultRejector && !firstResultSent) {
+      options.firstResultRejector(error);
       return;
     }
 
     // re-throw error for blocking case to catch
-    if (!firstResultRejector) {
+    if (!options?.firstResultRejector && !options?.background) {
       throw error;
     }
 
-    // Non-blocking case with first result already sent
-    const currentTask = resultManager.getCurrentTask();
+    // Processing nobody awaits, or first result already sent: fail the task. Rethrowing would
+    // end up as an unhandled rejection, since the processing runs in the background.
     const errorMessage = (error instanceof Error && error.message) || 'Unknown error';
-    if (currentTask) {
-      const statusUpdateFailed: TaskStatusUpdateEvent = {
-        taskId: currentTask.id,
-        contextId: currentTask.contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: `Event processing loop failed: ${errorMessage}` }],
-            taskId: currentTask.id,
-            contextId: currentTask.contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        kind: 'status-update',
-        final: true,
-      };
-
+    if (resultManager.getCurrentTask()) {
       try {
-        await resultManager.processEvent(statusUpdateFailed);
+        await resultManager.failCurrentTask(`Event processing loop failed: ${errorMessage}`);
       } catch (error) {
         console.error(
           `Event processing loop failed for task ${taskId}: ${(error instanceof Error && error.message) || 'Unknown error'}`
@@ -690,3 +1660,19 @@ export class DefaultRequestHandler implements A2ARequestHandler {
 }
 
 export type ExtendedAgentCardProvider = (context?: ServerCallContext) => Promise<AgentCard>;
+
+/**
+ * The user who created a task, on whose behalf background operations such as task recovery
+ * access it.
+ */
+class TaskOwner implements User {
+  constructor(private readonly name: string) {}
+
+  get isAuthenticated(): boolean {
+    return true;
+  }
+
+  get userName(): string {
+    return this.name;
+  }
+}
@@ -0,0 +1,39 @@
+import { ServerCallContext } from '../context.js';
+
+export interface ExecutionDeadlineOptions {
+  /**
+   * Maximum duration in milliseconds of an agent execution. Unlimited by default.
+   * Executions also end at the deadline of the request, if the client set a timeout.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Time in milliseconds the agent executor has to finish once asked to cancel a task past its
+   * deadline. The task is then failed. Defaults to 5000.
+   */
+  cancelGracePeriodMs?: number;
+}
+
+export const DEFAULT_CANCEL_GRACE_PERIOD_MS = 5000;
+
+/**
+ * Longest delay of a timer. Node fires timers with a longer delay after 1 millisecond.
+ */
+export const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Returns the deadline of an execution started now, i.e. the earliest of the deadline of the
+ * agent and the deadline of the request.
+ * @returns The deadline in milliseconds since the epoch, or undefined if the execution is unlimited.
+ */
+export function getExecutionDeadline(
+  options: ExecutionDeadlineOptions,
+  context?: ServerCallContext,
+  now: number = Date.now()
+): number | undefined {
+  const deadlines = [
+    options.timeoutMs !== undefined ? now + options.timeoutMs : undefined,
+    context?.deadline,
+  ].filter((deadline): deadline is number => deadline !== undefined);
+  return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+}
@@ -0,0 +1,184 @@
+import { MessageSendParams } from '../../types.js';
+import { ServerCallContext } from '../context.js';
+import { A2AError } from '../error.js';
+
+export interface ExecutionSchedulerOptions {
+  /**
+   * Maximum number of agent executions running at once. Unlimited by default.
+   */
+  maxConcurrentExecutions?: number;
+
+  /**
+   * Maximum number of agent executions running at once for an authenticated user.
+   * Unlimited by default.
+   */
+  maxConcurrentExecutionsPerUser?: number;
+
+  /**
+   * Maximum number of executions waiting for a slot. When the queue is full, the execution with the
+   * lowest priority is rejected. Defaults to 100.
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Maximum time in milliseconds an execution waits for a slot before it is rejected.
+   * Unlimited by default.
+   */
+  maxQueueWaitMs?: number;
+
+  /**
+   * Delay in seconds after which rejected clients are told to retry. Defaults to 1.
+   */
+  retryAfterSeconds?: number;
+
+  /**
+   * Priority of an execution in the wait queue, higher first. Executions of the same priority are
+   * started in arrival order. Defaults to 0 for all executions.
+   */
+  priority?: (params: MessageSendParams, context?: ServerCallContext) => number;
+}
+
+interface QueuedExecution {
+  userName?: string;
+  priority: number;
+  start: () => void;
+  reject: (error: A2AError) => void;
+  timeout?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+const DEFAULT_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * Admission control for agent executions: bounds the number of executions running at once,
+ * globally and per user, and queues the others by priority.
+ * Rejected executions fail with a "too many requests" error (HTTP 429 with `Retry-After`).
+ */
+export class ExecutionScheduler {
+  private readonly options: ExecutionSchedulerOptions;
+  private readonly queue: QueuedExecution[] = [];
+  private readonly runningPerUser: Map<string, number> = new Map();
+  private running = 0;
+
+  constructor(options: ExecutionSchedulerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Number of executions currently running.
+   */
+  get runningCount(): number {
+    return this.running;
+  }
+
+  /**
+   * Number of executions waiting for a slot.
+   */
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits for a slot to execute a message.
+   * @returns A function releasing the slot once the execution is over.
+   * @throws A2AError if the wait queue is full or the execution waited too long.
+   */
+  async acquire(params: MessageSendParams, context?: ServerCallContext): Promise<() => void> {
+    const userName = context?.user?.isAuthenticated ? context.user.userName : undefined;
+    if (this.canStart(userName)) {
+      return this.start(userName);
+    }
+
+    const priority = this.options.priority?.(params, context) ?? 0;
+    const maxQueueSize = this.options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    if (this.queue.length >= maxQueueSize) {
+      const lowest = this.queue[this.queue.length - 1];
+      if (!lowest || lowest.priority >= priority) {
+        throw this.tooManyRequests('Too many executions are waiting, try again later.');
+      }
+      // Make room for the higher priority execution.
+      this.remove(lowest);
+      lowest.reject(this.tooManyRequests('Execution preempted by higher priority executions.'));
+    }
+
+    return new Promise<() => void>((resolve, reject) => {
+      const queued: QueuedExecution = {
+        userName,
+        priority,
+        start: () => resolve(this.start(userName)),
+        reject,
+      };
+      const index = this.queue.findIndex((other) => other.priority < priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, queued);
+      if (this.options.maxQueueWaitMs !== undefined) {
+        queued.timeout = setTimeout(() => {
+          this.remove(queued);
+          reject(this.tooManyRequests('Timed out waiting for an execution slot.'));
+        }, this.options.maxQueueWaitMs);
+      }
+    });
+  }
+
+  private canStart(userName: string | undefined): boolean {
+    const { maxConcurrentExecutions, maxConcurrentExecutionsPerUser } = this.options;
+    if (maxConcurrentExecutions !== undefined && this.running >= maxConcurrentExecutions) {
+      return false;
+    }
+    return (
+      userName === undefined ||
+      maxConcurrentExecutionsPerUser === undefined ||
+      (this.runningPerUser.get(userName) ?? 0) < maxConcurrentExecutionsPerUser
+    );
+  }
+
+  private start(userName: string | undefined): () => void {
+    this.running++;
+    if (userName !== undefined) {
+      this.runningPerUser.set(userName, (this.runningPerUser.get(userName) ?? 0) + 1);
+    }
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.running--;
+      if (userName !== undefined) {
+        const count = this.runningPerUser.get(userName)! - 1;
+        if (count > 0) {
+          this.runningPerUser.set(userName, count);
+        } else {
+          this.runningPerUser.delete(userName);
+        }
+      }
+      this.startQueued();
+    };
+  }
+
+  /**
+   * Starts the queued executions that fit in the limits, by priority.
+   */
+  private startQueued(): void {
+    for (const queued of [...this.queue]) {
+      if (this.canStart(queued.userName)) {
+        this.remove(queued);
+        queued.start();
+      }
+    }
+  }
+
+  private remove(queued: QueuedExecution): void {
+    clearTimeout(queued.timeout);
+    const index = this.queue.indexOf(queued);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  private tooManyRequests(message: string): A2AError {
+    return A2AError.tooManyRequests(
+      message,
+      this.options.retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS
+    );
+  }
+}
@@ -0,0 +1,363 @@
+import {
+  AgentCard,
+  DeleteTaskPushNotificationConfigParams,
+  GetTaskPushNotificationConfigParams,
+  ListTaskPushNotificationConfigParams,
+  Message,
+  MessageSendParams,
+  Task,
+  TaskIdParams,
+  TaskPushNotificationConfig,
+} from '../../types.js';
+import { ListTasksParams, ListTasksResult } from '../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../resubscribe.js';
+import { GetTaskParams } from '../../task_state_transitions.js';
+import { ServerCallContext } from '../context.js';
+import {
+  ExtensionMethodDefinition,
+  ExtensionMethodRegistry,
+  ExtensionRouteMatch,
+} from '../extensions/extension_method_registry.js';
+import {
+  ExtensionMethodInvocation,
+  ServerAfterArgs,
+  ServerBeforeArgs,
+  ServerCallInput,
+  ServerCallResult,
+  ServerInterceptor,
+  ServerMethod,
+} from '../interceptors.js';
+import { A2ARequestHandler, ShutdownOptions } from './a2a_request_handler.js';
+import { Tracer } from '../../tracing.js';
+
+type StreamingMethod = 'sendMessageStream' | 'resubscribe' | 'invokeExtensionMethod';
+
+/**
+ * Wraps a request handler, running its calls through a chain of {@link ServerInterceptor}s.
+ * Since transports and framework adapters only see the wrapping handler, interceptors behave
+ * the same under JSON-RPC and REST, in every adapter.
+ *
+ * Calls of extension methods are intercepted as `invokeExtensionMethod`. `getAgentCard` is not
+ * intercepted.
+ */
+export class InterceptingRequestHandler implements A2ARequestHandler {
+  public readonly extensionMethods?: ExtensionMethodRegistry;
+
+  constructor(
+    private readonly requestHandler: A2ARequestHandler,
+    private readonly interceptors: ServerInterceptor[]
+  ) {
+    if (requestHandler.extensionMethods) {
+      this.extensionMethods = new InterceptedExtensionMethodRegistry(
+        requestHandler.extensionMethods,
+        this.invokeExtensionMethod.bind(this)
+      );
+    }
+  }
+
+  get tracer(): Tracer | undefined {
+    return this.requestHandler.tracer;
+  }
+
+  getAgentCard(): Promise<AgentCard> {
+    return this.requestHandler.getAgentCard();
+  }
+
+  getAuthenticatedExtendedAgentCard(context?: ServerCallContext): Promise<AgentCard> {
+    return this.executeWithInterceptors(
+      { method: 'getAuthenticatedExtendedAgentCard' },
+      context,
+      (_, context) => this.requestHandler.getAuthenticatedExtendedAgentCard(context)
+    );
+  }
+
+  sendMessage(params: MessageSendParams, context?: ServerCallContext): Promise<Message | Task> {
+    return this.executeWithInterceptors(
+      { method: 'sendMessage', value: params },
+      context,
+      this.requestHandler.sendMessage.bind(this.requestHandler)
+    );
+  }
+
+  sendMessageStream(
+    params: MessageSendParams,
+    context?: ServerCallContext
+  ): AsyncGenerator<ServerCallResult<'sendMessageStream'>['value'], void, undefined> {
+    return this.streamWithInterceptors(
+      { method: 'sendMessageStream', value: params },
+      context,
+      this.requestHandler.sendMessageStream.bind(this.requestHandler)
+    );
+  }
+
+  getTask(params: GetTaskParams, context?: ServerCallContext): Promise<Task> {
+    return this.executeWithInterceptors(
+      { method: 'getTask', value: params },
+      context,
+      this.requestHandler.getTask.bind(this.requestHandler)
+    );
+  }
+
+  cancelTask(params: TaskIdParams, context?: ServerCallContext): Promise<Task> {
+    return this.executeWithInterceptors(
+      { method: 'cancelTask', value: params },
+      context,
+      this.requestHandler.cancelTask.bind(this.requestHandler)
+    );
+  }
+
+  listTasks(params: ListTasksParams, context?: ServerCallContext): Promise<ListTasksResult> {
+    return this.executeWithInterceptors(
+      { method: 'listTasks', value: params },
+      context,
+      this.requestHandler.listTasks.bind(this.requestHandler)
+    );
+  }
+
+  setTaskPushNotificationConfig(
+    params: TaskPushNotificationConfig,
+    context?: ServerCallContext
+  ): Promise<TaskPushNotificationConfig> {
+    return this.executeWithInterceptors(
+      { method: 'setTaskPushNotificationConfig', value: params },
+      context,
+      this.requestHandler.setTaskPushNotificationConfig.bind(this.requestHandler)
+    );
+  }
+
+  getTaskPushNotificationConfig(
+    params: TaskIdParams | GetTaskPushNotificationConfigParams,
+    context?: ServerCallContext
+  ): Promise<TaskPushNotificationConfig> {
+    return this.executeWithInterceptors(
+      { method: 'getTaskPushNotificationConfig', value: params },
+      context,
+      this.requestHandler.getTaskPushNotificationConfig.bind(this.requestHandler)
+    );
+  }
+
+  listTaskPushNotificationConfigs(
+    params: ListTaskPushNotificationConfigParams,
+    context?: ServerCallContext
+  ): Promise<TaskPushNotificationConfig[]> {
+    return this.executeWithInterceptors(
+      { method: 'listTaskPushNotificationConfigs', value: params },
+      context,
+      this.requestHandler.listTaskPushNotificationConfigs.bind(this.requestHandler)
+    );
+  }
+
+  deleteTaskPushNotificationConfig(
+    params: DeleteTaskPushNotificationConfigParams,
+    context?: ServerCallContext
+  ): Promise<void> {
+    return this.executeWithInterceptors(
+      { method: 'deleteTaskPushNotificationConfig', value: params },
+      context,
+      this.requestHandler.deleteTaskPushNotificationConfig.bind(this.requestHandler)
+    );
+  }
+
+  resubscribe(
+    params: ResubscribeTaskParams,
+    context?: ServerCallContext
+  ): AsyncGenerator<ServerCallResult<'resubscribe'>['value'], void, undefined> {
+    return this.streamWithInterceptors(
+      { method: 'resubscribe', value: params },
+      context,
+      this.requestHandler.resubscribe.bind(this.requestHandler)
+    );
+  }
+
+  async shutdown(options?: ShutdownOptions): Promise<void> {
+    await this.requestHandler.shutdown?.(options);
+  }
+
+  /**
+   * Calls an extension method of the wrapped handler through the interceptors. For streaming
+   * methods, the interceptors run before the stream is returned, so that rejected calls fail
+   * before their stream starts, like calls of unintercepted handlers.
+   */
+  private async invokeExtensionMethod(
+    definition: ExtensionMethodDefinition,
+    params: unknown,
+    context: ServerCallContext | undefined,
+    agentCard: AgentCard
+  ): Promise<unknown> {
+    const input: ServerCallInput<'invokeExtensionMethod'> = {
+      method: 'invokeExtensionMethod',
+      value: { definition, params },
+    };
+    const invoke = (invocation: ExtensionMethodInvocation, context?: ServerCallContext) =>
+      this.requestHandler.extensionMethods!.invoke(
+        invocation.definition,
+        invocation.params,
+        context,
+        agentCard
+      );
+    if (!definition.streaming) {
+      return this.executeWithInterceptors(input, context, invoke);
+    }
+
+    const beforeArgs: ServerBeforeArgs<'invokeExtensionMethod'> = { input, context };
+    const beforeResult = await this.interceptBefore(beforeArgs);
+    if (beforeResult) {
+      const value = await this.interceptEarlyReturn(input.method, beforeResult, context);
+      return (async function* () {
+        yield value;
+      })();
+    }
+    const events = (await invoke(beforeArgs.input.value, context)) as AsyncGenerator<
+      unknown,
+      void,
+      undefined
+    >;
+    return this.interceptEvents(input.method, events, context);
+  }
+
+  private async executeWithInterceptors<K extends ServerMethod>(
+    input: ServerCallInput<K>,
+    context: ServerCallContext | undefined,
+    handlerCall: (
+      params: ServerCallInput<K>['value'],
+      context?: ServerCallContext
+    ) => Promise<ServerCallResult<K>['value']>
+  ): Promise<ServerCallResult<K>['value']> {
+    const beforeArgs: ServerBeforeArgs<K> = { input, context };
+    const beforeResult = await this.interceptBefore(beforeArgs);
+
+    if (beforeResult) {
+      return this.interceptEarlyReturn(input.method, beforeResult, context);
+    }
+
+    const result = await handlerCall(beforeArgs.input.value, context);
+
+    const afterArgs: ServerAfterArgs<K> = {
+      result: { method: input.method, value: result } as ServerCallResult<K>,
+      context,
+    };
+    await this.interceptAfter(afterArgs);
+
+    return afterArgs.result.value;
+  }
+
+  private async *streamWithInterceptors<K extends StreamingMethod>(
+    input: ServerCallInput<K>,
+    context: ServerCallContext | undefined,
+    handlerCall: (
+      params: ServerCallInput<K>['value'],
+      context?: ServerCallContext
+    ) => AsyncGenerator<ServerCallResult<K>['value'], void, undefined>
+  ): AsyncGenerator<ServerCallResult<K>['value'], void, undefined> {
+    const beforeArgs: ServerBeforeArgs<K> = { input, context };
+    const beforeResult = await this.interceptBefore(beforeArgs);
+
+    if (beforeResult) {
+      yield await this.interceptEarlyReturn(input.method, beforeResult, context);
+      return;
+    }
+
+    yield* this.interceptEvents(
+      input.method,
+      handlerCall(beforeArgs.input.value, context),
+      context
+    );
+  }
+
+  private async *interceptEvents<K extends StreamingMethod>(
+    method: K,
+    events: AsyncGenerator<ServerCallResult<K>['value'], void, undefined>,
+    context: ServerCallContext | undefined
+  ): AsyncGenerator<ServerCallResult<K>['value'], void, undefined> {
+    // Leaving the loop early returns the handler's generator, ending its subscription.
+    for await (const event of events) {
+      const afterArgs: ServerAfterArgs<K> = {
+        result: { method, value: event } as ServerCallResult<K>,
+        context,
+      };
+      await this.interceptAfter(afterArgs);
+      // Results of extension methods are unknown, which TypeScript cannot narrow to awaited values.
+      yield afterArgs.result.value as Awaited<ServerCallResult<K>['value']>;
+      if (afterArgs.earlyReturn) {
+        return;
+      }
+    }
+  }
+
+  private async interceptEarlyReturn<K extends ServerMethod>(
+    method: K,
+    beforeResult: { earlyReturn: ServerCallResult<K>; executed: ServerInterceptor[] },
+    context: ServerCallContext | undefined
+  ): Promise<ServerCallResult<K>['value']> {
+    const afterArgs: ServerAfterArgs<K> = {
+      result: { method, value: beforeResult.earlyReturn.value } as ServerCallResult<K>,
+      context,
+    };
+    await this.interceptAfter(afterArgs, beforeResult.executed);
+    return afterArgs.result.value;
+  }
+
+  private async interceptBefore<K extends ServerMethod>(
+    args: ServerBeforeArgs<K>
+  ): Promise<{ earlyReturn: ServerCallResult<K>; executed: ServerInterceptor[] } | undefined> {
+    const executed: ServerInterceptor[] = [];
+    for (const interceptor of this.interceptors) {
+      await interceptor.before(args as ServerBeforeArgs);
+      executed.push(interceptor);
+      if (args.earlyReturn) {
+        return {
+          earlyReturn: args.earlyReturn,
+          executed,
+        };
+      }
+    }
+  }
+
+  private async interceptAfter<K extends ServerMethod>(
+    args: ServerAfterArgs<K>,
+    interceptors?: ServerInterceptor[]
+  ): Promise<void> {
+    const reversedInterceptors = [...(interceptors ?? this.interceptors)].reverse();
+    for (const interceptor of reversedInterceptors) {
+      await interceptor.after(args as ServerAfterArgs);
+      if (args.earlyReturn) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Registry exposed by an {@link InterceptingRequestHandler}: the extension methods of the wrapped
+ * handler, invoked through the interceptors.
+ */
+class InterceptedExtensionMethodRegistry extends ExtensionMethodRegistry {
+  constructor(
+    private readonly registry: ExtensionMethodRegistry,
+    private readonly interceptedInvoke: ExtensionMethodRegistry['invoke']
+  ) {
+    super();
+  }
+
+  register<TParams, TResult>(definition: ExtensionMethodDefinition<TParams, TResult>): this {
+    this.registry.register(definition);
+    return this;
+  }
+
+  get(method: string): ExtensionMethodDefinition | undefined {
+    return this.registry.get(method);
+  }
+
+  matchRestRoute(httpMethod: string, path: string): ExtensionRouteMatch | undefined {
+    return this.registry.matchRestRoute(httpMethod, path);
+  }
+
+  invoke(
+    definition: ExtensionMethodDefinition,
+    params: unknown,
+    context: ServerCallContext | undefined,
+    agentCard: AgentCard
+  ): Promise<unknown> {
+    return this.interceptedInvoke(definition, params, context, agentCard);
+  }
+}
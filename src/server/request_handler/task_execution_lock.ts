@@ -0,0 +1,61 @@
+/**
+ * What `DefaultRequestHandler` does with a message sent to a task that is already being executed.
+ * - `queue`: executes the message once the running execution finishes.
+ * - `reject`: fails the request with a task busy error (-32010, or 409 in HTTP+JSON).
+ * - `follow-up`: delivers the message to the running execution through
+ *   `RequestContext.onFollowUpMessage`, or queues it if the execution does not listen for it.
+ */
+export type ConcurrentMessagePolicy = 'queue' | 'reject' | 'follow-up';
+
+export interface ConcurrentMessageOptions {
+  /**
+   * Defaults to `queue`.
+   */
+  policy?: ConcurrentMessagePolicy;
+
+  /**
+   * Whether executions are also serialized per context, so that two tasks of the same context
+   * are not executed at the same time. Defaults to false.
+   */
+  perContext?: boolean;
+}
+
+/**
+ * Serializes executions sharing a key (a task or a context) within the server instance.
+ * Waiters are served in order.
+ */
+export class TaskExecutionLock {
+  private readonly tails: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Whether an execution holds or waits for the key.
+   */
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+
+  /**
+   * Waits until no earlier execution holds any of the keys, then holds them.
+   * @returns A function releasing the keys.
+   */
+  async acquire(keys: string[]): Promise<() => void> {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    // All the keys are queued at once, so that executions waiting for several keys cannot deadlock.
+    const previous = keys.map((key) => {
+      const tail = this.tails.get(key) ?? Promise.resolve();
+      const next = tail.then(() => released);
+      this.tails.set(key, next);
+      next.then(() => {
+        if (this.tails.get(key) === next) {
+          this.tails.delete(key);
+        }
+      });
+      return tail;
+    });
+    await Promise.all(previous);
+    return release;
+  }
+}
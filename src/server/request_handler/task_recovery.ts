@@ -0,0 +1,37 @@
+import { Task } from '../../types.js';
+import { ServerCallContext } from '../context.js';
+
+/**
+ * What `DefaultRequestHandler.recoverTasks` does with a task left `submitted` or `working` by a
+ * previous process, e.g. after a crash:
+ * - `fail`: marks the task `failed`, with a status message explaining why.
+ * - `resume`: executes the task again from its last user message, with
+ *   `RequestContext.isRecovery` set so that the agent can pick up where it left off. Executions
+ *   are admitted in the background, once the execution limits allow it.
+ * - a callback: hands the task over, e.g. to enqueue it in a job queue. It receives a context
+ *   acting on behalf of the user who created the task, if any, to access it in stores scoping
+ *   tasks by user.
+ */
+export type TaskRecoveryPolicy =
+  | 'fail'
+  | 'resume'
+  | ((task: Task, context?: ServerCallContext) => void | Promise<void>);
+
+export interface TaskRecoveryOptions {
+  /**
+   * Defaults to `fail`.
+   */
+  policy?: TaskRecoveryPolicy;
+}
+
+export interface TaskRecoveryResult {
+  /**
+   * IDs of the recovered tasks.
+   */
+  recoveredTaskIds: string[];
+
+  /**
+   * Tasks that could not be recovered, with the error.
+   */
+  errors: { taskId: string; error: unknown }[];
+}
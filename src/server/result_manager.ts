@@ -1,30 +1,97 @@
-import { Message, Task, TaskArtifactUpdateEvent, TaskStatusUpdateEvent } from '../types.js';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Message,
+  Task,
+  TaskArtifactUpdateEvent,
+  TaskState,
+  TaskStatusUpdateEvent,
+} from '../types.js';
+import {
+  STATE_TRANSITION_HISTORY_METADATA_KEY,
+  recordTaskStateTransition,
+} from '../task_state_transitions.js';
 import { ServerCallContext } from './context.js';
+import { TASK_OWNER_METADATA_KEY, getTaskOwner } from './task_authorization.js';
 import { AgentExecutionEvent } from './events/execution_event_bus.js';
-import { TaskStore } from './store.js';
+import {
+  TaskStore,
+  TaskVersionConflictError,
+  isVersionedTaskStore,
+  updateVersionedTask,
+} from './store.js';
+import { TaskStateValidationPolicy, isValidTaskStateTransition } from './task_state_validation.js';
+
+const terminalStates: TaskState[] = ['completed', 'failed', 'canceled', 'rejected'];
+
+export interface ResultManagerOptions {
+  /**
+   * Whether to record the state transitions of tasks in their metadata,
+   * for agents advertising the `stateTransitionHistory` capability. Defaults to false.
+   */
+  stateTransitionHistory?: boolean;
+
+  /**
+   * What to do with events breaking the task lifecycle. Defaults to `allow`.
+   */
+  taskStateValidation?: TaskStateValidationPolicy;
+}
 
 export class ResultManager {
   private readonly taskStore: TaskStore;
   private readonly serverCallContext?: ServerCallContext;
+  private readonly options: ResultManagerOptions;
 
   private currentTask?: Task;
   private latestUserMessage?: Message; // To add to history if a new task is created
   private finalMessageResult?: Message; // Stores the message if it's the final result
+  private finalEventReceived: boolean = false;
+  private savedVersion?: { taskId: string; version: number }; // Version of the last saved task
+  private owner?: string; // Name of the user who created the task
 
-  constructor(taskStore: TaskStore, serverCallContext?: ServerCallContext) {
+  constructor(
+    taskStore: TaskStore,
+    serverCallContext?: ServerCallContext,
+    options: ResultManagerOptions = {}
+  ) {
     this.taskStore = taskStore;
     this.serverCallContext = serverCallContext;
+    this.options = options;
   }
 
   public setContext(latestUserMessage: Message): void {
     this.latestUserMessage = latestUserMessage;
   }
 
+  /**
+   * Records the owner of the task in the snapshots of the task published by the agent.
+   */
+  public setOwner(owner: string): void {
+    this.owner = owner;
+  }
+
   /**
    * Processes an agent execution event and updates the task store.
+   * Events breaking the task lifecycle are handled according to the `taskStateValidation` policy.
    * @param event The agent execution event.
+   * @returns The event to forward to clients: the processed event, undefined if it was dropped,
+   * or the final `failed` status update if it was rejected.
    */
-  public async processEvent(event: AgentExecutionEvent): Promise<void> {
+  public async processEvent(event: AgentExecutionEvent): Promise<AgentExecutionEvent | undefined> {
+    const policy = this.options.taskStateValidation ?? 'allow';
+    if (policy !== 'allow') {
+      const violation = await this.findViolation(event);
+      if (violation) {
+        return this.handleViolation(event, violation, policy);
+      }
+    }
+    await this.applyEvent(event);
+    if (event.kind === 'status-update' && event.final) {
+      this.finalEventReceived = true;
+    }
+    return event;
+  }
+
+  private async applyEvent(event: AgentExecutionEvent): Promise<void> {
     if (event.kind === 'message') {
       this.finalMessageResult = event as Message;
       // If a message is received, it's usually the final result,
@@ -32,7 +99,10 @@ export class ResultManager {
       // The ExecutionEventQueue will stop after a message event.
     } else if (event.kind === 'task') {
       const taskEvent = event as Task;
+      const previousTask = this.currentTask;
       this.currentTask = { ...taskEvent }; // Make a copy
+      this.carryOverStateTransitions(previousTask);
+      this.recordOwner(previousTask);
 
       // Ensure the latest user message is in history if not already present
       if (this.latestUserMessage) {
@@ -44,6 +114,7 @@ export class ResultManager {
           this.currentTask.history = [this.latestUserMessage, ...(this.currentTask.history || [])];
         }
       }
+      this.recordStateTransition();
       await this.saveCurrentTask();
     } else if (event.kind === 'status-update') {
       const updateEvent = event as TaskStatusUpdateEvent;
@@ -62,6 +133,7 @@ export class ResultManager {
             ];
           }
         }
+        this.recordStateTransition();
         await this.saveCurrentTask();
       } else if (!this.currentTask && updateEvent.taskId) {
         // Potentially an update for a task we haven't seen the 'task' event for yet,
@@ -82,6 +154,7 @@ export class ResultManager {
               ];
             }
           }
+          this.recordStateTransition();
           await this.saveCurrentTask();
         } else {
           console.warn(
@@ -152,10 +225,183 @@ export class ResultManager {
     }
   }
 
+  /**
+   * Checks that an event belongs to the current task, moves it to a state reachable from its
+   * current one, and does not add artifacts to a task in a terminal state.
+   * @returns A description of the violation, if any.
+   */
+  private async findViolation(event: AgentExecutionEvent): Promise<string | undefined> {
+    if (this.finalEventReceived) {
+      return 'the task already received its final event';
+    }
+    if (event.kind === 'message') {
+      return undefined;
+    }
+
+    const taskId = event.kind === 'task' ? event.id : event.taskId;
+    const expectedTaskId = this.currentTask?.id ?? this.latestUserMessage?.taskId;
+    if (expectedTaskId && taskId !== expectedTaskId) {
+      return `expected task ${expectedTaskId}, got ${taskId}`;
+    }
+    const expectedContextId = this.currentTask?.contextId ?? this.latestUserMessage?.contextId;
+    if (expectedContextId && event.contextId !== expectedContextId) {
+      return `expected context ${expectedContextId}, got ${event.contextId}`;
+    }
+
+    const task =
+      this.currentTask ??
+      (event.kind === 'task'
+        ? undefined
+        : await this.taskStore.load(taskId, this.serverCallContext));
+    if (!task) {
+      return undefined;
+    }
+    if (event.kind === 'artifact-update') {
+      return terminalStates.includes(task.status.state)
+        ? `the task is already ${task.status.state}`
+        : undefined;
+    }
+    const state = event.status.state;
+    if (!isValidTaskStateTransition(task.status.state, state)) {
+      return `illegal transition from ${task.status.state} to ${state}`;
+    }
+    return undefined;
+  }
+
+  private async handleViolation(
+    event: AgentExecutionEvent,
+    violation: string,
+    policy: TaskStateValidationPolicy
+  ): Promise<TaskStatusUpdateEvent | undefined> {
+    const description = `Invalid ${event.kind} event: ${violation}.`;
+    if (!this.currentTask && this.latestUserMessage?.taskId) {
+      this.currentTask = await this.taskStore.load(
+        this.latestUserMessage.taskId,
+        this.serverCallContext
+      );
+    }
+    const task = this.currentTask;
+    if (policy === 'drop' || !task || terminalStates.includes(task.status.state)) {
+      console.warn(`ResultManager: Dropping ${description}`);
+      return undefined;
+    }
+
+    console.error(`ResultManager: Failing task ${task.id}. ${description}`);
+    return this.failCurrentTask(description);
+  }
+
+  /**
+   * Moves the current task to the `failed` state, bypassing the validation of the task lifecycle.
+   * No further events are accepted afterwards.
+   * @param reason The text of the status message.
+   * @returns The final status update applied to the task, or undefined if there is no current task.
+   */
+  public async failCurrentTask(reason: string): Promise<TaskStatusUpdateEvent | undefined> {
+    const task = this.currentTask;
+    if (!task) {
+      return undefined;
+    }
+    const failed: TaskStatusUpdateEvent = {
+      kind: 'status-update',
+      taskId: task.id,
+      contextId: task.contextId,
+      status: {
+        state: 'failed',
+        message: {
+          kind: 'message',
+          role: 'agent',
+          messageId: uuidv4(),
+          parts: [{ kind: 'text', text: reason }],
+          taskId: task.id,
+          contextId: task.contextId,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      final: true,
+    };
+    this.finalEventReceived = true;
+    await this.applyEvent(failed);
+    return failed;
+  }
+
+  /**
+   * Records the owner in a task snapshot published by the agent, replacing any owner the agent
+   * set: ownership is only ever decided by the server.
+   */
+  private recordOwner(previousTask: Task | undefined): void {
+    const task = this.currentTask!;
+    const owner = this.owner ?? (previousTask ? getTaskOwner(previousTask) : undefined);
+    if (owner !== undefined) {
+      task.metadata = { ...task.metadata, [TASK_OWNER_METADATA_KEY]: owner };
+    } else if (task.metadata && TASK_OWNER_METADATA_KEY in task.metadata) {
+      task.metadata = { ...task.metadata };
+      delete task.metadata[TASK_OWNER_METADATA_KEY];
+    }
+  }
+
+  private recordStateTransition(): void {
+    if (this.currentTask && this.options.stateTransitionHistory) {
+      recordTaskStateTransition(this.currentTask);
+    }
+  }
+
+  /**
+   * Keeps the transitions recorded so far when the agent publishes a new snapshot of the task
+   * without them.
+   */
+  private carryOverStateTransitions(previousTask?: Task): void {
+    const transitions = previousTask?.metadata?.[STATE_TRANSITION_HISTORY_METADATA_KEY];
+    if (
+      this.options.stateTransitionHistory &&
+      this.currentTask &&
+      previousTask?.id === this.currentTask.id &&
+      transitions !== undefined &&
+      this.currentTask.metadata?.[STATE_TRANSITION_HISTORY_METADATA_KEY] === undefined
+    ) {
+      this.currentTask.metadata = {
+        ...this.currentTask.metadata,
+        [STATE_TRANSITION_HISTORY_METADATA_KEY]: transitions,
+      };
+    }
+  }
+
+  /**
+   * Saves the current task. With a versioned task store, the task is merged into the latest
+   * stored version if another writer saved it in the meantime.
+   */
   private async saveCurrentTask(): Promise<void> {
-    if (this.currentTask) {
-      await this.taskStore.save(this.currentTask, this.serverCallContext);
+    const task = this.currentTask;
+    if (!task) {
+      return;
     }
+    if (!isVersionedTaskStore(this.taskStore)) {
+      await this.taskStore.save(task, this.serverCallContext);
+      return;
+    }
+
+    if (this.savedVersion?.taskId === task.id) {
+      try {
+        const version = await this.taskStore.saveVersioned(
+          task,
+          this.savedVersion.version,
+          this.serverCallContext
+        );
+        this.savedVersion = { taskId: task.id, version };
+        return;
+      } catch (error) {
+        if (!(error instanceof TaskVersionConflictError)) {
+          throw error;
+        }
+      }
+    }
+    const saved = await updateVersionedTask(
+      this.taskStore,
+      task.id,
+      (latest) => (latest ? mergeTaskSnapshots(latest, task) : task),
+      this.serverCallContext
+    );
+    this.currentTask = saved.task;
+    this.savedVersion = { taskId: task.id, version: saved.version };
   }
 
   /**
@@ -179,3 +425,31 @@ export class ResultManager {
     return this.currentTask;
   }
 }
+
+/**
+ * Merges the snapshot of a task held by a ResultManager into the latest stored version of the
+ * task: messages and metadata saved by other writers are kept, and the status is only replaced
+ * by a legal transition, so that a terminal state set concurrently (e.g. by a cancellation) wins.
+ */
+function mergeTaskSnapshots(latest: Task, snapshot: Task): Task {
+  const merged: Task = {
+    ...latest,
+    ...snapshot,
+    status: isValidTaskStateTransition(latest.status.state, snapshot.status.state)
+      ? snapshot.status
+      : latest.status,
+  };
+  if (latest.history || snapshot.history) {
+    const history = [...(latest.history ?? [])];
+    for (const message of snapshot.history ?? []) {
+      if (!history.some((existing) => existing.messageId === message.messageId)) {
+        history.push(message);
+      }
+    }
+    merged.history = history;
+  }
+  if (latest.metadata || snapshot.metadata) {
+    merged.metadata = { ...latest.metadata, ...snapshot.metadata };
+  }
+  return merged;
+}
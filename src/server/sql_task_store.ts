@@ -0,0 +1,229 @@
+import { Task } from '../types.js';
+import { ServerCallContext } from './context.js';
+import {
+  TaskStore,
+  TaskStoreListQuery,
+  TaskStoreListResult,
+  decodeTaskPageToken,
+  encodeTaskPageToken,
+} from './store.js';
+
+// ========================
+// SQL driver abstraction
+// ========================
+
+/**
+ * Value that can be bound to a SQL statement parameter.
+ */
+export type SqlValue = string | number | null;
+
+/**
+ * Minimal driver abstraction used by {@link SqlTaskStore}.
+ * Implement it on top of any SQLite-compatible client (better-sqlite3, node:sqlite,
+ * bun:sqlite, sql.js, Cloudflare D1, ...). Parameters use positional `?` placeholders.
+ */
+export interface SqlDriver {
+  /**
+   * Executes a statement that does not return rows.
+   */
+  run(sql: string, params?: SqlValue[]): Promise<void>;
+
+  /**
+   * Executes a query and returns all rows as objects keyed by column name.
+   */
+  all<TRow extends Record<string, unknown>>(sql: string, params?: SqlValue[]): Promise<TRow[]>;
+}
+
+/**
+ * Synchronous SQLite database exposing `prepare(sql).run(...)` / `.all(...)`,
+ * as implemented by better-sqlite3, node:sqlite (`DatabaseSync`) and bun:sqlite.
+ */
+export interface SqliteDatabaseLike {
+  prepare(sql: string): {
+    run(...params: SqlValue[]): unknown;
+    all(...params: SqlValue[]): unknown[];
+  };
+}
+
+/**
+ * Creates a {@link SqlDriver} from a synchronous SQLite database.
+ *
+ * @example
+ * ```ts
+ * import { DatabaseSync } from 'node:sqlite';
+ *
+ * const store = new SqlTaskStore(sqliteDriver(new DatabaseSync('tasks.db')));
+ * ```
+ */
+export function sqliteDriver(db: SqliteDatabaseLike): SqlDriver {
+  return {
+    async run(sql, params = []) {
+      db.prepare(sql).run(...params);
+    },
+    async all<TRow extends Record<string, unknown>>(sql: string, params: SqlValue[] = []) {
+      return db.prepare(sql).all(...params) as TRow[];
+    },
+  };
+}
+
+// ========================
+// SqlTaskStore
+// ========================
+
+export interface SqlTaskStoreOptions {
+  /**
+   * Name of the table holding tasks. Created on first use if it does not exist.
+   * Defaults to `a2a_tasks`.
+   */
+  tableName?: string;
+
+  /**
+   * Whether tasks are scoped to `ServerCallContext.user.userName`.
+   * When enabled, a task saved by one user is not visible to another user.
+   * Defaults to false, since `DefaultRequestHandler` already checks every access against its
+   * `TaskAuthorizationPolicy`: scoping by user hides the tasks of other users from the policy,
+   * so that policies granting access to them (shared context, admin override) cannot.
+   * Only enable it along with the `TaskAuthorizationPolicy.ownerOnly()` policy.
+   */
+  scopeByUser?: boolean;
+}
+
+interface TaskRow extends Record<string, unknown> {
+  data: string;
+}
+
+interface TaskListRow extends TaskRow {
+  id: string;
+  updated_at: number;
+}
+
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Durable {@link TaskStore} persisting tasks (including their history and artifacts)
+ * into a SQL database through a pluggable {@link SqlDriver}.
+ *
+ * The table is created lazily on first access. Indexed columns hold the context ID,
+ * the current state and the last update time so that tasks can be queried efficiently.
+ */
+export class SqlTaskStore implements TaskStore {
+  private readonly tableName: string;
+  private readonly scopeByUser: boolean;
+  private schemaReady?: Promise<void>;
+
+  constructor(
+    private readonly driver: SqlDriver,
+    options?: SqlTaskStoreOptions
+  ) {
+    this.tableName = options?.tableName ?? 'a2a_tasks';
+    if (!TABLE_NAME_PATTERN.test(this.tableName)) {
+      throw new Error(`Invalid table name: ${this.tableName}`);
+    }
+    this.scopeByUser = options?.scopeByUser ?? false;
+  }
+
+  async load(taskId: string, context?: ServerCallContext): Promise<Task | undefined> {
+    await this.ensureSchema();
+    const rows = await this.driver.all<TaskRow>(
+      `SELECT data FROM ${this.tableName} WHERE owner = ? AND id = ?`,
+      [this.ownerOf(context), taskId]
+    );
+    return rows.length > 0 ? (JSON.parse(rows[0].data) as Task) : undefined;
+  }
+
+  async save(task: Task, context?: ServerCallContext): Promise<void> {
+    await this.ensureSchema();
+    await this.driver.run(
+      `INSERT OR REPLACE INTO ${this.tableName} (owner, id, context_id, state, updated_at, data) VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        this.ownerOf(context),
+        task.id,
+        task.contextId,
+        task.status.state,
+        Date.now(),
+        JSON.stringify(task),
+      ]
+    );
+  }
+
+  async list(query: TaskStoreListQuery, context?: ServerCallContext): Promise<TaskStoreListResult> {
+    await this.ensureSchema();
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+    if (!query.allUsers) {
+      conditions.push('owner = ?');
+      params.push(this.ownerOf(context));
+    }
+    if (query.contextId !== undefined) {
+      conditions.push('context_id = ?');
+      params.push(query.contextId);
+    }
+    if (query.status !== undefined) {
+      conditions.push('state = ?');
+      params.push(query.status);
+    }
+    if (query.lastUpdatedAfter !== undefined) {
+      conditions.push('updated_at > ?');
+      params.push(query.lastUpdatedAfter);
+    }
+    if (query.pageToken) {
+      const cursor = decodeTaskPageToken(query.pageToken);
+      conditions.push('(updated_at < ? OR (updated_at = ? AND id > ?))');
+      params.push(cursor.updatedAt, cursor.updatedAt, cursor.id);
+    }
+    // Fetch one extra row to find out whether there is a next page.
+    params.push(query.pageSize + 1);
+
+    const rows = await this.driver.all<TaskListRow>(
+      `SELECT id, updated_at, data FROM ${this.tableName} ${conditions.length ? `WHERE ${conditions.join(' AND ')} ` : ''}ORDER BY updated_at DESC, id ASC LIMIT ?`,
+      params
+    );
+    const page = rows.slice(0, query.pageSize);
+    const last = page[page.length - 1];
+    return {
+      tasks: page.map((row) => JSON.parse(row.data) as Task),
+      nextPageToken:
+        rows.length > query.pageSize
+          ? encodeTaskPageToken({ updatedAt: Number(last.updated_at), id: last.id })
+          : undefined,
+    };
+  }
+
+  private ownerOf(context?: ServerCallContext): string {
+    return this.scopeByUser ? (context?.user?.userName ?? '') : '';
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch((error) => {
+        // Allow a later call to retry, e.g. after a transient connection failure.
+        this.schemaReady = undefined;
+        throw error;
+      });
+    }
+    return this.schemaReady;
+  }
+
+  private async createSchema(): Promise<void> {
+    await this.driver.run(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        owner TEXT NOT NULL,
+        id TEXT NOT NULL,
+        context_id TEXT NOT NULL,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (owner, id)
+      )`
+    );
+    await this.driver.run(
+      `CREATE INDEX IF NOT EXISTS ${this.tableName}_context_idx ON ${this.tableName} (owner, context_id)`
+    );
+    await this.driver.run(
+      `CREATE INDEX IF NOT EXISTS ${this.tableName}_state_idx ON ${this.tableName} (state, updated_at)`
+    );
+    await this.driver.run(
+      `CREATE INDEX IF NOT EXISTS ${this.tableName}_updated_idx ON ${this.tableName} (owner, updated_at)`
+    );
+  }
+}
@@ -1,5 +1,37 @@
-import { Task } from '../types.js';
+import { Task, TaskState } from '../types.js';
 import { ServerCallContext } from './context.js';
+import { A2AError } from './error.js';
+
+/**
+ * Query passed to {@link TaskStore.list}.
+ */
+export interface TaskStoreListQuery {
+  /** Only return tasks belonging to this context. */
+  contextId?: string;
+  /** Only return tasks whose `status.state` matches. */
+  status?: TaskState;
+  /** Only return tasks saved after this time, in milliseconds since the Unix epoch. */
+  lastUpdatedAfter?: number;
+  /** Maximum number of tasks to return. */
+  pageSize: number;
+  /** Cursor returned as `nextPageToken` by a previous call. */
+  pageToken?: string;
+  /**
+   * Return the tasks of all users, instead of those of the user of the context, for maintenance
+   * such as `DefaultRequestHandler.recoverTasks`. Only for stores scoping tasks by user.
+   */
+  allUsers?: boolean;
+}
+
+/**
+ * A page of tasks returned by {@link TaskStore.list}.
+ */
+export interface TaskStoreListResult {
+  /** Tasks ordered by last update time (most recent first), then by ID. */
+  tasks: Task[];
+  /** Cursor for the next page, absent when there are no more tasks. */
+  nextPageToken?: string;
+}
 
 /**
  * Simplified interface for task storage providers.
@@ -22,6 +54,162 @@ export interface TaskStore {
    * @returns A promise resolving to an object containing the Task, or undefined if not found.
    */
   load(taskId: string, context?: ServerCallContext): Promise<Task | undefined>;
+
+  /**
+   * Lists tasks matching the query, ordered by last update time (most recent first).
+   * Optional: stores that do not implement it do not support `tasks/list`.
+   * @param query Filters and pagination.
+   * @param context The context of the current call.
+   * @returns A promise resolving to a page of tasks.
+   */
+  list?(query: TaskStoreListQuery, context?: ServerCallContext): Promise<TaskStoreListResult>;
+
+  /**
+   * Loads a task with its version, for optimistic concurrency control.
+   * Optional: must be implemented together with {@link TaskStore.saveVersioned}.
+   * @param taskId The ID of the task to load.
+   * @param context The context of the current call.
+   * @returns A promise resolving to the task and its version, or undefined if not found.
+   */
+  loadVersioned?(taskId: string, context?: ServerCallContext): Promise<VersionedTask | undefined>;
+
+  /**
+   * Saves a task if its stored version still matches the expected one.
+   * Optional: must be implemented together with {@link TaskStore.loadVersioned}.
+   * @param task The task to save.
+   * @param expectedVersion The version the task was loaded with, or 0 for a new task.
+   * @param context The context of the current call.
+   * @returns A promise resolving to the new version of the task.
+   * @throws {TaskVersionConflictError} If the task was saved by another writer in the meantime.
+   */
+  saveVersioned?(task: Task, expectedVersion: number, context?: ServerCallContext): Promise<number>;
+}
+
+/**
+ * A task with the version it was stored with.
+ */
+export interface VersionedTask {
+  task: Task;
+  /** Incremented on each save, starting at 1. */
+  version: number;
+}
+
+/**
+ * A {@link TaskStore} supporting optimistic concurrency control.
+ */
+export type VersionedTaskStore = TaskStore &
+  Required<Pick<TaskStore, 'loadVersioned' | 'saveVersioned'>>;
+
+/**
+ * Whether a task store supports optimistic concurrency control.
+ */
+export function isVersionedTaskStore(store: TaskStore): store is VersionedTaskStore {
+  return typeof store.loadVersioned === 'function' && typeof store.saveVersioned === 'function';
+}
+
+/**
+ * Error thrown by {@link TaskStore.saveVersioned} when the task was modified since it was loaded.
+ */
+export class TaskVersionConflictError extends Error {
+  constructor(
+    public readonly taskId: string,
+    public readonly expectedVersion: number,
+    /** The current version of the task, 0 if it does not exist. */
+    public readonly actualVersion: number
+  ) {
+    super(
+      `Task ${taskId} was modified concurrently: expected version ${expectedVersion}, found ${actualVersion}.`
+    );
+    this.name = 'TaskVersionConflictError';
+  }
+}
+
+/**
+ * Maximum number of attempts of {@link updateVersionedTask}.
+ */
+export const MAX_TASK_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Loads a task, applies an update and saves it with the loaded version, retrying with the
+ * latest version of the task on conflicts.
+ * @param store The task store.
+ * @param taskId The ID of the task to update.
+ * @param update Returns the task to save, given the latest stored one (undefined if not found).
+ * It may throw to abort the update.
+ * @param context The context of the current call.
+ * @returns The saved task and its version.
+ * @throws {TaskVersionConflictError} If the task is still modified concurrently after
+ * {@link MAX_TASK_UPDATE_ATTEMPTS} attempts.
+ */
+export async function updateVersionedTask(
+  store: VersionedTaskStore,
+  taskId: string,
+  update: (latest: Task | undefined) => Task | Promise<Task>,
+  context?: ServerCallContext
+): Promise<VersionedTask> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await store.loadVersioned(taskId, context);
+    const task = await update(latest?.task);
+    try {
+      const version = await store.saveVersioned(task, latest?.version ?? 0, context);
+      return { task, version };
+    } catch (error) {
+      if (!(error instanceof TaskVersionConflictError) || attempt >= MAX_TASK_UPDATE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// ========================
+// Pagination helpers
+// ========================
+
+/**
+ * Position of a task in the list order, used as a pagination cursor.
+ */
+export interface TaskPagePosition {
+  updatedAt: number;
+  id: string;
+}
+
+/**
+ * Encodes a list position into an opaque page token.
+ */
+export function encodeTaskPageToken(position: TaskPagePosition): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([position.updatedAt, position.id]));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Decodes a page token created by {@link encodeTaskPageToken}.
+ * @throws {A2AError} InvalidParams if the token is malformed.
+ */
+export function decodeTaskPageToken(token: string): TaskPagePosition {
+  try {
+    const binary = atob(token);
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    const [updatedAt, id] = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof updatedAt === 'number' && typeof id === 'string') {
+      return { updatedAt, id };
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw A2AError.invalidParams('Invalid pageToken.');
+}
+
+/**
+ * Returns true if a task at `position` comes after `cursor` in the list order.
+ */
+export function isAfterTaskPagePosition(
+  position: TaskPagePosition,
+  cursor: TaskPagePosition
+): boolean {
+  return (
+    position.updatedAt < cursor.updatedAt ||
+    (position.updatedAt === cursor.updatedAt && position.id > cursor.id)
+  );
 }
 
 // ========================
@@ -29,8 +217,10 @@ export interface TaskStore {
 // ========================
 
 // Use Task directly for storage
-export class InMemoryTaskStore implements TaskStore {
+export class InMemoryTaskStore implements VersionedTaskStore {
   private store: Map<string, Task> = new Map();
+  private updatedAt: Map<string, number> = new Map();
+  private versions: Map<string, number> = new Map();
 
   async load(taskId: string): Promise<Task | undefined> {
     const entry = this.store.get(taskId);
@@ -41,5 +231,48 @@ export class InMemoryTaskStore implements TaskStore {
   async save(task: Task): Promise<void> {
     // Store copies to prevent internal mutation if caller reuses objects
     this.store.set(task.id, { ...task });
+    this.updatedAt.set(task.id, Date.now());
+    this.versions.set(task.id, (this.versions.get(task.id) ?? 0) + 1);
+  }
+
+  async loadVersioned(taskId: string): Promise<VersionedTask | undefined> {
+    const task = await this.load(taskId);
+    return task ? { task, version: this.versions.get(taskId)! } : undefined;
+  }
+
+  async saveVersioned(task: Task, expectedVersion: number): Promise<number> {
+    const actualVersion = this.versions.get(task.id) ?? 0;
+    if (actualVersion !== expectedVersion) {
+      throw new TaskVersionConflictError(task.id, expectedVersion, actualVersion);
+    }
+    await this.save(task);
+    return actualVersion + 1;
+  }
+
+  async list(query: TaskStoreListQuery): Promise<TaskStoreListResult> {
+    const cursor = query.pageToken ? decodeTaskPageToken(query.pageToken) : undefined;
+    const matching = [...this.store.values()]
+      .map((task) => ({ task, position: { updatedAt: this.updatedAt.get(task.id)!, id: task.id } }))
+      .filter(
+        ({ task, position }) =>
+          (query.contextId === undefined || task.contextId === query.contextId) &&
+          (query.status === undefined || task.status.state === query.status) &&
+          (query.lastUpdatedAfter === undefined || position.updatedAt > query.lastUpdatedAfter) &&
+          (!cursor || isAfterTaskPagePosition(position, cursor))
+      )
+      .sort((a, b) =>
+        isAfterTaskPagePosition(a.position, b.position)
+          ? 1
+          : isAfterTaskPagePosition(b.position, a.position)
+            ? -1
+            : 0
+      );
+
+    const page = matching.slice(0, query.pageSize);
+    const hasMore = matching.length > query.pageSize;
+    return {
+      tasks: page.map(({ task }) => ({ ...task })),
+      nextPageToken: hasMore ? encodeTaskPageToken(page[page.length - 1].position) : undefined,
+    };
   }
 }
@@ -0,0 +1,75 @@
+import { Task } from '../types.js';
+import { User } from './authentication/user.js';
+import { ServerCallContext } from './context.js';
+
+/**
+ * Key of the task metadata under which the server records the name of the authenticated user
+ * who created the task. Namespaced, so that it does not clash with the metadata of agents, which
+ * cannot set it.
+ */
+export const TASK_OWNER_METADATA_KEY = 'a2a-js-sdk/owner';
+
+/**
+ * Returns the name of the user who created a task, if it was created by an authenticated user.
+ */
+export function getTaskOwner(task: Task): string | undefined {
+  const owner = task.metadata?.[TASK_OWNER_METADATA_KEY];
+  return typeof owner === 'string' ? owner : undefined;
+}
+
+/**
+ * Decides whether the user of a call may access a task. `DefaultRequestHandler` enforces it on
+ * every task-scoped operation, and answers "task not found" to unauthorized users so that they
+ * cannot tell whether the task exists.
+ */
+export type TaskAuthorizationPolicy = (
+  task: Task,
+  context?: ServerCallContext
+) => boolean | Promise<boolean>;
+
+const authenticatedUser = (context?: ServerCallContext): User | undefined =>
+  context?.user?.isAuthenticated ? context.user : undefined;
+
+/**
+ * TaskAuthorizationPolicy factory with common authorization patterns.
+ */
+export const TaskAuthorizationPolicy = {
+  /**
+   * Only the user who created a task may access it. Tasks created without authentication
+   * are accessible to everyone.
+   */
+  ownerOnly: (): TaskAuthorizationPolicy => (task, context) => {
+    const owner = getTaskOwner(task);
+    return owner === undefined || authenticatedUser(context)?.userName === owner;
+  },
+
+  /**
+   * The owner of a task, and the users the application lets into its context, may access it.
+   */
+  sharedContext: (
+    isContextMember: (user: User, contextId: string) => boolean | Promise<boolean>
+  ): TaskAuthorizationPolicy => {
+    const ownerOnly = TaskAuthorizationPolicy.ownerOnly();
+    return async (task, context) => {
+      if (await ownerOnly(task, context)) {
+        return true;
+      }
+      const user = authenticatedUser(context);
+      return user !== undefined && (await isContextMember(user, task.contextId));
+    };
+  },
+
+  /**
+   * Administrators may access all the tasks, other users as allowed by `policy`
+   * (owner only by default).
+   */
+  adminOverride:
+    (
+      isAdmin: (user: User) => boolean | Promise<boolean>,
+      policy: TaskAuthorizationPolicy = TaskAuthorizationPolicy.ownerOnly()
+    ): TaskAuthorizationPolicy =>
+    async (task, context) => {
+      const user = authenticatedUser(context);
+      return (user !== undefined && (await isAdmin(user))) || policy(task, context);
+    },
+};
@@ -0,0 +1,45 @@
+import { TaskState } from '../types.js';
+
+/**
+ * What the server does with agent execution events that break the task lifecycle,
+ * e.g. a status update moving a `completed` task back to `working`, an event for another
+ * task or context, or an artifact sent after the final event or to a task in a terminal state:
+ * - `reject`: drops the event and fails the task, unless it already reached a terminal state.
+ * - `drop`: logs and drops the event.
+ * - `allow`: applies the event anyway.
+ */
+export type TaskStateValidationPolicy = 'reject' | 'drop' | 'allow';
+
+const ACTIVE_TARGETS: TaskState[] = [
+  'working',
+  'input-required',
+  'auth-required',
+  'completed',
+  'failed',
+  'canceled',
+  'rejected',
+  'unknown',
+];
+
+/**
+ * States a task may move to from each state. Interrupted tasks may be resubmitted when the
+ * client answers, and terminal states are final.
+ */
+const ALLOWED_TRANSITIONS: Record<TaskState, TaskState[]> = {
+  submitted: ACTIVE_TARGETS,
+  working: ACTIVE_TARGETS,
+  'input-required': ['submitted', ...ACTIVE_TARGETS],
+  'auth-required': ['submitted', ...ACTIVE_TARGETS],
+  unknown: ['submitted', ...ACTIVE_TARGETS],
+  completed: [],
+  failed: [],
+  canceled: [],
+  rejected: [],
+};
+
+/**
+ * Whether a task may move from one state to another. Staying in the same state is always allowed.
+ */
+export function isValidTaskStateTransition(from: TaskState, to: TaskState): boolean {
+  return from === to || (ALLOWED_TRANSITIONS[from]?.includes(to) ?? true);
+}
@@ -0,0 +1,131 @@
+import { Task } from '../types.js';
+import {
+  Span,
+  SpanAttributes,
+  SpanKind,
+  Tracer,
+  endSpanWithStream,
+  recordSpanError,
+  withSpan,
+} from '../tracing.js';
+import { ServerCallContext } from './context.js';
+import { TaskStore, TaskStoreListQuery, TaskStoreListResult, VersionedTask } from './store.js';
+
+/**
+ * Runs a call within a server span, child of the trace context propagated by the client. The
+ * span becomes the trace context of the call, so that the spans of the agent execution and store
+ * operations it triggers are its children. Spans of calls returning a stream end with the stream.
+ * @internal
+ */
+export async function traceServerCall<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  context: ServerCallContext | undefined,
+  call: (span?: Span) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return call();
+  }
+  const span = tracer.startSpan(name, {
+    kind: SpanKind.SERVER,
+    parent: context?.traceContext,
+    attributes,
+  });
+  context?.setTraceContext(span.spanContext());
+  let result: T;
+  try {
+    result = await (tracer.withSpan ? tracer.withSpan(span, () => call(span)) : call(span));
+  } catch (error) {
+    recordSpanError(span, error);
+    span.end();
+    throw error;
+  }
+  if (isAsyncGenerator(result)) {
+    return endSpanWithStream(span, result) as T;
+  }
+  span.end();
+  return result;
+}
+
+function isAsyncGenerator(value: unknown): value is AsyncGenerator<unknown, void, undefined> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncGenerator)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * A {@link TaskStore} recording a span for each operation of the store it wraps, child of the
+ * trace context of the call.
+ */
+export class TracingTaskStore implements TaskStore {
+  readonly list?: (
+    query: TaskStoreListQuery,
+    context?: ServerCallContext
+  ) => Promise<TaskStoreListResult>;
+  readonly loadVersioned?: (
+    taskId: string,
+    context?: ServerCallContext
+  ) => Promise<VersionedTask | undefined>;
+  readonly saveVersioned?: (
+    task: Task,
+    expectedVersion: number,
+    context?: ServerCallContext
+  ) => Promise<number>;
+
+  constructor(
+    private readonly taskStore: TaskStore,
+    private readonly tracer: Tracer
+  ) {
+    // Only expose the optional operations the wrapped store supports.
+    const { list, loadVersioned, saveVersioned } = taskStore;
+    if (list) {
+      this.list = (query, context) =>
+        this.trace('list', {}, context, () => list.call(taskStore, query, context));
+    }
+    if (loadVersioned) {
+      this.loadVersioned = (taskId, context) =>
+        this.trace('loadVersioned', { 'a2a.task.id': taskId }, context, () =>
+          loadVersioned.call(taskStore, taskId, context)
+        );
+    }
+    if (saveVersioned) {
+      this.saveVersioned = (task, expectedVersion, context) =>
+        this.trace('saveVersioned', { 'a2a.task.id': task.id }, context, () =>
+          saveVersioned.call(taskStore, task, expectedVersion, context)
+        );
+    }
+  }
+
+  save(task: Task, context?: ServerCallContext): Promise<void> {
+    return this.trace('save', { 'a2a.task.id': task.id }, context, () =>
+      this.taskStore.save(task, context)
+    );
+  }
+
+  load(taskId: string, context?: ServerCallContext): Promise<Task | undefined> {
+    return this.trace('load', { 'a2a.task.id': taskId }, context, () =>
+      this.taskStore.load(taskId, context)
+    );
+  }
+
+  private trace<T>(
+    operation: string,
+    attributes: SpanAttributes,
+    context: ServerCallContext | undefined,
+    call: () => Promise<T>
+  ): Promise<T> {
+    return withSpan(
+      this.tracer,
+      `TaskStore.${operation}`,
+      {
+        kind: SpanKind.INTERNAL,
+        parent: context?.traceContext,
+        attributes: { 'a2a.task_store.operation': operation, ...attributes },
+      },
+      call
+    );
+  }
+}
@@ -8,7 +8,8 @@
 
 import { JSONRPCResponse, JSONRPCSuccessResponse } from '../../../types.js';
 import { User } from '../../authentication/user.js';
-import { ServerCallContext } from '../../context.js';
+import { ServerCallContext, parseTimeoutServiceParameter } from '../../context.js';
+import { parseTraceparent } from '../../../tracing.js';
 import { Extensions } from '../../../extensions.js';
 import { JsonRpcTransportHandler } from './jsonrpc_transport_handler.js';
 
@@ -25,6 +26,10 @@ export interface JsonRpcInput {
   body: unknown;
   /** Value of the extensions header (or null if not present) */
   extensionsHeader: string | null;
+  /** Value of the timeout header, from which the deadline of the request is derived */
+  timeoutHeader?: string | null;
+  /** Value of the `traceparent` header, propagating the trace of the client */
+  traceparentHeader?: string | null;
   /** Authenticated user */
   user: User;
 }
@@ -91,7 +96,9 @@ export async function processJsonRpc(
 ): Promise<JsonRpcResult> {
   const context = new ServerCallContext(
     Extensions.parseServiceParameter(input.extensionsHeader ?? undefined),
-    input.user
+    input.user,
+    parseTimeoutServiceParameter(input.timeoutHeader),
+    parseTraceparent(input.traceparentHeader)
   );
 
   const result = await transportHandler.handle(input.body, context);
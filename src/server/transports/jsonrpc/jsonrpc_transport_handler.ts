@@ -1,13 +1,16 @@
 import {
   JSONRPCErrorResponse,
   MessageSendParams,
-  TaskIdParams,
   A2ARequest,
   JSONRPCResponse,
 } from '../../../types.js';
+import { ListTasksRequest } from '../../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../../resubscribe.js';
 import { ServerCallContext } from '../../context.js';
 import { A2AError } from '../../error.js';
 import { A2ARequestHandler } from '../../request_handler/a2a_request_handler.js';
+import { traceServerCall } from '../../tracing.js';
+import { SpanStatusCode } from '../../../tracing.js';
 
 /**
  * Handles JSON-RPC transport layer, routing requests to A2ARequestHandler.
@@ -30,7 +33,7 @@ export class JsonRpcTransportHandler {
     requestBody: any,
     context?: ServerCallContext
   ): Promise<JSONRPCResponse | AsyncGenerator<JSONRPCResponse, void, undefined>> {
-    let rpcRequest: A2ARequest;
+    let rpcRequest: A2ARequest | ListTasksRequest;
 
     try {
       if (typeof requestBody === 'string') {
@@ -58,8 +61,47 @@ export class JsonRpcTransportHandler {
       } as JSONRPCErrorResponse;
     }
 
+    const { method } = rpcRequest;
+    return traceServerCall(
+      this.requestHandler.tracer,
+      method,
+      { 'rpc.system': 'jsonrpc', 'rpc.method': method },
+      context,
+      async (span) => {
+        const response = await this.handleRequest(rpcRequest, context);
+        if (span && 'error' in response) {
+          span.setAttribute('rpc.jsonrpc.error_code', response.error.code);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: response.error.message });
+        }
+        return response;
+      }
+    );
+  }
+
+  private async handleRequest(
+    rpcRequest: A2ARequest | ListTasksRequest,
+    context?: ServerCallContext
+  ): Promise<JSONRPCResponse | AsyncGenerator<JSONRPCResponse, void, undefined>> {
     const { method, id: requestId = null } = rpcRequest;
     try {
+      const extensionMethod = this.requestHandler.extensionMethods?.get(method);
+      if (extensionMethod) {
+        const result = await this.requestHandler.extensionMethods!.invoke(
+          extensionMethod,
+          (rpcRequest as { params?: unknown }).params,
+          context,
+          await this.requestHandler.getAgentCard()
+        );
+        if (extensionMethod.streaming) {
+          return this.toJsonRpcStream(
+            result as AsyncGenerator<unknown, void, undefined>,
+            method,
+            requestId
+          );
+        }
+        return { jsonrpc: '2.0', id: requestId, result } as JSONRPCResponse;
+      }
+
       if (
         method !== 'agent/getAuthenticatedExtendedCard' &&
         !this.paramsAreValid(rpcRequest.params)
@@ -76,37 +118,9 @@ export class JsonRpcTransportHandler {
         const agentEventStream =
           method === 'message/stream'
             ? this.requestHandler.sendMessageStream(params as MessageSendParams, context)
-            : this.requestHandler.resubscribe(params as TaskIdParams, context);
-
-        // Wrap the agent event stream into a JSON-RPC result stream
-        return (async function* jsonRpcEventStream(): AsyncGenerator<
-          JSONRPCResponse,
-          void,
-          undefined
-        > {
-          try {
-            for await (const event of agentEventStream) {
-              yield {
-                jsonrpc: '2.0',
-                id: requestId, // Use the original request ID for all streamed responses
-                result: event,
-              };
-            }
-          } catch (streamError) {
-            // If the underlying agent stream throws an error, we need to yield a JSONRPCErrorResponse.
-            // However, an AsyncGenerator is expected to yield JSONRPCResult.
-            // This indicates an issue with how errors from the agent's stream are propagated.
-            // For now, log it. The Express layer will handle the generator ending.
-            console.error(
-              `Error in agent event stream for ${method} (request ${requestId}):`,
-              streamError
-            );
-            // Ideally, the Express layer should catch this and send a final error to the client if the stream breaks.
-            // Or, the agentEventStream itself should yield a final error event that gets wrapped.
-            // For now, we re-throw so it can be caught by A2AExpressApp's stream handling.
-            throw streamError;
-          }
-        })();
+            : this.requestHandler.resubscribe(params as ResubscribeTaskParams, context);
+
+        return this.toJsonRpcStream(agentEventStream, method, requestId);
       } else {
         // Handle non-streaming methods
         let result: unknown;
@@ -120,6 +134,9 @@ export class JsonRpcTransportHandler {
           case 'tasks/cancel':
             result = await this.requestHandler.cancelTask(rpcRequest.params, context);
             break;
+          case 'tasks/list':
+            result = await this.requestHandler.listTasks(rpcRequest.params, context);
+            break;
           case 'tasks/pushNotificationConfig/set':
             result = await this.requestHandler.setTaskPushNotificationConfig(
               rpcRequest.params,
@@ -171,8 +188,38 @@ export class JsonRpcTransportHandler {
     }
   }
 
+  // Wraps an event stream into a JSON-RPC result stream
+  private async *toJsonRpcStream(
+    eventStream: AsyncGenerator<unknown, void, undefined>,
+    method: string,
+    requestId: string | number | null
+  ): AsyncGenerator<JSONRPCResponse, void, undefined> {
+    try {
+      for await (const event of eventStream) {
+        yield {
+          jsonrpc: '2.0',
+          id: requestId, // Use the original request ID for all streamed responses
+          result: event,
+        } as JSONRPCResponse;
+      }
+    } catch (streamError) {
+      // If the underlying agent stream throws an error, we need to yield a JSONRPCErrorResponse.
+      // However, an AsyncGenerator is expected to yield JSONRPCResult.
+      // This indicates an issue with how errors from the agent's stream are propagated.
+      // For now, log it. The Express layer will handle the generator ending.
+      console.error(
+        `Error in agent event stream for ${method} (request ${requestId}):`,
+        streamError
+      );
+      // Ideally, the Express layer should catch this and send a final error to the client if the stream breaks.
+      // Or, the agentEventStream itself should yield a final error event that gets wrapped.
+      // For now, we re-throw so it can be caught by A2AExpressApp's stream handling.
+      throw streamError;
+    }
+  }
+
   // Validates the basic structure of a JSON-RPC request
-  private isRequestValid(rpcRequest: A2ARequest): boolean {
+  private isRequestValid(rpcRequest: A2ARequest | ListTasksRequest): boolean {
     if (rpcRequest.jsonrpc !== '2.0') {
       return false;
     }
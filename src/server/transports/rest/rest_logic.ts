@@ -7,10 +7,11 @@
  */
 
 import { User } from '../../authentication/user.js';
-import { ServerCallContext } from '../../context.js';
+import { ServerCallContext, parseTimeoutServiceParameter } from '../../context.js';
+import { parseTraceparent } from '../../../tracing.js';
 import { Extensions } from '../../../extensions.js';
 import { RestTransportHandler, HTTP_STATUS } from './rest_transport_handler.js';
-import type { MessageSendParamsInput } from './rest_types.js';
+import type { ListTasksQueryInput, MessageSendParamsInput } from './rest_types.js';
 
 // =============================================================================
 // Types
@@ -23,6 +24,10 @@ import type { MessageSendParamsInput } from './rest_types.js';
 export interface RestInput {
   /** Value of the extensions header (or null if not present) */
   extensionsHeader: string | null;
+  /** Value of the timeout header, from which the deadline of the request is derived */
+  timeoutHeader?: string | null;
+  /** Value of the `traceparent` header, propagating the trace of the client */
+  traceparentHeader?: string | null;
   /** Authenticated user */
   user: User;
 }
@@ -64,7 +69,9 @@ export type RestResult = RestSingleResult | RestStreamResult;
 export function buildRestContext(input: RestInput): ServerCallContext {
   return new ServerCallContext(
     Extensions.parseServiceParameter(input.extensionsHeader ?? undefined),
-    input.user
+    input.user,
+    parseTimeoutServiceParameter(input.timeoutHeader),
+    parseTraceparent(input.traceparentHeader)
   );
 }
 
@@ -158,16 +165,47 @@ export async function sendMessageStream(
  * @param input - The REST input
  * @param taskId - The task ID
  * @param historyLength - Optional history length parameter
+ * @param stateTransitionHistoryLength - Optional state transition history length parameter
  * @returns REST result with task
  */
 export async function getTask(
   transportHandler: RestTransportHandler,
   input: RestInput,
   taskId: string,
-  historyLength?: string
+  historyLength?: string,
+  stateTransitionHistoryLength?: string
 ): Promise<RestSingleResult> {
   const context = buildRestContext(input);
-  const result = await transportHandler.getTask(taskId, context, historyLength);
+  const result = await transportHandler.getTask(
+    taskId,
+    context,
+    historyLength,
+    stateTransitionHistoryLength
+  );
+
+  return {
+    type: 'single',
+    statusCode: HTTP_STATUS.OK,
+    body: result,
+    extensionsToActivate: getActivatedExtensions(context),
+  };
+}
+
+/**
+ * Lists tasks matching the query filters.
+ *
+ * @param transportHandler - The REST transport handler
+ * @param input - The REST input
+ * @param query - The raw query parameters (filters and pagination)
+ * @returns REST result with a page of tasks
+ */
+export async function listTasks(
+  transportHandler: RestTransportHandler,
+  input: RestInput,
+  query: ListTasksQueryInput
+): Promise<RestSingleResult> {
+  const context = buildRestContext(input);
+  const result = await transportHandler.listTasks(query, context);
 
   return {
     type: 'single',
@@ -207,15 +245,17 @@ export async function cancelTask(
  * @param transportHandler - The REST transport handler
  * @param input - The REST input
  * @param taskId - The task ID
+ * @param lastEventId - Optional value of the Last-Event-ID header
  * @returns REST stream result
  */
 export async function resubscribe(
   transportHandler: RestTransportHandler,
   input: RestInput,
-  taskId: string
+  taskId: string,
+  lastEventId?: string
 ): Promise<RestStreamResult> {
   const context = buildRestContext(input);
-  const stream = await transportHandler.resubscribe(taskId, context);
+  const stream = await transportHandler.resubscribe(taskId, context, lastEventId);
 
   return {
     type: 'stream',
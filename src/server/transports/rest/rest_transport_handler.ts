@@ -8,6 +8,7 @@
 import { A2AError } from '../../error.js';
 import { A2ARequestHandler } from '../../request_handler/a2a_request_handler.js';
 import { ServerCallContext } from '../../context.js';
+import { traceServerCall } from '../../tracing.js';
 import {
   Message,
   Task,
@@ -15,13 +16,17 @@ import {
   TaskArtifactUpdateEvent,
   MessageSendParams,
   TaskPushNotificationConfig,
-  TaskQueryParams,
   TaskIdParams,
   Part,
   AgentCard,
   FileWithBytes,
   FileWithUri,
+  TaskState,
 } from '../../../types.js';
+import { ListTasksParams, ListTasksResult } from '../../../list_tasks.js';
+import { ResubscribeTaskParams } from '../../../resubscribe.js';
+import { GetTaskParams } from '../../../task_state_transitions.js';
+import { ExtensionRouteMatch } from '../../extensions/extension_method_registry.js';
 import {
   RestMessage,
   RestMessageSendParams,
@@ -31,6 +36,7 @@ import {
   MessageSendParamsInput,
   TaskPushNotificationConfigInput,
   FileInput,
+  ListTasksQueryInput,
 } from './rest_types.js';
 
 // ============================================================================
@@ -49,8 +55,10 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
   NOT_IMPLEMENTED: 501,
+  SERVICE_UNAVAILABLE: 503,
 } as const;
 
 /**
@@ -71,6 +79,10 @@ const A2A_ERROR_CODE = {
   PUSH_NOTIFICATION_NOT_SUPPORTED: -32003,
   UNSUPPORTED_OPERATION: -32004,
   UNAUTHORIZED: -32005,
+  TASK_BUSY: -32010,
+  TOO_MANY_REQUESTS: -32011,
+  SERVER_SHUTTING_DOWN: -32012,
+  UNAUTHENTICATED: -32013,
 } as const;
 
 /**
@@ -93,12 +105,18 @@ export function mapErrorToStatus(errorCode: number): RestHttpStatusCode {
     case A2A_ERROR_CODE.TASK_NOT_FOUND:
       return HTTP_STATUS.NOT_FOUND;
     case A2A_ERROR_CODE.TASK_NOT_CANCELABLE:
+    case A2A_ERROR_CODE.TASK_BUSY:
       return HTTP_STATUS.CONFLICT;
     case A2A_ERROR_CODE.PUSH_NOTIFICATION_NOT_SUPPORTED:
     case A2A_ERROR_CODE.UNSUPPORTED_OPERATION:
       return HTTP_STATUS.BAD_REQUEST;
     case A2A_ERROR_CODE.UNAUTHORIZED:
+    case A2A_ERROR_CODE.UNAUTHENTICATED:
       return HTTP_STATUS.UNAUTHORIZED;
+    case A2A_ERROR_CODE.TOO_MANY_REQUESTS:
+      return HTTP_STATUS.TOO_MANY_REQUESTS;
+    case A2A_ERROR_CODE.SERVER_SHUTTING_DOWN:
+      return HTTP_STATUS.SERVICE_UNAVAILABLE;
     default:
       return HTTP_STATUS.INTERNAL_SERVER_ERROR;
   }
@@ -134,6 +152,27 @@ export function toHTTPError(error: A2AError): {
   return errorObject;
 }
 
+/**
+ * Returns the HTTP headers to send with an A2AError, i.e. `Retry-After` for errors
+ * carrying a `retryAfterSeconds` hint (429 Too Many Requests), and `WWW-Authenticate`
+ * for errors carrying authentication `challenges` (401 Unauthorized).
+ *
+ * @param error - The A2AError to convert
+ * @returns Headers to add to the error response
+ */
+export function toHTTPErrorHeaders(error: A2AError): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const retryAfterSeconds = error.data?.retryAfterSeconds;
+  if (typeof retryAfterSeconds === 'number') {
+    headers['Retry-After'] = String(Math.ceil(retryAfterSeconds));
+  }
+  const challenges = error.data?.challenges;
+  if (Array.isArray(challenges) && challenges.length > 0) {
+    headers['WWW-Authenticate'] = challenges.join(', ');
+  }
+  return headers;
+}
+
 // ============================================================================
 // REST Transport Handler Class
 // ============================================================================
@@ -179,8 +218,10 @@ export class RestTransportHandler {
     params: MessageSendParamsInput,
     context: ServerCallContext
   ): Promise<Message | Task> {
-    const normalized = this.normalizeMessageParams(params);
-    return this.requestHandler.sendMessage(normalized, context);
+    return this.traceRoute('POST', '/v1/message:send', context, async () => {
+      const normalized = this.normalizeMessageParams(params);
+      return this.requestHandler.sendMessage(normalized, context);
+    });
   }
 
   /**
@@ -198,49 +239,82 @@ export class RestTransportHandler {
       undefined
     >
   > {
-    await this.requireCapability('streaming');
-    const normalized = this.normalizeMessageParams(params);
-    return this.requestHandler.sendMessageStream(normalized, context);
+    return this.traceRoute('POST', '/v1/message:stream', context, async () => {
+      await this.requireCapability('streaming');
+      const normalized = this.normalizeMessageParams(params);
+      return this.requestHandler.sendMessageStream(normalized, context);
+    });
   }
 
   /**
    * Gets a task by ID.
-   * Validates historyLength parameter if provided.
+   * Validates historyLength and stateTransitionHistoryLength parameters if provided.
    */
   async getTask(
     taskId: string,
     context: ServerCallContext,
-    historyLength?: unknown
+    historyLength?: unknown,
+    stateTransitionHistoryLength?: unknown
   ): Promise<Task> {
-    const params: TaskQueryParams = { id: taskId };
-    if (historyLength !== undefined) {
-      params.historyLength = this.parseHistoryLength(historyLength);
-    }
-    return this.requestHandler.getTask(params, context);
+    return this.traceRoute('GET', '/v1/tasks/:taskId', context, async () => {
+      const params: GetTaskParams = { id: taskId };
+      if (historyLength !== undefined) {
+        params.historyLength = this.parseHistoryLength(historyLength);
+      }
+      if (stateTransitionHistoryLength !== undefined) {
+        params.stateTransitionHistoryLength = this.parseNonNegativeInteger(
+          'stateTransitionHistoryLength',
+          stateTransitionHistoryLength
+        );
+      }
+      return this.requestHandler.getTask(params, context);
+    });
+  }
+
+  /**
+   * Lists tasks.
+   * Accepts both snake_case and camelCase query parameters.
+   */
+  async listTasks(
+    query: ListTasksQueryInput,
+    context: ServerCallContext
+  ): Promise<ListTasksResult> {
+    return this.traceRoute('GET', '/v1/tasks', context, async () => {
+      return this.requestHandler.listTasks(this.normalizeListTasksQuery(query), context);
+    });
   }
 
   /**
    * Cancels a task.
    */
   async cancelTask(taskId: string, context: ServerCallContext): Promise<Task> {
-    const params: TaskIdParams = { id: taskId };
-    return this.requestHandler.cancelTask(params, context);
+    return this.traceRoute('POST', '/v1/tasks/:taskId:cancel', context, async () => {
+      const params: TaskIdParams = { id: taskId };
+      return this.requestHandler.cancelTask(params, context);
+    });
   }
 
   /**
    * Resubscribes to task updates.
    * Returns camelCase stream of task updates.
+   * If `lastEventId` (the `Last-Event-ID` header) is given, missed events are replayed.
    * @throws {A2AError} UnsupportedOperation if streaming not supported
    */
   async resubscribe(
     taskId: string,
-    context: ServerCallContext
+    context: ServerCallContext,
+    lastEventId?: string
   ): Promise<
     AsyncGenerator<Task | TaskStatusUpdateEvent | TaskArtifactUpdateEvent, void, undefined>
   > {
-    await this.requireCapability('streaming');
-    const params: TaskIdParams = { id: taskId };
-    return this.requestHandler.resubscribe(params, context);
+    return this.traceRoute('POST', '/v1/tasks/:taskId:subscribe', context, async () => {
+      await this.requireCapability('streaming');
+      const params: ResubscribeTaskParams = { id: taskId };
+      if (lastEventId) {
+        params.lastEventId = lastEventId;
+      }
+      return this.requestHandler.resubscribe(params, context);
+    });
   }
 
   /**
@@ -252,9 +326,16 @@ export class RestTransportHandler {
     config: TaskPushNotificationConfigInput,
     context: ServerCallContext
   ): Promise<TaskPushNotificationConfig> {
-    await this.requireCapability('pushNotifications');
-    const normalized = this.normalizeTaskPushNotificationConfig(config);
-    return this.requestHandler.setTaskPushNotificationConfig(normalized, context);
+    return this.traceRoute(
+      'POST',
+      '/v1/tasks/:taskId/pushNotificationConfigs',
+      context,
+      async () => {
+        await this.requireCapability('pushNotifications');
+        const normalized = this.normalizeTaskPushNotificationConfig(config);
+        return this.requestHandler.setTaskPushNotificationConfig(normalized, context);
+      }
+    );
   }
 
   /**
@@ -264,7 +345,14 @@ export class RestTransportHandler {
     taskId: string,
     context: ServerCallContext
   ): Promise<TaskPushNotificationConfig[]> {
-    return this.requestHandler.listTaskPushNotificationConfigs({ id: taskId }, context);
+    return this.traceRoute(
+      'GET',
+      '/v1/tasks/:taskId/pushNotificationConfigs',
+      context,
+      async () => {
+        return this.requestHandler.listTaskPushNotificationConfigs({ id: taskId }, context);
+      }
+    );
   }
 
   /**
@@ -275,9 +363,16 @@ export class RestTransportHandler {
     configId: string,
     context: ServerCallContext
   ): Promise<TaskPushNotificationConfig> {
-    return this.requestHandler.getTaskPushNotificationConfig(
-      { id: taskId, pushNotificationConfigId: configId },
-      context
+    return this.traceRoute(
+      'GET',
+      '/v1/tasks/:taskId/pushNotificationConfigs/:configId',
+      context,
+      async () => {
+        return this.requestHandler.getTaskPushNotificationConfig(
+          { id: taskId, pushNotificationConfigId: configId },
+          context
+        );
+      }
     );
   }
 
@@ -289,9 +384,69 @@ export class RestTransportHandler {
     configId: string,
     context: ServerCallContext
   ): Promise<void> {
-    await this.requestHandler.deleteTaskPushNotificationConfig(
-      { id: taskId, pushNotificationConfigId: configId },
-      context
+    return this.traceRoute(
+      'DELETE',
+      '/v1/tasks/:taskId/pushNotificationConfigs/:configId',
+      context,
+      async () => {
+        await this.requestHandler.deleteTaskPushNotificationConfig(
+          { id: taskId, pushNotificationConfigId: configId },
+          context
+        );
+      }
+    );
+  }
+
+  /**
+   * Finds the extension method registered for a REST request, if any.
+   * @param httpMethod - HTTP method of the request
+   * @param path - Request path, relative to the REST base path
+   */
+  matchExtensionRoute(httpMethod: string, path: string): ExtensionRouteMatch | undefined {
+    return this.requestHandler.extensionMethods?.matchRestRoute(httpMethod, path);
+  }
+
+  /**
+   * Calls an extension method matched by {@link matchExtensionRoute}.
+   * Its params merge the query parameters, the JSON body and the path parameters.
+   * @returns The success status and the result, an AsyncGenerator for streaming methods.
+   */
+  async callExtensionMethod(
+    match: ExtensionRouteMatch,
+    query: Record<string, string>,
+    body: unknown,
+    context: ServerCallContext
+  ): Promise<{ statusCode: number; result: unknown }> {
+    const bodyParams =
+      typeof body === 'object' && body !== null && !Array.isArray(body) ? body : {};
+    const result = await this.requestHandler.extensionMethods!.invoke(
+      match.definition,
+      { ...query, ...bodyParams, ...match.pathParams },
+      context,
+      await this.requestHandler.getAgentCard()
+    );
+    const statusCode =
+      result === undefined
+        ? HTTP_STATUS.NO_CONTENT
+        : (match.definition.rest?.successStatus ?? HTTP_STATUS.OK);
+    return { statusCode, result };
+  }
+
+  /**
+   * Runs a call within a server span named after its route.
+   */
+  private traceRoute<T>(
+    httpMethod: string,
+    route: string,
+    context: ServerCallContext,
+    call: () => Promise<T>
+  ): Promise<T> {
+    return traceServerCall(
+      this.requestHandler.tracer,
+      `${httpMethod} ${route}`,
+      { 'http.request.method': httpMethod, 'http.route': route },
+      context,
+      call
     );
   }
 
@@ -346,19 +501,73 @@ export class RestTransportHandler {
    * Parses and validates historyLength query parameter.
    */
   private parseHistoryLength(value: unknown): number {
+    return this.parseNonNegativeInteger('historyLength', value);
+  }
+
+  /**
+   * Parses and validates a non-negative integer query parameter.
+   */
+  private parseNonNegativeInteger(name: string, value: unknown): number {
     if (value === undefined || value === null) {
-      throw A2AError.invalidParams('historyLength is required');
+      throw A2AError.invalidParams(`${name} is required`);
     }
     const parsed = parseInt(String(value), 10);
     if (isNaN(parsed)) {
-      throw A2AError.invalidParams('historyLength must be a valid integer');
+      throw A2AError.invalidParams(`${name} must be a valid integer`);
     }
     if (parsed < 0) {
-      throw A2AError.invalidParams('historyLength must be non-negative');
+      throw A2AError.invalidParams(`${name} must be non-negative`);
     }
     return parsed;
   }
 
+  /**
+   * Normalizes `GET /v1/tasks` query parameters - accepts both snake_case and camelCase.
+   * @throws {A2AError} InvalidParams if a numeric or date parameter is malformed
+   */
+  private normalizeListTasksQuery(query: ListTasksQueryInput): ListTasksParams {
+    const get = (...names: string[]): string | undefined => {
+      const value = names.map((name) => query[name]).find((v) => v !== undefined);
+      return value === undefined || value === null || value === '' ? undefined : String(value);
+    };
+    const params: ListTasksParams = {};
+    const contextId = get('contextId', 'context_id');
+    if (contextId !== undefined) {
+      params.contextId = contextId;
+    }
+    const status = get('status');
+    if (status !== undefined) {
+      params.status = status as TaskState;
+    }
+    const pageToken = get('pageToken', 'page_token');
+    if (pageToken !== undefined) {
+      params.pageToken = pageToken;
+    }
+
+    const pageSize = get('pageSize', 'page_size');
+    if (pageSize !== undefined) {
+      params.pageSize = Number(pageSize);
+      if (!Number.isInteger(params.pageSize)) {
+        throw A2AError.invalidParams('pageSize must be a valid integer');
+      }
+    }
+    const historyLength = get('historyLength', 'history_length');
+    if (historyLength !== undefined) {
+      params.historyLength = this.parseHistoryLength(historyLength);
+    }
+    const lastUpdatedAfter = get('lastUpdatedAfter', 'last_updated_after');
+    if (lastUpdatedAfter !== undefined) {
+      // Accept either epoch milliseconds or an ISO 8601 timestamp.
+      params.lastUpdatedAfter = /^\d+$/.test(lastUpdatedAfter)
+        ? Number(lastUpdatedAfter)
+        : Date.parse(lastUpdatedAfter);
+      if (isNaN(params.lastUpdatedAfter)) {
+        throw A2AError.invalidParams('lastUpdatedAfter must be a timestamp');
+      }
+    }
+    return params;
+  }
+
   /**
    * Normalizes Part input - accepts both snake_case and camelCase for file mimeType.
    */
@@ -118,3 +118,9 @@ export type MessageSendParamsInput = MessageSendParams | RestMessageSendParams;
 export type TaskPushNotificationConfigInput =
   | TaskPushNotificationConfig
   | RestTaskPushNotificationConfig;
+
+/**
+ * Raw query parameters of `GET /v1/tasks`.
+ * Keys may be camelCase (`pageSize`) or snake_case (`page_size`).
+ */
+export type ListTasksQueryInput = Record<string, unknown>;
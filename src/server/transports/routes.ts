@@ -27,8 +27,10 @@ export const HTTP_STATUS = {
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
   NOT_IMPLEMENTED: 501,
+  SERVICE_UNAVAILABLE: 503,
 } as const;
 
 /**
@@ -95,6 +97,13 @@ export const REST_ROUTES = [
     successStatus: HTTP_STATUS.OK,
     isStreaming: true,
   },
+  {
+    method: 'GET',
+    pattern: '/v1/tasks',
+    description: 'List tasks',
+    successStatus: HTTP_STATUS.OK,
+    isStreaming: false,
+  },
   {
     method: 'GET',
     pattern: '/v1/tasks/:taskId',
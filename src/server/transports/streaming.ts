@@ -13,10 +13,11 @@ import { A2AError } from '../error.js';
 import {
   mapErrorToStatus,
   toHTTPError,
+  toHTTPErrorHeaders,
   RestHttpStatusCode,
 } from './rest/rest_transport_handler.js';
 import { Logger, LogContext } from '../logging/logger.js';
-import { SSEEventData, sseEventToString } from '../../sse_utils.js';
+import { SSEEventData, getSSEEventId, sseEventToString } from '../../sse_utils.js';
 
 // Re-export SSEEventData for framework-specific streaming implementations
 export type { SSEEventData } from '../../sse_utils.js';
@@ -91,6 +92,8 @@ export interface StreamEarlyErrorResult {
   readonly statusCode: RestHttpStatusCode;
   /** Error body for the HTTP response */
   readonly errorBody: HTTPError;
+  /** Headers for the HTTP response (e.g., Retry-After) */
+  readonly errorHeaders: Record<string, string>;
 }
 
 /**
@@ -111,7 +114,7 @@ export interface ProcessStreamOptions {
   logger: Logger;
   /** Log context for error messages */
   logContext: LogContext;
-  /** Whether to include event IDs (default: true) */
+  /** Whether to include timestamp IDs for events without a resumable ID (default: true) */
   includeIds?: boolean;
   /** Callback called after first event succeeds, before streaming continues */
   onStreamStart?: () => void;
@@ -158,6 +161,7 @@ export async function processStream(
       error: a2aError,
       statusCode: mapErrorToStatus(a2aError.code),
       errorBody: toHTTPError(a2aError),
+      errorHeaders: toHTTPErrorHeaders(a2aError),
     };
   }
 
@@ -203,10 +207,12 @@ export async function processStream(
 
 /**
  * Creates an SSE data event.
+ * Events with a resumable ID (see `setSSEEventId`) always carry it;
+ * other events get a timestamp ID when `includeId` is true.
  */
 export function createSSEEvent(data: unknown, includeId: boolean = true): SSEEventData {
   return {
-    id: includeId ? String(Date.now()) : undefined,
+    id: getSSEEventId(data) ?? (includeId ? String(Date.now()) : undefined),
     data: JSON.stringify(data),
   };
 }
@@ -25,8 +25,14 @@ import type {
   MessageSendParamsInput,
   TaskPushNotificationConfigInput,
 } from '../transports/rest/rest_types.js';
-import { ServerCallContext } from '../context.js';
-import { HTTP_EXTENSION_HEADER } from '../../constants.js';
+import { ServerCallContext, parseTimeoutServiceParameter } from '../context.js';
+import { parseTraceparent } from '../../tracing.js';
+import {
+  HTTP_EXTENSION_HEADER,
+  HTTP_TIMEOUT_HEADER,
+  TRACEPARENT_HEADER,
+  LAST_EVENT_ID_HEADER,
+} from '../../constants.js';
 import { Extensions } from '../../extensions.js';
 import {
   WebRequest,
@@ -50,7 +56,11 @@ import {
   extractRequestId,
   JsonRpcInput,
 } from '../transports/jsonrpc/json_rpc_logic.js';
-import { fetchAgentCard } from '../request_handler/agent_card_utils.js';
+import {
+  computeAgentCardETag,
+  fetchAgentCard,
+  isNotModified,
+} from '../request_handler/agent_card_utils.js';
 import {
   formatJsonRpcError,
   formatParseError,
@@ -125,7 +135,9 @@ async function buildContext(
   const extensionsHeader = request.headers.get(HTTP_EXTENSION_HEADER);
   return new ServerCallContext(
     Extensions.parseServiceParameter(extensionsHeader ?? undefined),
-    user
+    user,
+    parseTimeoutServiceParameter(request.headers.get(HTTP_TIMEOUT_HEADER)),
+    parseTraceparent(request.headers.get(TRACEPARENT_HEADER))
   );
 }
 
@@ -177,6 +189,8 @@ export interface AgentCardHandlerOptions extends WebHandlerOptions {
  * Creates a web-standard handler for the agent card endpoint.
  *
  * Uses shared fetchAgentCard() logic from request_handler/agent_card_utils.ts.
+ * Responses carry an ETag, and conditional requests (`If-None-Match`) get a
+ * `304 Not Modified` while the agent card is unchanged.
  */
 export function createAgentCardHandler(
   requestHandler: A2ARequestHandler,
@@ -201,8 +215,13 @@ export function createAgentCardHandler(
     const result = await fetchAgentCard(provider);
 
     if (result.success === true) {
+      const etag = await computeAgentCardETag(result.agentCard);
+      if (isNotModified(request.headers.get('If-None-Match'), etag)) {
+        logger.debug('Agent card not modified', { ...logCtx, durationMs: Date.now() - startTime });
+        return new Response(null, { status: 304, headers: { ETag: etag } });
+      }
       logger.info('Agent card served', { ...logCtx, durationMs: Date.now() - startTime });
-      return jsonResponse(result.agentCard, 200);
+      return jsonResponse(result.agentCard, 200, { ETag: etag });
     }
 
     // Error case - result.success is false, so result has 'error' property
@@ -262,7 +281,7 @@ export function createJsonRpcHandler(
       if (body === null) {
         logger.warn('Invalid JSON payload', logCtx);
         const errorResult = formatParseError();
-        return jsonResponse(errorResult.body, errorResult.statusCode);
+        return jsonResponse(errorResult.body, errorResult.statusCode, errorResult.headers);
       }
 
       // Extract request ID using shared logic
@@ -277,6 +296,8 @@ export function createJsonRpcHandler(
       const input: JsonRpcInput = {
         body,
         extensionsHeader,
+        timeoutHeader: request.headers.get(HTTP_TIMEOUT_HEADER),
+        traceparentHeader: request.headers.get(TRACEPARENT_HEADER),
         user,
       };
 
@@ -333,7 +354,7 @@ export function createJsonRpcHandler(
 
       // Use shared formatJsonRpcError
       const errorResult = formatJsonRpcError(error, requestId);
-      return jsonResponse(errorResult.body, errorResult.statusCode);
+      return jsonResponse(errorResult.body, errorResult.statusCode, errorResult.headers);
     }
   };
 }
@@ -400,7 +421,10 @@ export function createRestHandlers(
   // Helper to handle errors using shared formatRestError
   const handleError = (error: unknown, context: ServerCallContext): WebResponse => {
     const errorResult = formatRestError(error);
-    return jsonResponse(errorResult.body, errorResult.statusCode, getExtensionsHeaders(context));
+    return jsonResponse(errorResult.body, errorResult.statusCode, {
+      ...getExtensionsHeaders(context),
+      ...errorResult.headers,
+    });
   };
 
   // Helper for streaming responses using shared SSE formatters and pluggable strategy
@@ -419,8 +443,7 @@ export function createRestHandlers(
         ...logCtx,
         error: errorToLogContext(error),
       });
-      const errorResult = formatRestError(error);
-      return respond(errorResult.statusCode, context, errorResult.body);
+      return handleError(error, context);
     }
 
     // Stream events using shared SSE formatters
@@ -481,14 +504,28 @@ export function createRestHandlers(
         return streamResponse(stream, context, { path: '/v1/message:stream' });
       },
     },
+    // GET /v1/tasks
+    {
+      method: 'GET',
+      pattern: '/v1/tasks',
+      handler: async (req, _params, context) => {
+        const query = Object.fromEntries(new URL(req.url).searchParams);
+        const result = await restTransportHandler.listTasks(query, context);
+        return respond(HTTP_STATUS.OK, context, result);
+      },
+    },
     // GET /v1/tasks/:taskId
     {
       method: 'GET',
       pattern: '/v1/tasks/:taskId',
       handler: async (req, params, context) => {
         const url = new URL(req.url);
-        const historyLength = url.searchParams.get('historyLength') ?? undefined;
-        const result = await restTransportHandler.getTask(params.taskId, context, historyLength);
+        const result = await restTransportHandler.getTask(
+          params.taskId,
+          context,
+          url.searchParams.get('historyLength') ?? undefined,
+          url.searchParams.get('stateTransitionHistoryLength') ?? undefined
+        );
         return respond(HTTP_STATUS.OK, context, result);
       },
     },
@@ -505,8 +542,12 @@ export function createRestHandlers(
     {
       method: 'POST',
       pattern: '/v1/tasks/:taskId:subscribe',
-      handler: async (_req, params, context, _log) => {
-        const stream = await restTransportHandler.resubscribe(params.taskId, context);
+      handler: async (req, params, context, _log) => {
+        const stream = await restTransportHandler.resubscribe(
+          params.taskId,
+          context,
+          req.headers.get(LAST_EVENT_ID_HEADER) ?? undefined
+        );
         return streamResponse(stream, context, {
           path: `/v1/tasks/${params.taskId}:subscribe`,
           taskId: params.taskId,
@@ -576,40 +617,70 @@ export function createRestHandlers(
     const method = request.method as 'GET' | 'POST' | 'DELETE';
     const startTime = Date.now();
 
+    let matched: { handler: RestRoute['handler']; params: Record<string, string> } | undefined;
     for (const route of routes) {
       if (route.method !== method) continue;
 
       const params = extractPathParams(route.pattern, pathname);
-      if (!params) continue;
-
-      const logCtx: LogContext = {
-        method,
-        path: pathname,
-        taskId: params.taskId,
-      };
-
-      try {
-        logger.debug('REST request received', logCtx);
-        const context = await buildContext(request, resolved);
-        const response = await route.handler(request, params, context, logger);
-        logger.info('REST request completed', {
-          ...logCtx,
-          statusCode: response.status,
-          durationMs: Date.now() - startTime,
-        });
-        return response;
-      } catch (error) {
-        logger.error('REST handler error', {
-          ...logCtx,
-          error: errorToLogContext(error),
-          durationMs: Date.now() - startTime,
-        });
-        const context = new ServerCallContext();
-        return handleError(error, context);
+      if (params) {
+        matched = { handler: route.handler, params };
+        break;
       }
     }
+    // Custom routes of extension methods registered in the request handler
+    const extensionRoute = matched
+      ? undefined
+      : restTransportHandler.matchExtensionRoute(method, pathname);
+    if (extensionRoute) {
+      matched = {
+        params: extensionRoute.pathParams,
+        handler: async (req, _params, context) => {
+          const query = Object.fromEntries(new URL(req.url).searchParams);
+          const body = method === 'GET' ? undefined : await parseJsonBody(req);
+          const { statusCode, result } = await restTransportHandler.callExtensionMethod(
+            extensionRoute,
+            query,
+            body,
+            context
+          );
+          if (extensionRoute.definition.streaming) {
+            return streamResponse(result as AsyncGenerator<unknown, void, undefined>, context, {
+              path: pathname,
+            });
+          }
+          return respond(statusCode, context, result);
+        },
+      };
+    }
+    if (!matched) {
+      return null; // No matching route
+    }
+
+    const logCtx: LogContext = {
+      method,
+      path: pathname,
+      taskId: matched.params.taskId,
+    };
 
-    return null; // No matching route
+    try {
+      logger.debug('REST request received', logCtx);
+      const context = await buildContext(request, resolved);
+      const response = await matched.handler(request, matched.params, context, logger);
+      logger.info('REST request completed', {
+        ...logCtx,
+        statusCode: response.status,
+        durationMs: Date.now() - startTime,
+      });
+      return response;
+    } catch (error) {
+      logger.error('REST handler error', {
+        ...logCtx,
+        error: errorToLogContext(error),
+        durationMs: Date.now() - startTime,
+      });
+      const context = new ServerCallContext();
+      return handleError(error, context);
+    }
   };
 
   return { routes, handleRequest };
@@ -7,6 +7,12 @@
 
 import { AgentCard } from '../../types.js';
 import { User, UnauthenticatedUser } from '../authentication/user.js';
+import {
+  RequestCredentials,
+  SecuritySchemeVerifier,
+  createRequestCredentials,
+  createSecuritySchemesUserBuilder,
+} from '../authentication/security_schemes.js';
 import { Logger, ConsoleLogger } from '../logging/logger.js';
 
 /**
@@ -57,8 +63,32 @@ export const UserBuilder = {
    * Use this when no authentication is required.
    */
   noAuthentication: (): UserBuilder => () => Promise.resolve(new UnauthenticatedUser()),
+
+  /**
+   * Authenticates requests with the security schemes declared in the agent card, and enforces
+   * the `security` requirements of the card. Requests that do not satisfy them are rejected with
+   * 401 and a `WWW-Authenticate` challenge. The requirements of skills narrow the skills the
+   * user may use.
+   *
+   * @param verifiers - A verifier for each scheme name of `agentCard.securitySchemes`.
+   */
+  securitySchemes: (
+    agentCard: AgentCard,
+    verifiers: Record<string, SecuritySchemeVerifier>
+  ): UserBuilder => createSecuritySchemesUserBuilder(agentCard, verifiers, webRequestCredentials),
 };
 
+/**
+ * Reads the credentials of a web-standard request.
+ */
+function webRequestCredentials(request: WebRequest): RequestCredentials {
+  const url = new URL(request.url);
+  return createRequestCredentials(
+    (name) => request.headers.get(name) ?? undefined,
+    (name) => url.searchParams.get(name) ?? undefined
+  );
+}
+
 // =============================================================================
 // Agent Card Provider
 // =============================================================================
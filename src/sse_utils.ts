@@ -18,13 +18,50 @@ export const SSE_HEADERS = {
   'X-Accel-Buffering': 'no', // Disable buffering in nginx
 } as const;
 
+// ============================================================================
+// SSE Event IDs
+// ============================================================================
+
+const sseEventIds = new WeakMap<object, string>();
+
+/**
+ * Associates a resumable SSE event ID with an event object.
+ * Formatting functions emit it as the `id:` field so that clients can resume
+ * the stream with `Last-Event-ID`.
+ *
+ * @param event - The event object (e.g. a TaskStatusUpdateEvent)
+ * @param id - The event ID
+ */
+export function setSSEEventId(event: object, id: string): void {
+  sseEventIds.set(event, id);
+}
+
+/**
+ * Returns the SSE event ID associated with an event, if any.
+ * JSON-RPC responses are looked up by their `result`.
+ *
+ * @param data - The event, or a JSON-RPC response wrapping it
+ * @returns The event ID, or undefined
+ */
+export function getSSEEventId(data: unknown): string | undefined {
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+  const result = (data as { result?: unknown }).result;
+  return (
+    sseEventIds.get(data) ??
+    (typeof result === 'object' && result !== null ? sseEventIds.get(result) : undefined)
+  );
+}
+
 // ============================================================================
 // SSE Event Formatting
 // ============================================================================
 
 /**
  * Formats a data event for Server-Sent Events (SSE) protocol.
- * Creates a standard SSE event with an ID and JSON-stringified data.
+ * Creates a standard SSE event with JSON-stringified data, preceded by the
+ * event ID registered with {@link setSSEEventId}, if any.
  *
  * @param event - The event data to send (will be JSON stringified)
  * @returns Formatted SSE event string following the SSE specification
@@ -33,13 +70,11 @@ export const SSE_HEADERS = {
  * ```ts
  * formatSSEEvent({ kind: 'message', text: 'Hello' })
  * // Returns: "data: {\"kind\":\"message\",\"text\":\"Hello\"}\n\n"
- *
- * formatSSEEvent({ result: 'success' }, 'custom-id')
- * // Returns: "data: {\"result\":\"success\"}\n\n"
  * ```
  */
 export function formatSSEEvent(event: unknown): string {
-  return `data: ${JSON.stringify(event)}\n\n`;
+  const id = getSSEEventId(event);
+  return `${id !== undefined ? `id: ${id}\n` : ''}data: ${JSON.stringify(event)}\n\n`;
 }
 
 /**
@@ -84,7 +119,8 @@ export interface SSEEventData {
  * Use this for frameworks like Hono that need structured event data.
  *
  * @param data - The data to include in the event
- * @param includeId - Whether to include a timestamp ID (default: true)
+ * @param includeId - Whether to include a timestamp ID when no event ID was
+ *   registered with {@link setSSEEventId} (default: true)
  * @returns Structured SSE event object
  */
 export function createSSEEventData(data: unknown, includeId: boolean = true): SSEEventData {
@@ -92,7 +128,10 @@ export function createSSEEventData(data: unknown, includeId: boolean = true): SS
     data: JSON.stringify(data),
   };
 
-  if (includeId) {
+  const id = getSSEEventId(data);
+  if (id !== undefined) {
+    event.id = id;
+  } else if (includeId) {
     event.id = String(Date.now());
   }
 
@@ -146,3 +185,79 @@ export function sseEventToString(event: SSEEventData): string {
 
   return result;
 }
+
+// =============================================================================
+// SSE Parsing
+// =============================================================================
+
+/**
+ * A single event parsed from a Server-Sent Events stream.
+ */
+export interface ParsedSSEEvent {
+  /** Event ID from the `id:` field, if any */
+  id?: string;
+  /** Event type from the `event:` field (defaults to 'message') */
+  event: string;
+  /** Concatenated `data:` lines, without the trailing newline */
+  data: string;
+}
+
+/**
+ * Parses a Server-Sent Events response body into individual events.
+ * Comment lines and `retry:` fields are ignored.
+ *
+ * @param body - The response body stream
+ * @returns Async generator yielding parsed events in order
+ */
+export async function* parseSSEStream(
+  body: NonNullable<Response['body']>
+): AsyncGenerator<ParsedSSEEvent, void, undefined> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let current: { id?: string; event?: string; data: string[] } = { data: [] };
+
+  const flush = (): ParsedSSEEvent | undefined => {
+    const { id, event, data } = current;
+    current = { data: [] };
+    if (data.length === 0) {
+      return undefined;
+    }
+    return { id, event: event ?? 'message', data: data.join('\n') };
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        const last = flush();
+        if (last) {
+          yield last;
+        }
+        return;
+      }
+
+      buffer += value;
+      let lineEndIndex;
+      while ((lineEndIndex = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.substring(0, lineEndIndex).replace(/\r$/, '');
+        buffer = buffer.substring(lineEndIndex + 1);
+
+        if (line === '') {
+          const event = flush();
+          if (event) {
+            yield event;
+          }
+        } else if (line.startsWith('data:')) {
+          // Only a single space after the colon is part of the field syntax.
+          current.data.push(line.startsWith('data: ') ? line.substring(6) : line.substring(5));
+        } else if (line.startsWith('event:')) {
+          current.event = line.substring(6).trim();
+        } else if (line.startsWith('id:')) {
+          current.id = line.substring(3).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,68 @@
+import { Task, TaskQueryParams, TaskState } from './types.js';
+
+/**
+ * Key of the task metadata under which agents advertising the `stateTransitionHistory`
+ * capability record the state transitions of the task. Namespaced, so that it does not clash
+ * with the metadata of agents.
+ */
+export const STATE_TRANSITION_HISTORY_METADATA_KEY = 'a2a-js-sdk/stateTransitionHistory';
+
+/**
+ * A transition of a task to a new state.
+ */
+export interface TaskStateTransition {
+  /**
+   * The state the task moved to.
+   */
+  state: TaskState;
+  /**
+   * ISO 8601 timestamp of the transition.
+   */
+  timestamp: string;
+  /**
+   * ID of the status message sent with the transition, if any.
+   */
+  messageId?: string;
+}
+
+/**
+ * Parameters for the `tasks/get` method (`GET /v1/tasks/{id}` in HTTP+JSON).
+ */
+export interface GetTaskParams extends TaskQueryParams {
+  /**
+   * The number of most recent state transitions to retrieve, when the agent supports the
+   * `stateTransitionHistory` capability. All transitions are returned if omitted.
+   */
+  stateTransitionHistoryLength?: number;
+}
+
+/**
+ * Returns the state transitions recorded on a task, oldest first.
+ */
+export function getTaskStateTransitions(task: Task): TaskStateTransition[] {
+  const transitions = task.metadata?.[STATE_TRANSITION_HISTORY_METADATA_KEY];
+  return Array.isArray(transitions) ? (transitions as TaskStateTransition[]) : [];
+}
+
+/**
+ * Records the current status of a task as a state transition, unless the task is already
+ * in that state.
+ * @internal
+ */
+export function recordTaskStateTransition(task: Task): void {
+  const transitions = getTaskStateTransitions(task);
+  if (transitions[transitions.length - 1]?.state === task.status.state) {
+    return;
+  }
+  const transition: TaskStateTransition = {
+    state: task.status.state,
+    timestamp: task.status.timestamp ?? new Date().toISOString(),
+  };
+  if (task.status.message) {
+    transition.messageId = task.status.message.messageId;
+  }
+  task.metadata = {
+    ...task.metadata,
+    [STATE_TRANSITION_HISTORY_METADATA_KEY]: [...transitions, transition],
+  };
+}
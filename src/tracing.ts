@@ -0,0 +1,146 @@
+/**
+ * A minimal tracing API, structurally compatible with OpenTelemetry, so that the library does
+ * not depend on `@opentelemetry/api`. OpenTelemetry spans implement {@link Span} as is; a
+ * {@link Tracer} wraps an OpenTelemetry tracer in a few lines (see the README).
+ */
+
+/** The kind of a span, with the values of OpenTelemetry's `SpanKind`. */
+export const SpanKind = {
+  INTERNAL: 0,
+  SERVER: 1,
+  CLIENT: 2,
+  PRODUCER: 3,
+  CONSUMER: 4,
+} as const;
+export type SpanKind = (typeof SpanKind)[keyof typeof SpanKind];
+
+/** The status of a span, with the values of OpenTelemetry's `SpanStatusCode`. */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+export type SpanStatusCode = (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Identifies a span within a trace, as propagated by the W3C `traceparent` header.
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters. */
+  traceId: string;
+  /** 16 lowercase hex characters. */
+  spanId: string;
+  /** Trace flags; bit 0 marks sampled traces. */
+  traceFlags: number;
+}
+
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: SpanStatusCode; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * The parent of the span, e.g. propagated by a remote caller. When absent, tracers may use
+   * their own notion of the current span.
+   */
+  parent?: SpanContext;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+
+  /**
+   * Runs `fn` with `span` as the current span of the tracer, so that spans started by code
+   * unaware of it (e.g. a client called by an agent executor) become its children.
+   */
+  withSpan?<T>(span: Span, fn: () => T): T;
+}
+
+/**
+ * Formats a span context as a W3C `traceparent` header value.
+ */
+export function formatTraceparent(spanContext: SpanContext): string {
+  const flags = (spanContext.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`;
+}
+
+/**
+ * Parses a W3C `traceparent` header value.
+ * @returns The span context, or undefined if the value is missing or invalid.
+ */
+export function parseTraceparent(value: string | null | undefined): SpanContext | undefined {
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/.exec(
+    value?.trim() ?? ''
+  );
+  if (!match) {
+    return undefined;
+  }
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid, and version 00 has no further fields; all-zero IDs are invalid.
+  if (
+    version === 'ff' ||
+    (version === '00' && rest !== undefined) ||
+    /^0+$/.test(traceId) ||
+    /^0+$/.test(spanId)
+  ) {
+    return undefined;
+  }
+  return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Runs `fn` within a span that ends when it settles, recording the error it throws.
+ * @internal
+ */
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = tracer.startSpan(name, options);
+  try {
+    return await (tracer.withSpan ? tracer.withSpan(span, () => fn(span)) : fn(span));
+  } catch (error) {
+    recordSpanError(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Yields the events of `stream`, ending `span` with the stream and recording the error it throws.
+ * @internal
+ */
+export async function* endSpanWithStream<T>(
+  span: Span,
+  stream: AsyncGenerator<T, void, undefined>
+): AsyncGenerator<T, void, undefined> {
+  try {
+    yield* stream;
+  } catch (error) {
+    recordSpanError(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Marks a span as failed with an error.
+ * @internal
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
@@ -19,26 +19,9 @@ import {
 
 /**
  * SUTAgentExecutor implements the agent's core logic.
+ * Canceled tasks are handled by the request handler, which aborts `requestContext.signal`.
  */
 class SUTAgentExecutor implements AgentExecutor {
-  private runningTask: Set<string> = new Set();
-  private lastContextId?: string;
-
-  public cancelTask = async (taskId: string, eventBus: ExecutionEventBus): Promise<void> => {
-    this.runningTask.delete(taskId);
-    const cancelledUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: this.lastContextId ?? uuidv4(),
-      status: {
-        state: 'canceled',
-        timestamp: new Date().toISOString(),
-      },
-      final: true, // Cancellation is a final state
-    };
-    eventBus.publish(cancelledUpdate);
-  };
-
   async execute(requestContext: RequestContext, eventBus: ExecutionEventBus): Promise<void> {
     const userMessage = requestContext.userMessage;
     const existingTask = requestContext.task;
@@ -47,9 +30,6 @@ class SUTAgentExecutor implements AgentExecutor {
     const taskId = requestContext.taskId;
     const contextId = requestContext.contextId;
 
-    this.lastContextId = contextId;
-    this.runningTask.add(taskId);
-
     console.log(
       `[SUTAgentExecutor] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId})`
     );
@@ -94,7 +74,7 @@ class SUTAgentExecutor implements AgentExecutor {
     // 3. Publish final task status update
     const agentReplyText = this.parseInputMessage(userMessage);
     await new Promise((resolve) => setTimeout(resolve, 3000)); // Simulate processing delay
-    if (!this.runningTask.has(taskId)) {
+    if (requestContext.signal.aborted) {
       console.log(
         `[SUTAgentExecutor] Task ${taskId} was cancelled before processing could complete.`
       );
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AgentCardSignatureAlgorithm,
+  canonicalizeAgentCard,
+  verifyAgentCardSignatures,
+} from '../src/agent_card_signature.js';
+import { signAgentCard } from '../src/server/agent_card_signer.js';
+import { AgentCard } from '../src/types.js';
+
+const agentCard: AgentCard = {
+  protocolVersion: '0.3.0',
+  name: 'Test Agent',
+  description: 'An agent for testing purposes',
+  url: 'https://agent.example.com/a2a',
+  version: '1.0.0',
+  capabilities: { streaming: true },
+  defaultInputModes: ['text/plain'],
+  defaultOutputModes: ['text/plain'],
+  skills: [],
+};
+
+const keyAlgorithms: [
+  AgentCardSignatureAlgorithm,
+  EcKeyGenParams | RsaHashedKeyGenParams | Algorithm,
+][] = [
+  ['ES256', { name: 'ECDSA', namedCurve: 'P-256' }],
+  [
+    'RS256',
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    } as RsaHashedKeyGenParams,
+  ],
+  ['EdDSA', { name: 'Ed25519' }],
+];
+
+const generateJwks = async (params: EcKeyGenParams | RsaHashedKeyGenParams | Algorithm) => {
+  const keyPair = (await crypto.subtle.generateKey(params, true, [
+    'sign',
+    'verify',
+  ])) as CryptoKeyPair;
+  return {
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+    publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+  };
+};
+
+describe('canonicalizeAgentCard', () => {
+  it('should sort keys, omit undefined members and exclude signatures', () => {
+    const card = {
+      ...agentCard,
+      capabilities: { streaming: true, pushNotifications: undefined },
+      skills: [{ id: 's', name: 'Skill', description: 'déjà 😀', tags: [] }],
+      signatures: [{ protected: 'p', signature: 's' }],
+    } as AgentCard;
+
+    expect(canonicalizeAgentCard(card)).to.equal(
+      '{"capabilities":{"streaming":true},"defaultInputModes":["text/plain"],' +
+        '"defaultOutputModes":["text/plain"],"description":"An agent for testing purposes",' +
+        '"name":"Test Agent","protocolVersion":"0.3.0",' +
+        '"skills":[{"description":"déjà 😀","id":"s","name":"Skill","tags":[]}],' +
+        '"url":"https://agent.example.com/a2a","version":"1.0.0"}'
+    );
+  });
+
+  it('should serialize numbers as in ECMAScript', () => {
+    const card = { ...agentCard, extra: { a: 1e21, b: 0.000001, c: -0, d: 10.5 } } as AgentCard;
+
+    expect(canonicalizeAgentCard(card)).to.include(
+      '"extra":{"a":1e+21,"b":0.000001,"c":0,"d":10.5}'
+    );
+  });
+});
+
+describe('signAgentCard and verifyAgentCardSignatures', () => {
+  it.each(keyAlgorithms)('should sign and verify cards with %s', async (alg, params) => {
+    const { privateKey, publicKey } = await generateJwks(params);
+
+    const signedCard = await signAgentCard(agentCard, { privateKey, alg, kid: 'key-1' });
+
+    expect(signedCard.signatures).to.have.length(1);
+    const header = JSON.parse(
+      Buffer.from(signedCard.signatures![0].protected, 'base64url').toString()
+    );
+    expect(header).to.deep.equal({ alg, typ: 'JOSE', kid: 'key-1' });
+    expect(await verifyAgentCardSignatures(signedCard, { keys: [{ ...publicKey, kid: 'key-1' }] }))
+      .to.be.true;
+  });
+
+  it('should reject modified cards and untrusted keys', async () => {
+    const trusted = await generateJwks(keyAlgorithms[0][1]);
+    const untrusted = await generateJwks(keyAlgorithms[0][1]);
+    const jwks = { keys: [trusted.publicKey] };
+
+    const signedCard = await signAgentCard(agentCard, {
+      privateKey: trusted.privateKey,
+      alg: 'ES256',
+    });
+    const signedByOther = await signAgentCard(agentCard, {
+      privateKey: untrusted.privateKey,
+      alg: 'ES256',
+    });
+
+    expect(await verifyAgentCardSignatures(signedCard, jwks)).to.be.true;
+    expect(await verifyAgentCardSignatures({ ...signedCard, name: 'Evil Agent' }, jwks)).to.be
+      .false;
+    expect(await verifyAgentCardSignatures(signedByOther, jwks)).to.be.false;
+    expect(await verifyAgentCardSignatures(agentCard, jwks)).to.be.false;
+  });
+
+  it('should keep existing signatures when adding keys', async () => {
+    const first = await generateJwks(keyAlgorithms[0][1]);
+    const second = await generateJwks(keyAlgorithms[2][1]);
+
+    const signedOnce = await signAgentCard(agentCard, {
+      privateKey: first.privateKey,
+      alg: 'ES256',
+    });
+    const signedTwice = await signAgentCard(signedOnce, {
+      privateKey: second.privateKey,
+      alg: 'EdDSA',
+    });
+
+    expect(signedTwice.signatures).to.have.length(2);
+    expect(await verifyAgentCardSignatures(signedTwice, { keys: [first.publicKey] })).to.be.true;
+    expect(await verifyAgentCardSignatures(signedTwice, { keys: [second.publicKey] })).to.be.true;
+  });
+});
@@ -1,7 +1,14 @@
-import { describe, it, beforeEach, expect } from 'vitest';
-import { DefaultAgentCardResolver } from '../../src/client/card-resolver.js';
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import {
+  AgentCardSignatureError,
+  CachingAgentCardResolver,
+  DefaultAgentCardResolver,
+} from '../../src/client/card-resolver.js';
+import { InMemoryAgentCardCache } from '../../src/client/agent-card-cache.js';
 import sinon from 'sinon';
 import { AgentCard } from '../../src/types.js';
+import { signAgentCard } from '../../src/server/agent_card_signer.js';
+import { AgentCardJsonWebKeySet } from '../../src/agent_card_signature.js';
 
 describe('DefaultAgentCardResolver', () => {
   let mockFetch: sinon.SinonStub;
@@ -133,4 +140,227 @@ describe('DefaultAgentCardResolver', () => {
       expect(e.message).to.include('Failed to fetch Agent Card from https://example.com');
     }
   });
+
+  describe('signature verification', () => {
+    let signedAgentCard: AgentCard;
+    let trustedKeys: AgentCardJsonWebKeySet;
+
+    beforeEach(async () => {
+      const keyPair = await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        true,
+        ['sign', 'verify']
+      );
+      signedAgentCard = await signAgentCard(testAgentCard, {
+        privateKey: keyPair.privateKey,
+        alg: 'ES256',
+        kid: 'key-1',
+      });
+      const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+      trustedKeys = { keys: [{ ...publicKey, kid: 'key-1' }] };
+    });
+
+    const resolveCard = (agentCard: AgentCard) => {
+      mockFetch.resolves(new Response(JSON.stringify(agentCard), { status: 200 }));
+      return new DefaultAgentCardResolver({ fetchImpl: mockFetch, trustedKeys }).resolve(
+        'https://example.com'
+      );
+    };
+
+    it('should accept cards signed by a trusted key', async () => {
+      expect(await resolveCard(signedAgentCard)).to.deep.equal(signedAgentCard);
+    });
+
+    it('should load trusted keys lazily', async () => {
+      const keys = trustedKeys;
+      trustedKeys = { keys: [] };
+      mockFetch.resolves(new Response(JSON.stringify(signedAgentCard), { status: 200 }));
+      const resolver = new DefaultAgentCardResolver({
+        fetchImpl: mockFetch,
+        trustedKeys: async () => keys,
+      });
+
+      expect(await resolver.resolve('https://example.com')).to.deep.equal(signedAgentCard);
+    });
+
+    const rejectedCards: [string, (card: AgentCard) => AgentCard][] = [
+      ['tampered', (card) => ({ ...card, url: 'https://attacker.example.com' })],
+      ['unsigned', ({ signatures: _signatures, ...card }) => card],
+      [
+        'signed with an unknown key',
+        (card) => ({
+          ...card,
+          signatures: card.signatures!.map((signature) => ({
+            ...signature,
+            protected: btoa(JSON.stringify({ alg: 'ES256', kid: 'key-2' })),
+          })),
+        }),
+      ],
+    ];
+
+    rejectedCards.forEach(([description, modify]) => {
+      it(`should reject ${description} cards`, async () => {
+        const error = await resolveCard(modify(signedAgentCard)).catch((e) => e);
+
+        expect(error).to.be.instanceOf(AgentCardSignatureError);
+      });
+    });
+  });
+});
+
+describe('CachingAgentCardResolver', () => {
+  let mockFetch: sinon.SinonStub;
+  let resolver: CachingAgentCardResolver;
+
+  const agentCard: AgentCard = {
+    protocolVersion: '0.3.0',
+    name: 'Test Agent',
+    description: 'An agent for testing purposes',
+    url: 'https://example.com/a2a',
+    version: '1.0.0',
+    capabilities: {},
+    defaultInputModes: ['text/plain'],
+    defaultOutputModes: ['text/plain'],
+    skills: [],
+  };
+
+  const cardResponse = (headers: Record<string, string>, card = agentCard) =>
+    new Response(JSON.stringify(card), { status: 200, headers });
+
+  const requestHeaders = (call: number) => mockFetch.getCall(call).args[1].headers;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    mockFetch = sinon.stub();
+    resolver = new CachingAgentCardResolver({ fetchImpl: mockFetch });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reuse agent cards while fresh according to Cache-Control', async () => {
+    mockFetch.resolves(cardResponse({ 'Cache-Control': 'public, max-age=60', Age: '10' }));
+
+    await resolver.resolve('https://example.com');
+    vi.advanceTimersByTime(49_000);
+    const cached = await resolver.resolve('https://example.com');
+    expect(mockFetch.callCount).to.equal(1);
+    expect(cached).to.deep.equal(agentCard);
+
+    mockFetch.resolves(cardResponse({ 'Cache-Control': 'max-age=60' }));
+    vi.advanceTimersByTime(1_000);
+    await resolver.resolve('https://example.com');
+    expect(mockFetch.callCount).to.equal(2);
+  });
+
+  it('should revalidate stale agent cards with their ETag and Last-Modified date', async () => {
+    const lastModified = 'Wed, 01 Oct 2025 00:00:00 GMT';
+    mockFetch
+      .onCall(0)
+      .resolves(
+        cardResponse({ ETag: '"v1"', 'Last-Modified': lastModified, 'Cache-Control': 'no-cache' })
+      );
+    mockFetch.onCall(1).resolves(new Response(null, { status: 304 }));
+    mockFetch
+      .onCall(2)
+      .resolves(cardResponse({ ETag: '"v2"' }, { ...agentCard, version: '2.0.0' }));
+
+    await resolver.resolve('https://example.com');
+    const revalidated = await resolver.resolve('https://example.com');
+    const updated = await resolver.resolve('https://example.com');
+
+    expect(requestHeaders(0)).to.deep.equal({});
+    expect(requestHeaders(1)).to.deep.equal({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': lastModified,
+    });
+    expect(revalidated).to.deep.equal(agentCard);
+    expect(updated.version).to.equal('2.0.0');
+    expect(requestHeaders(2)['If-None-Match']).to.equal('"v1"');
+  });
+
+  it('should not cache responses with Cache-Control: no-store', async () => {
+    mockFetch.callsFake(async () => cardResponse({ 'Cache-Control': 'no-store', ETag: '"v1"' }));
+
+    await resolver.resolve('https://example.com');
+    await resolver.resolve('https://example.com');
+
+    expect(mockFetch.callCount).to.equal(2);
+    expect(requestHeaders(1)).to.deep.equal({});
+  });
+
+  it('should share a pluggable cache between resolvers', async () => {
+    const cache = new InMemoryAgentCardCache();
+    mockFetch.resolves(cardResponse({ 'Cache-Control': 'max-age=300' }));
+
+    await new CachingAgentCardResolver({ fetchImpl: mockFetch, cache }).resolve(
+      'https://example.com'
+    );
+    await new CachingAgentCardResolver({ fetchImpl: mockFetch, cache }).resolve(
+      'https://example.com'
+    );
+
+    expect(mockFetch.callCount).to.equal(1);
+    expect(await cache.get('https://example.com/.well-known/agent-card.json')).to.include({
+      expiresAt: Date.now() + 300_000,
+    });
+  });
+
+  it('should verify cached agent cards against the trusted keys of the resolver', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ]);
+    const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    const trustedKeys = { keys: [{ ...publicKey, kid: 'key-1' }] };
+    const signedAgentCard = await signAgentCard(agentCard, {
+      privateKey: keyPair.privateKey,
+      alg: 'ES256',
+      kid: 'key-1',
+    });
+    const cache = new InMemoryAgentCardCache();
+    const key = 'https://example.com/.well-known/agent-card.json';
+    const verifying = new CachingAgentCardResolver({ fetchImpl: mockFetch, cache, trustedKeys });
+
+    await cache.set(key, { agentCard, expiresAt: Date.now() + 60_000 });
+    expect(await verifying.resolve('https://example.com').catch((e) => e)).to.be.instanceOf(
+      AgentCardSignatureError
+    );
+
+    await cache.set(key, { agentCard: signedAgentCard, etag: '"v1"', expiresAt: 0 });
+    mockFetch.resolves(new Response(null, { status: 304 }));
+    const revalidated = await verifying.resolve('https://example.com');
+    expect(revalidated).to.deep.equal(signedAgentCard);
+
+    revalidated.url = 'https://attacker.example.com';
+    await cache.set(key, { agentCard: revalidated, etag: '"v1"', expiresAt: 0 });
+    expect(await verifying.resolve('https://example.com').catch((e) => e)).to.be.instanceOf(
+      AgentCardSignatureError
+    );
+  });
+
+  it('should return copies of cached agent cards', async () => {
+    mockFetch.resolves(cardResponse({ 'Cache-Control': 'max-age=60' }));
+
+    const first = await resolver.resolve('https://example.com');
+    first.name = 'Modified';
+    const second = await resolver.resolve('https://example.com');
+    second.version = 'Modified';
+
+    expect(await resolver.resolve('https://example.com')).to.deep.equal(agentCard);
+  });
+
+  it('should evict the least recently used agent cards', async () => {
+    const cache = new InMemoryAgentCardCache({ maxEntries: 2 });
+    const entry = { agentCard, expiresAt: 0 };
+    await cache.set('a', entry);
+    await cache.set('b', entry);
+    await cache.get('a');
+    await cache.set('c', entry);
+
+    expect(await cache.get('a')).to.exist;
+    expect(await cache.get('b')).to.be.undefined;
+    expect(await cache.get('c')).to.exist;
+  });
 });
@@ -22,6 +22,7 @@ describe('ClientFactory', () => {
       listTaskPushNotificationConfig: sinon.stub(),
       deleteTaskPushNotificationConfig: sinon.stub(),
       getTask: sinon.stub(),
+      listTasks: sinon.stub(),
       cancelTask: sinon.stub(),
       resubscribeTask: sinon.stub(),
     };
@@ -15,8 +15,9 @@ import {
   AgentCard,
   GetTaskPushNotificationConfigParams,
 } from '../../src/types.js';
+import { ListTasksParams, ListTasksResult } from '../../src/list_tasks.js';
 import { A2AStreamEventData } from '../../src/client/client.js';
-import { ClientCallResult } from '../../src/client/interceptors.js';
+import { ClientCallResult, CompleteArgs } from '../../src/client/interceptors.js';
 
 describe('Client', () => {
   let transport: sinon.SinonStubbedInstance<Transport>;
@@ -33,6 +34,7 @@ describe('Client', () => {
       listTaskPushNotificationConfig: sinon.stub(),
       deleteTaskPushNotificationConfig: sinon.stub(),
       getTask: sinon.stub(),
+      listTasks: sinon.stub(),
       cancelTask: sinon.stub(),
       resubscribeTask: sinon.stub(),
     };
@@ -222,6 +224,19 @@ describe('Client', () => {
     expect(result).to.equal(task);
   });
 
+  it('should call transport.listTasks', async () => {
+    const params: ListTasksParams = { contextId: 'ctx1', pageSize: 5 };
+    const page: ListTasksResult = {
+      tasks: [{ id: '123', kind: 'task', contextId: 'ctx1', status: { state: 'working' } }],
+    };
+    transport.listTasks.resolves(page);
+
+    const result = await client.listTasks(params);
+
+    expect(transport.listTasks.calledOnceWith(params)).to.be.true;
+    expect(result).to.equal(page);
+  });
+
   it('should call transport.cancelTask', async () => {
     const params: TaskIdParams = { id: '123' };
     const task: Task = {
@@ -643,6 +658,61 @@ describe('Client', () => {
       expect(result).to.equal(task);
     });
 
+    it('should complete failed calls with their error', async () => {
+      const error = new Error('Network down');
+      const completed: CompleteArgs[] = [];
+      transport.getTask.rejects(error);
+      client = new Client(transport, agentCard, {
+        interceptors: [
+          {
+            before: async () => {},
+            after: async () => {},
+            onComplete: async (args) => void completed.push(args),
+          },
+        ],
+      });
+
+      await expect(client.getTask({ id: '123' })).rejects.toBe(error);
+
+      expect(completed).to.have.length(1);
+      expect(completed[0]).to.include({ method: 'getTask', error });
+    });
+
+    it('should complete streams abandoned by the caller', async () => {
+      const params: MessageSendParams = {
+        message: { kind: 'message', messageId: '1', role: 'user', parts: [] },
+      };
+      async function* stream(): AsyncGenerator<A2AStreamEventData> {
+        yield {
+          kind: 'status-update',
+          taskId: '123',
+          contextId: 'ctx1',
+          final: false,
+          status: { state: 'working' },
+        };
+        await new Promise(() => {});
+      }
+      transport.sendMessageStream.returns(stream());
+      const completed: CompleteArgs[] = [];
+      client = new Client(transport, agentCard, {
+        interceptors: [
+          {
+            before: async () => {},
+            after: async () => {},
+            onComplete: async (args) => void completed.push(args),
+          },
+        ],
+      });
+
+      const events = client.sendMessageStream(params);
+      await events.next();
+      await events.return();
+
+      expect(completed).to.have.length(1);
+      expect(completed[0].method).to.equal('sendMessageStream');
+      expect(completed[0].error).to.be.undefined;
+    });
+
     it('should intercept each iterator item', async () => {
       const params: MessageSendParams = {
         message: { kind: 'message', messageId: '1', role: 'user', parts: [] },
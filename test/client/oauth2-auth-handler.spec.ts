@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+import {
+  OAuth2AuthenticationHandler,
+  OAuth2TokenError,
+} from '../../src/client/oauth2-auth-handler.js';
+import { createAuthenticatingFetchWithRetry } from '../../src/client/auth-handler.js';
+import { AgentCard } from '../../src/types.js';
+
+const agentCard: AgentCard = {
+  protocolVersion: '0.3.0',
+  name: 'Test Agent',
+  description: 'An agent for testing purposes',
+  url: 'https://agent.example.com/a2a',
+  version: '1.0.0',
+  capabilities: {},
+  defaultInputModes: ['text/plain'],
+  defaultOutputModes: ['text/plain'],
+  skills: [],
+  securitySchemes: {
+    oauth: {
+      type: 'oauth2',
+      flows: {
+        clientCredentials: {
+          tokenUrl: 'https://auth.example.com/token',
+          refreshUrl: 'https://auth.example.com/refresh',
+          scopes: { 'tasks:write': 'Send messages' },
+        },
+      },
+    },
+  },
+  security: [{ oauth: ['tasks:write'] }],
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('OAuth2AuthenticationHandler', () => {
+  let clock: sinon.SinonFakeTimers;
+  let tokenRequests: URLSearchParams[];
+  let tokenFetch: sinon.SinonStub;
+  let issued: number;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    tokenRequests = [];
+    issued = 0;
+    tokenFetch = sinon.stub().callsFake(async (url: string, init: RequestInit) => {
+      const params = new URLSearchParams(init.body as string);
+      tokenRequests.push(params);
+      if (params.get('refresh_token') === 'revoked') {
+        return jsonResponse({ error: 'invalid_grant' }, 400);
+      }
+      issued++;
+      return jsonResponse({
+        access_token: `token-${issued}`,
+        token_type: 'Bearer',
+        expires_in: 300,
+        refresh_token: `refresh-${issued}`,
+      });
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('should obtain a token with client credentials and cache it until it expires', async () => {
+    const handler = new OAuth2AuthenticationHandler({
+      agentCard,
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetchImpl: tokenFetch,
+    });
+
+    expect(await handler.headers()).toEqual({ Authorization: 'Bearer token-1' });
+    expect(await handler.headers()).toEqual({ Authorization: 'Bearer token-1' });
+
+    const [url, init] = tokenFetch.firstCall.args;
+    expect(url).toBe('https://auth.example.com/token');
+    expect(init.headers.Authorization).toBe(`Basic ${btoa('client:secret')}`);
+    expect(tokenRequests[0].get('grant_type')).toBe('client_credentials');
+    expect(tokenRequests[0].get('scope')).toBe('tasks:write');
+
+    await clock.tickAsync(280_000);
+    expect(await handler.headers()).toEqual({ Authorization: 'Bearer token-2' });
+    expect(tokenFetch.secondCall.args[0]).toBe('https://auth.example.com/refresh');
+    expect(tokenRequests[1].get('grant_type')).toBe('refresh_token');
+    expect(tokenRequests[1].get('refresh_token')).toBe('refresh-1');
+  });
+
+  it('should renew the token and retry when the agent answers 401', async () => {
+    const handler = new OAuth2AuthenticationHandler({
+      agentCard,
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetchImpl: tokenFetch,
+    });
+    const agentFetch = sinon
+      .stub()
+      .onFirstCall()
+      .resolves(new Response(null, { status: 401 }))
+      .onSecondCall()
+      .resolves(jsonResponse({ ok: true }));
+    const authFetch = createAuthenticatingFetchWithRetry(agentFetch, handler);
+
+    const response = await authFetch('https://agent.example.com/a2a', { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect(agentFetch.firstCall.args[1].headers.Authorization).toBe('Bearer token-1');
+    expect(agentFetch.secondCall.args[1].headers.Authorization).toBe('Bearer token-2');
+  });
+
+  it('should fall back to client credentials when the refresh token is rejected', async () => {
+    const handler = new OAuth2AuthenticationHandler({
+      agentCard,
+      clientId: 'client',
+      clientSecret: 'secret',
+      refreshToken: 'revoked',
+      clientAuthentication: 'client_secret_post',
+      fetchImpl: tokenFetch,
+    });
+
+    expect(await handler.headers()).toEqual({ Authorization: 'Bearer token-1' });
+    expect(tokenRequests.map((params) => params.get('grant_type'))).toEqual([
+      'refresh_token',
+      'client_credentials',
+    ]);
+    expect(tokenRequests[1].get('client_secret')).toBe('secret');
+  });
+
+  it('should report token endpoint errors', async () => {
+    const handler = new OAuth2AuthenticationHandler({
+      agentCard,
+      clientId: 'client',
+      refreshToken: 'revoked',
+      fetchImpl: tokenFetch,
+    });
+
+    const error = await handler.headers().catch((e) => e);
+
+    expect(error).toBeInstanceOf(OAuth2TokenError);
+    expect(error.error).toBe('invalid_grant');
+  });
+
+  it('should discover the token endpoint of an OpenID Connect scheme', async () => {
+    const discovery = sinon.stub().callsFake(async (url: string, init: RequestInit) => {
+      if (url === 'https://auth.example.com/.well-known/openid-configuration') {
+        return jsonResponse({ token_endpoint: 'https://auth.example.com/oidc/token' });
+      }
+      return tokenFetch(url, init);
+    });
+    const handler = new OAuth2AuthenticationHandler({
+      agentCard: {
+        ...agentCard,
+        securitySchemes: {
+          oidc: {
+            type: 'openIdConnect',
+            openIdConnectUrl: 'https://auth.example.com/.well-known/openid-configuration',
+          },
+        },
+        security: [],
+      },
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetchImpl: discovery,
+    });
+
+    expect(await handler.headers()).toEqual({ Authorization: 'Bearer token-1' });
+    expect(tokenFetch.firstCall.args[0]).toBe('https://auth.example.com/oidc/token');
+    expect(tokenRequests[0].has('scope')).toBe(false);
+  });
+
+  it('should fail when the OpenID Connect configuration declares no token endpoint', async () => {
+    const handler = new OAuth2AuthenticationHandler({
+      agentCard: {
+        ...agentCard,
+        securitySchemes: {
+          oidc: {
+            type: 'openIdConnect',
+            openIdConnectUrl: 'https://auth.example.com/.well-known/openid-configuration',
+          },
+        },
+        security: [],
+      },
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetchImpl: async () => jsonResponse({ issuer: 'https://auth.example.com' }),
+    });
+
+    await expect(handler.headers()).rejects.toThrow('declares no token_endpoint');
+  });
+
+  it('should only send credentials to https token endpoints', async () => {
+    const httpCard: AgentCard = {
+      ...agentCard,
+      securitySchemes: {
+        oauth: {
+          type: 'oauth2',
+          flows: { clientCredentials: { tokenUrl: 'http://auth.example.com/token', scopes: {} } },
+        },
+      },
+    };
+    const options = { agentCard: httpCard, clientId: 'client', clientSecret: 'secret' };
+
+    await expect(
+      new OAuth2AuthenticationHandler({ ...options, fetchImpl: tokenFetch }).headers()
+    ).rejects.toThrow('must use https');
+    expect(tokenFetch.called).toBe(false);
+
+    const handler = new OAuth2AuthenticationHandler({
+      ...options,
+      allowHttp: true,
+      fetchImpl: tokenFetch,
+    });
+    expect(await handler.headers()).toEqual({ Authorization: 'Bearer token-1' });
+  });
+
+  it('should only send credentials to allowed token endpoints', async () => {
+    const options = {
+      agentCard,
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetchImpl: tokenFetch,
+    };
+
+    await expect(
+      new OAuth2AuthenticationHandler({
+        ...options,
+        allowedTokenUrls: ['https://auth.example.com/token'],
+      }).headers()
+    ).rejects.toThrow('not allowed: https://auth.example.com/refresh');
+    expect(tokenFetch.called).toBe(false);
+
+    const handler = new OAuth2AuthenticationHandler({
+      ...options,
+      allowedTokenUrls: ['https://auth.example.com/token', 'https://auth.example.com/refresh'],
+    });
+    expect(await handler.headers()).toEqual({ Authorization: 'Bearer token-1' });
+  });
+
+  it('should require an OAuth2 or OpenID Connect scheme', () => {
+    expect(
+      () =>
+        new OAuth2AuthenticationHandler({
+          agentCard: { ...agentCard, securitySchemes: {} },
+          clientId: 'client',
+        })
+    ).toThrow('declares no OAuth2 or OpenID Connect security scheme');
+  });
+});
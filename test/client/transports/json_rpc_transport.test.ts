@@ -1,8 +1,9 @@
 import { JsonRpcTransport } from '../../../src/client/transports/json_rpc_transport.js';
 import sinon from 'sinon';
 import { describe, it, beforeEach, expect } from 'vitest';
-import { MessageSendParams, TextPart } from '../../../src/types.js';
+import { MessageSendParams, TaskStatusUpdateEvent, TextPart } from '../../../src/types.js';
 import { RequestOptions } from '../../../src/client/multitransport-client.js';
+import { A2AStreamEventData } from '../../../src/client/client.js';
 import { HTTP_EXTENSION_HEADER } from '../../../src/constants.js';
 import { ServiceParameters, withA2AExtensions } from '../../../src/client/service-parameters.js';
 
@@ -52,4 +53,116 @@ describe('JsonRpcTransport', () => {
       expect((headers as any)[HTTP_EXTENSION_HEADER]).to.deep.equal(expectedExtensions);
     });
   });
+
+  describe('sendMessageStream', () => {
+    const messageParams: MessageSendParams = {
+      message: {
+        kind: 'message',
+        messageId: 'test-msg-1',
+        role: 'user',
+        parts: [{ kind: 'text', text: 'Hello, agent!' }],
+      },
+    };
+
+    const statusUpdate = (
+      state: 'working' | 'completed',
+      final: boolean
+    ): TaskStatusUpdateEvent => ({
+      kind: 'status-update',
+      taskId: 'task-1',
+      contextId: 'ctx-1',
+      status: { state },
+      final,
+    });
+
+    const sseResponse = (events: { id: string; result: unknown }[], requestId = 1) =>
+      new Response(
+        events
+          .map(
+            (e) =>
+              `id: ${e.id}\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: requestId, result: e.result })}\n\n`
+          )
+          .join(''),
+        { status: 200, headers: { 'Content-Type': 'text/event-stream' } }
+      );
+
+    it('should resubscribe from the last event ID when the stream ends before the final event', async () => {
+      transport = new JsonRpcTransport({
+        endpoint,
+        fetchImpl: mockFetch,
+        streamReconnect: { maxAttempts: 3, delayMs: 0 },
+      });
+      mockFetch
+        .onFirstCall()
+        .resolves(sseResponse([{ id: '1', result: statusUpdate('working', false) }]));
+      mockFetch
+        .onSecondCall()
+        .resolves(sseResponse([{ id: '2', result: statusUpdate('completed', true) }], 2));
+
+      const events: A2AStreamEventData[] = [];
+      for await (const event of transport.sendMessageStream(messageParams)) {
+        events.push(event);
+      }
+
+      expect(events).to.deep.equal([
+        statusUpdate('working', false),
+        statusUpdate('completed', true),
+      ]);
+      const resubscribeBody = JSON.parse(mockFetch.secondCall.args[1].body as string);
+      expect(resubscribeBody.method).to.equal('tasks/resubscribe');
+      expect(resubscribeBody.params).to.deep.equal({ id: 'task-1', lastEventId: '1' });
+    });
+
+    it('should not reconnect by default', async () => {
+      mockFetch.resolves(sseResponse([{ id: '1', result: statusUpdate('working', false) }]));
+
+      const events: A2AStreamEventData[] = [];
+      for await (const event of transport.sendMessageStream(messageParams)) {
+        events.push(event);
+      }
+
+      expect(events).to.deep.equal([statusUpdate('working', false)]);
+      expect(mockFetch.callCount).to.equal(1);
+    });
+
+    it('should not reconnect when disabled', async () => {
+      transport = new JsonRpcTransport({
+        endpoint,
+        fetchImpl: mockFetch,
+        streamReconnect: { maxAttempts: 0 },
+      });
+      mockFetch.resolves(sseResponse([{ id: '1', result: statusUpdate('working', false) }]));
+
+      const events: A2AStreamEventData[] = [];
+      for await (const event of transport.sendMessageStream(messageParams)) {
+        events.push(event);
+      }
+
+      expect(events).to.deep.equal([statusUpdate('working', false)]);
+      expect(mockFetch.callCount).to.equal(1);
+    });
+
+    it('should rethrow the connection error once attempts are exhausted', async () => {
+      transport = new JsonRpcTransport({
+        endpoint,
+        fetchImpl: mockFetch,
+        streamReconnect: { maxAttempts: 2, delayMs: 0 },
+      });
+      mockFetch
+        .onFirstCall()
+        .resolves(sseResponse([{ id: '1', result: statusUpdate('working', false) }]));
+      mockFetch.rejects(new Error('connection refused'));
+
+      const events: A2AStreamEventData[] = [];
+      await expect(
+        (async () => {
+          for await (const event of transport.sendMessageStream(messageParams)) {
+            events.push(event);
+          }
+        })()
+      ).rejects.toThrow('connection refused');
+      expect(events).to.have.length(1);
+      expect(mockFetch.callCount).to.equal(3);
+    });
+  });
 });
@@ -0,0 +1,326 @@
+import sinon from 'sinon';
+import { describe, it, beforeEach, expect } from 'vitest';
+import {
+  RestTransport,
+  RestTransportError,
+  RestTransportFactory,
+} from '../../../src/client/transports/rest_transport.js';
+import { ClientFactory } from '../../../src/client/factory.js';
+import { TaskNotFoundError, TaskNotCancelableError } from '../../../src/errors.js';
+import { AgentCard, MessageSendParams, Task } from '../../../src/types.js';
+import { RequestOptions } from '../../../src/client/multitransport-client.js';
+import { HTTP_EXTENSION_HEADER } from '../../../src/constants.js';
+import { ServiceParameters, withA2AExtensions } from '../../../src/client/service-parameters.js';
+
+describe('RestTransport', () => {
+  let transport: RestTransport;
+  let mockFetch: sinon.SinonStubbedFunction<typeof fetch>;
+  const endpoint = 'https://test.endpoint/api/rest/';
+
+  const messageParams: MessageSendParams = {
+    message: {
+      kind: 'message',
+      messageId: 'test-msg-1',
+      role: 'user',
+      parts: [{ kind: 'text', text: 'Hello, agent!' }],
+    },
+  };
+
+  const task: Task = {
+    kind: 'task',
+    id: 'task-1',
+    contextId: 'ctx-1',
+    status: { state: 'completed' },
+  };
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const sseResponse = (chunks: string[]) =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          const encoder = new TextEncoder();
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+          controller.close();
+        },
+      }),
+      { status: 200, headers: { 'Content-Type': 'text/event-stream' } }
+    );
+
+  beforeEach(() => {
+    mockFetch = sinon.stub();
+    transport = new RestTransport({ endpoint, fetchImpl: mockFetch });
+  });
+
+  describe('sendMessage', () => {
+    it('should POST to /v1/message:send with service parameters as headers', async () => {
+      const expectedExtensions = 'extension1,extension2';
+      const options: RequestOptions = {
+        serviceParameters: ServiceParameters.create(withA2AExtensions(expectedExtensions)),
+      };
+      mockFetch.resolves(jsonResponse(task, 201));
+
+      const result = await transport.sendMessage(messageParams, options);
+
+      expect(result).to.deep.equal(task);
+      const [url, init] = mockFetch.firstCall.args;
+      expect(url).to.equal('https://test.endpoint/api/rest/v1/message:send');
+      expect(init.method).to.equal('POST');
+      expect(JSON.parse(init.body as string)).to.deep.equal(messageParams);
+      expect((init.headers as Record<string, string>)[HTTP_EXTENSION_HEADER]).to.equal(
+        expectedExtensions
+      );
+    });
+
+    it('should map error bodies to domain errors', async () => {
+      mockFetch.resolves(jsonResponse({ code: -32001, message: 'Task not found: abc' }, 404));
+
+      await expect(transport.sendMessage(messageParams)).rejects.toBeInstanceOf(TaskNotFoundError);
+    });
+
+    it('should throw RestTransportError for unknown error codes', async () => {
+      mockFetch.resolves(jsonResponse({ code: -32603, message: 'Boom' }, 500));
+
+      const error = await transport.sendMessage(messageParams).catch((e) => e);
+
+      expect(error).to.be.instanceOf(RestTransportError);
+      expect(error.status).to.equal(500);
+      expect(error.errorBody).to.deep.equal({ code: -32603, message: 'Boom' });
+    });
+
+    it('should throw a generic error for non-JSON error bodies', async () => {
+      mockFetch.resolves(new Response('Bad gateway', { status: 502 }));
+
+      await expect(transport.sendMessage(messageParams)).rejects.toThrow(/Status: 502/);
+    });
+  });
+
+  describe('sendMessageStream', () => {
+    it('should yield parsed SSE events', async () => {
+      const statusUpdate = {
+        kind: 'status-update',
+        taskId: 'task-1',
+        contextId: 'ctx-1',
+        status: { state: 'completed' },
+        final: true,
+      };
+      mockFetch.resolves(
+        sseResponse([
+          `id: 1\ndata: ${JSON.stringify(task)}\n\n`,
+          `data: ${JSON.stringify(statusUpdate).slice(0, 10)}`,
+          `${JSON.stringify(statusUpdate).slice(10)}\n\n`,
+        ])
+      );
+
+      const events = [];
+      for await (const event of transport.sendMessageStream(messageParams)) {
+        events.push(event);
+      }
+
+      expect(events).to.deep.equal([task, statusUpdate]);
+      const [url, init] = mockFetch.firstCall.args;
+      expect(url).to.equal('https://test.endpoint/api/rest/v1/message:stream');
+      expect((init.headers as Record<string, string>)['Accept']).to.equal('text/event-stream');
+    });
+
+    it('should throw on SSE error events', async () => {
+      mockFetch.resolves(
+        sseResponse([
+          `data: ${JSON.stringify(task)}\n\n`,
+          `event: error\ndata: ${JSON.stringify({ code: -32001, message: 'Task not found' })}\n\n`,
+        ])
+      );
+
+      const events: unknown[] = [];
+      const consume = async () => {
+        for await (const event of transport.sendMessageStream(messageParams)) {
+          events.push(event);
+        }
+      };
+
+      await expect(consume()).rejects.toBeInstanceOf(TaskNotFoundError);
+      expect(events).to.have.lengthOf(1);
+    });
+  });
+
+  describe('task operations', () => {
+    it('should GET task with historyLength query', async () => {
+      mockFetch.resolves(jsonResponse(task));
+
+      await transport.getTask({ id: 'task 1', historyLength: 2 });
+
+      const [url, init] = mockFetch.firstCall.args;
+      expect(url).to.equal('https://test.endpoint/api/rest/v1/tasks/task%201?historyLength=2');
+      expect(init.method).to.equal('GET');
+      expect(init.body).to.be.undefined;
+    });
+
+    it('should GET /v1/tasks with filters as query parameters', async () => {
+      const page = { tasks: [task], nextPageToken: 'next' };
+      mockFetch.resolves(jsonResponse(page));
+
+      const result = await transport.listTasks({
+        contextId: 'ctx 1',
+        status: 'working',
+        pageSize: 10,
+        pageToken: 'abc',
+      });
+
+      expect(result).to.deep.equal(page);
+      const [url, init] = mockFetch.firstCall.args;
+      expect(url).to.equal(
+        'https://test.endpoint/api/rest/v1/tasks?contextId=ctx+1&status=working&pageSize=10&pageToken=abc'
+      );
+      expect(init.method).to.equal('GET');
+    });
+
+    it('should GET /v1/tasks without query when no params are given', async () => {
+      mockFetch.resolves(jsonResponse({ tasks: [] }));
+
+      await transport.listTasks({});
+
+      expect(mockFetch.firstCall.args[0]).to.equal('https://test.endpoint/api/rest/v1/tasks');
+    });
+
+    it('should POST to :cancel', async () => {
+      mockFetch.resolves(jsonResponse(task, 202));
+
+      await transport.cancelTask({ id: 'task-1' });
+
+      expect(mockFetch.firstCall.args[0]).to.equal(
+        'https://test.endpoint/api/rest/v1/tasks/task-1:cancel'
+      );
+    });
+
+    it('should map TaskNotCancelable errors', async () => {
+      mockFetch.resolves(jsonResponse({ code: -32002, message: 'Task not cancelable' }, 409));
+
+      await expect(transport.cancelTask({ id: 'task-1' })).rejects.toBeInstanceOf(
+        TaskNotCancelableError
+      );
+    });
+
+    it('should POST to :subscribe for resubscribe', async () => {
+      mockFetch.resolves(sseResponse([`data: ${JSON.stringify(task)}\n\n`]));
+
+      const events = [];
+      for await (const event of transport.resubscribeTask({ id: 'task-1' })) {
+        events.push(event);
+      }
+
+      expect(events).to.deep.equal([task]);
+      expect(mockFetch.firstCall.args[0]).to.equal(
+        'https://test.endpoint/api/rest/v1/tasks/task-1:subscribe'
+      );
+    });
+  });
+
+  describe('push notification configs', () => {
+    const config = {
+      taskId: 'task-1',
+      pushNotificationConfig: { id: 'cfg-1', url: 'https://example.com/webhook' },
+    };
+
+    it('should create config', async () => {
+      mockFetch.resolves(jsonResponse(config, 201));
+
+      const result = await transport.setTaskPushNotificationConfig(config);
+
+      expect(result).to.deep.equal(config);
+      const [url, init] = mockFetch.firstCall.args;
+      expect(url).to.equal(
+        'https://test.endpoint/api/rest/v1/tasks/task-1/pushNotificationConfigs'
+      );
+      expect(init.method).to.equal('POST');
+    });
+
+    it('should get config, defaulting config id to task id', async () => {
+      mockFetch.resolves(jsonResponse(config));
+
+      await transport.getTaskPushNotificationConfig({ id: 'task-1' });
+
+      expect(mockFetch.firstCall.args[0]).to.equal(
+        'https://test.endpoint/api/rest/v1/tasks/task-1/pushNotificationConfigs/task-1'
+      );
+    });
+
+    it('should list configs', async () => {
+      mockFetch.resolves(jsonResponse([config]));
+
+      const result = await transport.listTaskPushNotificationConfig({ id: 'task-1' });
+
+      expect(result).to.deep.equal([config]);
+    });
+
+    it('should delete config and handle 204', async () => {
+      mockFetch.resolves(new Response(null, { status: 204 }));
+
+      await transport.deleteTaskPushNotificationConfig({
+        id: 'task-1',
+        pushNotificationConfigId: 'cfg-1',
+      });
+
+      const [url, init] = mockFetch.firstCall.args;
+      expect(url).to.equal(
+        'https://test.endpoint/api/rest/v1/tasks/task-1/pushNotificationConfigs/cfg-1'
+      );
+      expect(init.method).to.equal('DELETE');
+    });
+  });
+
+  describe('getExtendedAgentCard', () => {
+    it('should GET /v1/card', async () => {
+      mockFetch.resolves(jsonResponse({ name: 'Agent' }));
+
+      const card = await transport.getExtendedAgentCard();
+
+      expect(card).to.deep.equal({ name: 'Agent' });
+      expect(mockFetch.firstCall.args[0]).to.equal('https://test.endpoint/api/rest/v1/card');
+    });
+  });
+});
+
+describe('RestTransportFactory', () => {
+  const agentCard: AgentCard = {
+    protocolVersion: '0.3.0',
+    name: 'REST Agent',
+    description: 'Test',
+    url: 'http://jsonrpc.example.com',
+    preferredTransport: 'GRPC',
+    additionalInterfaces: [{ transport: 'HTTP+JSON', url: 'http://rest.example.com' }],
+    version: '1.0.0',
+    capabilities: {},
+    defaultInputModes: [],
+    defaultOutputModes: [],
+    skills: [],
+  };
+
+  it('should be selected by ClientFactory for HTTP+JSON interfaces', async () => {
+    const mockFetch = sinon.stub<Parameters<typeof fetch>, ReturnType<typeof fetch>>();
+    mockFetch.resolves(
+      new Response(JSON.stringify({ kind: 'task', id: 't', contextId: 'c', status: {} }), {
+        status: 200,
+      })
+    );
+    const factory = new ClientFactory({
+      transports: [new RestTransportFactory({ fetchImpl: mockFetch })],
+    });
+
+    const client = await factory.createFromAgentCard(agentCard);
+    await client.getTask({ id: 't' });
+
+    expect(mockFetch.firstCall.args[0]).to.equal('http://rest.example.com/v1/tasks/t');
+  });
+
+  it('should be included in default ClientFactory transports', async () => {
+    const factory = new ClientFactory();
+
+    expect(factory.options.transports.map((t) => t.protocolName)).to.include('HTTP+JSON');
+  });
+});
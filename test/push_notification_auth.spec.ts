@@ -0,0 +1,131 @@
+import { describe, it, afterEach, expect, vi } from 'vitest';
+import {
+  createPushNotificationAuthHeaders,
+  verifyPushNotificationRequest,
+} from '../src/push_notification_auth.js';
+import { PushNotificationAuthenticationInfo } from '../src/types.js';
+
+const body = JSON.stringify({ kind: 'task', id: 'task-1', status: { state: 'completed' } });
+
+const webhookRequest = (headers: Record<string, string>, requestBody = body) =>
+  new Request('https://hooks.test/a2a', { method: 'POST', headers, body: requestBody });
+
+describe('createPushNotificationAuthHeaders', () => {
+  it('should use the first supported scheme', async () => {
+    const headers = await createPushNotificationAuthHeaders(
+      { schemes: ['Digest', 'bearer', 'Basic'], credentials: 'secret-token' },
+      body
+    );
+
+    expect(headers).to.deep.equal({ Authorization: 'Bearer secret-token' });
+  });
+
+  it('should encode Basic credentials', async () => {
+    const headers = await createPushNotificationAuthHeaders(
+      { schemes: ['Basic'], credentials: 'agent:pässword' },
+      body
+    );
+
+    expect(headers).to.deep.equal({
+      Authorization: `Basic ${Buffer.from('agent:pässword').toString('base64')}`,
+    });
+  });
+
+  it('should send API keys in a configurable header', async () => {
+    const headers = await createPushNotificationAuthHeaders(
+      { schemes: ['ApiKey'], credentials: 'key-1' },
+      body,
+      { apiKeyHeaderName: 'X-Webhook-Key' }
+    );
+
+    expect(headers).to.deep.equal({ 'X-Webhook-Key': 'key-1' });
+  });
+
+  it('should return undefined without a supported scheme or credentials', async () => {
+    expect(await createPushNotificationAuthHeaders({ schemes: ['Digest'], credentials: 'x' }, body))
+      .to.be.undefined;
+    expect(await createPushNotificationAuthHeaders({ schemes: ['Bearer'] }, body)).to.be.undefined;
+  });
+});
+
+describe('verifyPushNotificationRequest', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const schemes: PushNotificationAuthenticationInfo[] = [
+    { schemes: ['Bearer'], credentials: 'secret-token' },
+    { schemes: ['Basic'], credentials: 'agent:password' },
+    { schemes: ['ApiKey'], credentials: 'key-1' },
+    { schemes: ['HMAC-SHA256'], credentials: 'shared-secret' },
+  ];
+
+  it.each(schemes)('should accept requests authenticated with $schemes', async (authentication) => {
+    const headers = await createPushNotificationAuthHeaders(authentication, body);
+
+    const result = await verifyPushNotificationRequest(webhookRequest(headers!), {
+      authentication,
+    });
+
+    expect(result.valid).to.be.true;
+  });
+
+  it.each(schemes)(
+    'should reject requests with wrong $schemes credentials',
+    async (authentication) => {
+      const headers = await createPushNotificationAuthHeaders(
+        { ...authentication, credentials: 'other:credentials' },
+        body
+      );
+
+      const result = await verifyPushNotificationRequest(webhookRequest(headers!), {
+        authentication,
+      });
+
+      expect(result).to.deep.equal({
+        valid: false,
+        reason: 'Invalid push notification credentials.',
+      });
+    }
+  );
+
+  it('should reject tampered or expired HMAC signatures', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const authentication = { schemes: ['HMAC-SHA256'], credentials: 'shared-secret' };
+    const headers = await createPushNotificationAuthHeaders(authentication, body);
+
+    const tampered = await verifyPushNotificationRequest(
+      webhookRequest(headers!, body.replace('completed', 'failed')),
+      { authentication }
+    );
+    vi.advanceTimersByTime(301_000);
+    const expired = await verifyPushNotificationRequest(webhookRequest(headers!), {
+      authentication,
+    });
+
+    expect(tampered.valid).to.be.false;
+    expect(expired.valid).to.be.false;
+  });
+
+  it('should leave the request body readable', async () => {
+    const authentication = { schemes: ['HMAC-SHA256'], credentials: 'shared-secret' };
+    const request = webhookRequest(
+      (await createPushNotificationAuthHeaders(authentication, body))!
+    );
+
+    await verifyPushNotificationRequest(request, { authentication });
+
+    expect(await request.text()).to.equal(body);
+  });
+
+  it('should verify the notification token', async () => {
+    const valid = await verifyPushNotificationRequest(
+      webhookRequest({ 'X-A2A-Notification-Token': 'token-1' }),
+      { token: 'token-1' }
+    );
+    const invalid = await verifyPushNotificationRequest(webhookRequest({}), { token: 'token-1' });
+
+    expect(valid).to.deep.equal({ valid: true });
+    expect(invalid).to.deep.equal({ valid: false, reason: 'Invalid notification token.' });
+  });
+});
@@ -50,6 +50,7 @@ describe('A2AExpressApp', () => {
       sendMessageStream: sinon.stub(),
       getTask: sinon.stub(),
       cancelTask: sinon.stub(),
+      listTasks: sinon.stub(),
       setTaskPushNotificationConfig: sinon.stub(),
       getTaskPushNotificationConfig: sinon.stub(),
       listTaskPushNotificationConfigs: sinon.stub(),
@@ -104,6 +105,20 @@ describe('A2AExpressApp', () => {
       assert.deepEqual(response.body, testAgentCard);
     });
 
+    it('should answer 304 Not Modified when the ETag matches', async () => {
+      const first = await request(expressApp).get(`/${AGENT_CARD_PATH}`).expect(200);
+      const etag = first.headers['etag'];
+      assert.match(etag, /^"[0-9a-f]{64}"$/);
+
+      const second = await request(expressApp)
+        .get(`/${AGENT_CARD_PATH}`)
+        .set('If-None-Match', `W/${etag}`)
+        .expect(304);
+
+      assert.equal(second.headers['etag'], etag);
+      assert.deepEqual(second.body, {});
+    });
+
     it('should handle errors when getting agent card', async () => {
       const errorMessage = 'Failed to get agent card';
       (mockRequestHandler.getAgentCard as SinonStub).rejects(new Error(errorMessage));
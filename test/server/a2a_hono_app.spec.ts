@@ -49,6 +49,7 @@ describe('A2AHonoApp', () => {
       sendMessageStream: sinon.stub(),
       getTask: sinon.stub(),
       cancelTask: sinon.stub(),
+      listTasks: sinon.stub(),
       setTaskPushNotificationConfig: sinon.stub(),
       getTaskPushNotificationConfig: sinon.stub(),
       listTaskPushNotificationConfigs: sinon.stub(),
@@ -731,4 +732,36 @@ describe('A2AHonoApp', () => {
       expect(serverCallContext.user.userName).toBe('token-user');
     });
   });
+
+  describe('REST endpoints', () => {
+    it('should answer authentication failures with a challenge', async () => {
+      const restApp = new Hono();
+      const a2a = new A2AHonoApp(mockRequestHandler, {
+        enableRest: true,
+        userBuilder: () =>
+          Promise.reject(
+            A2AError.unauthenticated('Authentication required.', ['Bearer realm="Test Agent"'])
+          ),
+      });
+      a2a.setupRoutes(restApp);
+
+      const res = await restApp.request('/rest/v1/tasks/task-1');
+
+      assert.equal(res.status, 401);
+      assert.equal(res.headers.get('WWW-Authenticate'), 'Bearer realm="Test Agent"');
+      assert.equal((await res.json()).code, -32013);
+    });
+
+    it('should answer rate limiting with Retry-After', async () => {
+      const restApp = new Hono();
+      const a2a = new A2AHonoApp(mockRequestHandler, { enableRest: true });
+      a2a.setupRoutes(restApp);
+      (mockRequestHandler.getTask as SinonStub).rejects(A2AError.tooManyRequests('Slow down.', 30));
+
+      const res = await restApp.request('/rest/v1/tasks/task-1');
+
+      assert.equal(res.status, 429);
+      assert.equal(res.headers.get('Retry-After'), '30');
+    });
+  });
 });
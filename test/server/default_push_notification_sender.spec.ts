@@ -0,0 +1,279 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import sinon, { SinonFakeTimers, SinonStub } from 'sinon';
+import dns from 'node:dns';
+import {
+  DefaultPushNotificationSender,
+  InMemoryPushNotificationOutbox,
+  InMemoryPushNotificationStore,
+  PushNotificationDelivery,
+} from '../../src/server/index.js';
+import { Logger } from '../../src/server/logging/logger.js';
+import { Task, TaskState } from '../../src/index.js';
+
+const createTask = (state: TaskState): Task => ({
+  kind: 'task',
+  id: 'task-1',
+  contextId: 'ctx-1',
+  status: { state },
+});
+
+describe('DefaultPushNotificationSender', () => {
+  let clock: SinonFakeTimers;
+  let fetchStub: SinonStub;
+  let pushNotificationStore: InMemoryPushNotificationStore;
+  let outbox: InMemoryPushNotificationOutbox;
+  let logger: Logger & { [K in keyof Logger]: SinonStub };
+  let deadLetters: PushNotificationDelivery[];
+  let sender: DefaultPushNotificationSender;
+
+  const postedStates = () =>
+    fetchStub.getCalls().map((call) => JSON.parse(call.args[1].body).status.state);
+
+  beforeEach(async () => {
+    clock = sinon.useFakeTimers();
+    fetchStub = sinon.stub(globalThis, 'fetch');
+    sinon.stub(dns.promises, 'lookup').resolves([{ address: '93.184.216.34', family: 4 }] as never);
+    pushNotificationStore = new InMemoryPushNotificationStore();
+    await pushNotificationStore.save('task-1', { id: 'config-1', url: 'https://hooks.test/a2a' });
+    outbox = new InMemoryPushNotificationOutbox();
+    logger = {
+      debug: sinon.stub(),
+      info: sinon.stub(),
+      warn: sinon.stub(),
+      error: sinon.stub(),
+    };
+    deadLetters = [];
+    sender = new DefaultPushNotificationSender(pushNotificationStore, {
+      outbox,
+      logger,
+      retry: { maxAttempts: 3, initialDelayMs: 1000, jitter: 0 },
+      onDeadLetter: (delivery) => {
+        deadLetters.push(delivery);
+      },
+    });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+    clock.restore();
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    fetchStub.onCall(0).resolves(new Response(null, { status: 502 }));
+    fetchStub.onCall(1).rejects(new TypeError('fetch failed'));
+    fetchStub.onCall(2).resolves(new Response(null, { status: 200 }));
+
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(0);
+    expect(fetchStub.callCount).to.equal(1);
+
+    await clock.tickAsync(999);
+    expect(fetchStub.callCount).to.equal(1);
+    await clock.tickAsync(1);
+    expect(fetchStub.callCount).to.equal(2);
+
+    await clock.tickAsync(2000);
+    expect(fetchStub.callCount).to.equal(3);
+    expect(await outbox.loadPending()).to.deep.equal([]);
+    expect(deadLetters).to.deep.equal([]);
+    expect(logger.info.lastCall.args[1]).to.include({
+      metric: 'push_notification.delivered',
+      taskId: 'task-1',
+      attempt: 3,
+    });
+  });
+
+  it('should wait for the delay given by Retry-After', async () => {
+    fetchStub
+      .onCall(0)
+      .resolves(new Response(null, { status: 429, headers: { 'Retry-After': '5' } }));
+    fetchStub.onCall(1).resolves(new Response(null, { status: 200 }));
+
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(4999);
+    expect(fetchStub.callCount).to.equal(1);
+    expect(logger.warn.lastCall.args[1]).to.include({
+      metric: 'push_notification.retry_scheduled',
+      statusCode: 429,
+      retryInMs: 5000,
+    });
+
+    await clock.tickAsync(1);
+    expect(fetchStub.callCount).to.equal(2);
+  });
+
+  it('should keep pending deliveries in the outbox and dead-letter them after the last attempt', async () => {
+    fetchStub.resolves(new Response(null, { status: 503 }));
+
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(0);
+    const [pending] = await outbox.loadPending();
+    expect(pending).to.include({ attempts: 1, nextAttemptAt: 1000, lastError: 'HTTP 503: ' });
+
+    await clock.tickAsync(3000);
+
+    expect(fetchStub.callCount).to.equal(3);
+    expect(await outbox.loadPending()).to.deep.equal([]);
+    expect(deadLetters).to.have.length(1);
+    expect(deadLetters[0].task).to.deep.equal(createTask('completed'));
+    expect(logger.error.lastCall.args[1]).to.include({
+      metric: 'push_notification.dead_lettered',
+      attempts: 3,
+    });
+  });
+
+  it('should not retry client errors', async () => {
+    fetchStub.resolves(new Response(null, { status: 404 }));
+
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(10000);
+
+    expect(fetchStub.callCount).to.equal(1);
+    expect(deadLetters).to.have.length(1);
+  });
+
+  it('should only retry the latest notification of a task', async () => {
+    fetchStub.onCall(0).resolves(new Response(null, { status: 500 }));
+    fetchStub.resolves(new Response(null, { status: 200 }));
+
+    await sender.send(createTask('working'));
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(5000);
+
+    expect(postedStates()).to.deep.equal(['working', 'completed']);
+    expect(
+      logger.info.calledWithMatch(sinon.match.string, {
+        metric: 'push_notification.superseded',
+      })
+    ).to.be.true;
+  });
+
+  it('should authenticate requests as configured in the push notification config', async () => {
+    fetchStub.resolves(new Response(null, { status: 200 }));
+    await pushNotificationStore.save('task-1', {
+      id: 'config-1',
+      url: 'https://hooks.test/a2a',
+      token: 'token-1',
+      authentication: { schemes: ['Bearer'], credentials: 'secret-token' },
+    });
+
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(0);
+
+    expect(fetchStub.firstCall.args[1].headers).to.include({
+      Authorization: 'Bearer secret-token',
+      'X-A2A-Notification-Token': 'token-1',
+    });
+  });
+
+  it('should deliver notifications through the configured fetch', async () => {
+    const fetchImpl = sinon.stub().resolves(new Response(null, { status: 200 }));
+    sender = new DefaultPushNotificationSender(pushNotificationStore, {
+      outbox,
+      logger,
+      fetchImpl,
+    });
+
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(0);
+
+    expect(fetchImpl.calledOnceWith('https://hooks.test/a2a')).to.be.true;
+    expect(fetchStub.called).to.be.false;
+  });
+
+  it('should dead-letter deliveries to blocked webhook URLs without calling them', async () => {
+    await pushNotificationStore.save('task-1', {
+      id: 'config-1',
+      url: 'https://169.254.169.254/latest/meta-data',
+    });
+
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(10000);
+
+    expect(fetchStub.called).to.be.false;
+    expect(deadLetters).to.have.length(1);
+    expect(deadLetters[0].attempts).to.equal(1);
+  });
+
+  it('should resume pending deliveries from the outbox', async () => {
+    fetchStub.resolves(new Response(null, { status: 200 }));
+    await outbox.save({
+      id: 'delivery-1',
+      task: createTask('completed'),
+      pushNotificationConfig: { id: 'config-1', url: 'https://hooks.test/a2a' },
+      attempts: 1,
+      createdAt: 0,
+      nextAttemptAt: 2000,
+    });
+
+    await sender.resumePending();
+    await clock.tickAsync(1999);
+    expect(fetchStub.callCount).to.equal(0);
+    await clock.tickAsync(1);
+
+    expect(postedStates()).to.deep.equal(['completed']);
+    expect(await outbox.loadPending()).to.deep.equal([]);
+  });
+
+  it('should wait for deliveries in progress on shutdown and flush pending retries', async () => {
+    await pushNotificationStore.save('task-2', { id: 'config-1', url: 'https://hooks.test/a2a' });
+    fetchStub.callsFake(async (_url, init) => {
+      if (JSON.parse(init.body).id === 'task-2') {
+        return new Response(null, { status: 503 });
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      return new Response(null, { status: 200 });
+    });
+
+    await sender.send(createTask('completed'));
+    await sender.send({ ...createTask('completed'), id: 'task-2' });
+    await clock.tickAsync(0);
+    let shutDown = false;
+    const shutdown = sender.shutdown().then(() => (shutDown = true));
+    await clock.tickAsync(499);
+    expect(shutDown).to.be.false;
+    await clock.tickAsync(1);
+    await shutdown;
+
+    // The retry of task-2 was attempted once more, and kept in the outbox after failing again.
+    expect(fetchStub.callCount).to.equal(3);
+    await clock.tickAsync(5000);
+    await sender.send(createTask('failed'));
+    expect(fetchStub.callCount).to.equal(3);
+    const pending = await outbox.loadPending();
+    expect(pending.map((delivery) => [delivery.task.id, delivery.attempts])).to.deep.equal([
+      ['task-2', 2],
+    ]);
+  });
+
+  it('should send the retries of a task in order with its other notifications', async () => {
+    await pushNotificationStore.save('task-1', { id: 'config-2', url: 'https://hooks.test/b' });
+    fetchStub.callsFake(async (url: string) => {
+      if (url === 'https://hooks.test/a2a' && fetchStub.callCount === 1) {
+        return new Response(null, { status: 503 });
+      }
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      return new Response(null, { status: 200 });
+    });
+
+    await sender.send(createTask('working'));
+    await clock.tickAsync(1500);
+    // The retry to the first webhook waits for the delivery to the second one.
+    expect(fetchStub.callCount).to.equal(2);
+    await sender.send(createTask('completed'));
+    await clock.tickAsync(0);
+    expect(fetchStub.callCount).to.equal(2);
+
+    await clock.tickAsync(500);
+    expect(fetchStub.callCount).to.equal(3);
+    await clock.tickAsync(2000);
+    expect(fetchStub.callCount).to.equal(5);
+    expect(postedStates()).to.deep.equal([
+      'working',
+      'working',
+      'working',
+      'completed',
+      'completed',
+    ]);
+  });
+});
@@ -1,9 +1,12 @@
 import { describe, it, beforeEach, afterEach, assert, expect } from 'vitest';
 import sinon, { SinonStub, SinonFakeTimers } from 'sinon';
+import dns from 'node:dns';
+import initSqlJs from 'sql.js';
 
 import { AgentExecutor } from '../../src/server/agent_execution/agent_executor.js';
 import {
   TaskStore,
+  TaskStoreListQuery,
   InMemoryTaskStore,
   DefaultRequestHandler,
   ExecutionEventQueue,
@@ -14,6 +17,14 @@ import {
   UnauthenticatedUser,
   ExtendedAgentCardProvider,
   User,
+  ConcurrentMessageOptions,
+  ExecutionScheduler,
+  ExecutionDeadlineOptions,
+  ExecutionAbortedError,
+  TaskAuthorizationPolicy,
+  getTaskOwner,
+  SqlTaskStore,
+  TASK_OWNER_METADATA_KEY,
 } from '../../src/server/index.js';
 import {
   AgentCard,
@@ -29,6 +40,7 @@ import {
   TaskState,
   TaskStatusUpdateEvent,
   TextPart,
+  getTaskStateTransitions,
 } from '../../src/index.js';
 import {
   DefaultExecutionEventBusManager,
@@ -44,6 +56,8 @@ import {
 import { MockPushNotificationSender } from './mocks/push_notification_sender.mock.js';
 import { ServerCallContext } from '../../src/server/context.js';
 import { MockTaskStore } from './mocks/task_store.mock.js';
+import { getSSEEventId } from '../../src/sse_utils.js';
+import { sqlJsDriver } from './mocks/sql_js_driver.js';
 
 describe('DefaultRequestHandler as A2ARequestHandler', () => {
   let handler: A2ARequestHandler;
@@ -79,6 +93,8 @@ describe('DefaultRequestHandler as A2ARequestHandler', () => {
 
   // Before each test, reset the components to a clean state
   beforeEach(() => {
+    // Webhook hostnames are resolved to check that they are public.
+    sinon.stub(dns.promises, 'lookup').resolves([{ address: '93.184.216.34', family: 4 }] as never);
     // Wrap in-memory store into a store which ensures we pass server call context.
     // The parameter is optional to avoid breaking changes, however it should be passed.
     const inMemoryStore = new InMemoryTaskStore();
@@ -95,6 +111,12 @@ describe('DefaultRequestHandler as A2ARequestHandler', () => {
         }
         return inMemoryStore.load(id);
       },
+      list: async (query: TaskStoreListQuery, ctx?: ServerCallContext) => {
+        if (!ctx) {
+          throw new Error('Missing server call context');
+        }
+        return inMemoryStore.list(query);
+      },
     };
     // Default mock for most tests
     mockAgentExecutor = new MockAgentExecutor();
@@ -149,6 +171,21 @@ describe('DefaultRequestHandler as A2ARequestHandler', () => {
     );
   });
 
+  it('sendMessage: (blocking) should reject when the task cannot be saved', async () => {
+    (mockAgentExecutor as MockAgentExecutor).execute.callsFake(fakeTaskExecute);
+    mockTaskStore.save = async () => {
+      throw new Error('Store unavailable');
+    };
+    sinon.stub(console, 'error');
+
+    const error = await handler
+      .sendMessage({ message: createTestMessage('msg-store-down', 'Hello') }, serverCallContext)
+      .catch((e) => e);
+
+    expect(error).to.be.instanceOf(Error);
+    expect(error.message).to.equal('Store unavailable');
+  });
+
   it('sendMessage: (blocking) should return a task in a completed state with an artifact', async () => {
     const params: MessageSendParams = {
       message: createTestMessage('msg-2', 'Do a task'),
@@ -806,6 +843,1120 @@ describe('DefaultRequestHandler as A2ARequestHandler', () => {
     );
   });
 
+  describe('concurrent task updates', () => {
+    let taskStore: InMemoryTaskStore;
+
+    beforeEach(() => {
+      taskStore = new InMemoryTaskStore();
+      handler = new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        mockAgentExecutor,
+        executionEventBusManager
+      );
+    });
+
+    const executeWithConcurrentWrite = (update: (task: Task) => Task) =>
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(async (ctx, bus) => {
+        const { taskId, contextId } = ctx;
+        bus.publish({ id: taskId, contextId, status: { state: 'working' }, kind: 'task' });
+        await clock.tickAsync(10);
+        // Another writer saves the task while the agent is working.
+        await taskStore.save(update((await taskStore.load(taskId))!));
+        bus.publish({
+          taskId,
+          contextId,
+          kind: 'status-update',
+          status: { state: 'completed' },
+          final: true,
+        });
+        bus.finished();
+      });
+
+    it('should merge messages saved concurrently into the task', async () => {
+      clock = sinon.useFakeTimers();
+      const concurrentMessage = createTestMessage('msg-concurrent', 'Are you done?');
+      executeWithConcurrentWrite((task) => ({
+        ...task,
+        history: [...(task.history ?? []), concurrentMessage],
+      }));
+
+      const result = (await handler.sendMessage(
+        { message: createTestMessage('msg-first', 'Hello') },
+        serverCallContext
+      )) as Task;
+      const stored = await taskStore.load(result.id);
+
+      expect(stored?.status.state).to.equal('completed');
+      expect(stored?.history?.map((message) => message.messageId)).to.deep.equal([
+        'msg-first',
+        'msg-concurrent',
+      ]);
+    });
+
+    it('should not overwrite a terminal state saved concurrently', async () => {
+      clock = sinon.useFakeTimers();
+      executeWithConcurrentWrite((task) => ({ ...task, status: { state: 'canceled' } }));
+
+      const result = (await handler.sendMessage(
+        { message: createTestMessage('msg-canceled', 'Hello') },
+        serverCallContext
+      )) as Task;
+
+      expect((await taskStore.load(result.id))?.status.state).to.equal('canceled');
+    });
+  });
+
+  describe('concurrent messages', () => {
+    let taskStore: InMemoryTaskStore;
+    let releaseExecution: () => void;
+    let executionStarted: Promise<void>;
+    let executedMessages: string[];
+
+    beforeEach(async () => {
+      taskStore = new InMemoryTaskStore();
+      await taskStore.save({
+        id: 'task-busy',
+        contextId: 'ctx-busy',
+        status: { state: 'input-required' },
+        kind: 'task',
+      });
+      executedMessages = [];
+      let startExecution!: () => void;
+      executionStarted = new Promise((resolve) => {
+        startExecution = resolve;
+      });
+      const executionReleased = new Promise<void>((resolve) => {
+        releaseExecution = resolve;
+      });
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(async (ctx, bus) => {
+        const { taskId, contextId } = ctx;
+        executedMessages.push(ctx.userMessage.messageId);
+        ctx.onFollowUpMessage((message) => executedMessages.push(`follow-up:${message.messageId}`));
+        bus.publish({
+          taskId,
+          contextId,
+          kind: 'status-update',
+          status: { state: 'working' },
+          final: false,
+        });
+        startExecution();
+        await executionReleased;
+        bus.publish({
+          taskId,
+          contextId,
+          kind: 'status-update',
+          status: { state: 'input-required' },
+          final: true,
+        });
+        bus.finished();
+      });
+    });
+
+    const createHandler = (
+      concurrentMessages: ConcurrentMessageOptions,
+      executionScheduler?: ExecutionScheduler
+    ) =>
+      new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        mockAgentExecutor,
+        executionEventBusManager,
+        undefined,
+        undefined,
+        undefined,
+        { concurrentMessages, executionScheduler }
+      );
+
+    const taskMessage = (id: string): Message => ({
+      ...createTestMessage(id, 'Hello'),
+      taskId: 'task-busy',
+      contextId: 'ctx-busy',
+    });
+
+    it('should queue messages sent to a task being executed', async () => {
+      handler = createHandler({ policy: 'queue' });
+
+      const first = handler.sendMessage({ message: taskMessage('msg-1') }, serverCallContext);
+      await executionStarted;
+      const second = handler.sendMessage({ message: taskMessage('msg-2') }, serverCallContext);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(executedMessages).to.deep.equal(['msg-1']);
+
+      releaseExecution();
+      await Promise.all([first, second]);
+
+      expect(executedMessages).to.deep.equal(['msg-1', 'msg-2']);
+      const stored = await taskStore.load('task-busy');
+      expect(stored?.history?.map((message) => message.messageId)).to.deep.equal([
+        'msg-1',
+        'msg-2',
+      ]);
+    });
+
+    it('should reject messages sent to a task being executed', async () => {
+      handler = createHandler({ policy: 'reject' });
+
+      const first = handler.sendMessage({ message: taskMessage('msg-1') }, serverCallContext);
+      await executionStarted;
+
+      try {
+        await handler.sendMessage({ message: taskMessage('msg-2') }, serverCallContext);
+        assert.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).to.be.instanceOf(A2AError);
+        expect((error as A2AError).code).to.equal(-32010);
+      }
+      releaseExecution();
+      await first;
+      expect(executedMessages).to.deep.equal(['msg-1']);
+    });
+
+    it('should serialize tasks of the same context when perContext is set', async () => {
+      handler = createHandler({ policy: 'reject', perContext: true });
+
+      const first = handler.sendMessage({ message: taskMessage('msg-1') }, serverCallContext);
+      await executionStarted;
+
+      try {
+        await handler.sendMessage(
+          { message: { ...createTestMessage('msg-2', 'Hello'), contextId: 'ctx-busy' } },
+          serverCallContext
+        );
+        assert.fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as A2AError).code).to.equal(-32010);
+      }
+      releaseExecution();
+      await first;
+    });
+
+    it('should reject executions beyond the limits of the execution scheduler', async () => {
+      handler = createHandler(
+        {},
+        new ExecutionScheduler({ maxConcurrentExecutions: 1, maxQueueSize: 0 })
+      );
+
+      const first = handler.sendMessage({ message: taskMessage('msg-1') }, serverCallContext);
+      await executionStarted;
+
+      try {
+        await handler.sendMessage(
+          { message: createTestMessage('msg-2', 'Hello') },
+          serverCallContext
+        );
+        assert.fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as A2AError).code).to.equal(-32011);
+      }
+      releaseExecution();
+      await first;
+      expect(executedMessages).to.deep.equal(['msg-1']);
+    });
+
+    it('should deliver follow-up messages to the running execution', async () => {
+      handler = createHandler({ policy: 'follow-up' });
+
+      const first = handler.sendMessage({ message: taskMessage('msg-1') }, serverCallContext);
+      await executionStarted;
+      const followUp = (await handler.sendMessage(
+        { message: taskMessage('msg-2'), configuration: { blocking: false } },
+        serverCallContext
+      )) as Task;
+
+      expect(executedMessages).to.deep.equal(['msg-1', 'follow-up:msg-2']);
+      expect(followUp.history?.map((message) => message.messageId)).to.deep.equal([
+        'msg-1',
+        'msg-2',
+      ]);
+      releaseExecution();
+      await first;
+      const stored = await taskStore.load('task-busy');
+      expect(stored?.status.state).to.equal('input-required');
+      expect(stored?.history?.map((message) => message.messageId)).to.deep.equal([
+        'msg-1',
+        'msg-2',
+      ]);
+    });
+
+    it('should stream the running execution to follow-up messages', async () => {
+      handler = createHandler({ policy: 'follow-up' });
+
+      const first = handler.sendMessage({ message: taskMessage('msg-1') }, serverCallContext);
+      await executionStarted;
+      const stream = handler.sendMessageStream(
+        { message: taskMessage('msg-2') },
+        serverCallContext
+      );
+      const initial = await stream.next();
+      expect((initial.value as Task).kind).to.equal('task');
+
+      releaseExecution();
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+      await first;
+
+      expect(executedMessages).to.deep.equal(['msg-1', 'follow-up:msg-2']);
+      expect(events.map((event) => (event as TaskStatusUpdateEvent).status.state)).to.deep.equal([
+        'input-required',
+      ]);
+    });
+  });
+
+  describe('execution deadlines', () => {
+    const createHandler = (executionDeadline: ExecutionDeadlineOptions) =>
+      new DefaultRequestHandler(
+        testAgentCard,
+        new InMemoryTaskStore(),
+        mockAgentExecutor,
+        executionEventBusManager,
+        undefined,
+        undefined,
+        undefined,
+        { executionDeadline }
+      );
+
+    const executeForever = async (ctx: RequestContext, bus: ExecutionEventBus): Promise<void> => {
+      const { taskId, contextId } = ctx;
+      bus.publish({ id: taskId, contextId, status: { state: 'working' }, kind: 'task' });
+      await new Promise(() => {});
+    };
+
+    it('should cancel executions past their deadline', async () => {
+      clock = sinon.useFakeTimers();
+      const executor = mockAgentExecutor as MockAgentExecutor;
+      executor.execute.callsFake(executeForever);
+      executor.cancelTask.callsFake(async (taskId, bus) => {
+        bus.publish({
+          taskId,
+          contextId: 'ctx-deadline',
+          kind: 'status-update',
+          status: { state: 'canceled' },
+          final: true,
+        });
+      });
+      handler = createHandler({ timeoutMs: 1000 });
+
+      const resultPromise = handler.sendMessage(
+        { message: { ...createTestMessage('msg-deadline', 'Hello'), contextId: 'ctx-deadline' } },
+        serverCallContext
+      );
+      await clock.tickAsync(999);
+      expect(executor.cancelTask.called).to.be.false;
+      await clock.tickAsync(1);
+      const result = (await resultPromise) as Task;
+
+      expect(executor.cancelTask.calledOnce).to.be.true;
+      expect(result.status.state).to.equal('canceled');
+    });
+
+    it('should fail tasks whose executor does not stop within the grace period', async () => {
+      clock = sinon.useFakeTimers();
+      const executor = mockAgentExecutor as MockAgentExecutor;
+      executor.execute.callsFake(executeForever);
+      executor.cancelTask.resolves();
+      handler = createHandler({ timeoutMs: 1000, cancelGracePeriodMs: 500 });
+
+      const resultPromise = handler.sendMessage(
+        { message: createTestMessage('msg-hanging', 'Hello') },
+        serverCallContext
+      );
+      await clock.tickAsync(1499);
+      expect(executor.cancelTask.calledOnce).to.be.true;
+      await clock.tickAsync(1);
+      const result = (await resultPromise) as Task;
+
+      expect(result.status.state).to.equal('failed');
+      expect((result.status.message?.parts[0] as TextPart).text).to.equal(
+        'Task execution deadline exceeded.'
+      );
+    });
+
+    it('should wait for deadlines beyond the longest timer delay', async () => {
+      clock = sinon.useFakeTimers();
+      const executor = mockAgentExecutor as MockAgentExecutor;
+      executor.execute.callsFake(executeForever);
+      executor.cancelTask.resolves();
+      const timeoutMs = 30 * 24 * 60 * 60 * 1000;
+      handler = createHandler({ timeoutMs, cancelGracePeriodMs: 100 });
+
+      const resultPromise = handler.sendMessage(
+        { message: createTestMessage('msg-long-deadline', 'Hello') },
+        serverCallContext
+      );
+      await clock.tickAsync(timeoutMs - 1);
+      expect(executor.cancelTask.called).to.be.false;
+      await clock.tickAsync(101);
+      const result = (await resultPromise) as Task;
+
+      expect(executor.cancelTask.calledOnce).to.be.true;
+      expect(result.status.state).to.equal('failed');
+    });
+
+    it('should apply the deadline of the request', async () => {
+      clock = sinon.useFakeTimers();
+      const executor = mockAgentExecutor as MockAgentExecutor;
+      executor.execute.callsFake(executeForever);
+      executor.cancelTask.resolves();
+      handler = createHandler({ timeoutMs: 60_000, cancelGracePeriodMs: 100 });
+
+      const resultPromise = handler.sendMessage(
+        { message: createTestMessage('msg-request-deadline', 'Hello') },
+        new ServerCallContext(undefined, undefined, Date.now() + 200)
+      );
+      await clock.tickAsync(300);
+      const result = (await resultPromise) as Task;
+
+      expect(executor.cancelTask.calledOnce).to.be.true;
+      expect(result.status.state).to.equal('failed');
+    });
+  });
+
+  describe('cooperative cancellation', () => {
+    let taskStore: InMemoryTaskStore;
+    let signals: AbortSignal[];
+
+    const cooperativeExecutor: AgentExecutor = {
+      async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+        signals.push(ctx.signal);
+        bus.publish({
+          id: ctx.taskId,
+          contextId: ctx.contextId,
+          status: { state: 'working' },
+          kind: 'task',
+        });
+        await new Promise((resolve) => ctx.signal.addEventListener('abort', resolve));
+      },
+    };
+
+    const createHandler = (cancelOnClientDisconnect?: boolean) =>
+      new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        cooperativeExecutor,
+        executionEventBusManager,
+        undefined,
+        undefined,
+        undefined,
+        { cancelOnClientDisconnect }
+      );
+
+    beforeEach(() => {
+      taskStore = new InMemoryTaskStore();
+      signals = [];
+    });
+
+    it('should abort the signal and cancel the task on tasks/cancel', async () => {
+      handler = createHandler();
+      const task = (await handler.sendMessage(
+        {
+          message: createTestMessage('msg-abort', 'Hello'),
+          configuration: { blocking: false },
+        },
+        serverCallContext
+      )) as Task;
+
+      const canceled = await handler.cancelTask({ id: task.id }, serverCallContext);
+
+      expect(canceled.status.state).to.equal('canceled');
+      expect(signals[0].aborted).to.be.true;
+      expect(signals[0].reason).to.be.instanceOf(ExecutionAbortedError);
+      expect((signals[0].reason as ExecutionAbortedError).reason).to.equal('canceled');
+    });
+
+    it('should cancel the execution when the client of a stream disconnects', async () => {
+      handler = createHandler(true);
+      const stream = handler.sendMessageStream(
+        { message: createTestMessage('msg-disconnect', 'Hello') },
+        serverCallContext
+      );
+      const task = (await stream.next()).value as Task;
+
+      await stream.return();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect((signals[0].reason as ExecutionAbortedError).reason).to.equal('client-disconnected');
+      expect((await taskStore.load(task.id))?.status.state).to.equal('canceled');
+    });
+
+    it('should log store failures after the client of a stream disconnects', async () => {
+      handler = createHandler(true);
+      const unhandledRejections: unknown[] = [];
+      const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+      process.on('unhandledRejection', onUnhandledRejection);
+      const consoleError = sinon.stub(console, 'error');
+      try {
+        const stream = handler.sendMessageStream(
+          { message: createTestMessage('msg-store-down', 'Hello') },
+          serverCallContext
+        );
+        await stream.next();
+        sinon.stub(taskStore, 'saveVersioned').rejects(new Error('Store unavailable'));
+        sinon.stub(taskStore, 'save').rejects(new Error('Store unavailable'));
+
+        await stream.return();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(unhandledRejections).to.deep.equal([]);
+        expect(consoleError.calledWithMatch(sinon.match(/Event processing loop failed/))).to.be
+          .true;
+      } finally {
+        process.off('unhandledRejection', onUnhandledRejection);
+      }
+    });
+
+    it('should not cancel the execution on client disconnect by default', async () => {
+      handler = createHandler();
+      const stream = handler.sendMessageStream(
+        { message: createTestMessage('msg-disconnect', 'Hello') },
+        serverCallContext
+      );
+      await stream.next();
+
+      await stream.return();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(signals[0].aborted).to.be.false;
+    });
+  });
+
+  describe('shutdown', () => {
+    let taskStore: InMemoryTaskStore;
+    let signals: AbortSignal[];
+
+    const publishWorking = (ctx: RequestContext, bus: ExecutionEventBus) => {
+      signals.push(ctx.signal);
+      bus.publish({
+        id: ctx.taskId,
+        contextId: ctx.contextId,
+        status: { state: 'working' },
+        kind: 'task',
+      });
+    };
+
+    const createHandler = (executor: AgentExecutor) =>
+      new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        executor,
+        executionEventBusManager,
+        undefined,
+        undefined,
+        undefined,
+        { executionDeadline: { cancelGracePeriodMs: 20 } }
+      );
+
+    beforeEach(() => {
+      taskStore = new InMemoryTaskStore();
+      signals = [];
+    });
+
+    it('should reject new messages once shutting down', async () => {
+      handler = createHandler(mockAgentExecutor);
+      await handler.shutdown();
+
+      await expect(
+        handler.sendMessage({ message: createTestMessage('msg-late', 'Hello') }, serverCallContext)
+      ).rejects.toMatchObject({ code: -32012 });
+    });
+
+    it('should let running executions finish', async () => {
+      handler = createHandler({
+        async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+          publishWorking(ctx, bus);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          bus.publish({
+            kind: 'status-update',
+            taskId: ctx.taskId,
+            contextId: ctx.contextId,
+            status: { state: 'completed' },
+            final: true,
+          });
+          bus.finished();
+        },
+      });
+      const task = (await handler.sendMessage(
+        {
+          message: createTestMessage('msg-finish', 'Hello'),
+          configuration: { blocking: false },
+        },
+        serverCallContext
+      )) as Task;
+
+      await handler.shutdown({ timeoutMs: 1000 });
+
+      expect((await taskStore.load(task.id))?.status.state).to.equal('completed');
+      expect(signals[0].aborted).to.be.false;
+    });
+
+    it('should cancel executions still running after the timeout', async () => {
+      handler = createHandler({
+        async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+          publishWorking(ctx, bus);
+          await new Promise((resolve) => ctx.signal.addEventListener('abort', resolve));
+        },
+      });
+      const task = (await handler.sendMessage(
+        {
+          message: createTestMessage('msg-cancel', 'Hello'),
+          configuration: { blocking: false },
+        },
+        serverCallContext
+      )) as Task;
+
+      await handler.shutdown({ timeoutMs: 10 });
+
+      expect((signals[0].reason as ExecutionAbortedError).reason).to.equal('shutdown');
+      expect((await taskStore.load(task.id))?.status.state).to.equal('canceled');
+    });
+
+    it('should close the streams of executions ignoring the cancellation', async () => {
+      handler = createHandler({
+        async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+          publishWorking(ctx, bus);
+          await new Promise(() => {});
+        },
+        async cancelTask(): Promise<void> {},
+      });
+      const stream = handler.sendMessageStream(
+        { message: createTestMessage('msg-stuck', 'Hello') },
+        serverCallContext
+      );
+      const task = (await stream.next()).value as Task;
+
+      await handler.shutdown({ timeoutMs: 10 });
+
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+      expect(events).to.have.length(1);
+      expect(events[0]).to.include({ kind: 'status-update', final: true });
+      expect((await taskStore.load(task.id))?.status.state).to.equal('failed');
+    });
+  });
+
+  describe('task recovery', () => {
+    let taskStore: InMemoryTaskStore;
+
+    const storeTask = async (id: string, state: TaskState): Promise<void> => {
+      await taskStore.save({
+        id,
+        contextId: 'ctx-recovery',
+        status: { state },
+        history: [{ ...createTestMessage(`msg-${id}`, 'Hello'), taskId: id }],
+        kind: 'task',
+      });
+    };
+
+    const createHandler = (executor: AgentExecutor) =>
+      new DefaultRequestHandler(testAgentCard, taskStore, executor, executionEventBusManager);
+
+    beforeEach(async () => {
+      taskStore = new InMemoryTaskStore();
+      await storeTask('task-working', 'working');
+      await storeTask('task-submitted', 'submitted');
+      await storeTask('task-completed', 'completed');
+    });
+
+    it('should fail the tasks left running by a previous process', async () => {
+      const recoveryHandler = createHandler(mockAgentExecutor);
+
+      const result = await recoveryHandler.recoverTasks();
+
+      expect(result.recoveredTaskIds).to.have.members(['task-working', 'task-submitted']);
+      const recovered = await taskStore.load('task-working');
+      expect(recovered?.status.state).to.equal('failed');
+      expect(recovered?.status.message?.parts[0]).to.deep.include({
+        text: 'Task execution was interrupted by a server restart.',
+      });
+      expect((await taskStore.load('task-completed'))?.status.state).to.equal('completed');
+    });
+
+    it('should resume the tasks with the recovery flag', async () => {
+      const contexts: RequestContext[] = [];
+      const recoveryHandler = createHandler({
+        async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+          contexts.push(ctx);
+          bus.publish({
+            kind: 'status-update',
+            taskId: ctx.taskId,
+            contextId: ctx.contextId,
+            status: { state: 'completed' },
+            final: true,
+          });
+          bus.finished();
+        },
+      });
+
+      await recoveryHandler.recoverTasks({ policy: 'resume' });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(contexts).to.have.length(2);
+      expect(contexts[0].isRecovery).to.be.true;
+      expect(contexts[0].userMessage.messageId).to.equal(`msg-${contexts[0].taskId}`);
+      expect((await taskStore.load('task-working'))?.status.state).to.equal('completed');
+    });
+
+    it('should hand the tasks over to a recovery callback', async () => {
+      const recoveryHandler = createHandler(mockAgentExecutor);
+      const handedOver: string[] = [];
+
+      await recoveryHandler.recoverTasks({ policy: (task) => void handedOver.push(task.id) });
+
+      expect(handedOver).to.have.members(['task-working', 'task-submitted']);
+      expect((await taskStore.load('task-working'))?.status.state).to.equal('working');
+    });
+
+    it('should not wait for execution slots to resume the next tasks', async () => {
+      const contexts: RequestContext[] = [];
+      let releaseExecutions!: () => void;
+      const executionsReleased = new Promise<void>((resolve) => (releaseExecutions = resolve));
+      const recoveryHandler = new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        {
+          async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+            contexts.push(ctx);
+            await executionsReleased;
+            bus.publish({
+              kind: 'status-update',
+              taskId: ctx.taskId,
+              contextId: ctx.contextId,
+              status: { state: 'completed' },
+              final: true,
+            });
+            bus.finished();
+          },
+        },
+        executionEventBusManager,
+        undefined,
+        undefined,
+        undefined,
+        { executionScheduler: new ExecutionScheduler({ maxConcurrentExecutions: 1 }) }
+      );
+
+      const result = await recoveryHandler.recoverTasks({ policy: 'resume' });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(result.recoveredTaskIds).to.have.members(['task-working', 'task-submitted']);
+      expect(contexts).to.have.length(1);
+      releaseExecutions();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(contexts).to.have.length(2);
+      expect((await taskStore.load('task-submitted'))?.status.state).to.equal('completed');
+    });
+
+    it('should recover the tasks of every user from a store scoping tasks by user', async () => {
+      const SQL = await initSqlJs();
+      const sqlTaskStore = new SqlTaskStore(sqlJsDriver(new SQL.Database()));
+      const alice = new ServerCallContext(undefined, {
+        isAuthenticated: true,
+        userName: 'alice',
+      });
+      await sqlTaskStore.save(
+        {
+          id: 'task-alice',
+          contextId: 'ctx-recovery',
+          status: { state: 'working' },
+          history: [{ ...createTestMessage('msg-alice', 'Hello'), taskId: 'task-alice' }],
+          metadata: { [TASK_OWNER_METADATA_KEY]: 'alice' },
+          kind: 'task',
+        },
+        alice
+      );
+      const contexts: RequestContext[] = [];
+      const recoveryHandler = new DefaultRequestHandler(
+        testAgentCard,
+        sqlTaskStore,
+        {
+          async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+            contexts.push(ctx);
+            bus.publish({
+              kind: 'status-update',
+              taskId: ctx.taskId,
+              contextId: ctx.contextId,
+              status: { state: 'completed' },
+              final: true,
+            });
+            bus.finished();
+          },
+        },
+        executionEventBusManager
+      );
+
+      const result = await recoveryHandler.recoverTasks({ policy: 'resume' });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(result).to.deep.equal({ recoveredTaskIds: ['task-alice'], errors: [] });
+      expect(contexts[0].context?.user?.userName).to.equal('alice');
+      const recovered = await sqlTaskStore.load('task-alice', alice);
+      expect(recovered?.status.state).to.equal('completed');
+      expect(getTaskOwner(recovered!)).to.equal('alice');
+    });
+
+    it('should leave the tasks being executed alone', async () => {
+      const recoveryHandler = createHandler({
+        async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+          bus.publish({
+            id: ctx.taskId,
+            contextId: ctx.contextId,
+            status: { state: 'working' },
+            kind: 'task',
+          });
+          await new Promise((resolve) => ctx.signal.addEventListener('abort', resolve));
+        },
+      });
+      const task = (await recoveryHandler.sendMessage(
+        {
+          message: createTestMessage('msg-running', 'Hello'),
+          configuration: { blocking: false },
+        },
+        serverCallContext
+      )) as Task;
+
+      const result = await recoveryHandler.recoverTasks();
+
+      expect(result.recoveredTaskIds).to.not.include(task.id);
+      expect((await taskStore.load(task.id))?.status.state).to.equal('working');
+    });
+  });
+
+  describe('task authorization', () => {
+    let taskStore: TaskStore;
+
+    class NamedUser implements User {
+      constructor(private readonly name: string) {}
+
+      get isAuthenticated(): boolean {
+        return true;
+      }
+
+      get userName(): string {
+        return this.name;
+      }
+    }
+
+    const contextOf = (userName: string) =>
+      new ServerCallContext(undefined, new NamedUser(userName));
+
+    const inputRequiredExecutor: AgentExecutor = {
+      async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+        bus.publish({
+          id: ctx.taskId,
+          contextId: ctx.contextId,
+          status: { state: 'input-required' },
+          kind: 'task',
+        });
+        bus.publish({
+          kind: 'status-update',
+          taskId: ctx.taskId,
+          contextId: ctx.contextId,
+          status: { state: 'input-required' },
+          final: true,
+        });
+        bus.finished();
+      },
+    };
+
+    const createHandler = (taskAuthorization?: TaskAuthorizationPolicy) =>
+      new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        inputRequiredExecutor,
+        executionEventBusManager,
+        undefined,
+        undefined,
+        undefined,
+        { taskAuthorization }
+      );
+
+    const createTask = async (userName: string): Promise<Task> =>
+      (await handler.sendMessage(
+        { message: createTestMessage(`msg-${userName}`, 'Hello') },
+        contextOf(userName)
+      )) as Task;
+
+    beforeEach(() => {
+      taskStore = new InMemoryTaskStore();
+    });
+
+    it('should record the owner of tasks and hide them from other users', async () => {
+      handler = createHandler();
+      const task = await createTask('alice');
+      expect(getTaskOwner((await taskStore.load(task.id))!)).to.equal('alice');
+
+      const bob = contextOf('bob');
+      const notFound = { code: -32001 };
+      await expect(handler.getTask({ id: task.id }, bob)).rejects.toMatchObject(notFound);
+      await expect(handler.cancelTask({ id: task.id }, bob)).rejects.toMatchObject(notFound);
+      await expect(handler.resubscribe({ id: task.id }, bob).next()).rejects.toMatchObject(
+        notFound
+      );
+      await expect(
+        handler.listTaskPushNotificationConfigs({ id: task.id }, bob)
+      ).rejects.toMatchObject(notFound);
+      await expect(
+        handler.sendMessage(
+          { message: { ...createTestMessage('msg-bob', 'Hi'), taskId: task.id } },
+          bob
+        )
+      ).rejects.toMatchObject(notFound);
+
+      await handler.sendMessage(
+        { message: { ...createTestMessage('msg-alice-2', 'Hi'), taskId: task.id } },
+        contextOf('alice')
+      );
+      const latest = await handler.getTask({ id: task.id, historyLength: 10 }, contextOf('alice'));
+      expect(latest.history).to.have.length(2);
+      expect(getTaskOwner(latest)).to.equal('alice');
+    });
+
+    it('should only list the tasks the user may access', async () => {
+      handler = createHandler();
+      await createTask('alice');
+      const bobTask = await createTask('bob');
+
+      const result = await handler.listTasks({}, contextOf('bob'));
+
+      expect(result.tasks.map((task) => task.id)).to.deep.equal([bobTask.id]);
+    });
+
+    it('should fill list pages with the tasks the user may access', async () => {
+      handler = createHandler();
+      const bobTask = await createTask('bob');
+      for (let i = 0; i < 3; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 2));
+        await createTask('alice');
+      }
+
+      const result = await handler.listTasks({ pageSize: 1 }, contextOf('bob'));
+
+      expect(result.tasks.map((task) => task.id)).to.deep.equal([bobTask.id]);
+      expect(result.nextPageToken).to.be.undefined;
+    });
+
+    it('should ignore the owner set by agents', async () => {
+      handler = new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        {
+          async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+            bus.publish({
+              id: ctx.taskId,
+              contextId: ctx.contextId,
+              status: { state: 'completed' },
+              metadata: { [TASK_OWNER_METADATA_KEY]: 'mallory' },
+              kind: 'task',
+            });
+            bus.finished();
+          },
+        },
+        executionEventBusManager
+      );
+
+      const anonymous = (await handler.sendMessage({
+        message: createTestMessage('msg-anonymous', 'Hello'),
+      })) as Task;
+      const owned = (await handler.sendMessage(
+        { message: createTestMessage('msg-owned', 'Hello') },
+        contextOf('alice')
+      )) as Task;
+
+      expect(getTaskOwner((await taskStore.load(anonymous.id))!)).to.be.undefined;
+      expect(getTaskOwner((await taskStore.load(owned.id))!)).to.equal('alice');
+    });
+
+    it('should let administrators and context members access tasks', async () => {
+      handler = createHandler(
+        TaskAuthorizationPolicy.adminOverride(
+          (user) => user.userName === 'root',
+          TaskAuthorizationPolicy.sharedContext((user) => user.userName === 'carol')
+        )
+      );
+      const task = await createTask('alice');
+
+      expect((await handler.getTask({ id: task.id }, contextOf('root'))).id).to.equal(task.id);
+      expect((await handler.getTask({ id: task.id }, contextOf('carol'))).id).to.equal(task.id);
+      await expect(handler.getTask({ id: task.id }, contextOf('bob'))).rejects.toMatchObject({
+        code: -32001,
+      });
+    });
+
+    it('should let administrators access the tasks of other users in a SqlTaskStore', async () => {
+      const SQL = await initSqlJs();
+      taskStore = new SqlTaskStore(sqlJsDriver(new SQL.Database()));
+      handler = createHandler(
+        TaskAuthorizationPolicy.adminOverride((user) => user.userName === 'root')
+      );
+      const task = await createTask('alice');
+
+      await handler.sendMessage(
+        { message: { ...createTestMessage('msg-root', 'Hi'), taskId: task.id } },
+        contextOf('root')
+      );
+
+      const latest = await handler.getTask({ id: task.id, historyLength: 10 }, contextOf('alice'));
+      expect(latest.history?.map((message) => message.messageId)).to.include('msg-root');
+      expect(getTaskOwner(latest)).to.equal('alice');
+      await expect(handler.getTask({ id: task.id }, contextOf('bob'))).rejects.toMatchObject({
+        code: -32001,
+      });
+    });
+  });
+
+  describe('task state validation', () => {
+    const publishInvalidEvents = async (ctx: RequestContext, bus: ExecutionEventBus) => {
+      const { taskId, contextId } = ctx;
+      bus.publish({ id: taskId, contextId, status: { state: 'working' }, kind: 'task' });
+      bus.publish({
+        taskId: 'another-task',
+        contextId,
+        kind: 'status-update',
+        status: { state: 'working' },
+        final: false,
+      });
+      bus.publish({
+        taskId,
+        contextId,
+        kind: 'status-update',
+        status: { state: 'completed' },
+        final: true,
+      });
+      bus.finished();
+    };
+
+    const createHandler = (policy?: 'reject' | 'drop' | 'allow') =>
+      new DefaultRequestHandler(
+        testAgentCard,
+        mockTaskStore,
+        mockAgentExecutor,
+        executionEventBusManager,
+        undefined,
+        undefined,
+        undefined,
+        { taskStateValidation: policy }
+      );
+
+    it('should fail the task on events for another task with the reject policy', async () => {
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(publishInvalidEvents);
+
+      const result = (await createHandler('reject').sendMessage(
+        { message: createTestMessage('msg-invalid', 'Hello') },
+        serverCallContext
+      )) as Task;
+      const stored = await mockTaskStore.load(result.id, serverCallContext);
+
+      expect(result.status.state).to.equal('failed');
+      expect((result.status.message?.parts[0] as TextPart).text).to.equal(
+        `Invalid status-update event: expected task ${result.id}, got another-task.`
+      );
+      expect(stored?.status.state).to.equal('failed');
+    });
+
+    it('should stream the failure and stop when rejecting an event', async () => {
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(publishInvalidEvents);
+
+      const events = [];
+      for await (const event of createHandler('reject').sendMessageStream(
+        { message: createTestMessage('msg-invalid-stream', 'Hello') },
+        serverCallContext
+      )) {
+        events.push(event);
+      }
+
+      expect(events).to.have.lengthOf(2);
+      expect(events[1]).to.include({ kind: 'status-update', final: true });
+      expect((events[1] as TaskStatusUpdateEvent).status.state).to.equal('failed');
+    });
+
+    it('should drop invalid events with the drop policy', async () => {
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(publishInvalidEvents);
+
+      const result = (await createHandler('drop').sendMessage(
+        { message: createTestMessage('msg-invalid-drop', 'Hello') },
+        serverCallContext
+      )) as Task;
+
+      expect(result.status.state).to.equal('completed');
+    });
+
+    it('should not move a task out of a terminal state', async () => {
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(async (ctx, bus) => {
+        const { taskId, contextId } = ctx;
+        bus.publish({ id: taskId, contextId, status: { state: 'completed' }, kind: 'task' });
+        bus.publish({
+          taskId,
+          contextId,
+          kind: 'status-update',
+          status: { state: 'working' },
+          final: true,
+        });
+        bus.finished();
+      });
+
+      const result = (await createHandler('reject').sendMessage(
+        { message: createTestMessage('msg-completed', 'Hello') },
+        serverCallContext
+      )) as Task;
+
+      expect(result.status.state).to.equal('completed');
+    });
+
+    it('should not add artifacts to a task in a terminal state', async () => {
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(async (ctx, bus) => {
+        const { taskId, contextId } = ctx;
+        bus.publish({ id: taskId, contextId, status: { state: 'working' }, kind: 'task' });
+        bus.publish({
+          taskId,
+          contextId,
+          kind: 'status-update',
+          status: { state: 'completed' },
+          final: false,
+        });
+        bus.publish({
+          taskId,
+          contextId,
+          kind: 'artifact-update',
+          artifact: { artifactId: 'late', parts: [{ kind: 'text', text: 'Too late' }] },
+        });
+        bus.finished();
+      });
+
+      const result = (await createHandler('reject').sendMessage(
+        { message: createTestMessage('msg-late-artifact', 'Hello') },
+        serverCallContext
+      )) as Task;
+
+      expect(result.status.state).to.equal('completed');
+      expect(result.artifacts).to.be.undefined;
+    });
+
+    it('should apply invalid events by default', async () => {
+      (mockAgentExecutor as MockAgentExecutor).execute.callsFake(async (ctx, bus) => {
+        const { taskId, contextId } = ctx;
+        bus.publish({ id: taskId, contextId, status: { state: 'completed' }, kind: 'task' });
+        bus.publish({
+          taskId,
+          contextId,
+          kind: 'status-update',
+          status: { state: 'working' },
+          final: true,
+        });
+        bus.finished();
+      });
+
+      const result = (await createHandler().sendMessage(
+        { message: createTestMessage('msg-allowed', 'Hello') },
+        serverCallContext
+      )) as Task;
+
+      expect(result.status.state).to.equal('working');
+    });
+  });
+
   it('sendMessageStream: should stream submitted, working, and completed events', async () => {
     const params: MessageSendParams = {
       message: createTestMessage('msg-3', 'Stream a task'),
@@ -1024,6 +2175,77 @@ describe('DefaultRequestHandler as A2ARequestHandler', () => {
     assert.equal(lastSaveCall.status.state, 'completed');
   });
 
+  it('resubscribe: should replay events emitted after lastEventId', async () => {
+    const params: MessageSendParams = {
+      message: createTestMessage('msg-replay', 'Replay'),
+    };
+    (mockAgentExecutor as MockAgentExecutor).execute.callsFake(async (ctx, bus) => {
+      bus.publish({
+        id: ctx.taskId,
+        contextId: ctx.contextId,
+        status: { state: 'submitted' },
+        kind: 'task',
+      });
+      bus.publish({
+        taskId: ctx.taskId,
+        contextId: ctx.contextId,
+        kind: 'artifact-update',
+        artifact: { artifactId: 'artifact-1', parts: [{ kind: 'text', text: 'partial' }] },
+      });
+      bus.publish({
+        taskId: ctx.taskId,
+        contextId: ctx.contextId,
+        kind: 'status-update',
+        status: { state: 'completed' },
+        final: true,
+      });
+      bus.finished();
+    });
+
+    const streamed = [];
+    for await (const event of handler.sendMessageStream(params, serverCallContext)) {
+      streamed.push(event);
+    }
+    const taskId = (streamed[0] as Task).id;
+    const eventIds = streamed.map((event) => getSSEEventId(event));
+    assert.lengthOf(new Set(eventIds), 3);
+    assert.notInclude(eventIds, undefined);
+
+    const replayed = [];
+    for await (const event of handler.resubscribe(
+      { id: taskId, lastEventId: eventIds[0] },
+      serverCallContext
+    )) {
+      replayed.push(event);
+    }
+
+    assert.deepEqual(replayed, streamed.slice(1));
+    assert.deepEqual(
+      replayed.map((event) => getSSEEventId(event)),
+      eventIds.slice(1)
+    );
+  });
+
+  it('resubscribe: should fall back to the task snapshot for an unknown lastEventId', async () => {
+    const fakeTask: Task = {
+      id: 'task-unknown-event',
+      contextId: 'ctx-unknown-event',
+      status: { state: 'completed' },
+      kind: 'task',
+    };
+    await mockTaskStore.save(fakeTask, serverCallContext);
+
+    const events = [];
+    for await (const event of handler.resubscribe(
+      { id: fakeTask.id, lastEventId: '42' },
+      serverCallContext
+    )) {
+      events.push(event);
+    }
+
+    assert.deepEqual(events, [fakeTask]);
+  });
+
   it('getTask: should return an existing task from the store', async () => {
     const fakeTask: Task = {
       id: 'task-exist',
@@ -1038,6 +2260,105 @@ describe('DefaultRequestHandler as A2ARequestHandler', () => {
     assert.deepEqual(result, fakeTask);
   });
 
+  it('getTask: should return the state transitions when the agent supports stateTransitionHistory', async () => {
+    handler = new DefaultRequestHandler(
+      {
+        ...testAgentCard,
+        capabilities: { ...testAgentCard.capabilities, stateTransitionHistory: true },
+      },
+      mockTaskStore,
+      mockAgentExecutor,
+      executionEventBusManager
+    );
+    (mockAgentExecutor as MockAgentExecutor).execute.callsFake(fakeTaskExecute);
+
+    const task = (await handler.sendMessage(
+      { message: createTestMessage('msg-transitions', 'Hello') },
+      serverCallContext
+    )) as Task;
+    const result = await handler.getTask({ id: task.id }, serverCallContext);
+    const trimmed = await handler.getTask(
+      { id: task.id, stateTransitionHistoryLength: 1 },
+      serverCallContext
+    );
+
+    expect(getTaskStateTransitions(result).map((transition) => transition.state)).to.deep.equal([
+      'submitted',
+      'working',
+      'completed',
+    ]);
+    expect(getTaskStateTransitions(trimmed).map((transition) => transition.state)).to.deep.equal([
+      'completed',
+    ]);
+    expect(result.metadata).to.have.property('a2a-js-sdk/stateTransitionHistory');
+  });
+
+  it('getTask: should not record state transitions without the stateTransitionHistory capability', async () => {
+    (mockAgentExecutor as MockAgentExecutor).execute.callsFake(fakeTaskExecute);
+
+    const task = (await handler.sendMessage(
+      { message: createTestMessage('msg-no-transitions', 'Hello') },
+      serverCallContext
+    )) as Task;
+    const result = await handler.getTask({ id: task.id }, serverCallContext);
+
+    expect(result.metadata).to.be.undefined;
+  });
+
+  it('listTasks: should return matching tasks with trimmed history', async () => {
+    const message = (id: string): Message => ({
+      kind: 'message',
+      messageId: id,
+      role: 'user',
+      parts: [{ kind: 'text', text: id }],
+    });
+    await mockTaskStore.save(
+      {
+        id: 'task-a',
+        contextId: 'ctx-list',
+        status: { state: 'working' },
+        kind: 'task',
+        history: [message('m1'), message('m2')],
+      },
+      serverCallContext
+    );
+    await mockTaskStore.save(
+      { id: 'task-b', contextId: 'ctx-other', status: { state: 'working' }, kind: 'task' },
+      serverCallContext
+    );
+
+    const result = await handler.listTasks(
+      { contextId: 'ctx-list', historyLength: 1 },
+      serverCallContext
+    );
+
+    assert.deepEqual(
+      result.tasks.map((t) => t.id),
+      ['task-a']
+    );
+    assert.deepEqual(result.tasks[0].history, [message('m2')]);
+    assert.isUndefined(result.nextPageToken);
+  });
+
+  it('listTasks: should reject invalid parameters', async () => {
+    for (const params of [{ pageSize: 0 }, { pageSize: 101 }, { status: 'bogus' as TaskState }]) {
+      const error = await handler.listTasks(params, serverCallContext).catch((e) => e);
+      assert.instanceOf(error, A2AError);
+      assert.equal(error.code, -32602);
+    }
+  });
+
+  it('listTasks: should throw UnsupportedOperation if the store cannot list', async () => {
+    const store = new InMemoryTaskStore();
+    const noListStore: TaskStore = { save: store.save.bind(store), load: store.load.bind(store) };
+    const noListHandler = new DefaultRequestHandler(testAgentCard, noListStore, mockAgentExecutor);
+
+    const error = await noListHandler.listTasks({}, serverCallContext).catch((e) => e);
+
+    assert.instanceOf(error, A2AError);
+    assert.equal(error.code, -32004);
+  });
+
   it('set/getTaskPushNotificationConfig: should save and retrieve config', async () => {
     const taskId = 'task-push-config';
     const fakeTask: Task = {
@@ -1156,6 +2477,51 @@ describe('DefaultRequestHandler as A2ARequestHandler', () => {
     expect(configs[0].pushNotificationConfig.url).to.equal('https://new.url');
   });
 
+  it('setTaskPushNotificationConfig: should reject webhook URLs pointing at internal addresses', async () => {
+    const taskId = 'task-ssrf';
+    await mockTaskStore.save(
+      {
+        id: taskId,
+        contextId: 'ctx-ssrf',
+        status: { state: 'working' },
+        kind: 'task',
+      },
+      serverCallContext
+    );
+
+    for (const url of ['https://169.254.169.254/latest/meta-data', 'http://example.com/notify']) {
+      const error = await handler
+        .setTaskPushNotificationConfig(
+          { taskId, pushNotificationConfig: { id: 'config-ssrf', url } },
+          serverCallContext
+        )
+        .catch((e) => e);
+      assert.instanceOf(error, A2AError);
+      assert.equal(error.code, -32602);
+    }
+    const configs = await handler.listTaskPushNotificationConfigs(
+      { id: taskId },
+      serverCallContext
+    );
+    expect(configs).to.be.empty;
+  });
+
+  it('sendMessage: should reject push notification configs with internal webhook URLs', async () => {
+    const error = await handler
+      .sendMessage(
+        {
+          message: createTestMessage('msg-ssrf', 'Hello'),
+          configuration: { pushNotificationConfig: { url: 'https://127.0.0.1:8080/notify' } },
+        },
+        serverCallContext
+      )
+      .catch((e) => e);
+
+    assert.instanceOf(error, A2AError);
+    assert.equal(error.code, -32602);
+    assert.isTrue((mockAgentExecutor.execute as SinonStub).notCalled);
+  });
+
   it('listTaskPushNotificationConfigs: should return all configs for a task', async () => {
     const taskId = 'task-list-configs';
     await mockTaskStore.save(
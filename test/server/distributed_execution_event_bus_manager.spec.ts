@@ -0,0 +1,428 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import sinon from 'sinon';
+import {
+  AgentExecutionEvent,
+  DefaultRequestHandler,
+  DistributedExecutionEventBusManager,
+  ExecutionEventBroker,
+  ExecutionEventBus,
+  ExecutionEventQueue,
+  InMemoryExecutionEventBroker,
+  InMemoryTaskStore,
+  RedisExecutionEventBroker,
+  RedisPublisherLike,
+  RedisSubscriberLike,
+  TaskStore,
+} from '../../src/server/index.js';
+import { getSSEEventId, setSSEEventId } from '../../src/sse_utils.js';
+import { AgentCard, Task, TaskStatusUpdateEvent } from '../../src/index.js';
+import { MockAgentExecutor } from './mocks/agent-executor.mock.js';
+
+/**
+ * Local stand-in for a Redis server, implementing PUBLISH / SUBSCRIBE semantics.
+ */
+class FakeRedisServer {
+  private readonly subscribers: Set<FakeRedisConnection> = new Set();
+
+  connect(): FakeRedisConnection {
+    const connection = new FakeRedisConnection(this);
+    this.subscribers.add(connection);
+    return connection;
+  }
+
+  publish(channel: string, message: string): number {
+    let receivers = 0;
+    for (const connection of this.subscribers) {
+      if (connection.receive(channel, message)) {
+        receivers++;
+      }
+    }
+    return receivers;
+  }
+}
+
+class FakeRedisConnection implements RedisPublisherLike, RedisSubscriberLike {
+  private readonly channels: Set<string> = new Set();
+  private readonly listeners: ((channel: string, message: string) => void)[] = [];
+
+  constructor(private readonly server: FakeRedisServer) {}
+
+  async publish(channel: string, message: string): Promise<number> {
+    return this.server.publish(channel, message);
+  }
+
+  async subscribe(channel: string): Promise<number> {
+    this.channels.add(channel);
+    return this.channels.size;
+  }
+
+  async unsubscribe(channel: string): Promise<number> {
+    this.channels.delete(channel);
+    return this.channels.size;
+  }
+
+  on(_event: 'message', listener: (channel: string, message: string) => void): this {
+    this.listeners.push(listener);
+    return this;
+  }
+
+  receive(channel: string, message: string): boolean {
+    if (!this.channels.has(channel)) {
+      return false;
+    }
+    // Like a network round-trip, deliver asynchronously.
+    setTimeout(() => this.listeners.forEach((listener) => listener(channel, message)), 0);
+    return true;
+  }
+
+  subscribedChannels(): string[] {
+    return [...this.channels];
+  }
+}
+
+const statusUpdate = (
+  taskId: string,
+  state: 'working' | 'completed' | 'canceled',
+  final: boolean
+): TaskStatusUpdateEvent => ({
+  kind: 'status-update',
+  taskId,
+  contextId: 'ctx-1',
+  status: { state },
+  final,
+});
+
+const collect = async (eventBus: ExecutionEventBus): Promise<AgentExecutionEvent[]> => {
+  const events: AgentExecutionEvent[] = [];
+  for await (const event of new ExecutionEventQueue(eventBus).events()) {
+    events.push(event);
+  }
+  return events;
+};
+
+const brokers: [string, () => () => ExecutionEventBroker][] = [
+  [
+    'InMemoryExecutionEventBroker',
+    () => {
+      const broker = new InMemoryExecutionEventBroker();
+      return () => broker;
+    },
+  ],
+  [
+    'RedisExecutionEventBroker',
+    () => {
+      const server = new FakeRedisServer();
+      return () => new RedisExecutionEventBroker(server.connect(), server.connect());
+    },
+  ],
+];
+
+describe.each(brokers)('DistributedExecutionEventBusManager with %s', (_name, createNetwork) => {
+  let nodeA: DistributedExecutionEventBusManager;
+  let nodeB: DistributedExecutionEventBusManager;
+
+  beforeEach(() => {
+    const connect = createNetwork();
+    nodeA = new DistributedExecutionEventBusManager(connect(), { instanceId: 'node-a' });
+    nodeB = new DistributedExecutionEventBusManager(connect(), {
+      instanceId: 'node-b',
+      lookupTimeoutMs: 50,
+    });
+  });
+
+  afterEach(async () => {
+    await nodeA.close();
+    await nodeB.close();
+  });
+
+  it('should relay events published on the executing instance, in order', async () => {
+    const localBus = nodeA.createOrGetByTaskId('task-1');
+    // Emulates the journal listener registered by DefaultRequestHandler.
+    let nextEventId = 1;
+    localBus.on('event', (event) => setSSEEventId(event, String(nextEventId++)));
+
+    const remoteBus = await nodeB.findByTaskId('task-1');
+    expect(remoteBus).to.exist;
+    const received = collect(remoteBus!);
+
+    localBus.publish(statusUpdate('task-1', 'working', false));
+    localBus.publish(statusUpdate('task-1', 'completed', true));
+
+    const events = await received;
+    expect(events).to.deep.equal([
+      statusUpdate('task-1', 'working', false),
+      statusUpdate('task-1', 'completed', true),
+    ]);
+    expect(events.map((event) => getSSEEventId(event))).to.deep.equal(['1', '2']);
+    // The remote bus is released once the final event was delivered.
+    expect(nodeB.getByTaskId('task-1')).to.be.undefined;
+  });
+
+  it('should return undefined when no instance executes the task', async () => {
+    expect(await nodeB.findByTaskId('unknown-task')).to.be.undefined;
+    expect(await nodeB.requestCancellation('unknown-task')).to.be.false;
+  });
+
+  it('should route cancellation to the executing instance', async () => {
+    const localBus = nodeA.createOrGetByTaskId('task-1');
+    const cancel = sinon.stub().callsFake(async (taskId: string, eventBus: ExecutionEventBus) => {
+      eventBus.publish(statusUpdate(taskId, 'canceled', true));
+    });
+    nodeA.onCancellationRequested(cancel);
+
+    const remoteBus = await nodeB.findByTaskId('task-1');
+    const received = collect(remoteBus!);
+
+    expect(await nodeB.requestCancellation('task-1')).to.be.true;
+
+    expect(await received).to.deep.equal([statusUpdate('task-1', 'canceled', true)]);
+    expect(cancel.calledOnceWith('task-1', localBus)).to.be.true;
+  });
+
+  it('should cancel locally executed tasks without the broker', async () => {
+    nodeA.createOrGetByTaskId('task-1');
+
+    expect(await nodeA.requestCancellation('task-1')).to.be.false;
+  });
+});
+
+describe('RedisExecutionEventBroker', () => {
+  it('should subscribe to a channel once and unsubscribe with the last listener', async () => {
+    const server = new FakeRedisServer();
+    const subscriber = server.connect();
+    const broker = new RedisExecutionEventBroker(server.connect(), subscriber);
+
+    const unsubscribe1 = await broker.subscribe('channel', () => {});
+    const unsubscribe2 = await broker.subscribe('channel', () => {});
+    expect(subscriber.subscribedChannels()).to.deep.equal(['channel']);
+
+    await unsubscribe1();
+    expect(subscriber.subscribedChannels()).to.deep.equal(['channel']);
+    await unsubscribe2();
+    expect(subscriber.subscribedChannels()).to.deep.equal([]);
+  });
+});
+
+describe('DefaultRequestHandler with DistributedExecutionEventBusManager', () => {
+  const agentCard: AgentCard = {
+    name: 'Test Agent',
+    description: 'An agent for testing purposes',
+    url: 'http://localhost:8080',
+    version: '1.0.0',
+    protocolVersion: '0.3.0',
+    capabilities: { streaming: true },
+    defaultInputModes: ['text/plain'],
+    defaultOutputModes: ['text/plain'],
+    skills: [],
+  };
+
+  it('should cancel a task executed by another instance', async () => {
+    const broker = new InMemoryExecutionEventBroker();
+    const taskStore = new InMemoryTaskStore();
+    // Only the executing instance persists the events of the task.
+    const saveB = sinon.stub().resolves();
+    const taskStoreB: TaskStore = {
+      load: (taskId) => taskStore.load(taskId),
+      save: saveB,
+    };
+    const managerA = new DistributedExecutionEventBusManager(broker);
+    const managerB = new DistributedExecutionEventBusManager(broker);
+    const cleanupB = sinon.spy(managerB, 'cleanupByTaskId');
+    const executorA = new MockAgentExecutor();
+    const executorB = new MockAgentExecutor();
+    const handlerA = new DefaultRequestHandler(agentCard, taskStore, executorA, managerA);
+    const handlerB = new DefaultRequestHandler(agentCard, taskStoreB, executorB, managerB);
+
+    executorA.execute.callsFake(async (ctx, bus) => {
+      bus.publish({
+        kind: 'task',
+        id: ctx.taskId,
+        contextId: ctx.contextId,
+        status: { state: 'working' },
+      });
+    });
+    executorA.cancelTask.callsFake(async (taskId, bus) => {
+      bus.publish(statusUpdate(taskId, 'canceled', true));
+      bus.finished();
+    });
+
+    const task = (await handlerA.sendMessage({
+      message: {
+        kind: 'message',
+        messageId: 'msg-1',
+        role: 'user',
+        parts: [{ kind: 'text', text: 'Long running task' }],
+      },
+      configuration: { blocking: false },
+    })) as Task;
+
+    const canceled = await handlerB.cancelTask({ id: task.id });
+
+    expect(canceled.status.state).to.equal('canceled');
+    expect(executorA.cancelTask.calledOnceWith(task.id)).to.be.true;
+    expect(executorB.cancelTask.called).to.be.false;
+    expect(saveB.called).to.be.false;
+    expect(cleanupB.called).to.be.false;
+
+    await managerA.close();
+    await managerB.close();
+  });
+
+  it('should let clients of another instance resume the stream of a task', async () => {
+    const broker = new InMemoryExecutionEventBroker();
+    const taskStore = new InMemoryTaskStore();
+    const managerA = new DistributedExecutionEventBusManager(broker);
+    const managerB = new DistributedExecutionEventBusManager(broker);
+    const executorA = new MockAgentExecutor();
+    const handlerA = new DefaultRequestHandler(agentCard, taskStore, executorA, managerA);
+    const handlerB = new DefaultRequestHandler(
+      agentCard,
+      taskStore,
+      new MockAgentExecutor(),
+      managerB
+    );
+    let busA: ExecutionEventBus | undefined;
+    executorA.execute.callsFake(async (ctx, bus) => {
+      busA = bus;
+      bus.publish({
+        kind: 'task',
+        id: ctx.taskId,
+        contextId: ctx.contextId,
+        status: { state: 'working' },
+      });
+    });
+
+    const task = (await handlerA.sendMessage({
+      message: {
+        kind: 'message',
+        messageId: 'msg-1',
+        role: 'user',
+        parts: [{ kind: 'text', text: 'Long running task' }],
+      },
+      configuration: { blocking: false },
+    })) as Task;
+    const firstStream = handlerB.resubscribe({ id: task.id });
+    await firstStream.next();
+    busA!.publish(statusUpdate(task.id, 'working', false));
+    const { value: received } = await firstStream.next();
+    await firstStream.return(undefined);
+    const lastEventId = getSSEEventId(received);
+    expect(lastEventId).to.not.be.undefined;
+
+    busA!.publish({ ...statusUpdate(task.id, 'working', false), metadata: { step: 2 } });
+    busA!.publish(statusUpdate(task.id, 'completed', true));
+    busA!.finished();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const missed: unknown[] = [];
+    for await (const event of handlerB.resubscribe({ id: task.id, lastEventId })) {
+      missed.push(event);
+    }
+    expect(missed).to.deep.equal([
+      { ...statusUpdate(task.id, 'working', false), metadata: { step: 2 } },
+      statusUpdate(task.id, 'completed', true),
+    ]);
+
+    await managerA.close();
+    await managerB.close();
+  });
+
+  it('should resume on an instance the stream of a task executed by another one', async () => {
+    const broker = new InMemoryExecutionEventBroker();
+    const taskStore = new InMemoryTaskStore();
+    const managerA = new DistributedExecutionEventBusManager(broker);
+    const managerB = new DistributedExecutionEventBusManager(broker);
+    const executorA = new MockAgentExecutor();
+    const handlerA = new DefaultRequestHandler(agentCard, taskStore, executorA, managerA);
+    const handlerB = new DefaultRequestHandler(
+      agentCard,
+      taskStore,
+      new MockAgentExecutor(),
+      managerB
+    );
+    let taskId = '';
+    const step = (n: number) => ({ ...statusUpdate(taskId, 'working', false), metadata: { n } });
+    let busA: ExecutionEventBus | undefined;
+    executorA.execute.callsFake(async (ctx, bus) => {
+      busA = bus;
+      bus.publish({
+        kind: 'task',
+        id: ctx.taskId,
+        contextId: ctx.contextId,
+        status: { state: 'working' },
+      });
+    });
+
+    const streamA = handlerA.sendMessageStream({
+      message: {
+        kind: 'message',
+        messageId: 'msg-1',
+        role: 'user',
+        parts: [{ kind: 'text', text: 'Long running task' }],
+      },
+    });
+    taskId = ((await streamA.next()).value as Task).id;
+    // Another client following the task on B subscribes B to its events.
+    const streamB = handlerB.resubscribe({ id: taskId });
+    await streamB.next();
+    busA!.publish(step(2));
+    const { value: received } = await streamA.next();
+    await streamA.return(undefined);
+    busA!.publish(step(3));
+    busA!.publish(step(4));
+    busA!.publish(statusUpdate(taskId, 'completed', true));
+    busA!.finished();
+    // Drain the stream of the other client until the final event.
+    while (!(await streamB.next()).done);
+
+    const missed: unknown[] = [];
+    for await (const event of handlerB.resubscribe({
+      id: taskId,
+      lastEventId: getSSEEventId(received),
+    })) {
+      missed.push(event);
+    }
+    expect(missed).to.deep.equal([step(3), step(4), statusUpdate(taskId, 'completed', true)]);
+
+    await managerA.close();
+    await managerB.close();
+  });
+
+  it('should not ask other instances about tasks without an execution in progress', async () => {
+    const taskStore = new InMemoryTaskStore();
+    const manager = new DistributedExecutionEventBusManager(new InMemoryExecutionEventBroker(), {
+      lookupTimeoutMs: 60000,
+    });
+    const findByTaskId = sinon.spy(manager, 'findByTaskId');
+    const handler = new DefaultRequestHandler(
+      agentCard,
+      taskStore,
+      new MockAgentExecutor(),
+      manager
+    );
+    await taskStore.save({
+      kind: 'task',
+      id: 'task-input',
+      contextId: 'ctx-1',
+      status: { state: 'input-required' },
+    });
+    await taskStore.save({
+      kind: 'task',
+      id: 'task-completed',
+      contextId: 'ctx-1',
+      status: { state: 'completed' },
+    });
+
+    const canceled = await handler.cancelTask({ id: 'task-input' });
+    const events: unknown[] = [];
+    for await (const event of handler.resubscribe({ id: 'task-completed' })) {
+      events.push(event);
+    }
+
+    expect(canceled.status.state).to.equal('canceled');
+    expect(events).to.have.length(1);
+    expect(findByTaskId.called).to.be.false;
+
+    await manager.close();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, afterEach, expect } from 'vitest';
+import sinon, { SinonFakeTimers } from 'sinon';
+
+import { ExecutionScheduler } from '../../src/server/request_handler/execution_scheduler.js';
+import { A2AError } from '../../src/server/error.js';
+import { ServerCallContext } from '../../src/server/context.js';
+import { User } from '../../src/server/authentication/user.js';
+import { MessageSendParams } from '../../src/types.js';
+
+class TestUser implements User {
+  constructor(private readonly name: string) {}
+
+  get isAuthenticated(): boolean {
+    return true;
+  }
+
+  get userName(): string {
+    return this.name;
+  }
+}
+
+describe('ExecutionScheduler', () => {
+  let clock: SinonFakeTimers | undefined;
+
+  afterEach(() => {
+    clock?.restore();
+    clock = undefined;
+  });
+
+  const params = (text: string): MessageSendParams => ({
+    message: { kind: 'message', messageId: text, role: 'user', parts: [{ kind: 'text', text }] },
+  });
+
+  const contextOf = (userName: string) => new ServerCallContext(undefined, new TestUser(userName));
+
+  const settled = async (promise: Promise<unknown>): Promise<boolean> => {
+    let done = false;
+    promise.then(
+      () => (done = true),
+      () => (done = true)
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+    return done;
+  };
+
+  it('should queue executions beyond the global limit', async () => {
+    const scheduler = new ExecutionScheduler({ maxConcurrentExecutions: 1 });
+
+    const release = await scheduler.acquire(params('first'));
+    const second = scheduler.acquire(params('second'));
+    expect(await settled(second)).to.be.false;
+    expect(scheduler.queuedCount).to.equal(1);
+
+    release();
+    await second;
+    expect(scheduler.runningCount).to.equal(1);
+    expect(scheduler.queuedCount).to.equal(0);
+  });
+
+  it('should limit concurrent executions per user', async () => {
+    const scheduler = new ExecutionScheduler({ maxConcurrentExecutionsPerUser: 1 });
+
+    const release = await scheduler.acquire(params('alice-1'), contextOf('alice'));
+    const queued = scheduler.acquire(params('alice-2'), contextOf('alice'));
+    await scheduler.acquire(params('bob-1'), contextOf('bob'));
+    await scheduler.acquire(params('anonymous'));
+    expect(await settled(queued)).to.be.false;
+
+    release();
+    await queued;
+    expect(scheduler.runningCount).to.equal(3);
+  });
+
+  it('should start queued executions by priority', async () => {
+    const scheduler = new ExecutionScheduler({
+      maxConcurrentExecutions: 1,
+      priority: ({ message }) => (message.messageId.startsWith('urgent') ? 1 : 0),
+    });
+    const started: string[] = [];
+    const run = async (text: string): Promise<void> => {
+      const release = await scheduler.acquire(params(text));
+      started.push(text);
+      release();
+    };
+
+    const release = await scheduler.acquire(params('running'));
+    const runs = [run('normal-1'), run('urgent-1'), run('normal-2'), run('urgent-2')];
+    release();
+    await Promise.all(runs);
+
+    expect(started).to.deep.equal(['urgent-1', 'urgent-2', 'normal-1', 'normal-2']);
+  });
+
+  it('should reject executions when the queue is full', async () => {
+    const scheduler = new ExecutionScheduler({
+      maxConcurrentExecutions: 1,
+      maxQueueSize: 1,
+      retryAfterSeconds: 5,
+    });
+
+    await scheduler.acquire(params('running'));
+    const queued = scheduler.acquire(params('queued'));
+
+    try {
+      await scheduler.acquire(params('rejected'));
+      expect.fail('Should have thrown an error');
+    } catch (error) {
+      expect(error).to.be.instanceOf(A2AError);
+      expect((error as A2AError).code).to.equal(-32011);
+      expect((error as A2AError).data).to.deep.equal({ retryAfterSeconds: 5 });
+    }
+    expect(await settled(queued)).to.be.false;
+  });
+
+  it('should preempt lower priority executions when the queue is full', async () => {
+    const scheduler = new ExecutionScheduler({
+      maxConcurrentExecutions: 1,
+      maxQueueSize: 1,
+      priority: ({ message }) => (message.messageId === 'urgent' ? 1 : 0),
+    });
+
+    await scheduler.acquire(params('running'));
+    const preempted = scheduler.acquire(params('normal'));
+    const urgent = scheduler.acquire(params('urgent'));
+
+    await expect(preempted).rejects.toMatchObject({ code: -32011 });
+    expect(await settled(urgent)).to.be.false;
+    expect(scheduler.queuedCount).to.equal(1);
+  });
+
+  it('should reject executions waiting longer than maxQueueWaitMs', async () => {
+    clock = sinon.useFakeTimers();
+    const scheduler = new ExecutionScheduler({ maxConcurrentExecutions: 1, maxQueueWaitMs: 1000 });
+
+    await scheduler.acquire(params('running'));
+    const queued = scheduler.acquire(params('queued'));
+    const rejection = expect(queued).rejects.toMatchObject({ code: -32011 });
+    await clock.tickAsync(1000);
+
+    await rejection;
+    expect(scheduler.queuedCount).to.equal(0);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import sinon from 'sinon';
+
+import { ExtensionMethodRegistry } from '../../src/server/extensions/extension_method_registry.js';
+import { JsonRpcTransportHandler } from '../../src/server/transports/jsonrpc/jsonrpc_transport_handler.js';
+import { createRestHandlers } from '../../src/server/web-standard/handlers.js';
+import { A2ARequestHandler } from '../../src/server/request_handler/a2a_request_handler.js';
+import { ServerCallContext } from '../../src/server/context.js';
+import { Extensions } from '../../src/extensions.js';
+import {
+  AgentCard,
+  JSONRPCErrorResponse,
+  JSONRPCResponse,
+  JSONRPCSuccessResponse,
+} from '../../src/index.js';
+import { createMockRequestHandler, testAgentCard } from './mocks/shared_test_fixtures.js';
+
+const EXTENSION_URI = 'https://example.com/ext/counter/v1';
+
+describe('ExtensionMethodRegistry', () => {
+  let registry: ExtensionMethodRegistry;
+  let requestHandler: A2ARequestHandler;
+  let agentCard: AgentCard;
+
+  beforeEach(() => {
+    agentCard = {
+      ...testAgentCard,
+      capabilities: {
+        ...testAgentCard.capabilities,
+        streaming: true,
+        extensions: [{ uri: EXTENSION_URI }],
+      },
+    };
+    registry = new ExtensionMethodRegistry();
+    registry.register<{ id: string; by?: number }, { id: string; value: number }>({
+      extension: EXTENSION_URI,
+      method: 'counter/increment',
+      rest: { method: 'POST', pattern: '/v1/counters/:id/increment' },
+      handler: async ({ id, by = 1 }) => ({ id, value: by }),
+    });
+    registry.register<{ count: number }, number>({
+      extension: EXTENSION_URI,
+      method: 'counter/countdown',
+      streaming: true,
+      async *handler({ count }) {
+        for (let i = count; i > 0; i--) {
+          yield i;
+        }
+      },
+    });
+    requestHandler = { ...createMockRequestHandler(), extensionMethods: registry };
+    (requestHandler.getAgentCard as sinon.SinonStub).resolves(agentCard);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  const rpcRequest = (method: string, params: unknown) => ({
+    jsonrpc: '2.0',
+    id: 1,
+    method,
+    params,
+  });
+
+  const requestingContext = () =>
+    new ServerCallContext(Extensions.parseServiceParameter(EXTENSION_URI));
+
+  it('should reject core and duplicate methods', () => {
+    const handler = async (): Promise<void> => {};
+
+    expect(() =>
+      registry.register({ extension: EXTENSION_URI, method: 'message/send', handler })
+    ).to.throw('Cannot register core A2A method message/send');
+    expect(() =>
+      registry.register({ extension: EXTENSION_URI, method: 'counter/increment', handler })
+    ).to.throw('already registered');
+  });
+
+  it('should invoke JSON-RPC extension methods and activate the extension', async () => {
+    const context = requestingContext();
+    const transportHandler = new JsonRpcTransportHandler(requestHandler);
+
+    const response = (await transportHandler.handle(
+      rpcRequest('counter/increment', { id: 'c1', by: 2 }),
+      context
+    )) as JSONRPCSuccessResponse;
+
+    expect(response.result).to.deep.equal({ id: 'c1', value: 2 });
+    expect(context.activatedExtensions).to.deep.equal([EXTENSION_URI]);
+  });
+
+  it('should return method not found when the extension is not declared', async () => {
+    agentCard.capabilities.extensions = [];
+    const transportHandler = new JsonRpcTransportHandler(requestHandler);
+
+    const response = (await transportHandler.handle(
+      rpcRequest('counter/increment', { id: 'c1' }),
+      requestingContext()
+    )) as JSONRPCErrorResponse;
+
+    expect(response.error.code).to.equal(-32601);
+  });
+
+  it('should return invalid request when the extension is not requested', async () => {
+    const context = new ServerCallContext();
+    const transportHandler = new JsonRpcTransportHandler(requestHandler);
+
+    const response = (await transportHandler.handle(
+      rpcRequest('counter/increment', { id: 'c1' }),
+      context
+    )) as JSONRPCErrorResponse;
+
+    expect(response.error.code).to.equal(-32600);
+    expect(context.activatedExtensions).to.be.undefined;
+  });
+
+  it('should stream results of streaming extension methods', async () => {
+    const transportHandler = new JsonRpcTransportHandler(requestHandler);
+
+    const stream = (await transportHandler.handle(
+      rpcRequest('counter/countdown', { count: 3 }),
+      requestingContext()
+    )) as AsyncGenerator<JSONRPCResponse>;
+    const results = [];
+    for await (const response of stream) {
+      results.push((response as JSONRPCSuccessResponse).result);
+    }
+
+    expect(results).to.deep.equal([3, 2, 1]);
+  });
+
+  it('should reject streaming extension methods without streaming capability', async () => {
+    agentCard.capabilities.streaming = false;
+    const transportHandler = new JsonRpcTransportHandler(requestHandler);
+
+    const response = (await transportHandler.handle(
+      rpcRequest('counter/countdown', { count: 3 }),
+      requestingContext()
+    )) as JSONRPCErrorResponse;
+
+    expect(response.error.code).to.equal(-32004);
+  });
+
+  it('should expose extension methods on their REST routes', async () => {
+    const { handleRequest } = createRestHandlers(requestHandler);
+    const request = new Request('http://localhost/v1/counters/c1/increment', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-A2A-Extensions': EXTENSION_URI },
+      body: JSON.stringify({ by: 5 }),
+    });
+
+    const response = await handleRequest(request, '/v1/counters/c1/increment');
+
+    expect(response?.status).to.equal(200);
+    expect(response?.headers.get('X-A2A-Extensions')).to.equal(EXTENSION_URI);
+    expect(await response?.json()).to.deep.equal({ id: 'c1', value: 5 });
+  });
+
+  it('should return 400 on REST routes when the extension is not requested', async () => {
+    const { handleRequest } = createRestHandlers(requestHandler);
+    const request = new Request('http://localhost/v1/counters/c1/increment', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+
+    const response = await handleRequest(request, '/v1/counters/c1/increment');
+
+    expect(response?.status).to.equal(400);
+  });
+});
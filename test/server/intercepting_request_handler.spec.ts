@@ -0,0 +1,286 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import sinon from 'sinon';
+import { InterceptingRequestHandler } from '../../src/server/request_handler/intercepting_request_handler.js';
+import { A2ARequestHandler } from '../../src/server/request_handler/a2a_request_handler.js';
+import { ServerInterceptor } from '../../src/server/interceptors.js';
+import { JsonRpcTransportHandler } from '../../src/server/transports/jsonrpc/jsonrpc_transport_handler.js';
+import { RestTransportHandler } from '../../src/server/transports/rest/rest_transport_handler.js';
+import { ServerCallContext } from '../../src/server/context.js';
+import { A2AError } from '../../src/server/error.js';
+import { ExtensionMethodRegistry } from '../../src/server/extensions/extension_method_registry.js';
+import { JSONRPCErrorResponse, Message, MessageSendParams, Task } from '../../src/types.js';
+import { createMockRequestHandler, testAgentCard } from './mocks/shared_test_fixtures.js';
+
+const message = (text: string): Message => ({
+  kind: 'message',
+  messageId: text,
+  role: 'user',
+  parts: [{ kind: 'text', text }],
+});
+
+const task = (id: string, state: Task['status']['state']): Task => ({
+  kind: 'task',
+  id,
+  contextId: 'ctx',
+  status: { state },
+});
+
+describe('InterceptingRequestHandler', () => {
+  let requestHandler: A2ARequestHandler;
+  let calls: string[];
+
+  const recordingInterceptor = (name: string): ServerInterceptor => ({
+    before: async (args) => {
+      calls.push(`${name}.before:${args.input.method}`);
+    },
+    after: async (args) => {
+      calls.push(`${name}.after:${args.result.method}`);
+    },
+  });
+
+  beforeEach(() => {
+    requestHandler = createMockRequestHandler();
+    calls = [];
+  });
+
+  it('should run interceptors around the handler identically under JSON-RPC and REST', async () => {
+    (requestHandler.sendMessage as sinon.SinonStub).callsFake(async (params: MessageSendParams) =>
+      message(`echo ${(params.message.parts[0] as { text: string }).text}`)
+    );
+    const rewriting: ServerInterceptor = {
+      before: async (args) => {
+        if (args.input.method === 'sendMessage') {
+          args.input.value.message = message('rewritten');
+        }
+      },
+      after: async (args) => {
+        if (args.result.method === 'sendMessage') {
+          args.result.value = { ...args.result.value, metadata: { audited: true } };
+        }
+      },
+    };
+    const handler = new InterceptingRequestHandler(requestHandler, [
+      recordingInterceptor('first'),
+      rewriting,
+      recordingInterceptor('last'),
+    ]);
+    const context = new ServerCallContext();
+
+    const jsonRpcResult = await new JsonRpcTransportHandler(handler).handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'message/send',
+        params: { message: message('original') },
+      },
+      context
+    );
+    const restResult = await new RestTransportHandler(handler).sendMessage(
+      { message: message('original') },
+      context
+    );
+
+    const expected = { ...message('echo rewritten'), metadata: { audited: true } };
+    expect(jsonRpcResult).toEqual({ jsonrpc: '2.0', id: 1, result: expected });
+    expect(restResult).toEqual(expected);
+    expect((requestHandler.sendMessage as sinon.SinonStub).firstCall.args[1]).toBe(context);
+    expect(calls.slice(0, 4)).toEqual([
+      'first.before:sendMessage',
+      'last.before:sendMessage',
+      'last.after:sendMessage',
+      'first.after:sendMessage',
+    ]);
+    expect(calls.slice(4)).toEqual(calls.slice(0, 4));
+  });
+
+  it('should return early without calling the handler or the remaining interceptors', async () => {
+    const cached = task('task-1', 'completed');
+    const handler = new InterceptingRequestHandler(requestHandler, [
+      recordingInterceptor('first'),
+      {
+        before: async (args) => {
+          args.earlyReturn = { method: 'getTask', value: cached };
+        },
+        after: async () => {},
+      },
+      recordingInterceptor('last'),
+    ]);
+
+    const result = await handler.getTask({ id: 'task-1' });
+
+    expect(result).toBe(cached);
+    expect((requestHandler.getTask as sinon.SinonStub).called).toBe(false);
+    expect(calls).toEqual(['first.before:getTask', 'first.after:getTask']);
+  });
+
+  it('should reject calls with the error thrown by an interceptor', async () => {
+    const handler = new InterceptingRequestHandler(requestHandler, [
+      {
+        before: async () => {
+          throw A2AError.tooManyRequests('Quota exceeded.', 60);
+        },
+        after: async () => {},
+      },
+    ]);
+
+    const response = (await new JsonRpcTransportHandler(handler).handle({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tasks/cancel',
+      params: { id: 'task-1' },
+    })) as JSONRPCErrorResponse;
+
+    expect(response.error.code).toBe(-32011);
+    expect((requestHandler.cancelTask as sinon.SinonStub).called).toBe(false);
+  });
+
+  it('should intercept each event of a stream and end it early on request', async () => {
+    let handlerStreamClosed = false;
+    (requestHandler.resubscribe as sinon.SinonStub).callsFake(async function* () {
+      try {
+        yield task('task-1', 'working');
+        yield task('task-1', 'input-required');
+        yield task('task-1', 'completed');
+      } finally {
+        handlerStreamClosed = true;
+      }
+    });
+    const states: string[] = [];
+    const handler = new InterceptingRequestHandler(requestHandler, [
+      {
+        before: async () => {},
+        after: async (args) => {
+          if (args.result.method === 'resubscribe' && args.result.value.kind === 'task') {
+            states.push(args.result.value.status.state);
+            args.earlyReturn = args.result.value.status.state === 'input-required';
+          }
+        },
+      },
+    ]);
+
+    const events = [];
+    for await (const event of handler.resubscribe({ id: 'task-1' })) {
+      events.push(event);
+    }
+
+    expect(states).toEqual(['working', 'input-required']);
+    expect(events).toHaveLength(2);
+    expect(handlerStreamClosed).toBe(true);
+  });
+
+  describe('extension methods', () => {
+    const extension = 'https://example.com/ext/echo/v1';
+    let context: ServerCallContext;
+
+    beforeEach(() => {
+      const extensionMethods = new ExtensionMethodRegistry()
+        .register({
+          extension,
+          method: 'echo/send',
+          rest: { method: 'POST', pattern: '/v1/echo' },
+          handler: async (params) => params,
+        })
+        .register({
+          extension,
+          method: 'echo/stream',
+          streaming: true,
+          handler: async function* (params: { count: number }) {
+            for (let i = 1; i <= params.count; i++) {
+              yield i;
+            }
+          },
+        });
+      requestHandler = { ...requestHandler, extensionMethods };
+      (requestHandler.getAgentCard as sinon.SinonStub).resolves({
+        ...testAgentCard,
+        capabilities: { ...testAgentCard.capabilities, extensions: [{ uri: extension }] },
+      });
+      context = new ServerCallContext([extension]);
+    });
+
+    it('should intercept extension methods under JSON-RPC and REST', async () => {
+      const rewriting: ServerInterceptor = {
+        before: async (args) => {
+          if (args.input.method === 'invokeExtensionMethod') {
+            args.input.value.params = { rewritten: args.input.value.definition.method };
+          }
+        },
+        after: async (args) => {
+          if (args.result.method === 'invokeExtensionMethod') {
+            args.result.value = { audited: args.result.value };
+          }
+        },
+      };
+      const handler = new InterceptingRequestHandler(requestHandler, [
+        recordingInterceptor('first'),
+        rewriting,
+      ]);
+
+      const jsonRpcResult = await new JsonRpcTransportHandler(handler).handle(
+        { jsonrpc: '2.0', id: 1, method: 'echo/send', params: { original: true } },
+        context
+      );
+      const restResult = await new RestTransportHandler(handler).callExtensionMethod(
+        handler.extensionMethods!.matchRestRoute('POST', '/v1/echo')!,
+        {},
+        { original: true },
+        context
+      );
+
+      const expected = { audited: { rewritten: 'echo/send' } };
+      expect(jsonRpcResult).toMatchObject({ result: expected });
+      expect(restResult.result).toEqual(expected);
+      expect(calls).toEqual([
+        'first.before:invokeExtensionMethod',
+        'first.after:invokeExtensionMethod',
+        'first.before:invokeExtensionMethod',
+        'first.after:invokeExtensionMethod',
+      ]);
+    });
+
+    it('should intercept each event of streaming extension methods', async () => {
+      const handler = new InterceptingRequestHandler(requestHandler, [
+        {
+          before: async () => {},
+          after: async (args) => {
+            if (args.result.method === 'invokeExtensionMethod') {
+              args.result.value = (args.result.value as number) * 10;
+            }
+          },
+        },
+      ]);
+      const definition = handler.extensionMethods!.get('echo/stream')!;
+
+      const events = (await handler.extensionMethods!.invoke(
+        definition,
+        { count: 3 },
+        context,
+        await handler.getAgentCard()
+      )) as AsyncGenerator<unknown>;
+      const results = [];
+      for await (const event of events) {
+        results.push(event);
+      }
+
+      expect(results).toEqual([10, 20, 30]);
+    });
+
+    it('should reject extension method calls with the error thrown by an interceptor', async () => {
+      const handler = new InterceptingRequestHandler(requestHandler, [
+        {
+          before: async () => {
+            throw A2AError.tooManyRequests('Quota exceeded.', 60);
+          },
+          after: async () => {},
+        },
+      ]);
+
+      const response = (await new JsonRpcTransportHandler(handler).handle(
+        { jsonrpc: '2.0', id: 1, method: 'echo/stream', params: { count: 3 } },
+        context
+      )) as JSONRPCErrorResponse;
+
+      expect(response.error.code).toBe(-32011);
+    });
+  });
+});
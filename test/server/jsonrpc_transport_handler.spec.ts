@@ -3,7 +3,7 @@ import sinon from 'sinon';
 
 import { JsonRpcTransportHandler } from '../../src/server/transports/jsonrpc/jsonrpc_transport_handler.js';
 import { A2ARequestHandler } from '../../src/server/request_handler/a2a_request_handler.js';
-import { JSONRPCErrorResponse, JSONRPCRequest } from '../../src/index.js';
+import { JSONRPCErrorResponse, JSONRPCRequest, ListTasksResult } from '../../src/index.js';
 
 describe('JsonRpcTransportHandler', () => {
   let mockRequestHandler: A2ARequestHandler;
@@ -17,6 +17,7 @@ describe('JsonRpcTransportHandler', () => {
       sendMessageStream: sinon.stub(),
       getTask: sinon.stub(),
       cancelTask: sinon.stub(),
+      listTasks: sinon.stub(),
       setTaskPushNotificationConfig: sinon.stub(),
       getTaskPushNotificationConfig: sinon.stub(),
       listTaskPushNotificationConfigs: sinon.stub(),
@@ -161,4 +162,22 @@ describe('JsonRpcTransportHandler', () => {
       expect(response).to.have.property('result');
     });
   });
+
+  describe('tasks/list', () => {
+    it('should route to listTasks and return the page as result', async () => {
+      const page: ListTasksResult = { tasks: [], nextPageToken: 'next' };
+      (mockRequestHandler.listTasks as sinon.SinonStub).resolves(page);
+      const params = { contextId: 'ctx-1', pageSize: 10 };
+
+      const response = await transportHandler.handle({
+        jsonrpc: '2.0',
+        method: 'tasks/list',
+        id: 1,
+        params,
+      });
+
+      expect(response).to.deep.equal({ jsonrpc: '2.0', id: 1, result: page });
+      expect((mockRequestHandler.listTasks as sinon.SinonStub).calledOnceWith(params)).to.be.true;
+    });
+  });
 });
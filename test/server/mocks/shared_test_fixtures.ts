@@ -39,6 +39,7 @@ export function createMockRequestHandler(): A2ARequestHandler {
     sendMessageStream: sinon.stub(),
     getTask: sinon.stub(),
     cancelTask: sinon.stub(),
+    listTasks: sinon.stub(),
     setTaskPushNotificationConfig: sinon.stub(),
     getTaskPushNotificationConfig: sinon.stub(),
     listTaskPushNotificationConfigs: sinon.stub(),
@@ -0,0 +1,26 @@
+import { Database } from 'sql.js';
+import { SqlDriver, SqlValue } from '../../../src/server/sql_task_store.js';
+
+/**
+ * A `SqlDriver` over an in-memory sql.js database, for testing `SqlTaskStore`.
+ */
+export function sqlJsDriver(db: Database): SqlDriver {
+  return {
+    async run(sql, params = []) {
+      db.run(sql, params);
+    },
+    async all<TRow extends Record<string, unknown>>(sql: string, params: SqlValue[] = []) {
+      const statement = db.prepare(sql);
+      try {
+        statement.bind(params);
+        const rows: TRow[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject() as TRow);
+        }
+        return rows;
+      } finally {
+        statement.free();
+      }
+    },
+  };
+}
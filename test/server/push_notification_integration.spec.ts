@@ -9,6 +9,7 @@ import { InMemoryTaskStore } from '../../src/server/store.js';
 import { InMemoryPushNotificationStore } from '../../src/server/push_notification/push_notification_store.js';
 import { DefaultPushNotificationSender } from '../../src/server/push_notification/default_push_notification_sender.js';
 import { DefaultExecutionEventBusManager } from '../../src/server/events/execution_event_bus_manager.js';
+import { DefaultPushNotificationUrlValidator } from '../../src/server/push_notification/push_notification_url_validator.js';
 import {
   AgentCard,
   Message,
@@ -18,6 +19,9 @@ import {
 } from '../../src/index.js';
 import { fakeTaskExecute, MockAgentExecutor } from './mocks/agent-executor.mock.js';
 
+// The test webhook server listens on localhost, which the default URL policy blocks.
+const urlValidator = new DefaultPushNotificationUrlValidator({ allowedHosts: ['localhost'] });
+
 describe('Push Notification Integration Tests', () => {
   let testServer: Server;
   let testServerUrl: string;
@@ -116,7 +120,9 @@ describe('Push Notification Integration Tests', () => {
     mockAgentExecutor = new MockAgentExecutor();
     const executionEventBusManager = new DefaultExecutionEventBusManager();
     pushNotificationStore = new InMemoryPushNotificationStore();
-    pushNotificationSender = new DefaultPushNotificationSender(pushNotificationStore);
+    pushNotificationSender = new DefaultPushNotificationSender(pushNotificationStore, {
+      urlValidator,
+    });
 
     handler = new DefaultRequestHandler(
       testAgentCard,
@@ -124,7 +130,9 @@ describe('Push Notification Integration Tests', () => {
       mockAgentExecutor,
       executionEventBusManager,
       pushNotificationStore,
-      pushNotificationSender
+      pushNotificationSender,
+      undefined,
+      { pushNotificationUrlValidator: urlValidator }
     );
   });
 
@@ -319,6 +327,23 @@ describe('Push Notification Integration Tests', () => {
     });
 
     it('should complete task successfully even when push notification endpoint returns an error', async () => {
+      const deadLetters: Task[] = [];
+      handler = new DefaultRequestHandler(
+        testAgentCard,
+        taskStore,
+        mockAgentExecutor,
+        new DefaultExecutionEventBusManager(),
+        pushNotificationStore,
+        new DefaultPushNotificationSender(pushNotificationStore, {
+          urlValidator,
+          retry: { maxAttempts: 2, initialDelayMs: 100, jitter: 0 },
+          onDeadLetter: (delivery) => {
+            deadLetters.push(delivery.task);
+          },
+        }),
+        undefined,
+        { pushNotificationUrlValidator: urlValidator }
+      );
       const pushConfig: PushNotificationConfig = {
         id: 'error-endpoint-config',
         url: `${testServerUrl}/notify/error`,
@@ -347,8 +372,8 @@ describe('Push Notification Integration Tests', () => {
       const result = await handler.sendMessage(params);
       const task = result as Task;
 
-      // Wait for async push notifications to be sent
-      await new Promise((resolve) => setTimeout(resolve, 200));
+      // Wait for async push notifications and their retry to be sent
+      await new Promise((resolve) => setTimeout(resolve, 400));
 
       // Load the task from the store
       const expectedTaskResult: Task = {
@@ -362,13 +387,17 @@ describe('Push Notification Integration Tests', () => {
       // Verify the task payload
       assert.deepEqual(task, expectedTaskResult);
 
-      // Verify the error endpoint was hit
+      // Verify the error endpoint was hit, and only the latest notification was retried
       const errorNotifications = receivedNotifications.filter((n) => n.url === '/notify/error');
-      assert.lengthOf(
-        errorNotifications,
-        3,
+      assert.deepEqual(
+        errorNotifications.map((n) => n.body.status.state),
+        ['submitted', 'working', 'completed', 'completed'],
         'Should have attempted to send notifications to error endpoint'
       );
+      assert.deepEqual(
+        deadLetters.map((t) => t.status.state),
+        ['completed']
+      );
     });
   });
 
@@ -441,6 +470,7 @@ describe('Push Notification Integration Tests', () => {
       const customPushNotificationSender = new DefaultPushNotificationSender(
         pushNotificationStore,
         {
+          urlValidator,
           tokenHeaderName: 'X-Custom-Auth-Token',
         }
       );
@@ -451,7 +481,9 @@ describe('Push Notification Integration Tests', () => {
         mockAgentExecutor,
         new DefaultExecutionEventBusManager(),
         pushNotificationStore,
-        customPushNotificationSender
+        customPushNotificationSender,
+        undefined,
+        { pushNotificationUrlValidator: urlValidator }
       );
 
       const pushConfig: PushNotificationConfig = {
@@ -587,6 +619,7 @@ describe('Push Notification Integration Tests', () => {
       const customPushNotificationSender = new DefaultPushNotificationSender(
         pushNotificationStore,
         {
+          urlValidator,
           tokenHeaderName: 'X-Custom-Token',
         }
       );
@@ -597,7 +630,9 @@ describe('Push Notification Integration Tests', () => {
         mockAgentExecutor,
         new DefaultExecutionEventBusManager(),
         pushNotificationStore,
-        customPushNotificationSender
+        customPushNotificationSender,
+        undefined,
+        { pushNotificationUrlValidator: urlValidator }
       );
 
       const pushConfig1: PushNotificationConfig = {
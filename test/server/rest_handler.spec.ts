@@ -72,6 +72,7 @@ describe('restHandler', () => {
       sendMessageStream: sinon.stub(),
       getTask: sinon.stub(),
       cancelTask: sinon.stub(),
+      listTasks: sinon.stub(),
       setTaskPushNotificationConfig: sinon.stub(),
       getTaskPushNotificationConfig: sinon.stub(),
       listTaskPushNotificationConfigs: sinon.stub(),
@@ -158,6 +159,31 @@ describe('restHandler', () => {
 
       await request(app).post('/v1/message:send').send({ message: null }).expect(400);
     });
+
+    it('should return 429 with Retry-After when too many executions are running', async () => {
+      (mockRequestHandler.sendMessage as SinonStub).rejects(
+        A2AError.tooManyRequests('Too many executions are waiting, try again later.', 3)
+      );
+
+      const response = await request(app)
+        .post('/v1/message:send')
+        .send({ message: testMessage })
+        .expect(429);
+
+      assert.equal(response.headers['retry-after'], '3');
+      assert.equal(response.body.code, -32011);
+    });
+
+    it('should return 503 when the server is shutting down', async () => {
+      (mockRequestHandler.sendMessage as SinonStub).rejects(A2AError.serverShuttingDown());
+
+      const response = await request(app)
+        .post('/v1/message:send')
+        .send({ message: testMessage })
+        .expect(503);
+
+      assert.equal(response.body.code, -32012);
+    });
   });
 
   describe('POST /v1/message:stream', () => {
@@ -190,6 +216,21 @@ describe('restHandler', () => {
       assert.equal(response.headers['content-type'], 'text/event-stream');
     });
 
+    it('should return 429 with Retry-After before streaming when rejected', async () => {
+      // eslint-disable-next-line require-yield
+      async function* mockStream() {
+        throw A2AError.tooManyRequests('Too many executions are waiting, try again later.', 1);
+      }
+      (mockRequestHandler.sendMessageStream as SinonStub).resolves(mockStream());
+
+      const response = await request(app)
+        .post('/v1/message:stream')
+        .send({ message: testMessage })
+        .expect(429);
+
+      assert.equal(response.headers['retry-after'], '1');
+    });
+
     it('should return 400 if streaming is not supported', async () => {
       const noStreamRequestHandler = {
         ...mockRequestHandler,
@@ -213,6 +254,41 @@ describe('restHandler', () => {
     });
   });
 
+  describe('GET /v1/tasks', () => {
+    it('should list tasks with 200 OK', async () => {
+      const page = { tasks: [testTask], nextPageToken: 'next' };
+      (mockRequestHandler.listTasks as SinonStub).resolves(page);
+
+      const response = await request(app).get('/v1/tasks').expect(200);
+
+      assert.deepEqual(response.body, page);
+      assert.isTrue((mockRequestHandler.listTasks as SinonStub).calledWith({}));
+    });
+
+    it('should accept camelCase and snake_case query parameters', async () => {
+      (mockRequestHandler.listTasks as SinonStub).resolves({ tasks: [] });
+
+      await request(app)
+        .get('/v1/tasks?context_id=ctx-1&status=working&pageSize=10&page_token=abc&historyLength=2')
+        .expect(200);
+      await request(app).get('/v1/tasks?lastUpdatedAfter=2025-01-01T00:00:00.000Z').expect(200);
+
+      const stub = mockRequestHandler.listTasks as SinonStub;
+      assert.deepEqual(stub.firstCall.args[0], {
+        contextId: 'ctx-1',
+        status: 'working',
+        pageSize: 10,
+        pageToken: 'abc',
+        historyLength: 2,
+      });
+      assert.deepEqual(stub.secondCall.args[0], { lastUpdatedAfter: 1735689600000 });
+    });
+
+    it('should return 400 if pageSize is invalid', async () => {
+      await request(app).get('/v1/tasks?pageSize=ten').expect(400);
+    });
+  });
+
   describe('GET /v1/tasks/:taskId', () => {
     it('should return task with 200 OK', async () => {
       (mockRequestHandler.getTask as SinonStub).resolves(testTask);
@@ -241,6 +317,20 @@ describe('restHandler', () => {
       await request(app).get('/v1/tasks/task-1?historyLength=invalid').expect(400);
     });
 
+    it('should support stateTransitionHistoryLength query parameter', async () => {
+      (mockRequestHandler.getTask as SinonStub).resolves(testTask);
+
+      await request(app).get('/v1/tasks/task-1?stateTransitionHistoryLength=3').expect(200);
+      await request(app).get('/v1/tasks/task-1?stateTransitionHistoryLength=-1').expect(400);
+
+      assert.isTrue(
+        (mockRequestHandler.getTask as SinonStub).calledOnceWith({
+          id: 'task-1',
+          stateTransitionHistoryLength: 3,
+        })
+      );
+    });
+
     it('should return 404 if task is not found', async () => {
       (mockRequestHandler.getTask as SinonStub).rejects(A2AError.taskNotFound('task-1'));
 
@@ -296,6 +386,20 @@ describe('restHandler', () => {
       assert.isTrue((mockRequestHandler.resubscribe as SinonStub).calledWith({ id: 'task-1' }));
     });
 
+    it('should pass the Last-Event-ID header to resume the stream', async () => {
+      async function* mockStream() {
+        yield testTask;
+      }
+
+      (mockRequestHandler.resubscribe as SinonStub).resolves(mockStream());
+
+      await request(app).post('/v1/tasks/task-1:subscribe').set('Last-Event-ID', '7').expect(200);
+
+      assert.isTrue(
+        (mockRequestHandler.resubscribe as SinonStub).calledWith({ id: 'task-1', lastEventId: '7' })
+      );
+    });
+
     it('should return 400 if streaming is not supported', async () => {
       // Create new app with handler that has capabilities without streaming
       const noStreamRequestHandler = {
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  SecuritySchemeUser,
+  SecuritySchemeVerifier,
+  authenticateRequest,
+  createRequestCredentials,
+} from '../../src/server/authentication/security_schemes.js';
+import { base64UrlEncode } from '../../src/agent_card_signature.js';
+import { A2AError } from '../../src/server/error.js';
+import { AgentCard } from '../../src/types.js';
+import { testAgentCard } from './mocks/shared_test_fixtures.js';
+
+const agentCard: AgentCard = {
+  ...testAgentCard,
+  securitySchemes: {
+    bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    apiKey: { type: 'apiKey', in: 'cookie', name: 'api_key' },
+    basic: { type: 'http', scheme: 'basic' },
+  },
+  security: [{ bearer: ['tasks:write'] }, { apiKey: [] }],
+  skills: [
+    { id: 'echo', name: 'Echo', description: 'Echoes messages', tags: [] },
+    {
+      id: 'reports',
+      name: 'Reports',
+      description: 'Reads reports',
+      tags: [],
+      security: [{ basic: [] }],
+    },
+  ],
+};
+
+const encodeJson = (value: unknown) =>
+  base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+const credentialsOf = (headers: Record<string, string>) =>
+  createRequestCredentials(
+    (name) => headers[name.toLowerCase()],
+    () => undefined
+  );
+
+describe('security schemes', () => {
+  let privateKey: CryptoKey;
+  let verifiers: Record<string, SecuritySchemeVerifier>;
+
+  const signJwt = async (claims: Record<string, unknown>) => {
+    const signingInput = `${encodeJson({ alg: 'ES256', kid: 'k1' })}.${encodeJson(claims)}`;
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      new TextEncoder().encode(signingInput)
+    );
+    return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+  };
+
+  const authenticate = (headers: Record<string, string>) =>
+    authenticateRequest(agentCard, verifiers, credentialsOf(headers));
+
+  const expectChallenges = async (headers: Record<string, string>, challenges: string[]) => {
+    const error = await authenticate(headers).catch((e) => e);
+    expect(error).toBeInstanceOf(A2AError);
+    expect(error.code).toBe(-32013);
+    expect(error.data).toEqual({ challenges });
+  };
+
+  beforeAll(async () => {
+    const keyPair = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair;
+    privateKey = keyPair.privateKey;
+    const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    verifiers = {
+      bearer: SecuritySchemeVerifier.bearerJwt({
+        jwks: { keys: [{ ...publicKey, kid: 'k1' }] },
+        issuer: 'https://issuer.example.com',
+        audience: 'test-agent',
+      }),
+      apiKey: SecuritySchemeVerifier.apiKey(async (key) =>
+        key === 'secret-key' ? { userName: 'service' } : undefined
+      ),
+      basic: SecuritySchemeVerifier.basic(
+        async (userName, password) => userName === 'alice' && password === 'p:ss'
+      ),
+    };
+  });
+
+  const validClaims = () => ({
+    sub: 'user-1',
+    iss: 'https://issuer.example.com',
+    aud: ['test-agent'],
+    exp: Math.floor(Date.now() / 1000) + 60,
+    scope: 'tasks:read tasks:write',
+  });
+
+  it('should authenticate a bearer JWT with the required scopes', async () => {
+    const token = await signJwt(validClaims());
+
+    const user = await authenticate({ authorization: `Bearer ${token}` });
+
+    expect(user).toBeInstanceOf(SecuritySchemeUser);
+    expect(user.userName).toBe('user-1');
+    expect((user as SecuritySchemeUser).scopes).toEqual(['tasks:read', 'tasks:write']);
+    expect((user as SecuritySchemeUser).authorizedSkills).toEqual(['echo']);
+  });
+
+  it('should reject expired, misaddressed, tampered or under-scoped tokens', async () => {
+    const tokens = [
+      await signJwt({ ...validClaims(), exp: Math.floor(Date.now() / 1000) - 60 }),
+      await signJwt({ ...validClaims(), aud: 'other-agent' }),
+      await signJwt({ ...validClaims(), scope: 'tasks:read' }),
+      (await signJwt(validClaims())).replace(/\.[^.]+\./, `.${encodeJson({ sub: 'admin' })}.`),
+    ];
+
+    for (const token of tokens) {
+      await expectChallenges({ authorization: `Bearer ${token}` }, [
+        'Bearer realm="Test Agent", error="invalid_token"',
+      ]);
+    }
+  });
+
+  it('should authenticate an API key from a cookie', async () => {
+    const user = await authenticate({ cookie: 'theme=dark; api_key=secret-key' });
+
+    expect(user.isAuthenticated).toBe(true);
+    expect(user.userName).toBe('service');
+  });
+
+  it('should narrow the skills of a user with their requirements', async () => {
+    const user = await authenticate({
+      cookie: 'api_key=secret-key',
+      authorization: `Basic ${btoa('alice:p:ss')}`,
+    });
+
+    expect((user as SecuritySchemeUser).canUseSkill('reports')).toBe(true);
+    expect((user as SecuritySchemeUser).canUseSkill('echo')).toBe(true);
+  });
+
+  it('should reject users satisfying only the requirements of a skill', async () => {
+    await expectChallenges({ authorization: `Basic ${btoa('alice:p:ss')}` }, [
+      'Bearer realm="Test Agent"',
+    ]);
+  });
+
+  it('should challenge requests without valid credentials', async () => {
+    await expectChallenges({}, ['Bearer realm="Test Agent"']);
+    await expectChallenges({ authorization: `Basic ${btoa('alice:wrong')}` }, [
+      'Bearer realm="Test Agent"',
+    ]);
+  });
+
+  it('should challenge Basic credentials when the card requires them', async () => {
+    const error = await authenticateRequest(
+      { ...agentCard, security: [{ basic: [] }] },
+      verifiers,
+      credentialsOf({})
+    ).catch((e) => e);
+
+    expect(error.data).toEqual({ challenges: ['Basic realm="Test Agent", charset="UTF-8"'] });
+  });
+
+  it('should return an unauthenticated user when the card requires no security', async () => {
+    const user = await authenticateRequest(
+      { ...testAgentCard, securitySchemes: agentCard.securitySchemes },
+      verifiers,
+      credentialsOf({})
+    );
+
+    expect(user.isAuthenticated).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, afterEach, expect, vi } from 'vitest';
+import { InMemoryTaskEventJournal } from '../../src/server/events/task_event_journal.js';
+import { TaskStatusUpdateEvent } from '../../src/types.js';
+
+const statusUpdate = (taskId: string, final = false): TaskStatusUpdateEvent => ({
+  kind: 'status-update',
+  taskId,
+  contextId: 'ctx-1',
+  status: { state: final ? 'completed' : 'working' },
+  final,
+});
+
+describe('InMemoryTaskEventJournal', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the events recorded after the given ID, in order', async () => {
+    const journal = new InMemoryTaskEventJournal();
+    const first = journal.append('task-1', statusUpdate('task-1'));
+    journal.append('task-2', statusUpdate('task-2'));
+    const second = journal.append('task-1', statusUpdate('task-1'));
+    const third = journal.append('task-1', statusUpdate('task-1', true));
+
+    const entries = await journal.readAfter('task-1', first);
+
+    expect(entries?.map((entry) => entry.id)).to.deep.equal([second, third]);
+    expect(entries?.[1].event).to.deep.equal(statusUpdate('task-1', true));
+    expect(await journal.readAfter('task-1', third)).to.deep.equal([]);
+  });
+
+  it('should return undefined for unknown tasks and event IDs', async () => {
+    const journal = new InMemoryTaskEventJournal();
+    const id = journal.append('task-1', statusUpdate('task-1'));
+
+    expect(await journal.readAfter('task-2', id)).to.be.undefined;
+    expect(await journal.readAfter('task-1', 'unknown')).to.be.undefined;
+  });
+
+  it('should record events under the IDs assigned by other journals', async () => {
+    const owner = new InMemoryTaskEventJournal();
+    const relay = new InMemoryTaskEventJournal();
+    const first = owner.append('task-1', statusUpdate('task-1'));
+    const second = owner.append('task-1', statusUpdate('task-1', true));
+    relay.append('task-1', statusUpdate('task-1'));
+
+    relay.record('task-1', { id: first, event: statusUpdate('task-1') });
+    relay.record('task-1', { id: second, event: statusUpdate('task-1', true) });
+
+    expect(first).to.not.equal(relay.append('task-2', statusUpdate('task-2')));
+    expect((await relay.readAfter('task-1', first))?.map((entry) => entry.id)).to.deep.equal([
+      second,
+    ]);
+  });
+
+  it('should evict the oldest events beyond maxEventsPerTask', async () => {
+    const journal = new InMemoryTaskEventJournal({ maxEventsPerTask: 2 });
+    const first = journal.append('task-1', statusUpdate('task-1'));
+    const second = journal.append('task-1', statusUpdate('task-1'));
+    const third = journal.append('task-1', statusUpdate('task-1'));
+
+    expect(await journal.readAfter('task-1', first)).to.be.undefined;
+    expect((await journal.readAfter('task-1', second))?.map((entry) => entry.id)).to.deep.equal([
+      third,
+    ]);
+  });
+
+  it('should expire journals after retentionMs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const journal = new InMemoryTaskEventJournal({ retentionMs: 1000 });
+    const id = journal.append('task-1', statusUpdate('task-1'));
+
+    vi.advanceTimersByTime(500);
+    expect(await journal.readAfter('task-1', id)).to.deep.equal([]);
+
+    vi.advanceTimersByTime(1000);
+    expect(await journal.readAfter('task-1', id)).to.be.undefined;
+  });
+});
@@ -0,0 +1,322 @@
+import { describe, it, beforeEach, afterEach, expect, beforeAll, vi } from 'vitest';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import {
+  InMemoryTaskStore,
+  TaskStore,
+  TaskVersionConflictError,
+  updateVersionedTask,
+} from '../../src/server/store.js';
+import { A2AError } from '../../src/server/error.js';
+import { SqlDriver, SqlTaskStore } from '../../src/server/sql_task_store.js';
+import { ServerCallContext } from '../../src/server/context.js';
+import { User } from '../../src/server/authentication/user.js';
+import { Task } from '../../src/types.js';
+import { sqlJsDriver } from './mocks/sql_js_driver.js';
+
+let SQL: SqlJsStatic;
+
+class TestUser implements User {
+  constructor(private readonly name: string) {}
+
+  get isAuthenticated(): boolean {
+    return true;
+  }
+
+  get userName(): string {
+    return this.name;
+  }
+}
+
+function createTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    kind: 'task',
+    id,
+    contextId: 'ctx-1',
+    status: { state: 'working', timestamp: '2025-01-01T00:00:00.000Z' },
+    history: [
+      {
+        kind: 'message',
+        messageId: `${id}-msg-1`,
+        role: 'user',
+        parts: [{ kind: 'text', text: 'hello' }],
+        taskId: id,
+        contextId: 'ctx-1',
+      },
+    ],
+    artifacts: [
+      {
+        artifactId: `${id}-artifact-1`,
+        parts: [{ kind: 'data', data: { answer: 42 } }],
+      },
+    ],
+    metadata: { source: 'test' },
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+const stores: [string, () => TaskStore][] = [
+  ['InMemoryTaskStore', () => new InMemoryTaskStore()],
+  ['SqlTaskStore', () => new SqlTaskStore(sqlJsDriver(new SQL.Database()))],
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  let store: TaskStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('should return undefined for unknown tasks', async () => {
+    expect(await store.load('missing')).to.be.undefined;
+  });
+
+  it('should round-trip tasks including history and artifacts', async () => {
+    const task = createTask('task-1');
+
+    await store.save(task);
+
+    expect(await store.load('task-1')).to.deep.equal(task);
+  });
+
+  it('should overwrite existing tasks', async () => {
+    await store.save(createTask('task-1'));
+    const updated = createTask('task-1', { status: { state: 'completed' } });
+
+    await store.save(updated);
+
+    expect(await store.load('task-1')).to.deep.equal(updated);
+  });
+
+  it('should keep tasks independent of each other', async () => {
+    const task1 = createTask('task-1');
+    const task2 = createTask('task-2', { contextId: 'ctx-2' });
+
+    await store.save(task1);
+    await store.save(task2);
+
+    expect(await store.load('task-1')).to.deep.equal(task1);
+    expect(await store.load('task-2')).to.deep.equal(task2);
+  });
+
+  it('should not be affected by mutations of saved or loaded objects', async () => {
+    const task = createTask('task-1');
+    await store.save(task);
+
+    task.status = { state: 'failed' };
+    const loaded = await store.load('task-1');
+    loaded!.status = { state: 'canceled' };
+
+    expect((await store.load('task-1'))!.status.state).to.equal('working');
+  });
+
+  describe('list', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const saveAt = async (time: number, task: Task) => {
+      vi.setSystemTime(time);
+      await store.save(task);
+    };
+
+    it('should return tasks most recently updated first, paginated', async () => {
+      await saveAt(1000, createTask('task-a'));
+      await saveAt(2000, createTask('task-b'));
+      await saveAt(2000, createTask('task-c'));
+      await saveAt(3000, createTask('task-a'));
+
+      const page1 = await store.list!({ pageSize: 2 });
+      expect(page1.tasks.map((t) => t.id)).to.deep.equal(['task-a', 'task-b']);
+      expect(page1.nextPageToken).to.be.a('string');
+
+      const page2 = await store.list!({ pageSize: 2, pageToken: page1.nextPageToken });
+      expect(page2.tasks.map((t) => t.id)).to.deep.equal(['task-c']);
+      expect(page2.nextPageToken).to.be.undefined;
+    });
+
+    it('should filter by context, status and update time', async () => {
+      await saveAt(1000, createTask('task-a'));
+      await saveAt(2000, createTask('task-b', { contextId: 'ctx-2' }));
+      await saveAt(3000, createTask('task-c', { status: { state: 'completed' } }));
+
+      const byContext = await store.list!({ pageSize: 10, contextId: 'ctx-2' });
+      const byStatus = await store.list!({ pageSize: 10, status: 'working' });
+      const byTime = await store.list!({ pageSize: 10, lastUpdatedAfter: 1000 });
+
+      expect(byContext.tasks.map((t) => t.id)).to.deep.equal(['task-b']);
+      expect(byStatus.tasks.map((t) => t.id)).to.deep.equal(['task-b', 'task-a']);
+      expect(byTime.tasks.map((t) => t.id)).to.deep.equal(['task-c', 'task-b']);
+    });
+
+    it('should reject malformed page tokens', async () => {
+      await expect(store.list!({ pageSize: 10, pageToken: 'not-a-token' })).rejects.toBeInstanceOf(
+        A2AError
+      );
+    });
+  });
+});
+
+describe('InMemoryTaskStore versioning', () => {
+  let store: InMemoryTaskStore;
+
+  beforeEach(() => {
+    store = new InMemoryTaskStore();
+  });
+
+  it('should increment the version on each save', async () => {
+    const task = createTask('task-1');
+
+    const created = await store.saveVersioned(task, 0);
+    await store.save(task);
+
+    expect(created).to.equal(1);
+    expect((await store.loadVersioned('task-1'))?.version).to.equal(2);
+    expect(await store.loadVersioned('missing')).to.be.undefined;
+  });
+
+  it('should reject saves with a stale version', async () => {
+    await store.saveVersioned(createTask('task-1'), 0);
+    await store.saveVersioned(createTask('task-1'), 1);
+
+    const error = await store.saveVersioned(createTask('task-1'), 1).catch((e) => e);
+
+    expect(error).to.be.instanceOf(TaskVersionConflictError);
+    expect(error).to.include({ taskId: 'task-1', expectedVersion: 1, actualVersion: 2 });
+    expect(await store.saveVersioned(createTask('task-2'), 1).catch((e) => e)).to.be.instanceOf(
+      TaskVersionConflictError
+    );
+  });
+
+  it('should retry updates on the latest version after a conflict', async () => {
+    await store.save(createTask('task-1'));
+    let attempts = 0;
+
+    const result = await updateVersionedTask(store, 'task-1', async (latest) => {
+      attempts++;
+      if (attempts === 1) {
+        // Another writer saves the task between the load and the save.
+        await store.save({ ...latest!, metadata: { concurrent: true } });
+      }
+      return { ...latest!, status: { state: 'completed' } };
+    });
+
+    expect(attempts).to.equal(2);
+    expect(result.version).to.equal(3);
+    expect(await store.load('task-1')).to.deep.include({
+      status: { state: 'completed' },
+      metadata: { concurrent: true },
+    });
+  });
+
+  it('should give up after too many conflicts', async () => {
+    await store.save(createTask('task-1'));
+
+    const error = await updateVersionedTask(store, 'task-1', async (latest) => {
+      await store.save(latest!);
+      return latest!;
+    }).catch((e) => e);
+
+    expect(error).to.be.instanceOf(TaskVersionConflictError);
+  });
+});
+
+describe('SqlTaskStore', () => {
+  let db: Database;
+  let driver: SqlDriver;
+
+  beforeEach(() => {
+    db = new SQL.Database();
+    driver = sqlJsDriver(db);
+  });
+
+  it('should persist tasks across store instances', async () => {
+    const task = createTask('task-1');
+    await new SqlTaskStore(driver).save(task);
+
+    const reopened = new SQL.Database(db.export());
+    const restarted = new SqlTaskStore(sqlJsDriver(reopened));
+
+    expect(await restarted.load('task-1')).to.deep.equal(task);
+  });
+
+  it('should scope tasks per user when scopeByUser is enabled', async () => {
+    const store = new SqlTaskStore(driver, { scopeByUser: true });
+    const alice = new ServerCallContext(undefined, new TestUser('alice'));
+    const bob = new ServerCallContext(undefined, new TestUser('bob'));
+    const task = createTask('task-1');
+
+    await store.save(task, alice);
+
+    expect(await store.load('task-1', alice)).to.deep.equal(task);
+    expect(await store.load('task-1', bob)).to.be.undefined;
+    expect(await store.load('task-1')).to.be.undefined;
+    expect((await store.list({ pageSize: 10 }, alice)).tasks).to.deep.equal([task]);
+    expect((await store.list({ pageSize: 10 }, bob)).tasks).to.deep.equal([]);
+  });
+
+  it('should list the tasks of all users with allUsers', async () => {
+    const store = new SqlTaskStore(driver, { scopeByUser: true });
+    const aliceTask = createTask('task-1');
+    const bobTask = createTask('task-2');
+
+    await store.save(aliceTask, new ServerCallContext(undefined, new TestUser('alice')));
+    await store.save(bobTask, new ServerCallContext(undefined, new TestUser('bob')));
+
+    const { tasks } = await store.list({ pageSize: 10, allUsers: true });
+    expect(tasks.map((task) => task.id)).to.have.members(['task-1', 'task-2']);
+  });
+
+  it('should share tasks between users by default', async () => {
+    const store = new SqlTaskStore(driver);
+    const alice = new ServerCallContext(undefined, new TestUser('alice'));
+    const bob = new ServerCallContext(undefined, new TestUser('bob'));
+    const task = createTask('task-1');
+
+    await store.save(task, alice);
+
+    expect(await store.load('task-1', bob)).to.deep.equal(task);
+  });
+
+  it('should use a custom table name', async () => {
+    const store = new SqlTaskStore(driver, { tableName: 'agent_tasks' });
+
+    await store.save(createTask('task-1'));
+
+    const rows = await driver.all<{ id: string; state: string }>(
+      'SELECT id, state FROM agent_tasks'
+    );
+    expect(rows).to.deep.equal([{ id: 'task-1', state: 'working' }]);
+  });
+
+  it('should reject invalid table names', () => {
+    expect(() => new SqlTaskStore(driver, { tableName: 'tasks; DROP TABLE x' })).to.throw(
+      'Invalid table name'
+    );
+  });
+
+  it('should retry schema creation after a failure', async () => {
+    let failures = 1;
+    const flakyDriver: SqlDriver = {
+      run: async (sql, params) => {
+        if (failures > 0) {
+          failures--;
+          throw new Error('connection lost');
+        }
+        return driver.run(sql, params);
+      },
+      all: (sql, params) => driver.all(sql, params),
+    };
+    const store = new SqlTaskStore(flakyDriver);
+
+    await expect(store.load('task-1')).rejects.toThrow('connection lost');
+    expect(await store.load('task-1')).to.be.undefined;
+  });
+});
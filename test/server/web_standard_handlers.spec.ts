@@ -19,6 +19,8 @@ import { AgentCard, JSONRPCSuccessResponse, JSONRPCErrorResponse } from '../../s
 import { A2AError } from '../../src/server/error.js';
 import { ServerCallContext } from '../../src/server/context.js';
 import { UnauthenticatedUser, User } from '../../src/server/authentication/user.js';
+import { SecuritySchemeVerifier } from '../../src/server/authentication/security_schemes.js';
+import { UserBuilder } from '../../src/server/web-standard/types.js';
 import {
   testAgentCard,
   createMockRequestHandler,
@@ -62,6 +64,28 @@ describe('Web-Standard Handlers', () => {
       assert.deepEqual(body, { error: 'Failed to retrieve agent card' });
     });
 
+    it('should answer 304 Not Modified while the agent card is unchanged', async () => {
+      const handler = createAgentCardHandler(mockRequestHandler);
+      const url = 'http://localhost/.well-known/agent-card.json';
+
+      const first = await handler(new Request(url));
+      const etag = first.headers.get('ETag')!;
+      const notModified = await handler(
+        new Request(url, { headers: { 'If-None-Match': `"other", ${etag}` } })
+      );
+      (mockRequestHandler.getAgentCard as SinonStub).resolves({
+        ...testAgentCard,
+        version: '2.0.0',
+      });
+      const modified = await handler(new Request(url, { headers: { 'If-None-Match': etag } }));
+
+      assert.equal(notModified.status, 304);
+      assert.equal(notModified.headers.get('ETag'), etag);
+      assert.equal(await notModified.text(), '');
+      assert.equal(modified.status, 200);
+      assert.notEqual(modified.headers.get('ETag'), etag);
+    });
+
     it('should use custom agentCardProvider function when provided', async () => {
       const customCard: AgentCard = {
         ...testAgentCard,
@@ -300,6 +324,38 @@ describe('Web-Standard Handlers', () => {
       ]);
     });
 
+    it('should derive the request deadline from the timeout header', async () => {
+      handleStub.resolves({ jsonrpc: '2.0', id: 'test-id', result: {} });
+      const handler = createJsonRpcHandler(mockRequestHandler);
+      const request = new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-A2A-Timeout': '30000' },
+        body: JSON.stringify(createRpcRequest('test-id')),
+      });
+
+      const before = Date.now();
+      await handler(request);
+
+      const serverCallContext: ServerCallContext = handleStub.getCall(0).args[1];
+      expect(serverCallContext.deadline).toBeGreaterThanOrEqual(before + 30000);
+      expect(serverCallContext.deadline).toBeLessThanOrEqual(Date.now() + 30000);
+    });
+
+    it('should ignore timeouts longer than the longest supported one', async () => {
+      handleStub.resolves({ jsonrpc: '2.0', id: 'test-id', result: {} });
+      const handler = createJsonRpcHandler(mockRequestHandler);
+      const request = new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-A2A-Timeout': '9'.repeat(400) },
+        body: JSON.stringify(createRpcRequest('test-id')),
+      });
+
+      await handler(request);
+
+      const serverCallContext: ServerCallContext = handleStub.getCall(0).args[1];
+      expect(serverCallContext.deadline).toBeUndefined();
+    });
+
     it('should handle extensions headers in response', async () => {
       const mockResponse: JSONRPCSuccessResponse = {
         jsonrpc: '2.0',
@@ -371,6 +427,46 @@ describe('Web-Standard Handlers', () => {
       expect(serverCallContext.user.isAuthenticated).toBe(true);
       expect(serverCallContext.user.userName).toBe('token-user');
     });
+
+    it('should answer 401 with a challenge when the security requirements are not met', async () => {
+      const securedCard: AgentCard = {
+        ...testAgentCard,
+        securitySchemes: {
+          apiKey: { type: 'apiKey', in: 'query', name: 'key' },
+          basic: { type: 'http', scheme: 'basic' },
+        },
+        security: [{ apiKey: [] }, { basic: [] }],
+      };
+      const userBuilder = UserBuilder.securitySchemes(securedCard, {
+        apiKey: SecuritySchemeVerifier.apiKey(async (key) =>
+          key === 'valid' ? { userName: 'key-user' } : undefined
+        ),
+      });
+      handleStub.resolves({ jsonrpc: '2.0', id: 'test-id', result: {} });
+      const handler = createJsonRpcHandler(mockRequestHandler, { userBuilder });
+      const post = (url: string) =>
+        handler(
+          new Request(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: 'Bearer x' },
+            body: JSON.stringify(createRpcRequest('test-id')),
+          })
+        );
+
+      const rejected = await post('http://localhost/?key=invalid');
+      const admitted = await post('http://localhost/?key=valid');
+
+      assert.equal(rejected.status, 401);
+      assert.equal(
+        rejected.headers.get('WWW-Authenticate'),
+        'Basic realm="Test Agent", charset="UTF-8"'
+      );
+      const body = (await rejected.json()) as JSONRPCErrorResponse;
+      assert.equal(body.error.code, -32013);
+      assert.equal(handleStub.callCount, 1);
+      assert.equal(admitted.status, 200);
+      expect(handleStub.getCall(0).args[1].user.userName).toBe('key-user');
+    });
   });
 
   describe('createRestHandlers', () => {
@@ -497,4 +593,3 @@ describe('Web-Standard Handlers', () => {
     });
   });
 });
-
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { ParsedSSEEvent, parseSSEStream } from '../src/sse_utils.js';
+
+const parse = async (text: string): Promise<ParsedSSEEvent[]> => {
+  const events: ParsedSSEEvent[] = [];
+  for await (const event of parseSSEStream(new Response(text).body!)) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('parseSSEStream', () => {
+  it('should parse events split over multiple fields', async () => {
+    expect(await parse('id: 1\nevent: error\ndata: first\ndata: second\n\n')).to.deep.equal([
+      { id: '1', event: 'error', data: 'first\nsecond' },
+    ]);
+  });
+
+  it('should only strip the single space following data:', async () => {
+    expect(await parse('data:  indented\ndata:unspaced\ndata: \n\n')).to.deep.equal([
+      { id: undefined, event: 'message', data: ' indented\nunspaced\n' },
+    ]);
+  });
+});
@@ -0,0 +1,270 @@
+import { randomBytes } from 'crypto';
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import sinon from 'sinon';
+import {
+  AgentCard,
+  Span,
+  SpanContext,
+  SpanKind,
+  SpanOptions,
+  SpanStatusCode,
+  Task,
+  Tracer,
+  formatTraceparent,
+  parseTraceparent,
+} from '../src/index.js';
+import {
+  DefaultPushNotificationSender,
+  DefaultRequestHandler,
+  ExecutionEventBus,
+  InMemoryPushNotificationStore,
+  InMemoryTaskStore,
+  RequestContext,
+  TracingTaskStore,
+} from '../src/server/index.js';
+import { createJsonRpcHandler } from '../src/server/web-standard/handlers.js';
+import { RestTransportHandler } from '../src/server/transports/rest/rest_transport_handler.js';
+import { ServerCallContext } from '../src/server/context.js';
+import {
+  Client,
+  ClientCallContext,
+  JsonRpcTransport,
+  TracingInterceptor,
+  withTraceContext,
+} from '../src/client/index.js';
+import { MockAgentExecutor } from './server/mocks/agent-executor.mock.js';
+
+interface RecordedSpan {
+  name: string;
+  options: SpanOptions;
+  context: SpanContext;
+  status?: { code: SpanStatusCode; message?: string };
+  ended: boolean;
+}
+
+class RecordingTracer implements Tracer {
+  readonly spans: RecordedSpan[] = [];
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const recorded: RecordedSpan = {
+      name,
+      options,
+      context: {
+        traceId: options.parent?.traceId ?? randomBytes(16).toString('hex'),
+        spanId: randomBytes(8).toString('hex'),
+        traceFlags: 1,
+      },
+      ended: false,
+    };
+    this.spans.push(recorded);
+    return {
+      spanContext: () => recorded.context,
+      setAttribute: (key, value) => {
+        recorded.options.attributes = { ...recorded.options.attributes, [key]: value };
+      },
+      setStatus: (status) => {
+        recorded.status = status;
+      },
+      recordException: () => {},
+      end: () => {
+        recorded.ended = true;
+      },
+    };
+  }
+
+  span(name: string): RecordedSpan {
+    const span = this.spans.find((span) => span.name === name);
+    expect(span, `span ${name}`).toBeDefined();
+    return span!;
+  }
+}
+
+const agentCard: AgentCard = {
+  protocolVersion: '0.3.0',
+  name: 'Traced Agent',
+  description: 'An agent for testing tracing',
+  url: 'http://localhost/a2a',
+  version: '1.0.0',
+  capabilities: { streaming: true, pushNotifications: false },
+  defaultInputModes: ['text/plain'],
+  defaultOutputModes: ['text/plain'],
+  skills: [],
+};
+
+describe('Tracing', () => {
+  let tracer: RecordingTracer;
+  let agentExecutor: MockAgentExecutor;
+  let requestHandler: DefaultRequestHandler;
+
+  beforeEach(() => {
+    tracer = new RecordingTracer();
+    agentExecutor = new MockAgentExecutor();
+    agentExecutor.execute.callsFake(async (ctx: RequestContext, bus: ExecutionEventBus) => {
+      bus.publish({
+        kind: 'task',
+        id: ctx.taskId,
+        contextId: ctx.contextId,
+        status: { state: 'completed' },
+      });
+      bus.finished();
+    });
+    requestHandler = new DefaultRequestHandler(
+      agentCard,
+      new TracingTaskStore(new InMemoryTaskStore(), tracer),
+      agentExecutor,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { tracer }
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('should parse and format W3C traceparent headers', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    expect(parseTraceparent(traceparent)).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+    });
+    expect(formatTraceparent(parseTraceparent(traceparent)!)).toBe(traceparent);
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBe(
+      undefined
+    );
+    expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBe(
+      undefined
+    );
+    expect(parseTraceparent(undefined)).toBe(undefined);
+  });
+
+  it('should record a single trace from the client call to the agent execution', async () => {
+    const jsonRpcHandler = createJsonRpcHandler(requestHandler);
+    const transport = new JsonRpcTransport({
+      endpoint: agentCard.url,
+      fetchImpl: (input, init) => jsonRpcHandler(new Request(input, init)),
+    });
+    const client = new Client(transport, agentCard, {
+      interceptors: [new TracingInterceptor(tracer)],
+    });
+    const caller: SpanContext = {
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+    };
+
+    const result = await client.sendMessage(
+      {
+        message: {
+          kind: 'message',
+          messageId: 'm1',
+          role: 'user',
+          parts: [{ kind: 'text', text: 'hi' }],
+        },
+      },
+      { context: ClientCallContext.create(withTraceContext(caller)) }
+    );
+
+    expect((result as Task).status.state).toBe('completed');
+    const clientSpan = tracer.span('Client.sendMessage');
+    const serverSpan = tracer.span('message/send');
+    const executionSpan = tracer.span('AgentExecutor.execute');
+    const storeSpans = tracer.spans.filter((span) => span.name.startsWith('TaskStore.'));
+    expect(clientSpan.options).toMatchObject({ kind: SpanKind.CLIENT, parent: caller });
+    expect(serverSpan.options).toMatchObject({
+      kind: SpanKind.SERVER,
+      parent: clientSpan.context,
+      attributes: { 'rpc.system': 'jsonrpc', 'rpc.method': 'message/send' },
+    });
+    expect(executionSpan.options.parent).toEqual(serverSpan.context);
+    expect(storeSpans).not.toHaveLength(0);
+    for (const storeSpan of storeSpans) {
+      expect(storeSpan.options.parent).toEqual(serverSpan.context);
+    }
+    expect(new Set(tracer.spans.map((span) => span.context.traceId))).toEqual(
+      new Set([caller.traceId])
+    );
+    expect(tracer.spans.every((span) => span.ended)).toBe(true);
+  });
+
+  it('should end the client spans of failed calls with an error status', async () => {
+    const transport = new JsonRpcTransport({
+      endpoint: agentCard.url,
+      fetchImpl: () => Promise.reject(new TypeError('fetch failed')),
+    });
+    const client = new Client(transport, agentCard, {
+      interceptors: [new TracingInterceptor(tracer)],
+    });
+    const params = {
+      message: {
+        kind: 'message' as const,
+        messageId: 'm1',
+        role: 'user' as const,
+        parts: [{ kind: 'text' as const, text: 'hi' }],
+      },
+    };
+
+    await expect(client.sendMessage(params)).rejects.toThrow();
+    await expect(client.sendMessageStream(params).next()).rejects.toThrow();
+
+    const spans = tracer.spans.filter((span) => span.name.startsWith('Client.'));
+    expect(spans.map((span) => span.name)).toEqual([
+      'Client.sendMessage',
+      'Client.sendMessageStream',
+    ]);
+    for (const span of spans) {
+      expect(span.ended).toBe(true);
+      expect(span.status?.code).toBe(SpanStatusCode.ERROR);
+    }
+  });
+
+  it('should record REST calls under their route and failed calls with an error status', async () => {
+    const restHandler = new RestTransportHandler(requestHandler);
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    await expect(
+      restHandler.getTask(
+        'unknown',
+        new ServerCallContext(undefined, undefined, undefined, parseTraceparent(traceparent))
+      )
+    ).rejects.toThrow();
+
+    const span = tracer.span('GET /v1/tasks/:taskId');
+    expect(span.options).toMatchObject({
+      kind: SpanKind.SERVER,
+      parent: parseTraceparent(traceparent),
+      attributes: { 'http.request.method': 'GET', 'http.route': '/v1/tasks/:taskId' },
+    });
+    expect(span.status?.code).toBe(SpanStatusCode.ERROR);
+    expect(span.ended).toBe(true);
+  });
+
+  it('should propagate the trace of push deliveries to webhooks', async () => {
+    const fetchStub = sinon.stub(globalThis, 'fetch').resolves(new Response(null, { status: 200 }));
+    const pushNotificationStore = new InMemoryPushNotificationStore();
+    await pushNotificationStore.save('task-1', { url: 'https://hooks.test/a2a' });
+    const sender = new DefaultPushNotificationSender(pushNotificationStore, {
+      urlValidator: { validate: async () => {} },
+      tracer,
+    });
+
+    await sender.send({
+      kind: 'task',
+      id: 'task-1',
+      contextId: 'ctx-1',
+      status: { state: 'completed' },
+    });
+    await sender.shutdown();
+
+    const span = tracer.span('PushNotification.deliver');
+    expect(span.options.kind).toBe(SpanKind.CLIENT);
+    expect(span.ended).toBe(true);
+    expect(fetchStub.firstCall.args[1]?.headers).toMatchObject({
+      traceparent: formatTraceparent(span.context),
+    });
+  });
+});